@@ -10,10 +10,33 @@ import enrollmentRoutes from "./routes/enrollment.routes";
 import paymentRoutes from "./routes/payment.routes";
 import reviewRoutes from "./routes/review.routes";
 import cacheRoutes from './routes/cache.routes';
+import checkoutRoutes from './routes/checkout.routes';
+import couponRoutes from './routes/coupon.routes';
+import exchangeRateRoutes from './routes/exchange-rate.routes';
+import earningsRoutes from './routes/earnings.routes';
+import payoutRoutes from './routes/payout.routes';
+import refundRequestRoutes from './routes/refund-request.routes';
+import refundPolicyRoutes from './routes/refund-policy.routes';
+import subscriptionPlanRoutes from './routes/subscription-plan.routes';
+import subscriptionRoutes from './routes/subscription.routes';
+import bundleRoutes from './routes/bundle.routes';
+import cartRoutes from './routes/cart.routes';
+import enrollmentCodeRoutes from './routes/enrollment-code.routes';
+import taxRateRoutes from './routes/tax-rate.routes';
+import referralRoutes from './routes/referral.routes';
+import disputeRoutes from './routes/dispute.routes';
+import financeRoutes from './routes/finance.routes';
+import paymentReviewRoutes from './routes/payment-review.routes';
+import saleRoutes from './routes/sale.routes';
 import { errorHandler } from './middleware/error.middleware';
+import { captureRawBody } from './middleware/webhook.middleware';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import RedisClient from './config/redis';
+import checkoutService from './services/checkout.service';
+import paymentService from './services/payment.service';
+import saleService from './services/sale.service';
+import subscriptionService from './services/subscription.service';
 import categoryService from './services/category.service';
 // Import models to initialize associations
 import "./models/index";
@@ -26,7 +49,7 @@ const port = process.env.PORT || 4322;
 
 // Middleware
 app.use(morgan("dev"));
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
 const swaggerOptions = {
@@ -99,6 +122,24 @@ app.use("/api/enrollments", enrollmentRoutes);
 app.use("/api/payments", paymentRoutes);
 app.use("/api/reviews", reviewRoutes);
 app.use('/api/cache', cacheRoutes);
+app.use('/api/checkout', checkoutRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/earnings', earningsRoutes);
+app.use('/api/payouts', payoutRoutes);
+app.use('/api/refund-requests', refundRequestRoutes);
+app.use('/api/refund-policies', refundPolicyRoutes);
+app.use('/api/subscription-plans', subscriptionPlanRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/bundles', bundleRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/enrollment-codes', enrollmentCodeRoutes);
+app.use('/api/tax-rates', taxRateRoutes);
+app.use('/api/referrals', referralRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/finance', financeRoutes);
+app.use('/api/payment-reviews', paymentReviewRoutes);
+app.use('/api/sales', saleRoutes);
 
 // Error handling middleware must be after all routes
 app.use(errorHandler);
@@ -125,11 +166,59 @@ async function initializeApp() {
   }
 }
 
+// Run `sweep` in the background every `intervalEnv` minutes, skipping a run while the last
+// one is still going. 0 turns it off (e.g. when a scheduler calls the admin endpoint instead).
+// The summary is logged when anything was processed.
+function scheduleSweep(
+  name: string,
+  intervalEnv: string,
+  defaultMinutes: number,
+  sweep: () => Promise<object>
+) {
+  const minutes = parseInt(process.env[intervalEnv] || String(defaultMinutes), 10);
+  if (!minutes) {
+    return;
+  }
+
+  let running = false;
+  setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const summary = await sweep();
+      if (Object.values(summary).some(Boolean)) {
+        console.log(`🧹 ${name} processed:`, summary);
+      }
+    } catch (error) {
+      console.error(`❌ Processing ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  }, minutes * 60 * 1000);
+}
+
 app.listen(port, async () => {
   console.log(`🚀 Express is listening at http://localhost:${port}/api-docs`);
 
   // Initialize Redis and cache after server starts
   await initializeApp();
+  // Stale checkouts can also be expired through POST /api/checkout/stale, sales started and
+  // ended through POST /api/sales/process, subscriptions renewed through
+  // POST /api/subscriptions/renewals, paid-out refunds completed through
+  // POST /api/payments/refunds/pending
+  scheduleSweep('stale checkouts', 'CHECKOUT_SWEEP_INTERVAL_MINUTES', 5, () =>
+    checkoutService.processStaleCheckouts()
+  );
+  scheduleSweep('sales', 'SALE_SWEEP_INTERVAL_MINUTES', 1, () => saleService.processSales());
+  scheduleSweep('subscriptions', 'SUBSCRIPTION_SWEEP_INTERVAL_MINUTES', 60, () =>
+    subscriptionService.processDueSubscriptions()
+  );
+  scheduleSweep('pending refunds', 'REFUND_SWEEP_INTERVAL_MINUTES', 15, () =>
+    paymentService.processPendingRefunds()
+  );
 
   console.log('✅ Application fully initialized');
 });
@@ -0,0 +1,152 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import bundleService from '../services/bundle.service';
+
+class BundleController {
+  // Create a bundle
+  async createBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const bundle = await bundleService.createBundle(
+        req.body,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Bundle created successfully',
+        data: bundle,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List bundles
+  async getBundles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = req.user?.roles || [];
+      const { page, limit, instructor_id, include_inactive } = req.query;
+
+      const result = await bundleService.getBundles(
+        {
+          page: page ? parseInt(page as string, 10) : undefined,
+          limit: limit ? parseInt(limit as string, 10) : undefined,
+          instructor_id: instructor_id as string | undefined,
+          include_inactive: include_inactive === 'true',
+        },
+        req.user?.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a bundle
+  async getBundleById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = req.user?.roles || [];
+
+      const bundle = await bundleService.getBundleById(
+        req.params.id,
+        req.user?.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: bundle,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Quote a bundle for the current user
+  async getQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const quote = await bundleService.getQuote(
+        req.params.id,
+        user_id,
+        req.query.currency as string | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a bundle
+  async updateBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const bundle = await bundleService.updateBundle(
+        req.params.id,
+        req.body,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Bundle updated successfully',
+        data: bundle,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a bundle
+  async deleteBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      await bundleService.deleteBundle(req.params.id, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        message: 'Bundle deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new BundleController();
@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import cartService from '../services/cart.service';
+import { getClientCountry } from '../utils/client-country';
+
+class CartController {
+  // Get the current user's cart
+  async getCart(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const cart = await cartService.getCart(
+        user_id,
+        req.query.currency as string | undefined,
+        getClientCountry(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: cart,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add a course to the cart
+  async addItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const cart = await cartService.addItem(
+        user_id,
+        req.body.course_id,
+        req.query.currency as string | undefined,
+        getClientCountry(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Course added to cart',
+        data: cart,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a course from the cart
+  async removeItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const cart = await cartService.removeItem(
+        user_id,
+        req.params.course_id,
+        req.query.currency as string | undefined,
+        getClientCountry(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Course removed from cart',
+        data: cart,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Empty the cart
+  async clearCart(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      await cartService.clearCart(user_id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Cart cleared',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check out the whole cart
+  async checkout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await cartService.checkout(user_id, {
+        ...req.body,
+        country: getClientCountry(req),
+        client: { ip: req.ip, country: getClientCountry(req) },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CartController();
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import checkoutService from '../services/checkout.service';
+import { getClientCountry } from '../utils/client-country';
+
+class CheckoutController {
+  // Create a checkout session
+  async createSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        course_id,
+        bundle_id,
+        payment_method,
+        currency,
+        coupon_code,
+        billing_country,
+        billing_region,
+      } = req.body;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await checkoutService.createSession({
+        user_id,
+        course_id,
+        bundle_id,
+        payment_method,
+        currency,
+        coupon_code,
+        billing: { country: billing_country, region: billing_region },
+        country: getClientCountry(req),
+        client: { ip: req.ip, country: getClientCountry(req) },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get checkout session by ID
+  async getSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await checkoutService.getSessionForUser(
+        id,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Capture the payment for a checkout session
+  async captureSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { payment_token } = req.body;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await checkoutService.captureSession(id, user_id, payment_token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment captured successfully',
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cancel a checkout session
+  async cancelSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await checkoutService.cancelSession(id, user_id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Checkout session canceled',
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Retry a failed or expired checkout session with a new one
+  async retrySession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await checkoutService.retrySession(id, user_id, req.body.payment_method, {
+        ip: req.ip,
+        country: getClientCountry(req),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Expire stale sessions and pending payments, and record abandoned checkouts (admin)
+  async processStaleCheckouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const summary = await checkoutService.processStaleCheckouts(req.body.limit);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List abandoned checkouts (admin)
+  async getAbandonedCheckouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, user_id, recovered, reminder_due } = req.query;
+
+      const result = await checkoutService.getAbandonedCheckouts({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        user_id: user_id as string | undefined,
+        recovered: recovered !== undefined ? recovered === 'true' : undefined,
+        reminder_due: reminder_due === 'true',
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record that a reminder was sent for an abandoned checkout (admin)
+  async markReminded(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const checkout = await checkoutService.markReminded(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Reminder recorded',
+        data: checkout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CheckoutController();
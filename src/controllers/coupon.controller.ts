@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import couponService from '../services/coupon.service';
+
+class CouponController {
+  // Create a coupon
+  async createCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const coupon = await couponService.createCoupon(
+        req.body,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: coupon,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List coupons
+  async getCoupons(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, search, scope, is_active } = req.query;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const result = await couponService.getCoupons(
+        {
+          page: page ? parseInt(page as string, 10) : undefined,
+          limit: limit ? parseInt(limit as string, 10) : undefined,
+          search: search as string,
+          scope: scope as string,
+          is_active: is_active !== undefined ? is_active === 'true' : undefined,
+        },
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get coupon by ID
+  async getCouponById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const coupon = await couponService.getCouponById(id, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        data: coupon,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a coupon
+  async updateCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const coupon = await couponService.updateCoupon(
+        id,
+        req.body,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Coupon updated successfully',
+        data: coupon,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a coupon
+  async deleteCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      await couponService.deleteCoupon(id, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        message: 'Coupon deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check a coupon code against a course
+  async validateCoupon(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code, course_id } = req.body;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const preview = await couponService.previewCoupon(code, course_id, user_id);
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new CouponController();
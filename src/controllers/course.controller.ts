@@ -1,5 +1,27 @@
 import { Request, Response, NextFunction } from "express";
 import courseService from "../services/course.service";
+import pricingService from "../services/pricing.service";
+import saleService from "../services/sale.service";
+import { getClientCountry } from "../utils/client-country";
+import { Role } from "../models/user-role.model";
+import Course from "../models/course.model";
+
+/**
+ * Add what each course is listed at for the buyer making the request: its regional price for
+ * the request's (or the user's profile) country, else its base price
+ */
+const withLocalizedPrices = async (req: Request, courses: Course[]) => {
+  const country = await pricingService.resolveCountry(
+    getClientCountry(req),
+    req.user?.id
+  );
+  const prices = await pricingService.getLocalizedPrices(courses, { country });
+
+  return courses.map((course) => ({
+    ...course.toJSON(),
+    localized_price: prices.get(course.id),
+  }));
+};
 
 class CourseController {
   /**
@@ -64,10 +86,11 @@ class CourseController {
     try {
       const id = req.params.id;
       const course = await courseService.getCourseById(id);
+      const [data] = await withLocalizedPrices(req, [course]);
 
       res.status(200).json({
         success: true,
-        data: course,
+        data,
       });
     } catch (error) {
       next(error);
@@ -262,7 +285,7 @@ class CourseController {
 
       res.status(200).json({
         success: true,
-        data: result.courses,
+        data: await withLocalizedPrices(req, result.courses),
         pagination: {
           total: result.total,
           page,
@@ -302,7 +325,7 @@ class CourseController {
 
       res.status(200).json({
         success: true,
-        data: result.courses,
+        data: await withLocalizedPrices(req, result.courses),
         pagination: {
           total: result.total,
           page,
@@ -345,7 +368,7 @@ class CourseController {
 
       res.status(200).json({
         success: true,
-        data: result.courses,
+        data: await withLocalizedPrices(req, result.courses),
         pagination: {
           total: result.total,
           page,
@@ -378,7 +401,7 @@ class CourseController {
 
       res.status(200).json({
         success: true,
-        data: result.courses,
+        data: await withLocalizedPrices(req, result.courses),
         pagination: {
           total: result.total,
           page,
@@ -390,6 +413,186 @@ class CourseController {
       next(error);
     }
   }
+
+  /**
+   * Get the per-currency prices of a course
+   */
+  async getCoursePrices(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const prices = await pricingService.getCoursePrices(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: prices,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set the price of a course in another currency
+   */
+  async setCoursePrice(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id, currency } = req.params;
+      const roles = req.user?.roles || [];
+
+      const price = await pricingService.setCoursePrice(
+        id,
+        currency,
+        req.body.amount,
+        req.user!.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Course price updated successfully",
+        data: price,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove the price of a course in another currency
+   */
+  async deleteCoursePrice(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id, currency } = req.params;
+      const roles = req.user?.roles || [];
+
+      await pricingService.deleteCoursePrice(
+        id,
+        currency,
+        req.user!.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Course price deleted successfully",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the regional prices of a course
+   */
+  async getRegionalPrices(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const prices = await pricingService.getRegionalPrices(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: prices,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set the price of a course for buyers in one or more countries
+   */
+  async setRegionalPrices(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { countries, currency, amount } = req.body;
+      const roles = req.user?.roles || [];
+
+      const prices = await pricingService.setRegionalPrices(
+        req.params.id,
+        { countries, currency, amount },
+        req.user!.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Regional prices updated successfully",
+        data: prices,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove the regional price of a course for a country
+   */
+  async deleteRegionalPrice(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id, country } = req.params;
+      const roles = req.user?.roles || [];
+
+      await pricingService.deleteRegionalPrice(
+        id,
+        country,
+        req.user!.id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Regional price deleted successfully",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the price changes of a course, latest first
+   */
+  async getPriceHistory(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { page, limit } = req.query;
+
+      const result = await saleService.getPriceHistory(req.params.id, {
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new CourseController();
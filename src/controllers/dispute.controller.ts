@@ -0,0 +1,125 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import disputeService from '../services/dispute.service';
+
+class DisputeController {
+  // Open a dispute on a payment
+  async openDispute(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const dispute = await disputeService.openDispute(req.body, user_id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Dispute opened',
+        data: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List disputes
+  async getDisputes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, payment_id } = req.query;
+
+      const result = await disputeService.getDisputes({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string | undefined,
+        payment_id: payment_id as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a dispute with its evidence
+  async getDispute(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dispute = await disputeService.getDispute(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Attach evidence to a dispute
+  async addEvidence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const evidence = await disputeService.addEvidence(req.params.id, user_id, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence added',
+        data: evidence,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Mark the evidence as submitted to the provider
+  async submitEvidence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dispute = await disputeService.submitEvidence(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Evidence submitted',
+        data: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record whether the dispute was won or lost
+  async resolveDispute(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const dispute = await disputeService.resolveDispute(req.params.id, req.body.outcome, {
+        changed_by: user_id,
+        source: PaymentStatusChangeSource.ADMIN,
+        note: req.body.note,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `Dispute marked as ${dispute.status}`,
+        data: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new DisputeController();
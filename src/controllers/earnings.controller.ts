@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import ledgerService from '../services/ledger.service';
+import payoutService from '../services/payout.service';
+
+/**
+ * Instructor whose earnings are requested: admins may pick any instructor,
+ * instructors only see their own
+ */
+const resolveInstructorId = (req: Request): string => {
+  const user_id = req.user?.id;
+  const roles = req.user?.roles || [];
+  const requested = req.query.instructor_id as string | undefined;
+
+  if (!user_id) {
+    throw new ApiError(401, 'Not authenticated');
+  }
+
+  if (roles.includes(Role.ADMIN)) {
+    return requested || user_id;
+  }
+
+  if (requested && requested !== user_id) {
+    throw new ApiError(403, 'Instructor can only view their own earnings');
+  }
+
+  return user_id;
+};
+
+class EarningsController {
+  // Get an instructor's earnings summary
+  async getSummary(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const instructor_id = resolveInstructorId(req);
+      const summary = await ledgerService.getEarningsSummary(instructor_id);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get an instructor's earnings statement
+  async getStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const instructor_id = resolveInstructorId(req);
+      const { page, limit, start_date, end_date } = req.query;
+
+      const statement = await ledgerService.getStatement(instructor_id, {
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        start_date: start_date ? new Date(start_date as string) : undefined,
+        end_date: end_date ? new Date(end_date as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { instructor_id, ...statement },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get payouts made to an instructor
+  async getPayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const instructor_id = resolveInstructorId(req);
+      const { page, limit, status } = req.query;
+
+      const result = await payoutService.getInstructorPayouts(instructor_id, {
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List revenue-share rules
+  async getRevenueShareRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, instructor_id } = req.query;
+
+      const result = await ledgerService.getRevenueShareRules({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        instructor_id: instructor_id as string,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Set a revenue-share rule
+  async setRevenueShareRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { instructor_id, instructor_share_percent, effective_from, note } = req.body;
+      const rule = await ledgerService.setRevenueShareRule(
+        { instructor_id, instructor_share_percent, effective_from, note },
+        user_id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new EarningsController();
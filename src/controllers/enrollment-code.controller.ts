@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import enrollmentCodeService from '../services/enrollment-code.service';
+import { getClientCountry } from '../utils/client-country';
+
+class EnrollmentCodeController {
+  // Buy a course as a gift
+  async purchaseGift(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const session = await enrollmentCodeService.purchaseGift(user_id, req.body, {
+        ip: req.ip,
+        country: getClientCountry(req),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Gift codes bought by the current user
+  async getPurchasedGifts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const gifts = await enrollmentCodeService.getPurchasedGifts(user_id);
+
+      res.status(200).json({
+        success: true,
+        data: gifts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Generate a batch of codes
+  async createBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const batch = await enrollmentCodeService.createBatch(user_id, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Codes generated successfully',
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List code batches
+  async getBatches(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, course_id } = req.query;
+
+      const result = await enrollmentCodeService.getBatches({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        course_id: course_id as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a code batch with its codes
+  async getBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batch = await enrollmentCodeService.getBatch(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Revoke the unused codes of a batch
+  async revokeBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batch = await enrollmentCodeService.revokeBatch(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Unused codes revoked',
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new EnrollmentCodeController();
@@ -3,6 +3,7 @@ import { ApiError } from '../utils/api-error';
 import { Role } from '../models/user-role.model';
 import enrollmentService from '../services/enrollment.service';
 import courseService from '../services/course.service';
+import enrollmentCodeService from '../services/enrollment-code.service';
 class EnrollmentController {
   // Create a new enrollment
   async createEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -14,16 +15,74 @@ class EnrollmentController {
         throw new ApiError(401, 'Not authenticated');
       }
 
-      // Check if course exists and is published
-      const course = await courseService.getCourseById(course_id);
-      if (!course.is_published || !course.is_approved) {
-        throw new ApiError(400, 'Course is not available for enrollment');
+      // Free courses enroll directly; paid ones need a payment or subscription
+      const enrollment = await enrollmentService.enroll(user_id, course_id);
+
+      res.status(201).json({
+        success: true,
+        data: enrollment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Grant an enrollment without payment (admin only)
+  async compEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const admin_id = req.user?.id;
+
+      if (!admin_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { user_id, course_id, reason } = req.body;
+      const enrollment = await enrollmentService.compEnrollment(
+        admin_id,
+        user_id,
+        course_id,
+        reason
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Enrollment granted successfully',
+        data: enrollment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Lift the suspension of an enrollment (admin only)
+  async reinstateEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const enrollment = await enrollmentService.reinstateEnrollment(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Enrollment reinstated successfully',
+        data: enrollment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Redeem a gift or event code
+  async redeemCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
       }
 
-      const enrollment = await enrollmentService.createEnrollment(user_id, course_id);
+      const enrollment = await enrollmentCodeService.redeemCode(user_id, req.body.code);
 
       res.status(201).json({
         success: true,
+        message: 'Code redeemed successfully',
         data: enrollment,
       });
     } catch (error) {
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import currencyService, { BASE_CURRENCY } from '../services/currency.service';
+
+class ExchangeRateController {
+  // Record the rate for a currency on a day
+  async setRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { currency, rate, effective_date, source } = req.body;
+      const exchangeRate = await currencyService.setRate(
+        { currency, rate, effective_date, source },
+        user_id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: exchangeRate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List rate history
+  async getRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, currency, start_date, end_date } = req.query;
+
+      const result = await currencyService.getRateHistory({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        currency: currency as string,
+        start_date: start_date as string,
+        end_date: end_date as string,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { base_currency: BASE_CURRENCY, ...result },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List currencies that have a rate
+  async getCurrencies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const currencies = await currencyService.getSupportedCurrencies();
+
+      res.status(200).json({
+        success: true,
+        data: { base_currency: BASE_CURRENCY, currencies },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a rate entry
+  async deleteRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await currencyService.deleteRate(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Exchange rate deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ExchangeRateController();
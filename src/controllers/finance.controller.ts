@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { toVNDateRange } from '../utils/date';
+import reconciliationService from '../services/reconciliation.service';
+import financeExportService from '../services/finance-export.service';
+
+const getExportFilters = (req: Request) => {
+  const { start_date, end_date, status, instructor_id } = req.query;
+
+  return {
+    start_date: start_date ? toVNDateRange(start_date as string) : undefined,
+    end_date: end_date ? toVNDateRange(end_date as string, true) : undefined,
+    status: status as string | undefined,
+    instructor_id: instructor_id as string | undefined,
+  };
+};
+
+/**
+ * Stream a CSV download. Headers go out with the first write, which the exports make only
+ * after their first query, so a failure before that is answered with an error. Once rows have
+ * been sent the status can no longer change, so a failure part way cuts the download short.
+ */
+const streamCsv = async (
+  res: Response,
+  next: NextFunction,
+  name: string,
+  write: (out: Response) => Promise<void>
+): Promise<void> => {
+  try {
+    const date = new Date().toISOString().slice(0, 10);
+    res.status(200);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}-${date}.csv"`);
+
+    await write(res);
+    res.end();
+  } catch (error) {
+    if (!res.headersSent) {
+      next(error);
+      return;
+    }
+
+    console.error(`Export of ${name} failed:`, error);
+    res.destroy(error as Error);
+  }
+};
+
+class FinanceController {
+  // Import a provider settlement file and reconcile it
+  async importSettlement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      if (!req.file) {
+        throw new ApiError(400, 'Settlement file is required');
+      }
+
+      const run = await reconciliationService.importSettlement(req.file, user_id, {
+        period_start: toVNDateRange(req.body.period_start),
+        period_end: toVNDateRange(req.body.period_end, true),
+        payment_method: req.body.payment_method || undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Settlement file reconciled',
+        data: run,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List reconciliation runs
+  async getReconciliations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, payment_method } = req.query;
+
+      const result = await reconciliationService.getRuns({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        payment_method: payment_method as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a reconciliation run with the transactions that did not match
+  async getReconciliation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, issue } = req.query;
+
+      const result = await reconciliationService.getRun(req.params.id, {
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        issue: issue as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Export payments as CSV
+  async exportPayments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await streamCsv(res, next, 'payments', out =>
+      financeExportService.exportPayments(out, getExportFilters(req))
+    );
+  }
+
+  // Export refunds as CSV
+  async exportRefunds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await streamCsv(res, next, 'refunds', out =>
+      financeExportService.exportRefunds(out, getExportFilters(req))
+    );
+  }
+}
+
+export default new FinanceController();
@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import paymentReviewService from '../services/payment-review.service';
+
+class PaymentReviewController {
+  // List payments held by fraud screening
+  async getReviews(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await paymentReviewService.getReviews({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a held payment with the rules it tripped
+  async getReview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const screening = await paymentReviewService.getReview(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: screening,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve a held payment
+  async approve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const screening = await paymentReviewService.approve(req.params.id, user_id, req.body.note);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment approved',
+        data: screening,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reject a held payment
+  async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const screening = await paymentReviewService.reject(req.params.id, user_id, req.body.note);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment rejected',
+        data: screening,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PaymentReviewController();
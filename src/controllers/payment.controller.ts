@@ -5,14 +5,28 @@ import { Role } from '../models/user-role.model';
 import { PaymentStatus } from '../models/payment.model';
 import paymentService from '../services/payment.service';
 import courseService from '../services/course.service';
+import pricingService from '../services/pricing.service';
+import currencyService from '../services/currency.service';
+import invoiceService from '../services/invoice.service';
 import { toVNDateRange } from '../utils/date';
-import enrollmentService from '../services/enrollment.service';
+import { InvoiceFormat } from '../types/invoice.types';
+import webhookService from '../services/webhook.service';
+import { getClientCountry } from '../utils/client-country';
+import { isPaymentInstructor } from '../utils/payment-instructor';
 
 class PaymentController {
   // Create a new payment
   async createPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { course_id, amount, currency = 'USD', payment_method } = req.body;
+      const {
+        course_id,
+        amount,
+        currency,
+        payment_method,
+        coupon_code,
+        billing_country,
+        billing_region,
+      } = req.body;
       const user_id = req.user?.id;
 
       if (!user_id) {
@@ -25,23 +39,25 @@ class PaymentController {
         throw new ApiError(400, 'Course is not available for purchase');
       }
 
-      // Check amount is not less than course price
-      if (amount < course.price) {
-        throw new ApiError(400, 'Amount is less than course price');
-      }
-
-      const paymentAmount = amount;
-
+      // Rejected unless the amount matches the server-computed quote
       const payment = await paymentService.createPayment(
         user_id,
         course_id,
-        paymentAmount,
+        amount,
         currency,
-        payment_method
+        payment_method,
+        coupon_code,
+        { country: billing_country, region: billing_region },
+        undefined,
+        undefined,
+        { ip: req.ip, country: getClientCountry(req) }
       );
 
       res.status(201).json({
         success: true,
+        ...(payment.status === PaymentStatus.HELD && {
+          message: 'Payment is held for review',
+        }),
         data: payment,
       });
     } catch (error) {
@@ -49,6 +65,35 @@ class PaymentController {
     }
   }
 
+  // Get a price quote for a course
+  async getPriceQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { course_id, currency, coupon_code, billing_country, billing_region } = req.query;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const quote = await pricingService.getQuote(course_id as string, user_id, {
+        currency: currency as string,
+        coupon_code: coupon_code as string,
+        country: await pricingService.resolveCountry(getClientCountry(req), user_id),
+        billing: {
+          country: billing_country as string | undefined,
+          region: billing_region as string | undefined,
+        },
+      });
+
+      res.status(200).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Get payment by ID
   async getPaymentById(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -61,11 +106,11 @@ class PaymentController {
       const isAdmin = roles.includes(Role.ADMIN);
       const isInstructor = roles.includes(Role.INSTRUCTOR);
 
-      // Only allow access if user is the student, the instructor of the course, or an admin
+      // Only allow access if user is the student, the instructor of what was bought, or an admin
       if (
         !isAdmin &&
         payment.user_id !== user_id &&
-        (!isInstructor || (isInstructor && (payment as any).course?.instructor_id !== user_id))
+        (!isInstructor || !isPaymentInstructor(payment, user_id))
       ) {
         throw new ApiError(403, "You don't have permission to view this payment");
       }
@@ -79,6 +124,38 @@ class PaymentController {
     }
   }
 
+  // Download the invoice of a payment, or the credit note of one of its refunds
+  async getInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { refund_id } = req.query;
+      const format = (req.query.format as InvoiceFormat) || 'pdf';
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      // Only the payer and admins can get the invoice
+      const payment = await paymentService.getPaymentById(id);
+      if (payment.user_id !== user_id && !roles.includes(Role.ADMIN)) {
+        throw new ApiError(403, "You don't have permission to view this invoice");
+      }
+
+      const document = await invoiceService.getDocument(id, refund_id as string | undefined);
+      const content = invoiceService.render(document, format);
+
+      if (format === 'pdf') {
+        res.setHeader('Content-Disposition', `attachment; filename="${document.number}.pdf"`);
+      }
+
+      res.status(200).type(format).send(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Get all payments for a user
   async getUserPayments(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -167,15 +244,16 @@ class PaymentController {
   async updatePaymentStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-
-      const payment = await paymentService.updatePaymentStatus(id, status);
+      const { status, reason } = req.body;
+      const user_id = req.user?.id;
 
-      //Check if payments' status is completed => auto create enrollment
-      if (payment.status === PaymentStatus.COMPLETED) {
-        await enrollmentService.createEnrollment(payment.user_id, payment.course_id);
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
       }
 
+      // Enrollment is granted or revoked by the status transition itself
+      const payment = await paymentService.updatePaymentStatus(id, status, user_id, reason);
+
       res.status(200).json({
         success: true,
         message: 'Payment status updated successfully',
@@ -186,13 +264,50 @@ class PaymentController {
     }
   }
 
+  // Get payment status history
+  async getPaymentStatusHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const payment = await paymentService.getPaymentById(id);
+
+      // Same visibility as the payment itself
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+      const isAdmin = roles.includes(Role.ADMIN);
+      const isInstructor = roles.includes(Role.INSTRUCTOR);
+
+      if (
+        !isAdmin &&
+        payment.user_id !== user_id &&
+        (!isInstructor || !isPaymentInstructor(payment, user_id))
+      ) {
+        throw new ApiError(403, "You don't have permission to view this payment");
+      }
+
+      const history = await paymentService.getStatusHistory(id);
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Process refund
   async processRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const { reason, amount } = req.body;
-
-      const refund = await paymentService.processRefund(id, reason, amount);
+      const { reason, amount, override_policy } = req.body;
+
+      const refund = await paymentService.processRefund(
+        id,
+        reason,
+        amount,
+        req.user?.id,
+        override_policy !== true
+      );
 
       res.status(200).json({
         success: true,
@@ -204,6 +319,45 @@ class PaymentController {
     }
   }
 
+  // Complete refunds that were paid out but not posted (admin)
+  async processPendingRefunds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const summary = await paymentService.processPendingRefunds(req.body.limit);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Check whether a payment can be refunded under the refund policy
+  async getRefundEligibility(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const eligibility = await paymentService.getRefundEligibility(
+        req.params.id,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: eligibility,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Get total revenue
   async getTotalRevenue(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -214,12 +368,18 @@ class PaymentController {
         throw new ApiError(403, 'Only admin can view total revenue');
       }
 
-      const totalRevenue = await paymentService.getTotalRevenue();
+      const currency = await currencyService.resolveReportCurrency(
+        req.query.currency as string | undefined
+      );
+      const netOfTax = req.query.net_of_tax === 'true';
+      const revenue = await paymentService.getTotalRevenue(currency, netOfTax);
 
       res.status(200).json({
         success: true,
         data: {
-          total_revenue: totalRevenue,
+          currency,
+          net_of_tax: netOfTax,
+          revenue,
         },
       });
     } catch (error) {
@@ -230,7 +390,7 @@ class PaymentController {
   // Get revenue by time
   async getRevenueByTime(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { start_date, end_date, period } = req.query;
+      const { start_date, end_date, period, currency: requestedCurrency } = req.query;
       const roles = req.user?.roles || [];
 
       // Only admin can view revenue by time
@@ -261,15 +421,23 @@ class PaymentController {
         endDate = new Date();
       }
 
+      const currency = await currencyService.resolveReportCurrency(
+        requestedCurrency as string | undefined
+      );
+      const netOfTax = req.query.net_of_tax === 'true';
       const revenueByTime = await paymentService.getRevenueByTime(
         startDate!,
         endDate!,
-        period as 'day' | 'week' | 'month' | 'year' | undefined
+        period as 'day' | 'week' | 'month' | 'year' | undefined,
+        currency,
+        netOfTax
       );
 
       res.status(200).json({
         success: true,
         data: {
+          currency,
+          net_of_tax: netOfTax,
           revenue: revenueByTime,
         },
       });
@@ -281,7 +449,7 @@ class PaymentController {
   // Get revenue statistics
   async getRevenueStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { start_date, end_date, instructor_id } = req.query;
+      const { start_date, end_date, instructor_id, currency: requestedCurrency } = req.query;
       const user_id = req.user?.id;
       const roles = req.user?.roles || [];
 
@@ -319,16 +487,24 @@ class PaymentController {
         endDate = toVNDateRange(end_date as string, true);
       }
 
+      const currency = await currencyService.resolveReportCurrency(
+        requestedCurrency as string | undefined
+      );
+      const netOfTax = req.query.net_of_tax === 'true';
       const statistics = await paymentService.getRevenueStatistics(
         startDate,
         endDate,
-        targetInstructorId
+        targetInstructorId,
+        currency,
+        netOfTax
       );
 
       res.status(200).json({
         success: true,
         data: {
           instructor_id: targetInstructorId,
+          currency,
+          net_of_tax: netOfTax,
           statistics,
         },
       });
@@ -341,7 +517,7 @@ class PaymentController {
   async getInstructorRevenue(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { instructorId } = req.params;
-      const { start_date, end_date } = req.query;
+      const { start_date, end_date, currency: requestedCurrency } = req.query;
       const user_id = req.user?.id;
       const roles = req.user?.roles || [];
 
@@ -369,12 +545,24 @@ class PaymentController {
         endDate = toVNDateRange(end_date as string, true);
       }
 
-      const revenue = await paymentService.getInstructorRevenue(instructorId, startDate!, endDate!);
+      const currency = await currencyService.resolveReportCurrency(
+        requestedCurrency as string | undefined
+      );
+      const netOfTax = req.query.net_of_tax === 'true';
+      const revenue = await paymentService.getInstructorRevenue(
+        instructorId,
+        startDate!,
+        endDate!,
+        currency,
+        netOfTax
+      );
 
       res.status(200).json({
         success: true,
         data: {
           instructor_id: instructorId,
+          currency,
+          net_of_tax: netOfTax,
           revenue,
         },
       });
@@ -386,7 +574,7 @@ class PaymentController {
   // Get highest revenue courses
   async getHighestRevenueCourses(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { page, limit, start_date, end_date } = req.query;
+      const { page, limit, start_date, end_date, currency: requestedCurrency } = req.query;
 
       let startDate = start_date ? new Date(start_date as string) : undefined;
       let endDate = end_date ? new Date(end_date as string) : undefined;
@@ -400,16 +588,42 @@ class PaymentController {
         endDate = toVNDateRange(end_date as string, true);
       }
 
-      const courses = await paymentService.getHighestRevenueCourses({
-        page: page ? parseInt(page as string) : undefined,
-        limit: limit ? parseInt(limit as string) : undefined,
-        start_date: startDate!,
-        end_date: endDate!,
+      const currency = await currencyService.resolveReportCurrency(
+        requestedCurrency as string | undefined
+      );
+      const courses = await paymentService.getHighestRevenueCourses(
+        {
+          page: page ? parseInt(page as string) : undefined,
+          limit: limit ? parseInt(limit as string) : undefined,
+          start_date: startDate!,
+          end_date: endDate!,
+        },
+        currency
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { ...courses, currency },
       });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Receive a signed provider webhook
+  async handleWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider } = req.params;
+
+      const result = await webhookService.handleEvent(provider, req.rawBody!.toString('utf8'));
 
       res.status(200).json({
         success: true,
-        data: courses,
+        data: {
+          event_id: result.event.event_id,
+          status: result.event.status,
+          duplicate: result.duplicate,
+        },
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { PayoutStatus } from '../models/payout.model';
+import payoutService from '../services/payout.service';
+
+class PayoutController {
+  // Create the payout batch for a month
+  async createBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const batch = await payoutService.createBatch(req.body.period, user_id);
+
+      res.status(201).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List payout batches
+  async getBatches(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status } = req.query;
+
+      const result = await payoutService.getBatches({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a payout batch
+  async getBatchById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batch = await payoutService.getBatchById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cancel a payout batch
+  async cancelBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batch = await payoutService.cancelBatch(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Payout batch cancelled successfully',
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record whether a payout was paid or failed
+  async updatePayoutStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, reference, failure_reason } = req.body;
+
+      const payout = await payoutService.updatePayoutStatus(req.params.id, status as PayoutStatus, {
+        reference,
+        failure_reason,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: payout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PayoutController();
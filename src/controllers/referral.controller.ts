@@ -0,0 +1,195 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import referralService from '../services/referral.service';
+
+class ReferralController {
+  // Get or create the current user's referral link
+  async createLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const link = await referralService.createLink(user_id, req.body.course_id);
+
+      res.status(201).json({
+        success: true,
+        data: link,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Links of the current user with their clicks, conversions and commissions
+  async getLinks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const links = await referralService.getLinks(user_id);
+
+      res.status(200).json({
+        success: true,
+        data: links,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change a link's commission rate or switch it off
+  async updateLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const link = await referralService.updateLink(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Referral link updated successfully',
+        data: link,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Record a visit through a referral link
+  async recordClick(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { link } = await referralService.recordClick(req.body.code, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: { code: link.code, course_id: link.course_id },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Clicks, conversions and commissions of the current user
+  async getStats(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const stats = await referralService.getStats(user_id);
+
+      res.status(200).json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Commissions earned by the current user
+  async getMyCommissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { page, limit, status } = req.query;
+
+      const result = await referralService.getCommissions({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string | undefined,
+        affiliate_id: user_id,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List all commissions
+  async getCommissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, affiliate_id } = req.query;
+
+      const result = await referralService.getCommissions({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string | undefined,
+        affiliate_id: affiliate_id as string | undefined,
+        include_buyer: true,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve a pending commission
+  async approveCommission(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const commission = await referralService.approveCommission(
+        req.params.id,
+        user_id,
+        req.body.note
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Commission approved',
+        data: commission,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reject a pending commission
+  async rejectCommission(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const commission = await referralService.rejectCommission(
+        req.params.id,
+        user_id,
+        req.body.note
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Commission rejected',
+        data: commission,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ReferralController();
@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import refundPolicyService from '../services/refund-policy.service';
+
+class RefundPolicyController {
+  // Create a refund policy
+  async createPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const policy = await refundPolicyService.createPolicy(req.body, user_id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Refund policy created successfully',
+        data: policy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List refund policies
+  async getPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, course_id, global, is_active } = req.query;
+
+      const result = await refundPolicyService.getPolicies({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        course_id: global === 'true' ? null : (course_id as string),
+        is_active: is_active !== undefined ? is_active === 'true' : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a refund policy
+  async getPolicyById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = await refundPolicyService.getPolicyById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: policy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a refund policy
+  async updatePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = await refundPolicyService.updatePolicy(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund policy updated successfully',
+        data: policy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a refund policy
+  async deletePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await refundPolicyService.deletePolicy(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund policy deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new RefundPolicyController();
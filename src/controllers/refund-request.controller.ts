@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import refundRequestService from '../services/refund-request.service';
+
+class RefundRequestController {
+  // Ask for a refund
+  async createRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { payment_id, amount, reason } = req.body;
+      const request = await refundRequestService.createRequest(
+        { payment_id, amount, reason },
+        user_id
+      );
+
+      res.status(201).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List refund requests
+  async getRequests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, payment_id } = req.query;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const result = await refundRequestService.getRequests(
+        {
+          page: page ? parseInt(page as string, 10) : undefined,
+          limit: limit ? parseInt(limit as string, 10) : undefined,
+          status: status as string,
+          payment_id: payment_id as string,
+        },
+        user_id,
+        roles.includes(Role.ADMIN),
+        roles.includes(Role.INSTRUCTOR)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a refund request
+  async getRequestById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const request = await refundRequestService.getRequestById(
+        req.params.id,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Withdraw a refund request
+  async cancelRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const request = await refundRequestService.cancelRequest(req.params.id, user_id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund request cancelled successfully',
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve or reject a refund request
+  async reviewRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { status, reviewer_note, amount } = req.body;
+      const request = await refundRequestService.reviewRequest(
+        req.params.id,
+        { status, reviewer_note, amount },
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Retry the refund of an approved request
+  async processRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const request = await refundRequestService.processRequest(req.params.id, user_id);
+
+      res.status(200).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new RefundRequestController();
@@ -0,0 +1,143 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import saleService from '../services/sale.service';
+
+class SaleController {
+  // Schedule a sale
+  async createSale(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const sale = await saleService.createSale(req.body, user_id, roles.includes(Role.ADMIN));
+
+      res.status(201).json({
+        success: true,
+        data: sale,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List sales
+  async getSales(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, scope, scope_id } = req.query;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const result = await saleService.getSales(
+        {
+          page: page ? parseInt(page as string, 10) : undefined,
+          limit: limit ? parseInt(limit as string, 10) : undefined,
+          status: status as string,
+          scope: scope as string,
+          scope_id: scope_id as string,
+        },
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get sale by ID
+  async getSaleById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const sale = await saleService.getSaleById(id, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        data: sale,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a scheduled sale
+  async updateSale(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const sale = await saleService.updateSale(id, req.body, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        message: 'Sale updated successfully',
+        data: sale,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cancel a sale
+  async cancelSale(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const sale = await saleService.cancelSale(id, user_id, roles.includes(Role.ADMIN));
+
+      res.status(200).json({
+        success: true,
+        message: 'Sale canceled successfully',
+        data: sale,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Start and end the sales that are due (admin)
+  async processSales(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const summary = await saleService.processSales(new Date(), req.body.limit);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SaleController();
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '../models/user-role.model';
+import subscriptionService from '../services/subscription.service';
+
+class SubscriptionPlanController {
+  // Create a plan
+  async createPlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const plan = await subscriptionService.createPlan(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Subscription plan created successfully',
+        data: plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List plans; admins can include inactive ones
+  async getPlans(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = req.user?.roles || [];
+      const includeInactive = roles.includes(Role.ADMIN) && req.query.include_inactive === 'true';
+
+      const plans = await subscriptionService.getPlans(includeInactive);
+
+      res.status(200).json({
+        success: true,
+        data: plans,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a plan
+  async getPlanById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const plan = await subscriptionService.getPlanById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a plan
+  async updatePlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const plan = await subscriptionService.updatePlan(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Subscription plan updated successfully',
+        data: plan,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SubscriptionPlanController();
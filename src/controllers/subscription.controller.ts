@@ -0,0 +1,191 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import { Role } from '../models/user-role.model';
+import subscriptionService from '../services/subscription.service';
+
+class SubscriptionController {
+  // Subscribe to a plan
+  async subscribe(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { plan_id, payment_method, payment_token } = req.body;
+      const subscription = await subscriptionService.subscribe(user_id, {
+        plan_id,
+        payment_method,
+        payment_token,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List the current user's subscriptions
+  async getMySubscriptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { page, limit, status } = req.query;
+      const result = await subscriptionService.getSubscriptions({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string,
+        user_id,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List all subscriptions (admin)
+  async getSubscriptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, status, plan_id, user_id } = req.query;
+
+      const result = await subscriptionService.getSubscriptions({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        status: status as string,
+        plan_id: plan_id as string,
+        user_id: user_id as string,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a subscription with its charges
+  async getSubscriptionById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const result = await subscriptionService.getSubscriptionById(
+        req.params.id,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Cancel a subscription at the end of its period
+  async cancelSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+      const roles = req.user?.roles || [];
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const subscription = await subscriptionService.cancelSubscription(
+        req.params.id,
+        user_id,
+        roles.includes(Role.ADMIN)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Subscription cancelled successfully',
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Undo a pending cancellation
+  async resumeSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const subscription = await subscriptionService.resumeSubscription(req.params.id, user_id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Subscription resumed successfully',
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change the payment method, retrying a past-due renewal
+  async updatePaymentMethod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const { payment_method, payment_token } = req.body;
+      const subscription = await subscriptionService.updatePaymentMethod(req.params.id, user_id, {
+        payment_method,
+        payment_token,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Renew, cancel or expire subscriptions whose period has ended (admin)
+  async processRenewals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const summary = await subscriptionService.processDueSubscriptions(req.body.limit);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new SubscriptionController();
@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from '../utils/api-error';
+import taxService from '../services/tax.service';
+
+class TaxRateController {
+  // Create a tax rate
+  async createRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        throw new ApiError(401, 'Not authenticated');
+      }
+
+      const rate = await taxService.createRate(req.body, user_id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tax rate created successfully',
+        data: rate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List tax rates
+  async getRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { page, limit, country_code, is_active } = req.query;
+
+      const result = await taxService.getRates({
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        country_code: country_code as string,
+        is_active: is_active !== undefined ? is_active === 'true' : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a tax rate
+  async getRateById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rate = await taxService.getRateById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: rate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a tax rate
+  async updateRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rate = await taxService.updateRate(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tax rate updated successfully',
+        data: rate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a tax rate
+  async deleteRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await taxService.deleteRate(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tax rate deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new TaxRateController();
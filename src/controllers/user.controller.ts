@@ -240,6 +240,7 @@ class UserController {
           email: user.email,
           bio: user.bio,
           profile_thumbnail: user.profile_thumbnail,
+          country: user.country,
           is_active: user.is_active,
           roles: roles.map(role => role.role),
         },
@@ -265,6 +266,7 @@ class UserController {
           email: user.email,
           bio: user.bio,
           profile_thumbnail: user.profile_thumbnail,
+          country: user.country,
           is_active: user.is_active,
           roles: roles.map(role => role.role),
         },
@@ -278,7 +280,7 @@ class UserController {
   async updateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.params.id;
-      const { name, bio } = req.body;
+      const { name, bio, country } = req.body;
 
       // Check if user is authorized (admin or the user themselves)
       if (req.user?.id !== userId && !req.user?.roles.includes(Role.ADMIN)) {
@@ -295,6 +297,7 @@ class UserController {
       const updateData: any = {};
       if (name) updateData.name = name;
       if (bio !== undefined) updateData.bio = bio;
+      if (country !== undefined) updateData.country = country ? country.toUpperCase() : null;
       if (profile_thumbnail) updateData.profile_thumbnail = profile_thumbnail;
 
       const updatedUser = await userService.updateUser(userId, updateData);
@@ -307,6 +310,7 @@ class UserController {
           email: updatedUser.email,
           bio: updatedUser.bio,
           profile_thumbnail: updatedUser.profile_thumbnail,
+          country: updatedUser.country,
           is_active: updatedUser.is_active,
         },
       });
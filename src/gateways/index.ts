@@ -0,0 +1,50 @@
+import { PaymentMethod } from '../models/payment.model';
+import { PaymentGateway } from '../types/payment-gateway.types';
+import { ApiError } from '../utils/api-error';
+import MockPaymentGateway from './mock.gateway';
+
+/**
+ * Maps each PaymentMethod to the adapter that processes it.
+ * Real providers are plugged in with register(); everything defaults to the mock.
+ */
+class PaymentGatewayRegistry {
+  private gateways: Map<PaymentMethod, PaymentGateway> = new Map();
+
+  register(method: PaymentMethod, gateway: PaymentGateway): void {
+    this.gateways.set(method, gateway);
+  }
+
+  get(method: string): PaymentGateway {
+    const gateway = this.gateways.get(method as PaymentMethod);
+
+    if (!gateway) {
+      throw new ApiError(400, `Payment method ${method} is not supported`);
+    }
+
+    return gateway;
+  }
+
+  has(method: string): boolean {
+    return this.gateways.has(method as PaymentMethod);
+  }
+
+  /**
+   * Look up an adapter by provider name (used by webhooks, which are addressed per provider)
+   */
+  getByProvider(provider: string): PaymentGateway | null {
+    for (const gateway of this.gateways.values()) {
+      if (gateway.provider === provider) {
+        return gateway;
+      }
+    }
+    return null;
+  }
+}
+
+const paymentGateways = new PaymentGatewayRegistry();
+const mockGateway = new MockPaymentGateway();
+
+Object.values(PaymentMethod).forEach(method => paymentGateways.register(method, mockGateway));
+
+export { PaymentGatewayRegistry, MockPaymentGateway };
+export default paymentGateways;
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { PaymentMethod } from '../models/payment.model';
+import {
+  CaptureIntentParams,
+  CreateIntentParams,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+} from '../types/payment-gateway.types';
+import { ApiError } from '../utils/api-error';
+
+/**
+ * Tokens the mock understands at capture time. Anything else (or no token) succeeds.
+ */
+export const MOCK_FAILURE_TOKENS: Record<string, { code: string; message: string }> = {
+  mock_card_declined: { code: 'card_declined', message: 'The card was declined' },
+  mock_insufficient_funds: { code: 'insufficient_funds', message: 'Insufficient funds' },
+  mock_expired_card: { code: 'expired_card', message: 'The card has expired' },
+  mock_processing_error: {
+    code: 'processing_error',
+    message: 'An error occurred while processing the payment',
+  },
+};
+
+/**
+ * Deterministic in-process gateway.
+ * IDs are derived from the caller's reference so the same checkout always maps to
+ * the same intent and transaction, which keeps the purchase flow reproducible offline.
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  public readonly provider = 'mock';
+
+  private intents: Map<string, PaymentIntent> = new Map();
+  private refundedTotals: Map<string, number> = new Map();
+  private refundCounts: Map<string, number> = new Map();
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex').slice(0, 24);
+  }
+
+  async createIntent(method: PaymentMethod, params: CreateIntentParams): Promise<PaymentIntent> {
+    const id = `mock_pi_${this.hash(`${method}:${params.reference}`)}`;
+
+    const existing = this.intents.get(id);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const intent: PaymentIntent = {
+      id,
+      provider: this.provider,
+      payment_method: method,
+      amount: Number(params.amount),
+      currency: params.currency.toUpperCase(),
+      status: PaymentIntentStatus.REQUIRES_CAPTURE,
+      metadata: { ...params.metadata, reference: params.reference, customer_id: params.customer_id },
+    };
+
+    this.intents.set(id, intent);
+    return { ...intent };
+  }
+
+  async captureIntent(intentId: string, params: CaptureIntentParams = {}): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId);
+
+    // Capturing twice is a no-op, same as real providers
+    if (intent.status !== PaymentIntentStatus.REQUIRES_CAPTURE) {
+      return { ...intent };
+    }
+
+    const failure = params.payment_token ? MOCK_FAILURE_TOKENS[params.payment_token] : undefined;
+
+    if (failure) {
+      intent.status = PaymentIntentStatus.FAILED;
+      intent.failure_code = failure.code;
+      intent.failure_message = failure.message;
+    } else {
+      intent.status = PaymentIntentStatus.SUCCEEDED;
+      intent.transaction_id = `mock_txn_${this.hash(intent.id)}`;
+    }
+
+    return { ...intent };
+  }
+
+  async cancelIntent(intentId: string): Promise<PaymentIntent> {
+    const intent = this.getIntent(intentId);
+
+    if (intent.status === PaymentIntentStatus.SUCCEEDED) {
+      throw new ApiError(400, 'A captured payment intent cannot be canceled');
+    }
+
+    if (intent.status === PaymentIntentStatus.REQUIRES_CAPTURE) {
+      intent.status = PaymentIntentStatus.CANCELED;
+    }
+
+    return { ...intent };
+  }
+
+  async refund(transactionId: string, amount: number, currency: string): Promise<GatewayRefund> {
+    const sequence = (this.refundCounts.get(transactionId) || 0) + 1;
+    const refund: GatewayRefund = {
+      id: `mock_re_${this.hash(`${transactionId}:${sequence}`)}`,
+      transaction_id: transactionId,
+      amount: Number(amount),
+      currency: currency.toUpperCase(),
+      succeeded: true,
+    };
+
+    // Only enforce the captured amount for transactions this process has seen
+    const captured = Array.from(this.intents.values()).find(
+      intent => intent.transaction_id === transactionId
+    );
+    const alreadyRefunded = this.refundedTotals.get(transactionId) || 0;
+
+    if (captured && alreadyRefunded + refund.amount > captured.amount) {
+      refund.succeeded = false;
+      refund.failure_code = 'amount_too_large';
+      refund.failure_message = 'Refund amount exceeds the captured amount';
+      return refund;
+    }
+
+    this.refundCounts.set(transactionId, sequence);
+    this.refundedTotals.set(transactionId, alreadyRefunded + refund.amount);
+
+    return refund;
+  }
+
+  /**
+   * The mock posts events already in the normalized shape:
+   * { id, type, data: { intent_id, transaction_id, refund_id, dispute_id, amount, reason,
+   *   evidence_due_by, failure_code, failure_message } }
+   */
+  parseWebhookEvent(payload: any): GatewayWebhookEvent {
+    if (!payload || typeof payload.id !== 'string' || typeof payload.type !== 'string') {
+      throw new ApiError(400, 'Malformed webhook event');
+    }
+
+    const data = payload.data || {};
+
+    return {
+      id: payload.id,
+      type: payload.type,
+      intent_id: data.intent_id,
+      transaction_id: data.transaction_id,
+      refund_id: data.refund_id,
+      dispute_id: data.dispute_id,
+      amount: data.amount !== undefined ? Number(data.amount) : undefined,
+      reason: data.reason,
+      evidence_due_by: data.evidence_due_by ? new Date(data.evidence_due_by * 1000) : undefined,
+      failure_code: data.failure_code,
+      failure_message: data.failure_message,
+      created_at: payload.created ? new Date(payload.created * 1000) : undefined,
+    };
+  }
+
+  private getIntent(intentId: string): PaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new ApiError(404, `No such payment intent: ${intentId}`);
+    }
+    return intent;
+  }
+}
+
+export default MockPaymentGateway;
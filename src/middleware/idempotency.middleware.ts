@@ -0,0 +1,160 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import RedisClient from '../config/redis';
+import { ApiError } from '../utils/api-error';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyOptions {
+  // Reject requests that do not send the header
+  required?: boolean;
+  // How long a completed response can be replayed
+  ttlSeconds?: number;
+  // How long a request may hold the key before another attempt can take over
+  lockSeconds?: number;
+}
+
+interface StoredIdempotentRequest {
+  fingerprint: string;
+  state: 'processing' | 'completed';
+  status?: number;
+  body?: any;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so the same body always hashes the same
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const fingerprintRequest = (req: Request): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body || {})}`)
+    .digest('hex');
+};
+
+/**
+ * Make a mutating route safe to retry.
+ * The first request with a given Idempotency-Key runs normally and its response is kept in
+ * Redis; later requests with the same key get that response back without running the handler.
+ * Reusing a key with a different endpoint or body is rejected with 422, and a retry that
+ * arrives while the first request is still running gets 409.
+ * Responses with a 5xx status are not kept, so the client can retry them with the same key.
+ * Keys are scoped per user, so this must run after `authenticate`.
+ * When Redis is unavailable requests go through unprotected.
+ */
+export const idempotent = (options: IdempotencyOptions = {}) => {
+  const {
+    required = false,
+    ttlSeconds = parseInt(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || '86400', 10),
+    lockSeconds = 60,
+  } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (!idempotencyKey) {
+      if (required) {
+        return next(new ApiError(400, `${IDEMPOTENCY_KEY_HEADER} header is required`));
+      }
+      return next();
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return next(
+        new ApiError(400, `${IDEMPOTENCY_KEY_HEADER} cannot exceed ${MAX_KEY_LENGTH} characters`)
+      );
+    }
+
+    const redis = RedisClient.getInstance();
+    const redisKey = `idempotency:${req.user?.id || 'anonymous'}:${idempotencyKey}`;
+    const fingerprint = fingerprintRequest(req);
+
+    try {
+      const processing: StoredIdempotentRequest = { fingerprint, state: 'processing' };
+      const acquired = await redis.set(
+        redisKey,
+        JSON.stringify(processing),
+        'EX',
+        lockSeconds,
+        'NX'
+      );
+
+      if (!acquired) {
+        const stored = await redis.get(redisKey);
+        const previous: StoredIdempotentRequest | null = stored ? JSON.parse(stored) : null;
+
+        // The key expired between SET and GET; let the client try again
+        if (!previous) {
+          throw new ApiError(409, 'Request with this Idempotency-Key is being retried, try again');
+        }
+
+        if (previous.fingerprint !== fingerprint) {
+          throw new ApiError(
+            422,
+            `${IDEMPOTENCY_KEY_HEADER} has already been used with a different request`
+          );
+        }
+
+        if (previous.state === 'processing') {
+          throw new ApiError(409, 'A request with this Idempotency-Key is still being processed');
+        }
+
+        res.set(IDEMPOTENT_REPLAY_HEADER, 'true');
+        res.status(previous.status || 200).json(previous.body);
+        return;
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return next(error);
+      }
+      console.warn('⚠️ Idempotency check skipped, Redis not available:', error);
+      return next();
+    }
+
+    // Capture the response body so it can be replayed
+    let responseBody: any;
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      const done =
+        res.statusCode >= 500
+          ? redis.del(redisKey)
+          : redis.set(
+              redisKey,
+              JSON.stringify({
+                fingerprint,
+                state: 'completed',
+                status: res.statusCode,
+                body: responseBody,
+              } as StoredIdempotentRequest),
+              'EX',
+              ttlSeconds
+            );
+
+      done.catch(error => {
+        console.error(`Failed to store idempotent response for ${redisKey}:`, error);
+      });
+    });
+
+    next();
+  };
+};
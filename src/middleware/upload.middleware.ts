@@ -97,6 +97,21 @@ export const videoUpload = multer({
   },
 });
 
+// CSV files (e.g. provider settlement files) are kept in memory: they are read once and
+// not stored
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (!file.originalname.match(/\.csv$/i)) {
+      return cb(new ApiError(400, 'Only CSV files are allowed'));
+    }
+    cb(null, true);
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+});
+
 // For backward compatibility
 export const upload = imageUpload;
 
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+import { ApiError } from '../utils/api-error';
+import { verifyWebhookSignature } from '../utils/webhook-signature';
+import paymentGateways from '../gateways';
+
+// Extend Express Request type to carry the unparsed body needed for signature checks
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * express.json() verify hook: keeps the raw bytes for webhook routes only
+ */
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  if (req.url && req.url.includes('/webhooks/')) {
+    (req as Request).rawBody = buf;
+  }
+};
+
+/**
+ * Resolve the signing secret for a provider.
+ * PAYMENT_WEBHOOK_SECRET_<PROVIDER> takes precedence over the shared PAYMENT_WEBHOOK_SECRET.
+ */
+export const getWebhookSecret = (provider: string): string | undefined => {
+  return (
+    process.env[`PAYMENT_WEBHOOK_SECRET_${provider.toUpperCase()}`] ||
+    process.env.PAYMENT_WEBHOOK_SECRET
+  );
+};
+
+/**
+ * Reject webhook calls that are not signed with the provider's secret
+ */
+export const requireWebhookSignature = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { provider } = req.params;
+
+    if (!paymentGateways.getByProvider(provider)) {
+      throw new ApiError(404, `Unknown payment provider: ${provider}`);
+    }
+
+    const secret = getWebhookSecret(provider);
+    if (!secret) {
+      throw new ApiError(500, `Webhook secret is not configured for ${provider}`);
+    }
+
+    const signature = req.get(WEBHOOK_SIGNATURE_HEADER);
+    if (!signature) {
+      throw new ApiError(401, 'Missing webhook signature');
+    }
+
+    if (!req.rawBody) {
+      throw new ApiError(400, 'Webhook payload is required');
+    }
+
+    const tolerance = parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300', 10);
+
+    if (!verifyWebhookSignature(req.rawBody.toString('utf8'), signature, secret, tolerance)) {
+      throw new ApiError(401, 'Invalid webhook signature');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,117 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('checkout_sessions', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+      },
+      payment_method: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      provider: {
+        type: Sequelize.STRING(30),
+        allowNull: false,
+      },
+      gateway_intent_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'open',
+      },
+      failure_code: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      failure_message: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      completed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      metadata: {
+        type: Sequelize.JSON,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('checkout_sessions', ['user_id'], {
+      name: 'checkout_sessions_user_id_idx',
+    });
+    await queryInterface.addIndex('checkout_sessions', ['course_id'], {
+      name: 'checkout_sessions_course_id_idx',
+    });
+    await queryInterface.addIndex('checkout_sessions', ['payment_id'], {
+      name: 'checkout_sessions_payment_id_idx',
+    });
+    await queryInterface.addIndex('checkout_sessions', ['gateway_intent_id'], {
+      name: 'checkout_sessions_gateway_intent_id_idx',
+    });
+    await queryInterface.addIndex('checkout_sessions', ['status', 'expires_at'], {
+      name: 'checkout_sessions_status_expires_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('checkout_sessions');
+  },
+};
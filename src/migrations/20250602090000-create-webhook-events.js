@@ -0,0 +1,74 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('webhook_events', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      provider: {
+        type: Sequelize.STRING(30),
+        allowNull: false,
+      },
+      event_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      event_type: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      payload: {
+        type: Sequelize.JSON,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'received',
+      },
+      attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      processing_error: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      processed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    // Replays of the same provider event must collide here
+    await queryInterface.addIndex('webhook_events', ['provider', 'event_id'], {
+      name: 'webhook_events_provider_event_unique',
+      unique: true,
+    });
+    await queryInterface.addIndex('webhook_events', ['status'], {
+      name: 'webhook_events_status_idx',
+    });
+    await queryInterface.addIndex('webhook_events', ['event_type'], {
+      name: 'webhook_events_event_type_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('webhook_events');
+  },
+};
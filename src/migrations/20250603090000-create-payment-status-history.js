@@ -0,0 +1,68 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('payment_status_history', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      from_status: {
+        type: Sequelize.STRING(10),
+        allowNull: true,
+      },
+      to_status: {
+        type: Sequelize.STRING(10),
+        allowNull: false,
+      },
+      changed_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      source: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      metadata: {
+        type: Sequelize.JSON,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('payment_status_history', ['payment_id', 'created_at'], {
+      name: 'payment_status_history_payment_date_idx',
+    });
+    await queryInterface.addIndex('payment_status_history', ['changed_by'], {
+      name: 'payment_status_history_changed_by_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('payment_status_history');
+  },
+};
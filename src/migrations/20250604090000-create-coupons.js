@@ -0,0 +1,169 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('coupons', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      code: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      discount_type: {
+        type: Sequelize.STRING(10),
+        allowNull: false,
+      },
+      discount_value: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      scope: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'all',
+      },
+      scope_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+      },
+      max_redemptions: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      max_redemptions_per_user: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        defaultValue: 1,
+      },
+      redemption_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      starts_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('coupons', ['code'], {
+      unique: true,
+      name: 'coupons_code_unique',
+    });
+    await queryInterface.addIndex('coupons', ['scope', 'scope_id'], {
+      name: 'coupons_scope_idx',
+    });
+    await queryInterface.addIndex('coupons', ['created_by'], {
+      name: 'coupons_created_by_idx',
+    });
+
+    await queryInterface.addColumn('payments', 'coupon_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'coupons',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addColumn('payments', 'discount_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    });
+
+    await queryInterface.createTable('coupon_redemptions', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      coupon_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'coupons',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      discount_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('coupon_redemptions', ['coupon_id', 'user_id'], {
+      name: 'coupon_redemptions_coupon_user_idx',
+    });
+    await queryInterface.addIndex('coupon_redemptions', ['payment_id'], {
+      unique: true,
+      name: 'coupon_redemptions_payment_id_unique',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('coupon_redemptions');
+    await queryInterface.removeColumn('payments', 'discount_amount');
+    await queryInterface.removeColumn('payments', 'coupon_id');
+    await queryInterface.dropTable('coupons');
+  },
+};
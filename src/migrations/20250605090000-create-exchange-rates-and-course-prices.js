@@ -0,0 +1,99 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('exchange_rates', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      rate: {
+        type: Sequelize.DECIMAL(18, 8),
+        allowNull: false,
+      },
+      effective_date: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      source: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('exchange_rates', ['currency', 'effective_date'], {
+      unique: true,
+      name: 'exchange_rates_currency_date_unique',
+    });
+
+    await queryInterface.createTable('course_prices', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('course_prices', ['course_id', 'currency'], {
+      unique: true,
+      name: 'course_prices_course_currency_unique',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('course_prices');
+    await queryInterface.dropTable('exchange_rates');
+  },
+};
@@ -0,0 +1,294 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('revenue_share_rules', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      instructor_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      instructor_share_percent: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: false,
+      },
+      effective_from: {
+        type: Sequelize.DATEONLY,
+        allowNull: false,
+      },
+      note: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('revenue_share_rules', ['instructor_id', 'effective_from'], {
+      name: 'revenue_share_rules_instructor_date_idx',
+    });
+
+    await queryInterface.createTable('payout_batches', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      period: {
+        type: Sequelize.STRING(7),
+        allowNull: false,
+      },
+      period_start: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      period_end: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'processing',
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      total_amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      payout_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      completed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('payout_batches', ['period', 'status'], {
+      name: 'payout_batches_period_status_idx',
+    });
+
+    await queryInterface.createTable('payouts', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      batch_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payout_batches',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      instructor_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      amount: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      reference: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      failure_reason: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      paid_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('payouts', ['batch_id', 'instructor_id'], {
+      unique: true,
+      name: 'payouts_batch_instructor_unique',
+    });
+    await queryInterface.addIndex('payouts', ['instructor_id', 'status'], {
+      name: 'payouts_instructor_status_idx',
+    });
+
+    await queryInterface.createTable('ledger_entries', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      journal_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      entry_type: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      account: {
+        type: Sequelize.STRING(30),
+        allowNull: false,
+      },
+      instructor_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+      },
+      refund_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'refunds',
+          key: 'id',
+        },
+      },
+      payout_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'payouts',
+          key: 'id',
+        },
+      },
+      debit: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      credit: {
+        type: Sequelize.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      metadata: {
+        type: Sequelize.JSON,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('ledger_entries', ['journal_id'], {
+      name: 'ledger_entries_journal_id_idx',
+    });
+    await queryInterface.addIndex('ledger_entries', ['account', 'instructor_id', 'created_at'], {
+      name: 'ledger_entries_account_instructor_idx',
+    });
+    await queryInterface.addIndex('ledger_entries', ['payment_id', 'entry_type'], {
+      name: 'ledger_entries_payment_idx',
+    });
+    await queryInterface.addIndex('ledger_entries', ['refund_id', 'entry_type'], {
+      name: 'ledger_entries_refund_idx',
+    });
+    await queryInterface.addIndex('ledger_entries', ['payout_id'], {
+      name: 'ledger_entries_payout_id_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('ledger_entries');
+    await queryInterface.dropTable('payouts');
+    await queryInterface.dropTable('payout_batches');
+    await queryInterface.dropTable('revenue_share_rules');
+  },
+};
@@ -0,0 +1,99 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('refund_requests', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'requested',
+      },
+      reviewer_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      reviewer_note: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      reviewed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      refund_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'refunds',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      processed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('refund_requests', ['payment_id', 'status'], {
+      name: 'refund_requests_payment_status_idx',
+    });
+    await queryInterface.addIndex('refund_requests', ['user_id'], {
+      name: 'refund_requests_user_id_idx',
+    });
+    await queryInterface.addIndex('refund_requests', ['status', 'created_at'], {
+      name: 'refund_requests_status_created_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('refund_requests');
+  },
+};
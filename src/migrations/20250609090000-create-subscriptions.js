@@ -0,0 +1,217 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('subscription_plans', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      interval: {
+        type: Sequelize.STRING(10),
+        allowNull: false,
+      },
+      price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+        defaultValue: 'USD',
+      },
+      grace_period_days: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 7,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.createTable('subscriptions', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      plan_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'subscription_plans',
+          key: 'id',
+        },
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      payment_method: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      payment_token: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      current_period_start: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      current_period_end: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      grace_until: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      cancel_at_period_end: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      canceled_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      ended_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('subscriptions', ['user_id', 'status'], {
+      name: 'subscriptions_user_status_idx',
+    });
+    await queryInterface.addIndex('subscriptions', ['status', 'current_period_end'], {
+      name: 'subscriptions_status_period_end_idx',
+    });
+
+    await queryInterface.createTable('subscription_charges', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      subscription_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'subscriptions',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      period_start: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      period_end: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      gateway_intent_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      transaction_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      failure_code: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      failure_message: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('subscription_charges', ['subscription_id', 'created_at'], {
+      name: 'subscription_charges_subscription_created_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('subscription_charges');
+    await queryInterface.dropTable('subscriptions');
+    await queryInterface.dropTable('subscription_plans');
+  },
+};
@@ -0,0 +1,196 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('bundles', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      instructor_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      title: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('bundles', ['instructor_id'], {
+      name: 'bundles_instructor_id_idx',
+    });
+
+    await queryInterface.createTable('bundle_courses', {
+      bundle_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+        references: {
+          model: 'bundles',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      position: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+    });
+
+    await queryInterface.addIndex('bundle_courses', ['course_id'], {
+      name: 'bundle_courses_course_id_idx',
+    });
+
+    // A payment now buys either one course or a bundle of them
+    await queryInterface.changeColumn('payments', 'course_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    });
+    await queryInterface.addColumn('payments', 'bundle_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addIndex('payments', ['bundle_id'], {
+      name: 'payments_bundle_id_idx',
+    });
+
+    await queryInterface.changeColumn('checkout_sessions', 'course_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    });
+    await queryInterface.addColumn('checkout_sessions', 'bundle_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    });
+
+    await queryInterface.createTable('payment_items', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      bundle_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'bundles',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      list_price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('payment_items', ['payment_id'], {
+      name: 'payment_items_payment_id_idx',
+    });
+    await queryInterface.addIndex('payment_items', ['course_id'], {
+      name: 'payment_items_course_id_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('payment_items');
+    await queryInterface.removeColumn('checkout_sessions', 'bundle_id');
+    await queryInterface.removeColumn('payments', 'bundle_id');
+    await queryInterface.dropTable('bundle_courses');
+    await queryInterface.dropTable('bundles');
+  },
+};
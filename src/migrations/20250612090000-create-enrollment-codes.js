@@ -0,0 +1,168 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('payments', 'is_gift', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+
+    await queryInterface.createTable('enrollment_code_batches', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      quantity: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('enrollment_code_batches', ['course_id'], {
+      name: 'enrollment_code_batches_course_id_idx',
+    });
+
+    await queryInterface.createTable('enrollment_codes', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      code: {
+        type: Sequelize.STRING(32),
+        allowNull: false,
+        unique: true,
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      batch_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'enrollment_code_batches',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      purchased_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      recipient_email: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      message: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.STRING(10),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      redeemed_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      redeemed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('enrollment_codes', ['batch_id'], {
+      name: 'enrollment_codes_batch_id_idx',
+    });
+    await queryInterface.addIndex('enrollment_codes', ['payment_id'], {
+      name: 'enrollment_codes_payment_id_idx',
+    });
+    await queryInterface.addIndex('enrollment_codes', ['purchased_by'], {
+      name: 'enrollment_codes_purchased_by_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('enrollment_codes');
+    await queryInterface.dropTable('enrollment_code_batches');
+    await queryInterface.removeColumn('payments', 'is_gift');
+  },
+};
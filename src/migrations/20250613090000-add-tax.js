@@ -0,0 +1,130 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('tax_rates', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      country_code: {
+        type: Sequelize.STRING(2),
+        allowNull: false,
+      },
+      region: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      name: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+      },
+      rate: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: false,
+      },
+      is_inclusive: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('tax_rates', ['country_code', 'region'], {
+      name: 'tax_rates_location_idx',
+    });
+
+    // Existing payments and refunds were taken without tax: net equals gross
+    await queryInterface.addColumn('payments', 'net_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('payments', 'tax_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    });
+    await queryInterface.addColumn('payments', 'tax_rate', {
+      type: Sequelize.DECIMAL(5, 2),
+      allowNull: false,
+      defaultValue: 0,
+    });
+    await queryInterface.addColumn('payments', 'tax_inclusive', {
+      type: Sequelize.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    });
+    await queryInterface.addColumn('payments', 'tax_country', {
+      type: Sequelize.STRING(2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('payments', 'tax_region', {
+      type: Sequelize.STRING(50),
+      allowNull: true,
+    });
+    await queryInterface.sequelize.query('UPDATE payments SET net_amount = amount');
+    await queryInterface.changeColumn('payments', 'net_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+    });
+
+    await queryInterface.addColumn('refunds', 'net_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('refunds', 'tax_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    });
+    await queryInterface.sequelize.query('UPDATE refunds SET net_amount = amount');
+    await queryInterface.changeColumn('refunds', 'net_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+    });
+
+    await queryInterface.addColumn('payment_items', 'tax_amount', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('payment_items', 'tax_amount');
+    await queryInterface.removeColumn('refunds', 'tax_amount');
+    await queryInterface.removeColumn('refunds', 'net_amount');
+    await queryInterface.removeColumn('payments', 'tax_region');
+    await queryInterface.removeColumn('payments', 'tax_country');
+    await queryInterface.removeColumn('payments', 'tax_inclusive');
+    await queryInterface.removeColumn('payments', 'tax_rate');
+    await queryInterface.removeColumn('payments', 'tax_amount');
+    await queryInterface.removeColumn('payments', 'net_amount');
+    await queryInterface.dropTable('tax_rates');
+  },
+};
@@ -0,0 +1,117 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('invoice_sequences', {
+      type: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      last_number: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    const now = new Date();
+    await queryInterface.bulkInsert('invoice_sequences', [
+      { type: 'invoice', last_number: 0, created_at: now, updated_at: now },
+      { type: 'credit_note', last_number: 0, created_at: now, updated_at: now },
+    ]);
+
+    await queryInterface.createTable('invoices', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      number: {
+        type: Sequelize.STRING(30),
+        allowNull: false,
+        unique: true,
+      },
+      type: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+      },
+      refund_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        unique: true,
+        references: {
+          model: 'refunds',
+          key: 'id',
+        },
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      net_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      tax_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      total_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      issued_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('invoices', ['payment_id', 'type'], {
+      name: 'invoices_payment_type_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('invoices');
+    await queryInterface.dropTable('invoice_sequences');
+  },
+};
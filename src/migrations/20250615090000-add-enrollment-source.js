@@ -0,0 +1,45 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('enrollments', 'source', {
+      type: Sequelize.STRING(20),
+      allowNull: false,
+      defaultValue: 'purchase',
+    });
+    await queryInterface.addColumn('enrollments', 'granted_by', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+    await queryInterface.addColumn('enrollments', 'grant_reason', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+    });
+
+    // Existing enrollments in free courses did not come from a purchase
+    await queryInterface.sequelize.query(
+      `UPDATE enrollments e
+       JOIN courses c ON c.id = e.course_id
+       SET e.source = 'free'
+       WHERE c.price = 0`
+    );
+    await queryInterface.sequelize.query(
+      `UPDATE enrollments e
+       JOIN enrollment_codes ec ON ec.redeemed_by = e.user_id AND ec.course_id = e.course_id
+       SET e.source = 'code'
+       WHERE ec.status = 'redeemed'`
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('enrollments', 'grant_reason');
+    await queryInterface.removeColumn('enrollments', 'granted_by');
+    await queryInterface.removeColumn('enrollments', 'source');
+  },
+};
@@ -0,0 +1,212 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('referral_links', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      code: {
+        type: Sequelize.STRING(16),
+        allowNull: false,
+        unique: true,
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      commission_rate: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: true,
+      },
+      is_active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('referral_links', ['user_id'], {
+      name: 'referral_links_user_id_idx',
+    });
+
+    await queryInterface.createTable('referral_clicks', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      link_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'referral_links',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('referral_clicks', ['link_id'], {
+      name: 'referral_clicks_link_id_idx',
+    });
+    await queryInterface.addIndex('referral_clicks', ['user_id', 'created_at'], {
+      name: 'referral_clicks_user_created_idx',
+    });
+
+    await queryInterface.addColumn('payments', 'referral_link_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'referral_links',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+
+    await queryInterface.createTable('referral_commissions', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      link_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'referral_links',
+          key: 'id',
+        },
+      },
+      affiliate_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        unique: true,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+      },
+      referred_user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      sale_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      rate: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(10),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      reviewed_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      reviewed_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      note: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('referral_commissions', ['affiliate_id', 'status'], {
+      name: 'referral_commissions_affiliate_status_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('referral_commissions');
+    await queryInterface.removeColumn('payments', 'referral_link_id');
+    await queryInterface.dropTable('referral_clicks');
+    await queryInterface.dropTable('referral_links');
+  },
+};
@@ -0,0 +1,155 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('disputes', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      provider_dispute_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+        unique: true,
+      },
+      reason: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'opened',
+      },
+      evidence_due_by: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      opened_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      evidence_submitted_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      resolved_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      resolution_note: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('disputes', ['payment_id'], {
+      name: 'disputes_payment_id_idx',
+    });
+    await queryInterface.addIndex('disputes', ['status', 'resolved_at'], {
+      name: 'disputes_status_resolved_idx',
+    });
+
+    await queryInterface.createTable('dispute_evidence', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      dispute_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'disputes',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      type: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      content: {
+        type: Sequelize.JSON,
+        allowNull: true,
+      },
+      added_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('dispute_evidence', ['dispute_id'], {
+      name: 'dispute_evidence_dispute_id_idx',
+    });
+
+    await queryInterface.addColumn('enrollments', 'suspended_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('enrollments', 'suspension_reason', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('enrollments', 'suspension_reason');
+    await queryInterface.removeColumn('enrollments', 'suspended_at');
+    await queryInterface.dropTable('dispute_evidence');
+    await queryInterface.dropTable('disputes');
+  },
+};
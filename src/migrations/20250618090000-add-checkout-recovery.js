@@ -0,0 +1,115 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // A session opened to retry a failed one; a session can be retried once
+    await queryInterface.addColumn('checkout_sessions', 'retry_of', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      unique: true,
+      references: {
+        model: 'checkout_sessions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+
+    await queryInterface.createTable('abandoned_checkouts', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      checkout_session_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        unique: true,
+        references: {
+          model: 'checkout_sessions',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      bundle_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'bundles',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      abandoned_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      reminded_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      recovered_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      recovered_by_session_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'checkout_sessions',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('abandoned_checkouts', ['user_id', 'recovered_at'], {
+      name: 'abandoned_checkouts_user_recovered_idx',
+    });
+
+    await queryInterface.addIndex('abandoned_checkouts', ['reminded_at', 'abandoned_at'], {
+      name: 'abandoned_checkouts_reminder_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('abandoned_checkouts');
+    await queryInterface.removeColumn('checkout_sessions', 'retry_of');
+  },
+};
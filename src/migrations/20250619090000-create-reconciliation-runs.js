@@ -0,0 +1,156 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('reconciliation_runs', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      file_name: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      payment_method: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      period_start: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      period_end: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      row_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      matched_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      missing_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      mismatched_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      orphan_count: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.createTable('reconciliation_items', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      run_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'reconciliation_runs',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      issue: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      transaction_id: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      payment_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      refund_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'refunds',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      expected_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: true,
+      },
+      expected_currency: {
+        type: Sequelize.STRING(3),
+        allowNull: true,
+      },
+      settled_amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: true,
+      },
+      settled_currency: {
+        type: Sequelize.STRING(3),
+        allowNull: true,
+      },
+      line: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('reconciliation_items', ['run_id', 'issue'], {
+      name: 'reconciliation_items_run_issue_idx',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('reconciliation_items');
+    await queryInterface.dropTable('reconciliation_runs');
+  },
+};
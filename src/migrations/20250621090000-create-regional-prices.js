@@ -0,0 +1,77 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('regional_prices', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      country_code: {
+        type: Sequelize.STRING(2),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('regional_prices', ['course_id', 'country_code'], {
+      unique: true,
+      name: 'regional_prices_course_country_unique',
+    });
+
+    // Country the user is priced for when the request does not say where it comes from
+    await queryInterface.addColumn('users', 'country', {
+      type: Sequelize.STRING(2),
+      allowNull: true,
+    });
+
+    // Country whose regional price was charged, null when the base price applied
+    await queryInterface.addColumn('payments', 'price_country', {
+      type: Sequelize.STRING(2),
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('payments', 'price_country');
+    await queryInterface.removeColumn('users', 'country');
+    await queryInterface.dropTable('regional_prices');
+  },
+};
@@ -0,0 +1,164 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('sales', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      scope: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      scope_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      discount_percent: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: false,
+      },
+      starts_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      ends_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'scheduled',
+      },
+      created_by: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('sales', ['scope', 'scope_id'], {
+      name: 'sales_scope_idx',
+    });
+    await queryInterface.addIndex('sales', ['status', 'starts_at'], {
+      name: 'sales_status_starts_at_idx',
+    });
+    await queryInterface.addIndex('sales', ['status', 'ends_at'], {
+      name: 'sales_status_ends_at_idx',
+    });
+
+    // History starts here; existing courses get their first row when their price next changes
+    await queryInterface.createTable('price_history', {
+      id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        primaryKey: true,
+      },
+      course_id: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        references: {
+          model: 'courses',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      reason: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+      },
+      price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      previous_price: {
+        type: Sequelize.DECIMAL(10, 2),
+        allowNull: true,
+      },
+      sale_id: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'sales',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      discount_percent: {
+        type: Sequelize.DECIMAL(5, 2),
+        allowNull: true,
+      },
+      changed_by: {
+        type: Sequelize.STRING(20),
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'SET NULL',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+        defaultValue: Sequelize.NOW,
+      },
+    });
+
+    await queryInterface.addIndex('price_history', ['course_id', 'created_at'], {
+      name: 'price_history_course_created_at_idx',
+    });
+
+    // Price in effect when the payment was made, before coupons and tax
+    await queryInterface.addColumn('payments', 'list_price', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('payments', 'sale_price', {
+      type: Sequelize.DECIMAL(10, 2),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('payments', 'sale_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'sales',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('payments', 'sale_id');
+    await queryInterface.removeColumn('payments', 'sale_price');
+    await queryInterface.removeColumn('payments', 'list_price');
+    await queryInterface.dropTable('price_history');
+    await queryInterface.dropTable('sales');
+  },
+};
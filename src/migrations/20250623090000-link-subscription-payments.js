@@ -0,0 +1,37 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // A successful subscription charge is recorded as a payment that buys no course
+    await queryInterface.addColumn('payments', 'subscription_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'subscriptions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+
+    await queryInterface.addIndex('payments', ['subscription_id'], {
+      name: 'payments_subscription_id_idx',
+    });
+
+    await queryInterface.addColumn('subscription_charges', 'payment_id', {
+      type: Sequelize.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('subscription_charges', 'payment_id');
+    await queryInterface.removeIndex('payments', 'payments_subscription_id_idx');
+    await queryInterface.removeColumn('payments', 'subscription_id');
+  },
+};
@@ -0,0 +1,194 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// AbandonedCheckout attributes interface
+// A checkout session the buyer left without paying (it expired, or failed and was not
+// retried), kept so they can be reminded. Recovered once they complete a checkout for the
+// same course or bundle, or retry this one.
+interface AbandonedCheckoutAttributes {
+  id: string;
+  checkout_session_id: string;
+  user_id: string;
+  course_id: string | null;
+  bundle_id: string | null;
+  amount: number;
+  currency: string;
+  abandoned_at: Date;
+  reminded_at: Date | null;
+  recovered_at: Date | null;
+  recovered_by_session_id: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// AbandonedCheckout creation attributes interface
+interface AbandonedCheckoutCreationAttributes
+  extends Optional<
+    AbandonedCheckoutAttributes,
+    | 'id'
+    | 'course_id'
+    | 'bundle_id'
+    | 'reminded_at'
+    | 'recovered_at'
+    | 'recovered_by_session_id'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// AbandonedCheckout model class
+class AbandonedCheckout
+  extends Model<AbandonedCheckoutAttributes, AbandonedCheckoutCreationAttributes>
+  implements AbandonedCheckoutAttributes
+{
+  public id!: string;
+  public checkout_session_id!: string;
+  public user_id!: string;
+  public course_id!: string | null;
+  public bundle_id!: string | null;
+  public amount!: number;
+  public currency!: string;
+  public abandoned_at!: Date;
+  public reminded_at!: Date | null;
+  public recovered_at!: Date | null;
+  public recovered_by_session_id!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // AbandonedCheckout belongs to CheckoutSession
+    AbandonedCheckout.belongsTo(models.CheckoutSession, {
+      foreignKey: 'checkout_session_id',
+      as: 'session',
+      onDelete: 'CASCADE',
+    });
+
+    // AbandonedCheckout belongs to User
+    AbandonedCheckout.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // AbandonedCheckout may be for a Course
+    AbandonedCheckout.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+    });
+
+    // AbandonedCheckout may be for a Bundle
+    AbandonedCheckout.belongsTo(models.Bundle, {
+      foreignKey: 'bundle_id',
+      as: 'bundle',
+    });
+  }
+}
+
+// Initialize AbandonedCheckout model
+AbandonedCheckout.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    checkout_session_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'checkout_sessions',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    bundle_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    abandoned_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    reminded_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    recovered_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    recovered_by_session_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'checkout_sessions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'AbandonedCheckout',
+    tableName: 'abandoned_checkouts',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['user_id', 'recovered_at'],
+        name: 'abandoned_checkouts_user_recovered_idx',
+      },
+      {
+        fields: ['reminded_at', 'abandoned_at'],
+        name: 'abandoned_checkouts_reminder_idx',
+      },
+    ],
+  }
+);
+
+export default AbandonedCheckout;
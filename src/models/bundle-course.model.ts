@@ -0,0 +1,66 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+interface BundleCourseAttributes {
+  bundle_id: string;
+  course_id: string;
+  // Display order of the course within the bundle
+  position: number;
+}
+
+interface BundleCourseCreationAttributes extends BundleCourseAttributes {}
+
+class BundleCourse
+  extends Model<BundleCourseAttributes, BundleCourseCreationAttributes>
+  implements BundleCourseAttributes
+{
+  public bundle_id!: string;
+  public course_id!: string;
+  public position!: number;
+
+  // No need for associates method as this is a junction table
+}
+
+BundleCourse.init(
+  {
+    bundle_id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    position: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'BundleCourse',
+    tableName: 'bundle_courses',
+    timestamps: false,
+    indexes: [
+      {
+        fields: ['course_id'],
+        name: 'bundle_courses_course_id_idx',
+      },
+    ],
+  }
+);
+
+export default BundleCourse;
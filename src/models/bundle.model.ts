@@ -0,0 +1,126 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Bundle attributes interface
+interface BundleAttributes {
+  id: string;
+  instructor_id: string;
+  title: string;
+  description: string | null;
+  price: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Bundle creation attributes interface
+interface BundleCreationAttributes
+  extends Optional<
+    BundleAttributes,
+    'id' | 'description' | 'is_active' | 'created_at' | 'updated_at'
+  > {}
+
+// Bundle model class. Several courses of one instructor sold together at a combined price,
+// which is in the platform base currency.
+class Bundle extends Model<BundleAttributes, BundleCreationAttributes> implements BundleAttributes {
+  public id!: string;
+  public instructor_id!: string;
+  public title!: string;
+  public description!: string | null;
+  public price!: number;
+  public is_active!: boolean;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Bundle belongs to its instructor
+    Bundle.belongsTo(models.User, {
+      foreignKey: 'instructor_id',
+      as: 'instructor',
+      onDelete: 'CASCADE',
+    });
+
+    // Bundle contains many courses
+    Bundle.belongsToMany(models.Course, {
+      through: models.BundleCourse,
+      foreignKey: 'bundle_id',
+      otherKey: 'course_id',
+      as: 'courses',
+    });
+
+    // Bundle has many payments
+    Bundle.hasMany(models.Payment, {
+      foreignKey: 'bundle_id',
+      as: 'payments',
+    });
+  }
+}
+
+// Initialize Bundle model
+Bundle.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    instructor_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    title: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Bundle',
+    tableName: 'bundles',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['instructor_id'],
+        name: 'bundles_instructor_id_idx',
+      },
+    ],
+  }
+);
+
+export default Bundle;
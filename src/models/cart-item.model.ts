@@ -0,0 +1,103 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// CartItem attributes interface
+// A course waiting in a user's cart to be checked out
+interface CartItemAttributes {
+  id: string;
+  user_id: string;
+  course_id: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// CartItem creation attributes interface
+interface CartItemCreationAttributes
+  extends Optional<CartItemAttributes, 'id' | 'created_at' | 'updated_at'> {}
+
+// CartItem model class
+class CartItem
+  extends Model<CartItemAttributes, CartItemCreationAttributes>
+  implements CartItemAttributes
+{
+  public id!: string;
+  public user_id!: string;
+  public course_id!: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // CartItem belongs to User
+    CartItem.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // CartItem belongs to Course
+    CartItem.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+  }
+}
+
+// Initialize CartItem model
+CartItem.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'CartItem',
+    tableName: 'cart_items',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id', 'course_id'],
+        name: 'cart_items_user_course_unique',
+      },
+    ],
+  }
+);
+
+export default CartItem;
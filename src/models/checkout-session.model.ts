@@ -0,0 +1,276 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+import { PaymentMethod } from './payment.model';
+
+// Checkout session status enum
+export enum CheckoutSessionStatus {
+  OPEN = 'open',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELED = 'canceled',
+  EXPIRED = 'expired',
+}
+
+// CheckoutSession attributes interface
+interface CheckoutSessionAttributes {
+  id: string;
+  user_id: string;
+  // At most one of course_id and bundle_id is set; neither for a cart of several courses
+  course_id: string | null;
+  bundle_id: string | null;
+  payment_id: string | null;
+  amount: number;
+  currency: string;
+  payment_method: string;
+  provider: string;
+  gateway_intent_id: string | null;
+  status: string;
+  failure_code: string | null;
+  failure_message: string | null;
+  expires_at: Date;
+  completed_at: Date | null;
+  // The failed or expired session this one retries
+  retry_of: string | null;
+  metadata?: any;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// CheckoutSession creation attributes interface
+interface CheckoutSessionCreationAttributes
+  extends Optional<
+    CheckoutSessionAttributes,
+    | 'id'
+    | 'course_id'
+    | 'bundle_id'
+    | 'payment_id'
+    | 'gateway_intent_id'
+    | 'status'
+    | 'failure_code'
+    | 'failure_message'
+    | 'completed_at'
+    | 'retry_of'
+    | 'metadata'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// CheckoutSession model class
+class CheckoutSession
+  extends Model<CheckoutSessionAttributes, CheckoutSessionCreationAttributes>
+  implements CheckoutSessionAttributes
+{
+  public id!: string;
+  public user_id!: string;
+  public course_id!: string | null;
+  public bundle_id!: string | null;
+  public payment_id!: string | null;
+  public amount!: number;
+  public currency!: string;
+  public payment_method!: string;
+  public provider!: string;
+  public gateway_intent_id!: string | null;
+  public status!: string;
+  public failure_code!: string | null;
+  public failure_message!: string | null;
+  public expires_at!: Date;
+  public completed_at!: Date | null;
+  public retry_of!: string | null;
+  public metadata?: any;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // CheckoutSession belongs to User
+    CheckoutSession.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // CheckoutSession belongs to Course
+    CheckoutSession.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // CheckoutSession may be for a Bundle
+    CheckoutSession.belongsTo(models.Bundle, {
+      foreignKey: 'bundle_id',
+      as: 'bundle',
+    });
+
+    // CheckoutSession belongs to Payment
+    CheckoutSession.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // CheckoutSession may retry an earlier CheckoutSession
+    CheckoutSession.belongsTo(models.CheckoutSession, {
+      foreignKey: 'retry_of',
+      as: 'retriedSession',
+    });
+  }
+}
+
+// Initialize CheckoutSession model
+CheckoutSession.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    bundle_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'USD',
+    },
+    payment_method: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(PaymentMethod)],
+          msg: 'Invalid payment method',
+        },
+      },
+    },
+    provider: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+    },
+    gateway_intent_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: CheckoutSessionStatus.OPEN,
+      validate: {
+        isIn: {
+          args: [Object.values(CheckoutSessionStatus)],
+          msg: 'Invalid checkout session status',
+        },
+      },
+    },
+    failure_code: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    failure_message: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    retry_of: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      unique: true,
+      references: {
+        model: 'checkout_sessions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    metadata: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'CheckoutSession',
+    tableName: 'checkout_sessions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['user_id'],
+        name: 'checkout_sessions_user_id_idx',
+      },
+      {
+        fields: ['course_id'],
+        name: 'checkout_sessions_course_id_idx',
+      },
+      {
+        fields: ['payment_id'],
+        name: 'checkout_sessions_payment_id_idx',
+      },
+      {
+        fields: ['gateway_intent_id'],
+        name: 'checkout_sessions_gateway_intent_id_idx',
+      },
+      {
+        fields: ['status', 'expires_at'],
+        name: 'checkout_sessions_status_expires_idx',
+      },
+    ],
+  }
+);
+
+export default CheckoutSession;
@@ -0,0 +1,124 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// CouponRedemption attributes interface
+interface CouponRedemptionAttributes {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  payment_id: string;
+  discount_amount: number;
+  created_at?: Date;
+}
+
+// CouponRedemption creation attributes interface
+interface CouponRedemptionCreationAttributes
+  extends Optional<CouponRedemptionAttributes, 'id' | 'created_at'> {}
+
+// CouponRedemption model class
+class CouponRedemption
+  extends Model<CouponRedemptionAttributes, CouponRedemptionCreationAttributes>
+  implements CouponRedemptionAttributes
+{
+  public id!: string;
+  public coupon_id!: string;
+  public user_id!: string;
+  public payment_id!: string;
+  public discount_amount!: number;
+  public readonly created_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // CouponRedemption belongs to Coupon
+    CouponRedemption.belongsTo(models.Coupon, {
+      foreignKey: 'coupon_id',
+      as: 'coupon',
+      onDelete: 'CASCADE',
+    });
+
+    // CouponRedemption belongs to User
+    CouponRedemption.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // CouponRedemption belongs to Payment
+    CouponRedemption.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+  }
+}
+
+// Initialize CouponRedemption model
+CouponRedemption.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    coupon_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'coupons',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    discount_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'CouponRedemption',
+    tableName: 'coupon_redemptions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['coupon_id', 'user_id'],
+        name: 'coupon_redemptions_coupon_user_idx',
+      },
+      {
+        unique: true,
+        fields: ['payment_id'],
+        name: 'coupon_redemptions_payment_id_unique',
+      },
+    ],
+  }
+);
+
+export default CouponRedemption;
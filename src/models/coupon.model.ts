@@ -0,0 +1,222 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Coupon discount type enum
+export enum CouponDiscountType {
+  PERCENT = 'percent',
+  FIXED = 'fixed',
+}
+
+// What a coupon can be applied to; scope_id holds the course, category or instructor ID
+export enum CouponScope {
+  ALL = 'all',
+  COURSE = 'course',
+  CATEGORY = 'category',
+  INSTRUCTOR = 'instructor',
+}
+
+// Coupon attributes interface
+interface CouponAttributes {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+  scope: string;
+  scope_id: string | null;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number | null;
+  redemption_count: number;
+  starts_at: Date | null;
+  expires_at: Date | null;
+  is_active: boolean;
+  created_by: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Coupon creation attributes interface
+interface CouponCreationAttributes
+  extends Optional<
+    CouponAttributes,
+    | 'id'
+    | 'description'
+    | 'scope'
+    | 'scope_id'
+    | 'max_redemptions'
+    | 'max_redemptions_per_user'
+    | 'redemption_count'
+    | 'starts_at'
+    | 'expires_at'
+    | 'is_active'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// Coupon model class
+class Coupon extends Model<CouponAttributes, CouponCreationAttributes> implements CouponAttributes {
+  public id!: string;
+  public code!: string;
+  public description!: string | null;
+  public discount_type!: string;
+  public discount_value!: number;
+  public scope!: string;
+  public scope_id!: string | null;
+  public max_redemptions!: number | null;
+  public max_redemptions_per_user!: number | null;
+  public redemption_count!: number;
+  public starts_at!: Date | null;
+  public expires_at!: Date | null;
+  public is_active!: boolean;
+  public created_by!: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Coupon belongs to User (creator)
+    Coupon.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+
+    // Coupon has many redemptions
+    Coupon.hasMany(models.CouponRedemption, {
+      foreignKey: 'coupon_id',
+      as: 'redemptions',
+    });
+
+    // Coupon has many payments
+    Coupon.hasMany(models.Payment, {
+      foreignKey: 'coupon_id',
+      as: 'payments',
+    });
+  }
+}
+
+// Initialize Coupon model
+Coupon.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      set(value: string) {
+        this.setDataValue('code', value.trim().toUpperCase());
+      },
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    discount_type: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(CouponDiscountType)],
+          msg: 'Invalid discount type',
+        },
+      },
+    },
+    discount_value: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+      },
+    },
+    scope: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: CouponScope.ALL,
+      validate: {
+        isIn: {
+          args: [Object.values(CouponScope)],
+          msg: 'Invalid coupon scope',
+        },
+      },
+    },
+    scope_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    max_redemptions: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    max_redemptions_per_user: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      defaultValue: 1,
+    },
+    redemption_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    starts_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Coupon',
+    tableName: 'coupons',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['code'],
+        name: 'coupons_code_unique',
+      },
+      {
+        fields: ['scope', 'scope_id'],
+        name: 'coupons_scope_idx',
+      },
+      {
+        fields: ['created_by'],
+        name: 'coupons_created_by_idx',
+      },
+    ],
+  }
+);
+
+export default Coupon;
@@ -0,0 +1,103 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// CoursePrice attributes interface
+// Explicit price of a course in a currency other than the platform base currency
+interface CoursePriceAttributes {
+  id: string;
+  course_id: string;
+  currency: string;
+  amount: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// CoursePrice creation attributes interface
+interface CoursePriceCreationAttributes
+  extends Optional<CoursePriceAttributes, 'id' | 'created_at' | 'updated_at'> {}
+
+// CoursePrice model class
+class CoursePrice
+  extends Model<CoursePriceAttributes, CoursePriceCreationAttributes>
+  implements CoursePriceAttributes
+{
+  public id!: string;
+  public course_id!: string;
+  public currency!: string;
+  public amount!: number;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // CoursePrice belongs to Course
+    CoursePrice.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+  }
+}
+
+// Initialize CoursePrice model
+CoursePrice.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      set(value: string) {
+        this.setDataValue('currency', value.toUpperCase());
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'CoursePrice',
+    tableName: 'course_prices',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['course_id', 'currency'],
+        name: 'course_prices_course_currency_unique',
+      },
+    ],
+  }
+);
+
+export default CoursePrice;
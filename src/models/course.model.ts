@@ -65,6 +65,35 @@ class Course
       as: 'categories',
     });
 
+    // Bundles the course is sold in
+    Course.belongsToMany(models.Bundle, {
+      through: models.BundleCourse,
+      foreignKey: 'course_id',
+      otherKey: 'bundle_id',
+      as: 'bundles',
+    });
+
+    // Prices in other currencies
+    Course.hasMany(models.CoursePrice, {
+      foreignKey: 'course_id',
+      as: 'prices',
+      onDelete: 'CASCADE',
+    });
+
+    // Prices for buyers in particular countries
+    Course.hasMany(models.RegionalPrice, {
+      foreignKey: 'course_id',
+      as: 'regionalPrices',
+      onDelete: 'CASCADE',
+    });
+
+    // Changes of the course's price over time
+    Course.hasMany(models.PriceHistory, {
+      foreignKey: 'course_id',
+      as: 'priceHistory',
+      onDelete: 'CASCADE',
+    });
+
     // One-to-many relationship with Section
     Course.hasMany(models.Section, {
       foreignKey: 'course_id',
@@ -0,0 +1,136 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Kinds of evidence attached to a dispute
+export enum DisputeEvidenceType {
+  // Snapshot of the buyer's lesson completions in the disputed courses, taken when attached
+  LESSON_COMPLETIONS = 'lesson_completions',
+  // Link to a document, e.g. a receipt or correspondence with the buyer
+  DOCUMENT = 'document',
+  NOTE = 'note',
+}
+
+// DisputeEvidence attributes interface
+interface DisputeEvidenceAttributes {
+  id: string;
+  dispute_id: string;
+  type: string;
+  description: string | null;
+  content?: any;
+  added_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// DisputeEvidence creation attributes interface
+interface DisputeEvidenceCreationAttributes
+  extends Optional<
+    DisputeEvidenceAttributes,
+    'id' | 'description' | 'content' | 'added_by' | 'created_at' | 'updated_at'
+  > {}
+
+// DisputeEvidence model class
+class DisputeEvidence
+  extends Model<DisputeEvidenceAttributes, DisputeEvidenceCreationAttributes>
+  implements DisputeEvidenceAttributes
+{
+  public id!: string;
+  public dispute_id!: string;
+  public type!: string;
+  public description!: string | null;
+  public content?: any;
+  public added_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // DisputeEvidence belongs to Dispute
+    DisputeEvidence.belongsTo(models.Dispute, {
+      foreignKey: 'dispute_id',
+      as: 'dispute',
+      onDelete: 'CASCADE',
+    });
+
+    // DisputeEvidence belongs to User (admin who attached it)
+    DisputeEvidence.belongsTo(models.User, {
+      foreignKey: 'added_by',
+      as: 'author',
+    });
+  }
+}
+
+// Initialize DisputeEvidence model
+DisputeEvidence.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    dispute_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'disputes',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    type: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(DisputeEvidenceType)],
+          msg: 'Invalid dispute evidence type',
+        },
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    content: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    added_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'DisputeEvidence',
+    tableName: 'dispute_evidence',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['dispute_id'],
+        name: 'dispute_evidence_dispute_id_idx',
+      },
+    ],
+  }
+);
+
+export default DisputeEvidence;
@@ -0,0 +1,209 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Dispute status enum
+export enum DisputeStatus {
+  OPENED = 'opened',
+  EVIDENCE_SUBMITTED = 'evidence_submitted',
+  WON = 'won',
+  // The disputed amount was taken back; the payment is charged back
+  LOST = 'lost',
+}
+
+// Allowed dispute status changes. Won and lost are final.
+export const DISPUTE_STATUS_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  [DisputeStatus.OPENED]: [DisputeStatus.EVIDENCE_SUBMITTED, DisputeStatus.WON, DisputeStatus.LOST],
+  [DisputeStatus.EVIDENCE_SUBMITTED]: [DisputeStatus.WON, DisputeStatus.LOST],
+  [DisputeStatus.WON]: [],
+  [DisputeStatus.LOST]: [],
+};
+
+export const canTransitionDisputeStatus = (from: string, to: string): boolean => {
+  const allowed = DISPUTE_STATUS_TRANSITIONS[from as DisputeStatus];
+  return !!allowed && allowed.includes(to as DisputeStatus);
+};
+
+// Dispute attributes interface
+// A buyer contesting a payment with their bank (a chargeback). Opened by the provider's
+// webhook or by an admin; amount is in the payment's currency.
+interface DisputeAttributes {
+  id: string;
+  payment_id: string;
+  provider_dispute_id: string | null;
+  reason: string;
+  amount: number;
+  currency: string;
+  status: string;
+  evidence_due_by: Date | null;
+  opened_by: string | null;
+  evidence_submitted_at: Date | null;
+  resolved_at: Date | null;
+  resolution_note: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Dispute creation attributes interface
+interface DisputeCreationAttributes
+  extends Optional<
+    DisputeAttributes,
+    | 'id'
+    | 'provider_dispute_id'
+    | 'status'
+    | 'evidence_due_by'
+    | 'opened_by'
+    | 'evidence_submitted_at'
+    | 'resolved_at'
+    | 'resolution_note'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// Dispute model class
+class Dispute
+  extends Model<DisputeAttributes, DisputeCreationAttributes>
+  implements DisputeAttributes
+{
+  public id!: string;
+  public payment_id!: string;
+  public provider_dispute_id!: string | null;
+  public reason!: string;
+  public amount!: number;
+  public currency!: string;
+  public status!: string;
+  public evidence_due_by!: Date | null;
+  public opened_by!: string | null;
+  public evidence_submitted_at!: Date | null;
+  public resolved_at!: Date | null;
+  public resolution_note!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Dispute belongs to Payment
+    Dispute.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+
+    // Dispute belongs to User (admin who opened it)
+    Dispute.belongsTo(models.User, {
+      foreignKey: 'opened_by',
+      as: 'opener',
+    });
+
+    // Dispute has many DisputeEvidence
+    Dispute.hasMany(models.DisputeEvidence, {
+      foreignKey: 'dispute_id',
+      as: 'evidence',
+      onDelete: 'CASCADE',
+    });
+  }
+}
+
+// Initialize Dispute model
+Dispute.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    provider_dispute_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      unique: true,
+    },
+    reason: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: DisputeStatus.OPENED,
+      validate: {
+        isIn: {
+          args: [Object.values(DisputeStatus)],
+          msg: 'Invalid dispute status',
+        },
+      },
+    },
+    evidence_due_by: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    opened_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    evidence_submitted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    resolved_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    resolution_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Dispute',
+    tableName: 'disputes',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['payment_id'],
+        name: 'disputes_payment_id_idx',
+      },
+      {
+        fields: ['status', 'resolved_at'],
+        name: 'disputes_status_resolved_idx',
+      },
+    ],
+  }
+);
+
+export default Dispute;
@@ -0,0 +1,128 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// EnrollmentCodeBatch attributes interface
+// A set of enrollment codes for one course generated by an admin, e.g. for an event
+interface EnrollmentCodeBatchAttributes {
+  id: string;
+  course_id: string;
+  name: string;
+  quantity: number;
+  expires_at: Date | null;
+  created_by: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// EnrollmentCodeBatch creation attributes interface
+interface EnrollmentCodeBatchCreationAttributes
+  extends Optional<
+    EnrollmentCodeBatchAttributes,
+    'id' | 'expires_at' | 'created_at' | 'updated_at'
+  > {}
+
+// EnrollmentCodeBatch model class
+class EnrollmentCodeBatch
+  extends Model<EnrollmentCodeBatchAttributes, EnrollmentCodeBatchCreationAttributes>
+  implements EnrollmentCodeBatchAttributes
+{
+  public id!: string;
+  public course_id!: string;
+  public name!: string;
+  public quantity!: number;
+  public expires_at!: Date | null;
+  public created_by!: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // EnrollmentCodeBatch belongs to Course
+    EnrollmentCodeBatch.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // EnrollmentCodeBatch belongs to User (admin who generated it)
+    EnrollmentCodeBatch.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+
+    // EnrollmentCodeBatch has many codes
+    EnrollmentCodeBatch.hasMany(models.EnrollmentCode, {
+      foreignKey: 'batch_id',
+      as: 'codes',
+      onDelete: 'CASCADE',
+    });
+  }
+}
+
+// Initialize EnrollmentCodeBatch model
+EnrollmentCodeBatch.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    quantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EnrollmentCodeBatch',
+    tableName: 'enrollment_code_batches',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['course_id'],
+        name: 'enrollment_code_batches_course_id_idx',
+      },
+    ],
+  }
+);
+
+export default EnrollmentCodeBatch;
@@ -0,0 +1,248 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// EnrollmentCode status enum
+export enum EnrollmentCodeStatus {
+  // A gift whose payment has not completed yet
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  REDEEMED = 'redeemed',
+  REVOKED = 'revoked',
+}
+
+// Allowed enrollment code status changes.
+// redeemed -> active releases a code whose enrollment could not be created;
+// redeemed -> revoked happens when a redeemed gift is refunded;
+// revoked -> active when a gift's failed payment is captured after all.
+export const ENROLLMENT_CODE_STATUS_TRANSITIONS: Record<
+  EnrollmentCodeStatus,
+  EnrollmentCodeStatus[]
+> = {
+  [EnrollmentCodeStatus.PENDING]: [EnrollmentCodeStatus.ACTIVE, EnrollmentCodeStatus.REVOKED],
+  [EnrollmentCodeStatus.ACTIVE]: [EnrollmentCodeStatus.REDEEMED, EnrollmentCodeStatus.REVOKED],
+  [EnrollmentCodeStatus.REDEEMED]: [EnrollmentCodeStatus.ACTIVE, EnrollmentCodeStatus.REVOKED],
+  [EnrollmentCodeStatus.REVOKED]: [EnrollmentCodeStatus.ACTIVE],
+};
+
+export const canTransitionEnrollmentCodeStatus = (from: string, to: string): boolean => {
+  const allowed = ENROLLMENT_CODE_STATUS_TRANSITIONS[from as EnrollmentCodeStatus];
+  return !!allowed && allowed.includes(to as EnrollmentCodeStatus);
+};
+
+// EnrollmentCode attributes interface
+// A code that enrolls whoever redeems it in a course. Gift codes are bought by a user
+// through a payment; batch codes are generated by an admin.
+interface EnrollmentCodeAttributes {
+  id: string;
+  code: string;
+  course_id: string;
+  batch_id: string | null;
+  payment_id: string | null;
+  purchased_by: string | null;
+  recipient_email: string | null;
+  message: string | null;
+  status: string;
+  expires_at: Date | null;
+  redeemed_by: string | null;
+  redeemed_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// EnrollmentCode creation attributes interface
+interface EnrollmentCodeCreationAttributes
+  extends Optional<
+    EnrollmentCodeAttributes,
+    | 'id'
+    | 'batch_id'
+    | 'payment_id'
+    | 'purchased_by'
+    | 'recipient_email'
+    | 'message'
+    | 'status'
+    | 'expires_at'
+    | 'redeemed_by'
+    | 'redeemed_at'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// EnrollmentCode model class
+class EnrollmentCode
+  extends Model<EnrollmentCodeAttributes, EnrollmentCodeCreationAttributes>
+  implements EnrollmentCodeAttributes
+{
+  public id!: string;
+  public code!: string;
+  public course_id!: string;
+  public batch_id!: string | null;
+  public payment_id!: string | null;
+  public purchased_by!: string | null;
+  public recipient_email!: string | null;
+  public message!: string | null;
+  public status!: string;
+  public expires_at!: Date | null;
+  public redeemed_by!: string | null;
+  public redeemed_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // EnrollmentCode belongs to Course
+    EnrollmentCode.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // EnrollmentCode may belong to an admin-generated batch
+    EnrollmentCode.belongsTo(models.EnrollmentCodeBatch, {
+      foreignKey: 'batch_id',
+      as: 'batch',
+      onDelete: 'CASCADE',
+    });
+
+    // EnrollmentCode may have been bought with a Payment
+    EnrollmentCode.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // EnrollmentCode belongs to User (buyer of a gift)
+    EnrollmentCode.belongsTo(models.User, {
+      foreignKey: 'purchased_by',
+      as: 'purchaser',
+    });
+
+    // EnrollmentCode belongs to User (who redeemed it)
+    EnrollmentCode.belongsTo(models.User, {
+      foreignKey: 'redeemed_by',
+      as: 'redeemer',
+    });
+  }
+}
+
+// Initialize EnrollmentCode model
+EnrollmentCode.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    code: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+      unique: true,
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    batch_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'enrollment_code_batches',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    purchased_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    recipient_email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: EnrollmentCodeStatus.ACTIVE,
+      validate: {
+        isIn: {
+          args: [Object.values(EnrollmentCodeStatus)],
+          msg: 'Invalid enrollment code status',
+        },
+      },
+    },
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    redeemed_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    redeemed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EnrollmentCode',
+    tableName: 'enrollment_codes',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['batch_id'],
+        name: 'enrollment_codes_batch_id_idx',
+      },
+      {
+        fields: ['payment_id'],
+        name: 'enrollment_codes_payment_id_idx',
+      },
+      {
+        fields: ['purchased_by'],
+        name: 'enrollment_codes_purchased_by_idx',
+      },
+    ],
+  }
+);
+
+export default EnrollmentCode;
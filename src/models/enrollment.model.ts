@@ -4,18 +4,45 @@ import { generateUniqueId } from "../utils/uuid";
 import User from "./user.model";
 import Course from "./course.model";
 
+// How an enrollment was obtained
+export enum EnrollmentSource {
+  PURCHASE = "purchase",
+  FREE = "free",
+  // Lasts only while the user's subscription gives access
+  SUBSCRIPTION = "subscription",
+  CODE = "code",
+  // Granted by an admin without payment
+  COMP = "comp",
+}
+
 // Enrollment attributes interface
 interface EnrollmentAttributes {
   id: string;
   user_id: string;
   course_id: string;
+  source: string;
+  granted_by?: string | null;
+  grant_reason?: string | null;
+  // Set when access is withdrawn, e.g. after a lost payment dispute
+  suspended_at?: Date | null;
+  suspension_reason?: string | null;
   created_at?: Date;
   updated_at?: Date;
 }
 
 // Enrollment creation attributes interface (optional id, timestamps)
 interface EnrollmentCreationAttributes
-  extends Optional<EnrollmentAttributes, "id" | "created_at" | "updated_at"> {}
+  extends Optional<
+    EnrollmentAttributes,
+    | "id"
+    | "source"
+    | "granted_by"
+    | "grant_reason"
+    | "suspended_at"
+    | "suspension_reason"
+    | "created_at"
+    | "updated_at"
+  > {}
 
 // Enrollment model class
 class Enrollment
@@ -25,6 +52,11 @@ class Enrollment
   public id!: string;
   public user_id!: string;
   public course_id!: string;
+  public source!: string;
+  public granted_by?: string | null;
+  public grant_reason?: string | null;
+  public suspended_at?: Date | null;
+  public suspension_reason?: string | null;
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
 
@@ -43,6 +75,12 @@ class Enrollment
       as: "course",
       onDelete: "CASCADE",
     });
+
+    // Enrollment belongs to User (admin who granted a comp enrollment)
+    Enrollment.belongsTo(models.User, {
+      foreignKey: "granted_by",
+      as: "grantor",
+    });
   }
 }
 
@@ -73,6 +111,38 @@ Enrollment.init(
       },
       onDelete: 'CASCADE',
     },
+    source: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: EnrollmentSource.PURCHASE,
+      validate: {
+        isIn: {
+          args: [Object.values(EnrollmentSource)],
+          msg: 'Invalid enrollment source',
+        },
+      },
+    },
+    granted_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    grant_reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    suspended_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    suspension_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
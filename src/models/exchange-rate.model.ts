@@ -0,0 +1,118 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// ExchangeRate attributes interface
+// A rate is the number of `currency` units worth one unit of the platform base currency,
+// effective from `effective_date` until the next rate for the same currency.
+interface ExchangeRateAttributes {
+  id: string;
+  currency: string;
+  rate: number;
+  effective_date: string;
+  source: string | null;
+  created_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ExchangeRate creation attributes interface
+interface ExchangeRateCreationAttributes
+  extends Optional<
+    ExchangeRateAttributes,
+    'id' | 'source' | 'created_by' | 'created_at' | 'updated_at'
+  > {}
+
+// ExchangeRate model class
+class ExchangeRate
+  extends Model<ExchangeRateAttributes, ExchangeRateCreationAttributes>
+  implements ExchangeRateAttributes
+{
+  public id!: string;
+  public currency!: string;
+  public rate!: number;
+  public effective_date!: string;
+  public source!: string | null;
+  public created_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ExchangeRate belongs to User (who entered it)
+    ExchangeRate.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize ExchangeRate model
+ExchangeRate.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      set(value: string) {
+        this.setDataValue('currency', value.toUpperCase());
+      },
+    },
+    rate: {
+      type: DataTypes.DECIMAL(18, 8),
+      allowNull: false,
+      validate: {
+        min: 0.00000001,
+      },
+    },
+    effective_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    source: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ExchangeRate',
+    tableName: 'exchange_rates',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['currency', 'effective_date'],
+        name: 'exchange_rates_currency_date_unique',
+      },
+    ],
+  }
+);
+
+export default ExchangeRate;
@@ -13,6 +13,43 @@ import Enrollment from "./enrollment.model";
 import Payment from "./payment.model";
 import Refund from "./refund.model";
 import Review from "./review.model";
+import CheckoutSession from "./checkout-session.model";
+import WebhookEvent from "./webhook-event.model";
+import PaymentStatusHistory from "./payment-status-history.model";
+import Coupon from "./coupon.model";
+import CouponRedemption from "./coupon-redemption.model";
+import ExchangeRate from "./exchange-rate.model";
+import CoursePrice from "./course-price.model";
+import RevenueShareRule from "./revenue-share-rule.model";
+import PayoutBatch from "./payout-batch.model";
+import Payout from "./payout.model";
+import LedgerEntry from "./ledger-entry.model";
+import RefundRequest from "./refund-request.model";
+import RefundPolicy from "./refund-policy.model";
+import SubscriptionPlan from "./subscription-plan.model";
+import Subscription from "./subscription.model";
+import SubscriptionCharge from "./subscription-charge.model";
+import Bundle from "./bundle.model";
+import BundleCourse from "./bundle-course.model";
+import PaymentItem from "./payment-item.model";
+import CartItem from "./cart-item.model";
+import EnrollmentCodeBatch from "./enrollment-code-batch.model";
+import EnrollmentCode from "./enrollment-code.model";
+import TaxRate from "./tax-rate.model";
+import Invoice from "./invoice.model";
+import InvoiceSequence from "./invoice-sequence.model";
+import ReferralLink from "./referral-link.model";
+import ReferralClick from "./referral-click.model";
+import ReferralCommission from "./referral-commission.model";
+import Dispute from "./dispute.model";
+import DisputeEvidence from "./dispute-evidence.model";
+import AbandonedCheckout from "./abandoned-checkout.model";
+import ReconciliationRun from "./reconciliation-run.model";
+import ReconciliationItem from "./reconciliation-item.model";
+import PaymentScreening from "./payment-screening.model";
+import RegionalPrice from "./regional-price.model";
+import Sale from "./sale.model";
+import PriceHistory from "./price-history.model";
 
 // Load environment variables
 config();
@@ -35,6 +72,43 @@ const models = {
   Payment,
   Refund,
   Review,
+  CheckoutSession,
+  WebhookEvent,
+  PaymentStatusHistory,
+  Coupon,
+  CouponRedemption,
+  ExchangeRate,
+  CoursePrice,
+  RevenueShareRule,
+  PayoutBatch,
+  Payout,
+  LedgerEntry,
+  RefundRequest,
+  RefundPolicy,
+  SubscriptionPlan,
+  Subscription,
+  SubscriptionCharge,
+  Bundle,
+  BundleCourse,
+  PaymentItem,
+  CartItem,
+  EnrollmentCodeBatch,
+  EnrollmentCode,
+  TaxRate,
+  Invoice,
+  InvoiceSequence,
+  ReferralLink,
+  ReferralClick,
+  ReferralCommission,
+  Dispute,
+  DisputeEvidence,
+  AbandonedCheckout,
+  ReconciliationRun,
+  ReconciliationItem,
+  PaymentScreening,
+  RegionalPrice,
+  Sale,
+  PriceHistory,
 };
 
 // Set up associations
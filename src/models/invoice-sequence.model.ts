@@ -0,0 +1,63 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// InvoiceSequence attributes interface
+// The last number handed out for each invoice type. Rows are locked while a number is
+// taken so numbers have no gaps or duplicates.
+interface InvoiceSequenceAttributes {
+  type: string;
+  last_number: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// InvoiceSequence creation attributes interface
+interface InvoiceSequenceCreationAttributes
+  extends Optional<InvoiceSequenceAttributes, 'last_number' | 'created_at' | 'updated_at'> {}
+
+// InvoiceSequence model class
+class InvoiceSequence
+  extends Model<InvoiceSequenceAttributes, InvoiceSequenceCreationAttributes>
+  implements InvoiceSequenceAttributes
+{
+  public type!: string;
+  public last_number!: number;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+// Initialize InvoiceSequence model
+InvoiceSequence.init(
+  {
+    type: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+    },
+    last_number: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'InvoiceSequence',
+    tableName: 'invoice_sequences',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default InvoiceSequence;
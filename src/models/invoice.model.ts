@@ -0,0 +1,177 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Invoice type enum
+export enum InvoiceType {
+  INVOICE = 'invoice',
+  // Issued for a refund, against the payment's invoice
+  CREDIT_NOTE = 'credit_note',
+}
+
+// Invoice attributes interface
+// A numbered invoice for a completed payment, or credit note for one of its refunds.
+// Amounts are a snapshot taken when the document was issued, in the payment's currency.
+interface InvoiceAttributes {
+  id: string;
+  number: string;
+  type: string;
+  payment_id: string;
+  refund_id: string | null;
+  user_id: string;
+  currency: string;
+  net_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  issued_at: Date;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Invoice creation attributes interface
+interface InvoiceCreationAttributes
+  extends Optional<
+    InvoiceAttributes,
+    'id' | 'refund_id' | 'tax_amount' | 'issued_at' | 'created_at' | 'updated_at'
+  > {}
+
+// Invoice model class
+class Invoice
+  extends Model<InvoiceAttributes, InvoiceCreationAttributes>
+  implements InvoiceAttributes
+{
+  public id!: string;
+  public number!: string;
+  public type!: string;
+  public payment_id!: string;
+  public refund_id!: string | null;
+  public user_id!: string;
+  public currency!: string;
+  public net_amount!: number;
+  public tax_amount!: number;
+  public total_amount!: number;
+  public issued_at!: Date;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Invoice belongs to Payment
+    Invoice.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // Credit note belongs to Refund
+    Invoice.belongsTo(models.Refund, {
+      foreignKey: 'refund_id',
+      as: 'refund',
+    });
+
+    // Invoice belongs to User (the payer)
+    Invoice.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+    });
+  }
+}
+
+// Initialize Invoice model
+Invoice.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    number: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      unique: true,
+    },
+    type: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(InvoiceType)],
+          msg: 'Invalid invoice type',
+        },
+      },
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+    },
+    refund_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      unique: true,
+      references: {
+        model: 'refunds',
+        key: 'id',
+      },
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    net_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    tax_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    total_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    issued_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Invoice',
+    tableName: 'invoices',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['payment_id', 'type'],
+        name: 'invoices_payment_type_idx',
+      },
+    ],
+  }
+);
+
+export default Invoice;
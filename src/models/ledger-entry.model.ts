@@ -0,0 +1,237 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Ledger accounts. instructor_payable and payouts_in_transit are kept per instructor; affiliates
+// are owed their referral commissions on instructor_payable too, so payouts cover both.
+export enum LedgerAccount {
+  CASH = 'cash',
+  PLATFORM_REVENUE = 'platform_revenue',
+  INSTRUCTOR_PAYABLE = 'instructor_payable',
+  PAYOUTS_IN_TRANSIT = 'payouts_in_transit',
+  // Tax collected from buyers and owed to the tax authorities
+  TAX_PAYABLE = 'tax_payable',
+}
+
+// The event a journal records
+export enum LedgerEntryType {
+  SALE = 'sale',
+  REFUND = 'refund',
+  REFUND_REVERSAL = 'refund_reversal',
+  PAYOUT = 'payout',
+  PAYOUT_PAID = 'payout_paid',
+  PAYOUT_RETURNED = 'payout_returned',
+  // A lost dispute: the provider took the money back from the platform
+  CHARGEBACK = 'chargeback',
+  COMMISSION = 'commission',
+  COMMISSION_REVERSAL = 'commission_reversal',
+}
+
+// LedgerEntry attributes interface
+interface LedgerEntryAttributes {
+  id: string;
+  journal_id: string;
+  entry_type: string;
+  account: string;
+  instructor_id: string | null;
+  payment_id: string | null;
+  refund_id: string | null;
+  payout_id: string | null;
+  debit: number;
+  credit: number;
+  currency: string;
+  description: string | null;
+  metadata?: any;
+  created_at?: Date;
+}
+
+// LedgerEntry creation attributes interface
+interface LedgerEntryCreationAttributes
+  extends Optional<
+    LedgerEntryAttributes,
+    | 'id'
+    | 'instructor_id'
+    | 'payment_id'
+    | 'refund_id'
+    | 'payout_id'
+    | 'debit'
+    | 'credit'
+    | 'description'
+    | 'metadata'
+    | 'created_at'
+  > {}
+
+// LedgerEntry model class. Entries are never updated; corrections are posted as new journals.
+class LedgerEntry
+  extends Model<LedgerEntryAttributes, LedgerEntryCreationAttributes>
+  implements LedgerEntryAttributes
+{
+  public id!: string;
+  public journal_id!: string;
+  public entry_type!: string;
+  public account!: string;
+  public instructor_id!: string | null;
+  public payment_id!: string | null;
+  public refund_id!: string | null;
+  public payout_id!: string | null;
+  public debit!: number;
+  public credit!: number;
+  public currency!: string;
+  public description!: string | null;
+  public metadata?: any;
+  public readonly created_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // LedgerEntry belongs to User (instructor)
+    LedgerEntry.belongsTo(models.User, {
+      foreignKey: 'instructor_id',
+      as: 'instructor',
+    });
+
+    // LedgerEntry belongs to Payment
+    LedgerEntry.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // LedgerEntry belongs to Refund
+    LedgerEntry.belongsTo(models.Refund, {
+      foreignKey: 'refund_id',
+      as: 'refund',
+    });
+
+    // LedgerEntry belongs to Payout
+    LedgerEntry.belongsTo(models.Payout, {
+      foreignKey: 'payout_id',
+      as: 'payout',
+    });
+  }
+}
+
+// Initialize LedgerEntry model
+LedgerEntry.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    journal_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    entry_type: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(LedgerEntryType)],
+          msg: 'Invalid ledger entry type',
+        },
+      },
+    },
+    account: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(LedgerAccount)],
+          msg: 'Invalid ledger account',
+        },
+      },
+    },
+    instructor_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+    },
+    refund_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'refunds',
+        key: 'id',
+      },
+    },
+    payout_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payouts',
+        key: 'id',
+      },
+    },
+    debit: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    credit: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    metadata: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'LedgerEntry',
+    tableName: 'ledger_entries',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['journal_id'],
+        name: 'ledger_entries_journal_id_idx',
+      },
+      {
+        fields: ['account', 'instructor_id', 'created_at'],
+        name: 'ledger_entries_account_instructor_idx',
+      },
+      {
+        fields: ['payment_id', 'entry_type'],
+        name: 'ledger_entries_payment_idx',
+      },
+      {
+        fields: ['refund_id', 'entry_type'],
+        name: 'ledger_entries_refund_idx',
+      },
+      {
+        fields: ['payout_id'],
+        name: 'ledger_entries_payout_id_idx',
+      },
+    ],
+  }
+);
+
+export default LedgerEntry;
@@ -0,0 +1,146 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// PaymentItem attributes interface
+// One course bought by a payment that covers several courses, with the part of the payment's
+// amount allocated to it, tax included. Amounts are in the payment's currency.
+interface PaymentItemAttributes {
+  id: string;
+  payment_id: string;
+  course_id: string;
+  bundle_id: string | null;
+  list_price: number;
+  amount: number;
+  tax_amount: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// PaymentItem creation attributes interface
+interface PaymentItemCreationAttributes
+  extends Optional<
+    PaymentItemAttributes,
+    'id' | 'bundle_id' | 'tax_amount' | 'created_at' | 'updated_at'
+  > {}
+
+// PaymentItem model class
+class PaymentItem
+  extends Model<PaymentItemAttributes, PaymentItemCreationAttributes>
+  implements PaymentItemAttributes
+{
+  public id!: string;
+  public payment_id!: string;
+  public course_id!: string;
+  public bundle_id!: string | null;
+  public list_price!: number;
+  public amount!: number;
+  public tax_amount!: number;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // PaymentItem belongs to Payment
+    PaymentItem.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+
+    // PaymentItem belongs to Course
+    PaymentItem.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // PaymentItem may come from a Bundle
+    PaymentItem.belongsTo(models.Bundle, {
+      foreignKey: 'bundle_id',
+      as: 'bundle',
+    });
+  }
+}
+
+// Initialize PaymentItem model
+PaymentItem.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    bundle_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    list_price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    tax_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PaymentItem',
+    tableName: 'payment_items',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['payment_id'],
+        name: 'payment_items_payment_id_idx',
+      },
+      {
+        fields: ['course_id'],
+        name: 'payment_items_course_id_idx',
+      },
+    ],
+  }
+);
+
+export default PaymentItem;
@@ -0,0 +1,192 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Fraud screening rules a payment can trip
+export enum ScreeningRule {
+  // Too many payment attempts by the same account, or from the same IP, in the window
+  USER_VELOCITY = 'user_velocity',
+  IP_VELOCITY = 'ip_velocity',
+  // Billing country differs from the country the request came from
+  COUNTRY_MISMATCH = 'country_mismatch',
+  // The buyer has paid before, but never in this currency
+  CURRENCY_MISMATCH = 'currency_mismatch',
+  // Large payment from an account created recently
+  NEW_ACCOUNT_HIGH_AMOUNT = 'new_account_high_amount',
+}
+
+// Payment screening status enum
+export enum PaymentScreeningStatus {
+  HELD = 'held',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export interface TriggeredRule {
+  rule: ScreeningRule;
+  message: string;
+}
+
+// PaymentScreening attributes interface
+// A payment held by fraud screening, waiting in the review queue or reviewed
+interface PaymentScreeningAttributes {
+  id: string;
+  payment_id: string;
+  user_id: string;
+  ip_address: string | null;
+  rules: TriggeredRule[];
+  status: string;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// PaymentScreening creation attributes interface
+interface PaymentScreeningCreationAttributes
+  extends Optional<
+    PaymentScreeningAttributes,
+    | 'id'
+    | 'ip_address'
+    | 'status'
+    | 'reviewed_by'
+    | 'reviewed_at'
+    | 'review_note'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// PaymentScreening model class
+class PaymentScreening
+  extends Model<PaymentScreeningAttributes, PaymentScreeningCreationAttributes>
+  implements PaymentScreeningAttributes
+{
+  public id!: string;
+  public payment_id!: string;
+  public user_id!: string;
+  public ip_address!: string | null;
+  public rules!: TriggeredRule[];
+  public status!: string;
+  public reviewed_by!: string | null;
+  public reviewed_at!: Date | null;
+  public review_note!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // PaymentScreening belongs to Payment
+    PaymentScreening.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+
+    // PaymentScreening belongs to User (buyer)
+    PaymentScreening.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // PaymentScreening belongs to User (admin who reviewed it)
+    PaymentScreening.belongsTo(models.User, {
+      foreignKey: 'reviewed_by',
+      as: 'reviewer',
+    });
+  }
+}
+
+// Initialize PaymentScreening model
+PaymentScreening.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    rules: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: PaymentScreeningStatus.HELD,
+      validate: {
+        isIn: {
+          args: [Object.values(PaymentScreeningStatus)],
+          msg: 'Invalid payment screening status',
+        },
+      },
+    },
+    reviewed_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    review_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PaymentScreening',
+    tableName: 'payment_screenings',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['status', 'created_at'],
+        name: 'payment_screenings_status_created_idx',
+      },
+    ],
+  }
+);
+
+export default PaymentScreening;
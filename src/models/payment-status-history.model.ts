@@ -0,0 +1,152 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+import { PaymentStatus } from './payment.model';
+
+// Who or what triggered a status change
+export enum PaymentStatusChangeSource {
+  USER = 'user',
+  ADMIN = 'admin',
+  GATEWAY = 'gateway',
+  WEBHOOK = 'webhook',
+  SYSTEM = 'system',
+}
+
+// PaymentStatusHistory attributes interface
+interface PaymentStatusHistoryAttributes {
+  id: string;
+  payment_id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  source: string;
+  reason: string | null;
+  metadata?: any;
+  created_at?: Date;
+}
+
+// PaymentStatusHistory creation attributes interface
+interface PaymentStatusHistoryCreationAttributes
+  extends Optional<
+    PaymentStatusHistoryAttributes,
+    'id' | 'from_status' | 'changed_by' | 'reason' | 'metadata' | 'created_at'
+  > {}
+
+// PaymentStatusHistory model class
+class PaymentStatusHistory
+  extends Model<PaymentStatusHistoryAttributes, PaymentStatusHistoryCreationAttributes>
+  implements PaymentStatusHistoryAttributes
+{
+  public id!: string;
+  public payment_id!: string;
+  public from_status!: string | null;
+  public to_status!: string;
+  public changed_by!: string | null;
+  public source!: string;
+  public reason!: string | null;
+  public metadata?: any;
+  public readonly created_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // PaymentStatusHistory belongs to Payment
+    PaymentStatusHistory.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+
+    // PaymentStatusHistory belongs to User (who made the change)
+    PaymentStatusHistory.belongsTo(models.User, {
+      foreignKey: 'changed_by',
+      as: 'changedBy',
+    });
+  }
+}
+
+// Initialize PaymentStatusHistory model
+PaymentStatusHistory.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    from_status: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    to_status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(PaymentStatus)],
+          msg: 'Invalid payment status',
+        },
+      },
+    },
+    changed_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    source: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(PaymentStatusChangeSource)],
+          msg: 'Invalid status change source',
+        },
+      },
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    metadata: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PaymentStatusHistory',
+    tableName: 'payment_status_history',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['payment_id', 'created_at'],
+        name: 'payment_status_history_payment_date_idx',
+      },
+      {
+        fields: ['changed_by'],
+        name: 'payment_status_history_changed_by_idx',
+      },
+    ],
+  }
+);
+
+export default PaymentStatusHistory;
@@ -8,8 +8,31 @@ export enum PaymentStatus {
   COMPLETED = 'completed',
   FAILED = 'failed',
   REFUNDED = 'refunded',
+  // The buyer won a dispute with their bank and the money was taken back
+  CHARGEBACK = 'chargeback',
+  // Stopped by fraud screening until an admin approves (back to pending) or rejects it
+  HELD = 'held',
 }
 
+// Allowed payment status transitions. Anything not listed here is rejected.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  [PaymentStatus.PENDING]: [PaymentStatus.COMPLETED, PaymentStatus.FAILED, PaymentStatus.HELD],
+  [PaymentStatus.COMPLETED]: [PaymentStatus.REFUNDED, PaymentStatus.CHARGEBACK],
+  // A payment failed on our side (e.g. its checkout timed out) can still be captured by the
+  // provider; only the capture may complete it (see PaymentService.completeCaptured)
+  [PaymentStatus.FAILED]: [],
+  // A provider can reverse a refund that did not go through, but only that webhook may move
+  // the payment back to completed (see PaymentService.reverseRefund)
+  [PaymentStatus.REFUNDED]: [],
+  [PaymentStatus.CHARGEBACK]: [],
+  [PaymentStatus.HELD]: [PaymentStatus.PENDING, PaymentStatus.FAILED],
+};
+
+export const canTransitionPaymentStatus = (from: string, to: string): boolean => {
+  const allowed = PAYMENT_STATUS_TRANSITIONS[from as PaymentStatus] || [];
+  return allowed.includes(to as PaymentStatus);
+};
+
 // Payment method enum
 export enum PaymentMethod {
   CREDIT_CARD = 'credit_card',
@@ -22,12 +45,37 @@ export enum PaymentMethod {
 interface PaymentAttributes {
   id: string;
   user_id: string;
-  course_id: string;
+  // Set when the payment buys a single course; multi-course payments list theirs as items
+  course_id: string | null;
+  bundle_id?: string | null;
+  // Set when the payment is a subscription charge; it buys no course
+  subscription_id?: string | null;
+  // Bought for someone else: completing it issues a gift code instead of enrolling the buyer
+  is_gift?: boolean;
+  // What the buyer paid, tax included
   amount: number;
   currency: string;
   payment_method: string;
   status: string;
   transaction_id?: string;
+  coupon_id?: string | null;
+  discount_amount?: number;
+  // Price in effect when the payment was made, before coupons and tax; sale_price is what the
+  // sale left of it
+  list_price?: number | null;
+  sale_price?: number | null;
+  sale_id?: string | null;
+  // Tax breakdown: amount = net_amount + tax_amount
+  net_amount?: number;
+  tax_amount?: number;
+  tax_rate?: number;
+  tax_inclusive?: boolean;
+  tax_country?: string | null;
+  tax_region?: string | null;
+  // Country whose regional price was charged; null when the base price applied
+  price_country?: string | null;
+  // Referral link the buyer came through, if any
+  referral_link_id?: string | null;
   metadata?: any;
   created_at?: Date;
   updated_at?: Date;
@@ -37,7 +85,28 @@ interface PaymentAttributes {
 interface PaymentCreationAttributes
   extends Optional<
     PaymentAttributes,
-    'id' | 'transaction_id' | 'metadata' | 'created_at' | 'updated_at'
+    | 'id'
+    | 'course_id'
+    | 'bundle_id'
+    | 'subscription_id'
+    | 'is_gift'
+    | 'transaction_id'
+    | 'coupon_id'
+    | 'discount_amount'
+    | 'list_price'
+    | 'sale_price'
+    | 'sale_id'
+    | 'net_amount'
+    | 'tax_amount'
+    | 'tax_rate'
+    | 'tax_inclusive'
+    | 'tax_country'
+    | 'tax_region'
+    | 'price_country'
+    | 'referral_link_id'
+    | 'metadata'
+    | 'created_at'
+    | 'updated_at'
   > {}
 
 // Payment model class
@@ -47,12 +116,28 @@ class Payment
 {
   public id!: string;
   public user_id!: string;
-  public course_id!: string;
+  public course_id!: string | null;
+  public bundle_id?: string | null;
+  public subscription_id?: string | null;
+  public is_gift?: boolean;
   public amount!: number;
   public currency!: string;
   public payment_method!: string;
   public status!: string;
   public transaction_id?: string;
+  public coupon_id?: string | null;
+  public discount_amount?: number;
+  public list_price?: number | null;
+  public sale_price?: number | null;
+  public sale_id?: string | null;
+  public net_amount?: number;
+  public tax_amount?: number;
+  public tax_rate?: number;
+  public tax_inclusive?: boolean;
+  public tax_country?: string | null;
+  public tax_region?: string | null;
+  public price_country?: string | null;
+  public referral_link_id?: string | null;
   public metadata?: any;
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
@@ -73,12 +158,80 @@ class Payment
       onDelete: 'CASCADE',
     });
 
+    // Payment may be for a Bundle
+    Payment.belongsTo(models.Bundle, {
+      foreignKey: 'bundle_id',
+      as: 'bundle',
+    });
+
+    // Courses bought by a multi-course payment
+    Payment.hasMany(models.PaymentItem, {
+      foreignKey: 'payment_id',
+      as: 'items',
+      onDelete: 'CASCADE',
+    });
+
+    // Gift code issued by a gift purchase
+    Payment.hasOne(models.EnrollmentCode, {
+      foreignKey: 'payment_id',
+      as: 'giftCode',
+    });
+
+    // Payment may have used a Coupon
+    Payment.belongsTo(models.Coupon, {
+      foreignKey: 'coupon_id',
+      as: 'coupon',
+    });
+
+    // Payment may be a Subscription charge
+    Payment.belongsTo(models.Subscription, {
+      foreignKey: 'subscription_id',
+      as: 'subscription',
+    });
+
+    // Payment may have been made during a Sale
+    Payment.belongsTo(models.Sale, {
+      foreignKey: 'sale_id',
+      as: 'sale',
+    });
+
     // Payment has many Refunds
     Payment.hasMany(models.Refund, {
       foreignKey: 'payment_id',
       as: 'refunds',
       onDelete: 'CASCADE',
     });
+
+    // Payment has many refund requests
+    Payment.hasMany(models.RefundRequest, {
+      foreignKey: 'payment_id',
+      as: 'refundRequests',
+    });
+
+    // Payment has many status transitions
+    Payment.hasMany(models.PaymentStatusHistory, {
+      foreignKey: 'payment_id',
+      as: 'statusHistory',
+      onDelete: 'CASCADE',
+    });
+
+    // Payment has an invoice and a credit note per refund
+    Payment.hasMany(models.Invoice, {
+      foreignKey: 'payment_id',
+      as: 'invoices',
+    });
+
+    // Payment may be disputed by the buyer with their bank
+    Payment.hasMany(models.Dispute, {
+      foreignKey: 'payment_id',
+      as: 'disputes',
+    });
+
+    // Payment may have come through a ReferralLink
+    Payment.belongsTo(models.ReferralLink, {
+      foreignKey: 'referral_link_id',
+      as: 'referralLink',
+    });
   }
 }
 
@@ -102,13 +255,36 @@ Payment.init(
     },
     course_id: {
       type: DataTypes.STRING(20),
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'courses',
         key: 'id',
       },
       onDelete: 'CASCADE',
     },
+    bundle_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'bundles',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    subscription_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'subscriptions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    is_gift: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
     amount: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
@@ -143,6 +319,77 @@ Payment.init(
       type: DataTypes.STRING(100),
       allowNull: true,
     },
+    coupon_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'coupons',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    discount_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    list_price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    sale_price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    sale_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'sales',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    net_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    tax_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    tax_rate: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    tax_inclusive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    tax_country: {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+    },
+    tax_region: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    price_country: {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+    },
+    referral_link_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'referral_links',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
     metadata: {
       type: DataTypes.JSON,
       allowNull: true,
@@ -174,6 +421,14 @@ Payment.init(
         fields: ['course_id'],
         name: 'payments_course_id_idx',
       },
+      {
+        fields: ['bundle_id'],
+        name: 'payments_bundle_id_idx',
+      },
+      {
+        fields: ['subscription_id'],
+        name: 'payments_subscription_id_idx',
+      },
       {
         fields: ['status'],
         name: 'payments_status_idx',
@@ -0,0 +1,162 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// PayoutBatch status enum
+export enum PayoutBatchStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+// PayoutBatch attributes interface
+interface PayoutBatchAttributes {
+  id: string;
+  period: string;
+  period_start: Date;
+  period_end: Date;
+  status: string;
+  currency: string;
+  total_amount: number;
+  payout_count: number;
+  created_by: string | null;
+  completed_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// PayoutBatch creation attributes interface
+interface PayoutBatchCreationAttributes
+  extends Optional<
+    PayoutBatchAttributes,
+    | 'id'
+    | 'status'
+    | 'total_amount'
+    | 'payout_count'
+    | 'created_by'
+    | 'completed_at'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// PayoutBatch model class. One batch pays out everything owed up to the end of a month.
+class PayoutBatch
+  extends Model<PayoutBatchAttributes, PayoutBatchCreationAttributes>
+  implements PayoutBatchAttributes
+{
+  public id!: string;
+  public period!: string;
+  public period_start!: Date;
+  public period_end!: Date;
+  public status!: string;
+  public currency!: string;
+  public total_amount!: number;
+  public payout_count!: number;
+  public created_by!: string | null;
+  public completed_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // PayoutBatch has many payouts
+    PayoutBatch.hasMany(models.Payout, {
+      foreignKey: 'batch_id',
+      as: 'payouts',
+    });
+
+    // PayoutBatch belongs to User (admin who created it)
+    PayoutBatch.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize PayoutBatch model
+PayoutBatch.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    period: {
+      type: DataTypes.STRING(7),
+      allowNull: false,
+    },
+    period_start: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    period_end: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: PayoutBatchStatus.PROCESSING,
+      validate: {
+        isIn: {
+          args: [Object.values(PayoutBatchStatus)],
+          msg: 'Invalid payout batch status',
+        },
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    total_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    payout_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PayoutBatch',
+    tableName: 'payout_batches',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['period', 'status'],
+        name: 'payout_batches_period_status_idx',
+      },
+    ],
+  }
+);
+
+export default PayoutBatch;
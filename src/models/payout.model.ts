@@ -0,0 +1,177 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Payout status enum
+export enum PayoutStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Allowed payout status changes; paid, failed and cancelled are final
+export const PAYOUT_STATUS_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  [PayoutStatus.PENDING]: [PayoutStatus.PAID, PayoutStatus.FAILED, PayoutStatus.CANCELLED],
+  [PayoutStatus.PAID]: [],
+  [PayoutStatus.FAILED]: [],
+  [PayoutStatus.CANCELLED]: [],
+};
+
+export const canTransitionPayoutStatus = (from: string, to: string): boolean => {
+  const allowed = PAYOUT_STATUS_TRANSITIONS[from as PayoutStatus];
+  return !!allowed && allowed.includes(to as PayoutStatus);
+};
+
+// Payout attributes interface
+interface PayoutAttributes {
+  id: string;
+  batch_id: string;
+  instructor_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  reference: string | null;
+  failure_reason: string | null;
+  paid_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Payout creation attributes interface
+interface PayoutCreationAttributes
+  extends Optional<
+    PayoutAttributes,
+    'id' | 'status' | 'reference' | 'failure_reason' | 'paid_at' | 'created_at' | 'updated_at'
+  > {}
+
+// Payout model class
+class Payout extends Model<PayoutAttributes, PayoutCreationAttributes> implements PayoutAttributes {
+  public id!: string;
+  public batch_id!: string;
+  public instructor_id!: string;
+  public amount!: number;
+  public currency!: string;
+  public status!: string;
+  public reference!: string | null;
+  public failure_reason!: string | null;
+  public paid_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Payout belongs to PayoutBatch
+    Payout.belongsTo(models.PayoutBatch, {
+      foreignKey: 'batch_id',
+      as: 'batch',
+      onDelete: 'CASCADE',
+    });
+
+    // Payout belongs to User (instructor)
+    Payout.belongsTo(models.User, {
+      foreignKey: 'instructor_id',
+      as: 'instructor',
+    });
+
+    // Payout has many ledger entries
+    Payout.hasMany(models.LedgerEntry, {
+      foreignKey: 'payout_id',
+      as: 'ledgerEntries',
+    });
+  }
+}
+
+// Initialize Payout model
+Payout.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    batch_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payout_batches',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    instructor_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: PayoutStatus.PENDING,
+      validate: {
+        isIn: {
+          args: [Object.values(PayoutStatus)],
+          msg: 'Invalid payout status',
+        },
+      },
+    },
+    reference: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    failure_reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    paid_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Payout',
+    tableName: 'payouts',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['batch_id', 'instructor_id'],
+        name: 'payouts_batch_instructor_unique',
+      },
+      {
+        fields: ['instructor_id', 'status'],
+        name: 'payouts_instructor_status_idx',
+      },
+    ],
+  }
+);
+
+export default Payout;
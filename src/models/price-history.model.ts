@@ -0,0 +1,166 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Why a course's price changed
+export enum PriceChangeReason {
+  // Course created or its base price edited
+  PRICE_SET = 'price_set',
+  SALE_STARTED = 'sale_started',
+  SALE_ENDED = 'sale_ended',
+}
+
+// PriceHistory attributes interface
+// One change of a course's price. `price` is the base price from then on; while a sale runs,
+// `sale_id` and `discount_percent` say how much is taken off it.
+interface PriceHistoryAttributes {
+  id: string;
+  course_id: string;
+  reason: string;
+  price: number;
+  previous_price: number | null;
+  sale_id: string | null;
+  discount_percent: number | null;
+  changed_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// PriceHistory creation attributes interface
+interface PriceHistoryCreationAttributes
+  extends Optional<
+    PriceHistoryAttributes,
+    | 'id'
+    | 'previous_price'
+    | 'sale_id'
+    | 'discount_percent'
+    | 'changed_by'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// PriceHistory model class
+class PriceHistory
+  extends Model<PriceHistoryAttributes, PriceHistoryCreationAttributes>
+  implements PriceHistoryAttributes
+{
+  public id!: string;
+  public course_id!: string;
+  public reason!: string;
+  public price!: number;
+  public previous_price!: number | null;
+  public sale_id!: string | null;
+  public discount_percent!: number | null;
+  public changed_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // PriceHistory belongs to Course
+    PriceHistory.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // PriceHistory belongs to Sale
+    PriceHistory.belongsTo(models.Sale, {
+      foreignKey: 'sale_id',
+      as: 'sale',
+    });
+
+    // PriceHistory belongs to User (who changed the price; null for the sale job)
+    PriceHistory.belongsTo(models.User, {
+      foreignKey: 'changed_by',
+      as: 'changedBy',
+    });
+  }
+}
+
+// Initialize PriceHistory model
+PriceHistory.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    reason: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(PriceChangeReason)],
+          msg: 'Invalid price change reason',
+        },
+      },
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    previous_price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    sale_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'sales',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    discount_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+    },
+    changed_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PriceHistory',
+    tableName: 'price_history',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['course_id', 'created_at'],
+        name: 'price_history_course_created_at_idx',
+      },
+    ],
+  }
+);
+
+export default PriceHistory;
@@ -0,0 +1,193 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// What is wrong with a transaction found while reconciling
+export enum ReconciliationIssue {
+  // A payment or refund of the period that the settlement file does not have
+  MISSING = 'missing',
+  // In both, but the settled amount or currency differs from ours
+  AMOUNT_MISMATCH = 'amount_mismatch',
+  // In both, but ours was never settled: a failed, pending or held payment, or a refund that
+  // did not complete
+  STATUS_MISMATCH = 'status_mismatch',
+  // In the settlement file, but not a payment or refund of ours
+  ORPHAN = 'orphan',
+}
+
+// ReconciliationItem attributes interface
+// A transaction of a reconciliation run that did not match. Amounts are absolute: refunds
+// are compared without the sign the provider may give them.
+interface ReconciliationItemAttributes {
+  id: string;
+  run_id: string;
+  issue: string;
+  transaction_id: string;
+  payment_id: string | null;
+  refund_id: string | null;
+  expected_amount: number | null;
+  expected_currency: string | null;
+  settled_amount: number | null;
+  settled_currency: string | null;
+  // Line of the settlement file, for anything that was in it
+  line: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ReconciliationItem creation attributes interface
+interface ReconciliationItemCreationAttributes
+  extends Optional<
+    ReconciliationItemAttributes,
+    | 'id'
+    | 'payment_id'
+    | 'refund_id'
+    | 'expected_amount'
+    | 'expected_currency'
+    | 'settled_amount'
+    | 'settled_currency'
+    | 'line'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// ReconciliationItem model class
+class ReconciliationItem
+  extends Model<ReconciliationItemAttributes, ReconciliationItemCreationAttributes>
+  implements ReconciliationItemAttributes
+{
+  public id!: string;
+  public run_id!: string;
+  public issue!: string;
+  public transaction_id!: string;
+  public payment_id!: string | null;
+  public refund_id!: string | null;
+  public expected_amount!: number | null;
+  public expected_currency!: string | null;
+  public settled_amount!: number | null;
+  public settled_currency!: string | null;
+  public line!: number | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ReconciliationItem belongs to ReconciliationRun
+    ReconciliationItem.belongsTo(models.ReconciliationRun, {
+      foreignKey: 'run_id',
+      as: 'run',
+      onDelete: 'CASCADE',
+    });
+
+    // ReconciliationItem belongs to Payment (when it concerns one of ours)
+    ReconciliationItem.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // ReconciliationItem belongs to Refund (when it concerns one of ours)
+    ReconciliationItem.belongsTo(models.Refund, {
+      foreignKey: 'refund_id',
+      as: 'refund',
+    });
+  }
+}
+
+// Initialize ReconciliationItem model
+ReconciliationItem.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    run_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'reconciliation_runs',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    issue: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(ReconciliationIssue)],
+          msg: 'Invalid reconciliation issue',
+        },
+      },
+    },
+    transaction_id: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    refund_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'refunds',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    expected_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    expected_currency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    },
+    settled_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    settled_currency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    },
+    line: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReconciliationItem',
+    tableName: 'reconciliation_items',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['run_id', 'issue'],
+        name: 'reconciliation_items_run_issue_idx',
+      },
+    ],
+  }
+);
+
+export default ReconciliationItem;
@@ -0,0 +1,156 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// ReconciliationRun attributes interface
+// One import of a provider settlement file, checked against the payments and refunds of
+// the period it covers. The counts summarize the items recorded for it.
+interface ReconciliationRunAttributes {
+  id: string;
+  file_name: string;
+  payment_method: string | null;
+  period_start: Date;
+  period_end: Date;
+  row_count: number;
+  matched_count: number;
+  missing_count: number;
+  // Amount and status mismatches
+  mismatched_count: number;
+  orphan_count: number;
+  created_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ReconciliationRun creation attributes interface
+interface ReconciliationRunCreationAttributes
+  extends Optional<
+    ReconciliationRunAttributes,
+    | 'id'
+    | 'payment_method'
+    | 'row_count'
+    | 'matched_count'
+    | 'missing_count'
+    | 'mismatched_count'
+    | 'orphan_count'
+    | 'created_by'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// ReconciliationRun model class
+class ReconciliationRun
+  extends Model<ReconciliationRunAttributes, ReconciliationRunCreationAttributes>
+  implements ReconciliationRunAttributes
+{
+  public id!: string;
+  public file_name!: string;
+  public payment_method!: string | null;
+  public period_start!: Date;
+  public period_end!: Date;
+  public row_count!: number;
+  public matched_count!: number;
+  public missing_count!: number;
+  public mismatched_count!: number;
+  public orphan_count!: number;
+  public created_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ReconciliationRun has many ReconciliationItems
+    ReconciliationRun.hasMany(models.ReconciliationItem, {
+      foreignKey: 'run_id',
+      as: 'items',
+    });
+
+    // ReconciliationRun belongs to User (admin who imported the file)
+    ReconciliationRun.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize ReconciliationRun model
+ReconciliationRun.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    file_name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    payment_method: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    period_start: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    period_end: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    row_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    matched_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    missing_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    mismatched_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    orphan_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReconciliationRun',
+    tableName: 'reconciliation_runs',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default ReconciliationRun;
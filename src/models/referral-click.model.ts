@@ -0,0 +1,106 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// ReferralClick attributes interface
+// A visit through a referral link. user_id is set when the visitor was signed in; a
+// purchase is attributed to the visitor's latest click within the attribution window.
+interface ReferralClickAttributes {
+  id: string;
+  link_id: string;
+  user_id: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ReferralClick creation attributes interface
+interface ReferralClickCreationAttributes
+  extends Optional<ReferralClickAttributes, 'id' | 'user_id' | 'created_at' | 'updated_at'> {}
+
+// ReferralClick model class
+class ReferralClick
+  extends Model<ReferralClickAttributes, ReferralClickCreationAttributes>
+  implements ReferralClickAttributes
+{
+  public id!: string;
+  public link_id!: string;
+  public user_id!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ReferralClick belongs to ReferralLink
+    ReferralClick.belongsTo(models.ReferralLink, {
+      foreignKey: 'link_id',
+      as: 'link',
+      onDelete: 'CASCADE',
+    });
+
+    // ReferralClick may belong to User (the visitor)
+    ReferralClick.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+    });
+  }
+}
+
+// Initialize ReferralClick model
+ReferralClick.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    link_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'referral_links',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReferralClick',
+    tableName: 'referral_clicks',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['link_id'],
+        name: 'referral_clicks_link_id_idx',
+      },
+      {
+        fields: ['user_id', 'created_at'],
+        name: 'referral_clicks_user_created_idx',
+      },
+    ],
+  }
+);
+
+export default ReferralClick;
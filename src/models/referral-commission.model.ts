@@ -0,0 +1,211 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// ReferralCommission status enum
+export enum CommissionStatus {
+  // Waiting for an admin to approve it
+  PENDING = 'pending',
+  // Credited to the affiliate's balance and paid with their next payout
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  // The referred payment was refunded
+  REVERSED = 'reversed',
+}
+
+// ReferralCommission attributes interface
+// What an affiliate earns on a payment made through their link. Amounts are in the base
+// currency; sale_amount is the referred part of the payment without tax.
+interface ReferralCommissionAttributes {
+  id: string;
+  link_id: string;
+  affiliate_id: string;
+  payment_id: string;
+  referred_user_id: string;
+  sale_amount: number;
+  rate: number;
+  amount: number;
+  currency: string;
+  status: string;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  note: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ReferralCommission creation attributes interface
+interface ReferralCommissionCreationAttributes
+  extends Optional<
+    ReferralCommissionAttributes,
+    'id' | 'status' | 'reviewed_by' | 'reviewed_at' | 'note' | 'created_at' | 'updated_at'
+  > {}
+
+// ReferralCommission model class
+class ReferralCommission
+  extends Model<ReferralCommissionAttributes, ReferralCommissionCreationAttributes>
+  implements ReferralCommissionAttributes
+{
+  public id!: string;
+  public link_id!: string;
+  public affiliate_id!: string;
+  public payment_id!: string;
+  public referred_user_id!: string;
+  public sale_amount!: number;
+  public rate!: number;
+  public amount!: number;
+  public currency!: string;
+  public status!: string;
+  public reviewed_by!: string | null;
+  public reviewed_at!: Date | null;
+  public note!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ReferralCommission belongs to ReferralLink
+    ReferralCommission.belongsTo(models.ReferralLink, {
+      foreignKey: 'link_id',
+      as: 'link',
+    });
+
+    // ReferralCommission belongs to User (the affiliate)
+    ReferralCommission.belongsTo(models.User, {
+      foreignKey: 'affiliate_id',
+      as: 'affiliate',
+    });
+
+    // ReferralCommission belongs to Payment
+    ReferralCommission.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+
+    // ReferralCommission belongs to User (the buyer)
+    ReferralCommission.belongsTo(models.User, {
+      foreignKey: 'referred_user_id',
+      as: 'referredUser',
+    });
+
+    // ReferralCommission belongs to User (admin who reviewed it)
+    ReferralCommission.belongsTo(models.User, {
+      foreignKey: 'reviewed_by',
+      as: 'reviewer',
+    });
+  }
+}
+
+// Initialize ReferralCommission model
+ReferralCommission.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    link_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'referral_links',
+        key: 'id',
+      },
+    },
+    affiliate_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+    },
+    referred_user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    sale_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    rate: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      defaultValue: CommissionStatus.PENDING,
+      validate: {
+        isIn: {
+          args: [Object.values(CommissionStatus)],
+          msg: 'Invalid commission status',
+        },
+      },
+    },
+    reviewed_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReferralCommission',
+    tableName: 'referral_commissions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['affiliate_id', 'status'],
+        name: 'referral_commissions_affiliate_status_idx',
+      },
+    ],
+  }
+);
+
+export default ReferralCommission;
@@ -0,0 +1,143 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// ReferralLink attributes interface
+// A link a user shares to earn commission on the purchases of the people who follow it.
+// With a course it only counts for purchases of that course. commission_rate (percent)
+// overrides the default rate when set by an admin.
+interface ReferralLinkAttributes {
+  id: string;
+  code: string;
+  user_id: string;
+  course_id: string | null;
+  commission_rate: number | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// ReferralLink creation attributes interface
+interface ReferralLinkCreationAttributes
+  extends Optional<
+    ReferralLinkAttributes,
+    'id' | 'course_id' | 'commission_rate' | 'is_active' | 'created_at' | 'updated_at'
+  > {}
+
+// ReferralLink model class
+class ReferralLink
+  extends Model<ReferralLinkAttributes, ReferralLinkCreationAttributes>
+  implements ReferralLinkAttributes
+{
+  public id!: string;
+  public code!: string;
+  public user_id!: string;
+  public course_id!: string | null;
+  public commission_rate!: number | null;
+  public is_active!: boolean;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // ReferralLink belongs to User (the affiliate)
+    ReferralLink.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'owner',
+      onDelete: 'CASCADE',
+    });
+
+    // ReferralLink may be for a single Course
+    ReferralLink.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // ReferralLink has many ReferralClicks
+    ReferralLink.hasMany(models.ReferralClick, {
+      foreignKey: 'link_id',
+      as: 'clicks',
+    });
+
+    // ReferralLink has many ReferralCommissions
+    ReferralLink.hasMany(models.ReferralCommission, {
+      foreignKey: 'link_id',
+      as: 'commissions',
+    });
+  }
+}
+
+// Initialize ReferralLink model
+ReferralLink.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    code: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      unique: true,
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    commission_rate: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReferralLink',
+    tableName: 'referral_links',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['user_id'],
+        name: 'referral_links_user_id_idx',
+      },
+    ],
+  }
+);
+
+export default ReferralLink;
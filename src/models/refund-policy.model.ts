@@ -0,0 +1,144 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// RefundPolicy attributes interface
+interface RefundPolicyAttributes {
+  id: string;
+  course_id: string | null;
+  name: string;
+  max_days_since_purchase: number | null;
+  max_progress_percent: number | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// RefundPolicy creation attributes interface
+interface RefundPolicyCreationAttributes
+  extends Optional<
+    RefundPolicyAttributes,
+    | 'id'
+    | 'course_id'
+    | 'max_days_since_purchase'
+    | 'max_progress_percent'
+    | 'is_active'
+    | 'created_by'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// RefundPolicy model class. A policy without course_id applies to every course that has no
+// policy of its own. A payment matches a policy when it meets all of the policy's limits;
+// a limit left null is not checked.
+class RefundPolicy
+  extends Model<RefundPolicyAttributes, RefundPolicyCreationAttributes>
+  implements RefundPolicyAttributes
+{
+  public id!: string;
+  public course_id!: string | null;
+  public name!: string;
+  public max_days_since_purchase!: number | null;
+  public max_progress_percent!: number | null;
+  public is_active!: boolean;
+  public created_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // RefundPolicy belongs to Course
+    RefundPolicy.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // RefundPolicy belongs to User (admin who created it)
+    RefundPolicy.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize RefundPolicy model
+RefundPolicy.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    max_days_since_purchase: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+    },
+    max_progress_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RefundPolicy',
+    tableName: 'refund_policies',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['course_id', 'is_active'],
+        name: 'refund_policies_course_active_idx',
+      },
+    ],
+  }
+);
+
+export default RefundPolicy;
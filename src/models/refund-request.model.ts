@@ -0,0 +1,235 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// RefundRequest status enum
+export enum RefundRequestStatus {
+  REQUESTED = 'requested',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  PROCESSED = 'processed',
+  CANCELLED = 'cancelled',
+}
+
+// Allowed refund request status changes.
+// processed -> approved only happens when the refund itself fails and can be retried.
+export const REFUND_REQUEST_STATUS_TRANSITIONS: Record<RefundRequestStatus, RefundRequestStatus[]> =
+  {
+    [RefundRequestStatus.REQUESTED]: [
+      RefundRequestStatus.APPROVED,
+      RefundRequestStatus.REJECTED,
+      RefundRequestStatus.CANCELLED,
+    ],
+    [RefundRequestStatus.APPROVED]: [RefundRequestStatus.PROCESSED],
+    [RefundRequestStatus.PROCESSED]: [RefundRequestStatus.APPROVED],
+    [RefundRequestStatus.REJECTED]: [],
+    [RefundRequestStatus.CANCELLED]: [],
+  };
+
+export const canTransitionRefundRequestStatus = (from: string, to: string): boolean => {
+  const allowed = REFUND_REQUEST_STATUS_TRANSITIONS[from as RefundRequestStatus];
+  return !!allowed && allowed.includes(to as RefundRequestStatus);
+};
+
+// Requests still waiting on a decision or on the refund
+export const OPEN_REFUND_REQUEST_STATUSES = [
+  RefundRequestStatus.REQUESTED,
+  RefundRequestStatus.APPROVED,
+];
+
+// RefundRequest attributes interface
+interface RefundRequestAttributes {
+  id: string;
+  payment_id: string;
+  user_id: string;
+  amount: number;
+  reason: string;
+  status: string;
+  reviewer_id: string | null;
+  reviewer_note: string | null;
+  reviewed_at: Date | null;
+  refund_id: string | null;
+  processed_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// RefundRequest creation attributes interface
+interface RefundRequestCreationAttributes
+  extends Optional<
+    RefundRequestAttributes,
+    | 'id'
+    | 'status'
+    | 'reviewer_id'
+    | 'reviewer_note'
+    | 'reviewed_at'
+    | 'refund_id'
+    | 'processed_at'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// RefundRequest model class
+class RefundRequest
+  extends Model<RefundRequestAttributes, RefundRequestCreationAttributes>
+  implements RefundRequestAttributes
+{
+  public id!: string;
+  public payment_id!: string;
+  public user_id!: string;
+  public amount!: number;
+  public reason!: string;
+  public status!: string;
+  public reviewer_id!: string | null;
+  public reviewer_note!: string | null;
+  public reviewed_at!: Date | null;
+  public refund_id!: string | null;
+  public processed_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // RefundRequest belongs to Payment
+    RefundRequest.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+      onDelete: 'CASCADE',
+    });
+
+    // RefundRequest belongs to User (student who asked)
+    RefundRequest.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // RefundRequest belongs to User (reviewer)
+    RefundRequest.belongsTo(models.User, {
+      foreignKey: 'reviewer_id',
+      as: 'reviewer',
+    });
+
+    // RefundRequest belongs to Refund (once processed)
+    RefundRequest.belongsTo(models.Refund, {
+      foreignKey: 'refund_id',
+      as: 'refund',
+    });
+  }
+}
+
+// Initialize RefundRequest model
+RefundRequest.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+      },
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: RefundRequestStatus.REQUESTED,
+      validate: {
+        isIn: {
+          args: [Object.values(RefundRequestStatus)],
+          msg: 'Invalid refund request status',
+        },
+      },
+    },
+    reviewer_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    reviewer_note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    refund_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'refunds',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    processed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RefundRequest',
+    tableName: 'refund_requests',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['payment_id', 'status'],
+        name: 'refund_requests_payment_status_idx',
+      },
+      {
+        fields: ['user_id'],
+        name: 'refund_requests_user_id_idx',
+      },
+      {
+        fields: ['status', 'created_at'],
+        name: 'refund_requests_status_created_idx',
+      },
+    ],
+  }
+);
+
+export default RefundRequest;
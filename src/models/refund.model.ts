@@ -15,6 +15,9 @@ interface RefundAttributes {
   id: string;
   payment_id: string;
   amount: number;
+  // Split of the refunded amount into net and tax
+  net_amount?: number;
+  tax_amount?: number;
   reason: string;
   status: string;
   transaction_id?: string;
@@ -27,7 +30,13 @@ interface RefundAttributes {
 interface RefundCreationAttributes
   extends Optional<
     RefundAttributes,
-    "id" | "transaction_id" | "metadata" | "created_at" | "updated_at"
+    | "id"
+    | "net_amount"
+    | "tax_amount"
+    | "transaction_id"
+    | "metadata"
+    | "created_at"
+    | "updated_at"
   > {}
 
 // Refund model class
@@ -38,6 +47,8 @@ class Refund
   public id!: string;
   public payment_id!: string;
   public amount!: number;
+  public net_amount?: number;
+  public tax_amount?: number;
   public reason!: string;
   public status!: string;
   public transaction_id?: string;
@@ -78,6 +89,15 @@ Refund.init(
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
     },
+    net_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    tax_amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
     reason: {
       type: DataTypes.TEXT,
       allowNull: false,
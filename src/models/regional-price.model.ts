@@ -0,0 +1,130 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// RegionalPrice attributes interface
+// Price of a course for buyers in a country. Buyers elsewhere pay the course's base price
+// (or its explicit price in their currency).
+interface RegionalPriceAttributes {
+  id: string;
+  course_id: string;
+  country_code: string;
+  currency: string;
+  amount: number;
+  created_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// RegionalPrice creation attributes interface
+interface RegionalPriceCreationAttributes
+  extends Optional<RegionalPriceAttributes, 'id' | 'created_by' | 'created_at' | 'updated_at'> {}
+
+// RegionalPrice model class
+class RegionalPrice
+  extends Model<RegionalPriceAttributes, RegionalPriceCreationAttributes>
+  implements RegionalPriceAttributes
+{
+  public id!: string;
+  public course_id!: string;
+  public country_code!: string;
+  public currency!: string;
+  public amount!: number;
+  public created_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // RegionalPrice belongs to Course
+    RegionalPrice.belongsTo(models.Course, {
+      foreignKey: 'course_id',
+      as: 'course',
+      onDelete: 'CASCADE',
+    });
+
+    // RegionalPrice belongs to User (instructor or admin who set it)
+    RegionalPrice.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize RegionalPrice model
+RegionalPrice.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    course_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'courses',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    country_code: {
+      type: DataTypes.STRING(2),
+      allowNull: false,
+      set(value: string) {
+        this.setDataValue('country_code', value.toUpperCase());
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      set(value: string) {
+        this.setDataValue('currency', value.toUpperCase());
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RegionalPrice',
+    tableName: 'regional_prices',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['course_id', 'country_code'],
+        name: 'regional_prices_course_country_unique',
+      },
+    ],
+  }
+);
+
+export default RegionalPrice;
@@ -0,0 +1,125 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// RevenueShareRule attributes interface
+interface RevenueShareRuleAttributes {
+  id: string;
+  instructor_id: string | null;
+  instructor_share_percent: number;
+  effective_from: string;
+  note: string | null;
+  created_by: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// RevenueShareRule creation attributes interface
+interface RevenueShareRuleCreationAttributes
+  extends Optional<
+    RevenueShareRuleAttributes,
+    'id' | 'instructor_id' | 'note' | 'created_by' | 'created_at' | 'updated_at'
+  > {}
+
+// RevenueShareRule model class. A rule without instructor_id is the platform default.
+class RevenueShareRule
+  extends Model<RevenueShareRuleAttributes, RevenueShareRuleCreationAttributes>
+  implements RevenueShareRuleAttributes
+{
+  public id!: string;
+  public instructor_id!: string | null;
+  public instructor_share_percent!: number;
+  public effective_from!: string;
+  public note!: string | null;
+  public created_by!: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // RevenueShareRule belongs to User (instructor)
+    RevenueShareRule.belongsTo(models.User, {
+      foreignKey: 'instructor_id',
+      as: 'instructor',
+      onDelete: 'CASCADE',
+    });
+
+    // RevenueShareRule belongs to User (admin who set it)
+    RevenueShareRule.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize RevenueShareRule model
+RevenueShareRule.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    instructor_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    instructor_share_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    effective_from: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    note: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RevenueShareRule',
+    tableName: 'revenue_share_rules',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['instructor_id', 'effective_from'],
+        name: 'revenue_share_rules_instructor_date_idx',
+      },
+    ],
+  }
+);
+
+export default RevenueShareRule;
@@ -0,0 +1,169 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// What a sale covers; scope_id holds the course, category or instructor ID
+export enum SaleScope {
+  COURSE = 'course',
+  CATEGORY = 'category',
+  INSTRUCTOR = 'instructor',
+}
+
+// Sale status enum. Prices follow the sale window itself; the status is moved along by the
+// sale job, which also records the price history.
+export enum SaleStatus {
+  SCHEDULED = 'scheduled',
+  ACTIVE = 'active',
+  ENDED = 'ended',
+  CANCELED = 'canceled',
+}
+
+// Sale attributes interface
+// A percentage off the price of the courses in scope between starts_at and ends_at. When
+// several sales cover a course, the biggest discount wins.
+interface SaleAttributes {
+  id: string;
+  name: string;
+  scope: string;
+  scope_id: string;
+  discount_percent: number;
+  starts_at: Date;
+  ends_at: Date;
+  status: string;
+  created_by: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Sale creation attributes interface
+interface SaleCreationAttributes
+  extends Optional<SaleAttributes, 'id' | 'status' | 'created_at' | 'updated_at'> {}
+
+// Sale model class
+class Sale extends Model<SaleAttributes, SaleCreationAttributes> implements SaleAttributes {
+  public id!: string;
+  public name!: string;
+  public scope!: string;
+  public scope_id!: string;
+  public discount_percent!: number;
+  public starts_at!: Date;
+  public ends_at!: Date;
+  public status!: string;
+  public created_by!: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Sale belongs to User (creator)
+    Sale.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+
+    // Sale has many price history entries
+    Sale.hasMany(models.PriceHistory, {
+      foreignKey: 'sale_id',
+      as: 'priceHistory',
+    });
+  }
+}
+
+// Initialize Sale model
+Sale.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    scope: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(SaleScope)],
+          msg: 'Invalid sale scope',
+        },
+      },
+    },
+    scope_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    discount_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+        max: 100,
+      },
+    },
+    starts_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    ends_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: SaleStatus.SCHEDULED,
+      validate: {
+        isIn: {
+          args: [Object.values(SaleStatus)],
+          msg: 'Invalid sale status',
+        },
+      },
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Sale',
+    tableName: 'sales',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['scope', 'scope_id'],
+        name: 'sales_scope_idx',
+      },
+      {
+        fields: ['status', 'starts_at'],
+        name: 'sales_status_starts_at_idx',
+      },
+      {
+        fields: ['status', 'ends_at'],
+        name: 'sales_status_ends_at_idx',
+      },
+    ],
+  }
+);
+
+export default Sale;
@@ -0,0 +1,180 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Subscription charge status enum
+export enum SubscriptionChargeStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+// SubscriptionCharge attributes interface
+interface SubscriptionChargeAttributes {
+  id: string;
+  subscription_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  period_start: Date;
+  period_end: Date;
+  gateway_intent_id: string | null;
+  transaction_id: string | null;
+  failure_code: string | null;
+  failure_message: string | null;
+  // Payment recorded for a successful charge
+  payment_id?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// SubscriptionCharge creation attributes interface
+interface SubscriptionChargeCreationAttributes
+  extends Optional<
+    SubscriptionChargeAttributes,
+    | 'id'
+    | 'status'
+    | 'gateway_intent_id'
+    | 'transaction_id'
+    | 'failure_code'
+    | 'failure_message'
+    | 'payment_id'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// SubscriptionCharge model class: one attempt to collect payment for a billing period
+class SubscriptionCharge
+  extends Model<SubscriptionChargeAttributes, SubscriptionChargeCreationAttributes>
+  implements SubscriptionChargeAttributes
+{
+  public id!: string;
+  public subscription_id!: string;
+  public amount!: number;
+  public currency!: string;
+  public status!: string;
+  public period_start!: Date;
+  public period_end!: Date;
+  public gateway_intent_id!: string | null;
+  public transaction_id!: string | null;
+  public failure_code!: string | null;
+  public failure_message!: string | null;
+  public payment_id?: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // SubscriptionCharge belongs to Subscription
+    SubscriptionCharge.belongsTo(models.Subscription, {
+      foreignKey: 'subscription_id',
+      as: 'subscription',
+      onDelete: 'CASCADE',
+    });
+
+    // A successful SubscriptionCharge is recorded as a Payment
+    SubscriptionCharge.belongsTo(models.Payment, {
+      foreignKey: 'payment_id',
+      as: 'payment',
+    });
+  }
+}
+
+// Initialize SubscriptionCharge model
+SubscriptionCharge.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    subscription_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'subscriptions',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: SubscriptionChargeStatus.PENDING,
+      validate: {
+        isIn: {
+          args: [Object.values(SubscriptionChargeStatus)],
+          msg: 'Invalid subscription charge status',
+        },
+      },
+    },
+    period_start: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    period_end: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    gateway_intent_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    transaction_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    failure_code: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    failure_message: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    payment_id: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      references: {
+        model: 'payments',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'SubscriptionCharge',
+    tableName: 'subscription_charges',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['subscription_id', 'created_at'],
+        name: 'subscription_charges_subscription_created_idx',
+      },
+    ],
+  }
+);
+
+export default SubscriptionCharge;
@@ -0,0 +1,137 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// How often a subscription renews
+export enum SubscriptionInterval {
+  MONTH = 'month',
+  YEAR = 'year',
+}
+
+// SubscriptionPlan attributes interface
+interface SubscriptionPlanAttributes {
+  id: string;
+  name: string;
+  description: string | null;
+  interval: string;
+  price: number;
+  currency: string;
+  grace_period_days: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// SubscriptionPlan creation attributes interface
+interface SubscriptionPlanCreationAttributes
+  extends Optional<
+    SubscriptionPlanAttributes,
+    | 'id'
+    | 'description'
+    | 'currency'
+    | 'grace_period_days'
+    | 'is_active'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// SubscriptionPlan model class. Every plan gives access to all published courses.
+class SubscriptionPlan
+  extends Model<SubscriptionPlanAttributes, SubscriptionPlanCreationAttributes>
+  implements SubscriptionPlanAttributes
+{
+  public id!: string;
+  public name!: string;
+  public description!: string | null;
+  public interval!: string;
+  public price!: number;
+  public currency!: string;
+  public grace_period_days!: number;
+  public is_active!: boolean;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // SubscriptionPlan has many subscriptions
+    SubscriptionPlan.hasMany(models.Subscription, {
+      foreignKey: 'plan_id',
+      as: 'subscriptions',
+    });
+  }
+}
+
+// Initialize SubscriptionPlan model
+SubscriptionPlan.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    interval: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [Object.values(SubscriptionInterval)],
+          msg: 'Invalid subscription interval',
+        },
+      },
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'USD',
+    },
+    grace_period_days: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 7,
+      validate: {
+        min: 0,
+      },
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'SubscriptionPlan',
+    tableName: 'subscription_plans',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+);
+
+export default SubscriptionPlan;
@@ -0,0 +1,237 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Subscription status enum
+export enum SubscriptionStatus {
+  ACTIVE = 'active',
+  // A renewal failed; access continues until grace_until while the charge is retried
+  PAST_DUE = 'past_due',
+  CANCELED = 'canceled',
+  EXPIRED = 'expired',
+}
+
+// Allowed status transitions; canceled and expired are final
+export const SUBSCRIPTION_STATUS_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  [SubscriptionStatus.ACTIVE]: [
+    SubscriptionStatus.PAST_DUE,
+    SubscriptionStatus.CANCELED,
+    SubscriptionStatus.EXPIRED,
+  ],
+  [SubscriptionStatus.PAST_DUE]: [
+    SubscriptionStatus.ACTIVE,
+    SubscriptionStatus.CANCELED,
+    SubscriptionStatus.EXPIRED,
+  ],
+  [SubscriptionStatus.CANCELED]: [],
+  [SubscriptionStatus.EXPIRED]: [],
+};
+
+// Statuses in which a subscription still renews and may grant access
+export const CURRENT_SUBSCRIPTION_STATUSES = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.PAST_DUE,
+];
+
+export const canTransitionSubscriptionStatus = (from: string, to: string): boolean =>
+  (SUBSCRIPTION_STATUS_TRANSITIONS[from as SubscriptionStatus] || []).includes(
+    to as SubscriptionStatus
+  );
+
+// Subscription attributes interface
+interface SubscriptionAttributes {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  status: string;
+  payment_method: string;
+  payment_token: string | null;
+  price: number;
+  currency: string;
+  current_period_start: Date;
+  current_period_end: Date;
+  grace_until: Date;
+  cancel_at_period_end: boolean;
+  canceled_at: Date | null;
+  ended_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// Subscription creation attributes interface
+interface SubscriptionCreationAttributes
+  extends Optional<
+    SubscriptionAttributes,
+    | 'id'
+    | 'status'
+    | 'payment_token'
+    | 'cancel_at_period_end'
+    | 'canceled_at'
+    | 'ended_at'
+    | 'created_at'
+    | 'updated_at'
+  > {}
+
+// Subscription model class. Renewals charge `price`, fixed when the user subscribed.
+// grace_until is the end of the current period plus the plan's grace period: how long access
+// lasts if the renewal never succeeds.
+class Subscription
+  extends Model<SubscriptionAttributes, SubscriptionCreationAttributes>
+  implements SubscriptionAttributes
+{
+  public id!: string;
+  public user_id!: string;
+  public plan_id!: string;
+  public status!: string;
+  public payment_method!: string;
+  public payment_token!: string | null;
+  public price!: number;
+  public currency!: string;
+  public current_period_start!: Date;
+  public current_period_end!: Date;
+  public grace_until!: Date;
+  public cancel_at_period_end!: boolean;
+  public canceled_at!: Date | null;
+  public ended_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // Subscription belongs to User
+    Subscription.belongsTo(models.User, {
+      foreignKey: 'user_id',
+      as: 'user',
+      onDelete: 'CASCADE',
+    });
+
+    // Subscription belongs to SubscriptionPlan
+    Subscription.belongsTo(models.SubscriptionPlan, {
+      foreignKey: 'plan_id',
+      as: 'plan',
+    });
+
+    // Subscription has many charges
+    Subscription.hasMany(models.SubscriptionCharge, {
+      foreignKey: 'subscription_id',
+      as: 'charges',
+    });
+
+    // Subscription has a payment per successful charge
+    Subscription.hasMany(models.Payment, {
+      foreignKey: 'subscription_id',
+      as: 'payments',
+    });
+  }
+}
+
+// Initialize Subscription model
+Subscription.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    user_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    plan_id: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'subscription_plans',
+        key: 'id',
+      },
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: SubscriptionStatus.ACTIVE,
+      validate: {
+        isIn: {
+          args: [Object.values(SubscriptionStatus)],
+          msg: 'Invalid subscription status',
+        },
+      },
+    },
+    payment_method: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    payment_token: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    current_period_start: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    current_period_end: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    grace_until: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    cancel_at_period_end: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    canceled_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    ended_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Subscription',
+    tableName: 'subscriptions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['user_id', 'status'],
+        name: 'subscriptions_user_status_idx',
+      },
+      {
+        fields: ['status', 'current_period_end'],
+        name: 'subscriptions_status_period_end_idx',
+      },
+    ],
+  }
+);
+
+export default Subscription;
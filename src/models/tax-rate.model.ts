@@ -0,0 +1,129 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// TaxRate attributes interface
+// Sales tax or VAT charged to buyers in a country, or in one region of it (e.g. a US state).
+// A region rate takes precedence over its country's rate.
+interface TaxRateAttributes {
+  id: string;
+  country_code: string;
+  region: string | null;
+  name: string;
+  rate: number;
+  // Whether prices already include the tax (VAT style) or it is added on top (sales tax style)
+  is_inclusive: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// TaxRate creation attributes interface
+interface TaxRateCreationAttributes
+  extends Optional<
+    TaxRateAttributes,
+    'id' | 'region' | 'is_inclusive' | 'is_active' | 'created_at' | 'updated_at'
+  > {}
+
+// TaxRate model class
+class TaxRate
+  extends Model<TaxRateAttributes, TaxRateCreationAttributes>
+  implements TaxRateAttributes
+{
+  public id!: string;
+  public country_code!: string;
+  public region!: string | null;
+  public name!: string;
+  public rate!: number;
+  public is_inclusive!: boolean;
+  public is_active!: boolean;
+  public created_by!: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Define associations
+  public static associate(models: any): void {
+    // TaxRate belongs to User (admin who set it)
+    TaxRate.belongsTo(models.User, {
+      foreignKey: 'created_by',
+      as: 'creator',
+    });
+  }
+}
+
+// Initialize TaxRate model
+TaxRate.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    country_code: {
+      type: DataTypes.STRING(2),
+      allowNull: false,
+    },
+    region: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    rate: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    is_inclusive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_by: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'TaxRate',
+    tableName: 'tax_rates',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        fields: ['country_code', 'region'],
+        name: 'tax_rates_location_idx',
+      },
+    ],
+  }
+);
+
+export default TaxRate;
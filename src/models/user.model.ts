@@ -11,6 +11,8 @@ interface UserAttributes {
   password: string;
   bio?: string;
   profile_thumbnail?: string;
+  // Two-letter country code, used for regional prices when the request does not tell
+  country?: string | null;
   is_active: boolean;
   token_version: number;
   created_at?: Date;
@@ -32,6 +34,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public password!: string;
   public bio!: string | undefined;
   public profile_thumbnail!: string | undefined;
+  public country!: string | null;
   public is_active!: boolean;
   public token_version!: number;
   public readonly created_at!: Date;
@@ -124,6 +127,10 @@ User.init(
       type: DataTypes.STRING(255),
       allowNull: true,
     },
+    country: {
+      type: DataTypes.STRING(2),
+      allowNull: true,
+    },
     is_active: {
       type: DataTypes.BOOLEAN,
       defaultValue: true,
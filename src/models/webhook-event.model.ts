@@ -0,0 +1,138 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { generateUniqueId } from '../utils/uuid';
+
+// Webhook event processing status enum
+export enum WebhookEventStatus {
+  RECEIVED = 'received',
+  PROCESSED = 'processed',
+  IGNORED = 'ignored',
+  FAILED = 'failed',
+}
+
+// WebhookEvent attributes interface
+interface WebhookEventAttributes {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string;
+  payload: any;
+  status: string;
+  attempts: number;
+  processing_error: string | null;
+  processed_at: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// WebhookEvent creation attributes interface
+interface WebhookEventCreationAttributes
+  extends Optional<
+    WebhookEventAttributes,
+    'id' | 'status' | 'attempts' | 'processing_error' | 'processed_at' | 'created_at' | 'updated_at'
+  > {}
+
+// WebhookEvent model class
+class WebhookEvent
+  extends Model<WebhookEventAttributes, WebhookEventCreationAttributes>
+  implements WebhookEventAttributes
+{
+  public id!: string;
+  public provider!: string;
+  public event_id!: string;
+  public event_type!: string;
+  public payload!: any;
+  public status!: string;
+  public attempts!: number;
+  public processing_error!: string | null;
+  public processed_at!: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+// Initialize WebhookEvent model
+WebhookEvent.init(
+  {
+    id: {
+      type: DataTypes.STRING(20),
+      primaryKey: true,
+      allowNull: false,
+      defaultValue: () => generateUniqueId(),
+    },
+    provider: {
+      type: DataTypes.STRING(30),
+      allowNull: false,
+    },
+    event_id: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    event_type: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: WebhookEventStatus.RECEIVED,
+      validate: {
+        isIn: {
+          args: [Object.values(WebhookEventStatus)],
+          msg: 'Invalid webhook event status',
+        },
+      },
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    processing_error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    processed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'WebhookEvent',
+    tableName: 'webhook_events',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      {
+        unique: true,
+        fields: ['provider', 'event_id'],
+        name: 'webhook_events_provider_event_unique',
+      },
+      {
+        fields: ['status'],
+        name: 'webhook_events_status_idx',
+      },
+      {
+        fields: ['event_type'],
+        name: 'webhook_events_event_type_idx',
+      },
+    ],
+  }
+);
+
+export default WebhookEvent;
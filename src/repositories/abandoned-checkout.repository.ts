@@ -0,0 +1,128 @@
+import { Op, Transaction } from 'sequelize';
+import AbandonedCheckout from '../models/abandoned-checkout.model';
+import User from '../models/user.model';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import { BaseRepository } from './base.repository';
+
+interface AbandonedCheckoutFilterOptions {
+  page?: number;
+  limit?: number;
+  user_id?: string;
+  recovered?: boolean;
+  // Only those not recovered or reminded yet that were abandoned before this date
+  reminder_due_before?: Date;
+}
+
+interface RecoveryMatch {
+  user_id: string;
+  course_id?: string | null;
+  bundle_id?: string | null;
+  checkout_session_id?: string | null;
+}
+
+export class AbandonedCheckoutRepository extends BaseRepository<AbandonedCheckout> {
+  constructor() {
+    super(AbandonedCheckout);
+  }
+
+  /**
+   * Find abandoned checkouts with the buyer and what they were buying, newest first
+   */
+  async findWithFilter(options: AbandonedCheckoutFilterOptions = {}): Promise<{
+    checkouts: AbandonedCheckout[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, user_id, recovered, reminder_due_before } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (user_id) {
+      whereClause.user_id = user_id;
+    }
+
+    if (recovered !== undefined) {
+      whereClause.recovered_at = recovered ? { [Op.ne]: null } : null;
+    }
+
+    if (reminder_due_before) {
+      whereClause.recovered_at = null;
+      whereClause.reminded_at = null;
+      whereClause.abandoned_at = { [Op.lte]: reminder_due_before };
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title', 'thumbnail', 'price'],
+          required: false,
+        },
+        {
+          model: Bundle,
+          as: 'bundle',
+          attributes: ['id', 'title', 'price'],
+          required: false,
+        },
+      ],
+      limit,
+      offset,
+      order: [['abandoned_at', 'DESC']],
+    });
+
+    return {
+      checkouts: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Mark the user's unrecovered checkouts for the same course or bundle, or for the session
+   * that was retried, as recovered by a completed session
+   * @returns how many were recovered
+   */
+  async markRecovered(
+    match: RecoveryMatch,
+    recovered_by_session_id: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    const conditions: any[] = [];
+
+    if (match.course_id) {
+      conditions.push({ course_id: match.course_id });
+    }
+
+    if (match.bundle_id) {
+      conditions.push({ bundle_id: match.bundle_id });
+    }
+
+    if (match.checkout_session_id) {
+      conditions.push({ checkout_session_id: match.checkout_session_id });
+    }
+
+    if (conditions.length === 0) {
+      return 0;
+    }
+
+    const [affectedCount] = await this.update(
+      { recovered_at: new Date(), recovered_by_session_id },
+      { user_id: match.user_id, recovered_at: null, [Op.or]: conditions } as any,
+      { transaction }
+    );
+    return affectedCount;
+  }
+}
+
+export default new AbandonedCheckoutRepository();
@@ -0,0 +1,129 @@
+import { FindOptions, Transaction } from 'sequelize';
+import Bundle from '../models/bundle.model';
+import BundleCourse from '../models/bundle-course.model';
+import Course from '../models/course.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface BundleFilterOptions {
+  page?: number;
+  limit?: number;
+  instructor_id?: string;
+  is_active?: boolean;
+}
+
+export class BundleRepository extends BaseRepository<Bundle> {
+  constructor() {
+    super(Bundle);
+  }
+
+  /**
+   * Find a bundle with its instructor and courses, in bundle order
+   */
+  async findWithCourses(id: string, options?: FindOptions): Promise<Bundle | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: User,
+          as: 'instructor',
+          attributes: ['id', 'name'],
+        },
+        {
+          model: Course,
+          as: 'courses',
+          attributes: [
+            'id',
+            'title',
+            'thumbnail',
+            'price',
+            'instructor_id',
+            'is_published',
+            'is_approved',
+          ],
+          through: { attributes: ['position'] },
+        },
+      ],
+      order: [[{ model: Course, as: 'courses' }, BundleCourse, 'position', 'ASC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Find bundles with filtering and pagination, newest first
+   */
+  async findWithFilter(
+    options: BundleFilterOptions = {}
+  ): Promise<{ bundles: Bundle[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, instructor_id, is_active } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (instructor_id) {
+      whereClause.instructor_id = instructor_id;
+    }
+
+    if (is_active !== undefined) {
+      whereClause.is_active = is_active;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'instructor',
+          attributes: ['id', 'name'],
+        },
+        {
+          model: Course,
+          as: 'courses',
+          attributes: ['id', 'title', 'thumbnail', 'price'],
+          through: { attributes: ['position'] },
+        },
+      ],
+      distinct: true,
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    } as any);
+
+    return {
+      bundles: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * IDs of the courses in a bundle, in bundle order
+   */
+  async getCourseIds(bundle_id: string, transaction?: Transaction): Promise<string[]> {
+    const records = await BundleCourse.findAll({
+      where: { bundle_id },
+      attributes: ['course_id'],
+      order: [['position', 'ASC']],
+      transaction,
+    });
+
+    return records.map(record => record.course_id);
+  }
+
+  /**
+   * Replace the courses of a bundle, keeping the given order
+   */
+  async setCourses(
+    bundle_id: string,
+    course_ids: string[],
+    transaction: Transaction
+  ): Promise<void> {
+    await BundleCourse.destroy({ where: { bundle_id }, transaction });
+    await BundleCourse.bulkCreate(
+      course_ids.map((course_id, position) => ({ bundle_id, course_id, position })),
+      { transaction }
+    );
+  }
+}
+
+export default new BundleRepository();
@@ -0,0 +1,43 @@
+import CartItem from '../models/cart-item.model';
+import Course from '../models/course.model';
+import { BaseRepository } from './base.repository';
+
+export class CartItemRepository extends BaseRepository<CartItem> {
+  constructor() {
+    super(CartItem);
+  }
+
+  /**
+   * A user's cart with its courses, oldest first
+   */
+  async findByUserId(user_id: string): Promise<CartItem[]> {
+    return await this.findAll({
+      where: { user_id },
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: [
+            'id',
+            'title',
+            'thumbnail',
+            'price',
+            'instructor_id',
+            'is_published',
+            'is_approved',
+          ],
+        },
+      ],
+      order: [['created_at', 'ASC']],
+    });
+  }
+
+  /**
+   * Find a course in a user's cart
+   */
+  async findByUserAndCourse(user_id: string, course_id: string): Promise<CartItem | null> {
+    return await this.findOne({ where: { user_id, course_id } });
+  }
+}
+
+export default new CartItemRepository();
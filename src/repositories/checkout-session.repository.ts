@@ -0,0 +1,174 @@
+import { Op, FindOptions, Transaction } from 'sequelize';
+import CheckoutSession, { CheckoutSessionStatus } from '../models/checkout-session.model';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import PaymentItem from '../models/payment-item.model';
+import EnrollmentCode from '../models/enrollment-code.model';
+import { BaseRepository } from './base.repository';
+
+export class CheckoutSessionRepository extends BaseRepository<CheckoutSession> {
+  constructor() {
+    super(CheckoutSession);
+  }
+
+  /**
+   * Find checkout session with course or bundle and payment details, including the courses
+   * of a multi-course payment
+   */
+  async findByIdWithDetails(id: string, options?: FindOptions): Promise<CheckoutSession | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title', 'thumbnail', 'price', 'instructor_id'],
+        },
+        {
+          model: Bundle,
+          as: 'bundle',
+          attributes: ['id', 'title', 'price', 'instructor_id'],
+          required: false,
+        },
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'amount', 'currency', 'status', 'transaction_id', 'is_gift'],
+          include: [
+            {
+              model: PaymentItem,
+              as: 'items',
+              attributes: ['id', 'course_id', 'bundle_id', 'list_price', 'amount'],
+              required: false,
+            },
+            {
+              model: EnrollmentCode,
+              as: 'giftCode',
+              attributes: ['id', 'code', 'status', 'recipient_email', 'expires_at'],
+              required: false,
+            },
+          ],
+        },
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Find checkout session by gateway intent ID
+   */
+  async findByIntentId(
+    gateway_intent_id: string,
+    options?: FindOptions
+  ): Promise<CheckoutSession | null> {
+    return await this.findOne({
+      where: { gateway_intent_id },
+      ...options,
+    });
+  }
+
+  /**
+   * Find the user's open checkout sessions for a course
+   */
+  async findOpenByUserAndCourse(
+    user_id: string,
+    course_id: string,
+    options?: FindOptions
+  ): Promise<CheckoutSession[]> {
+    return await this.findAll({
+      where: {
+        user_id,
+        course_id,
+        status: CheckoutSessionStatus.OPEN,
+        expires_at: { [Op.gt]: new Date() },
+      },
+      order: [['created_at', 'DESC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Open sessions whose time ran out, oldest first. Sessions whose payment is held for fraud
+   * review are left open until it is reviewed.
+   */
+  async findExpiredOpen(at: Date = new Date(), limit: number = 100): Promise<CheckoutSession[]> {
+    return await this.findAll({
+      where: {
+        status: CheckoutSessionStatus.OPEN,
+        expires_at: { [Op.lte]: at },
+        [Op.and]: [
+          CheckoutSession.sequelize!.literal(
+            `NOT EXISTS (SELECT 1 FROM payments p WHERE p.id = \`CheckoutSession\`.\`payment_id\` AND p.status = '${PaymentStatus.HELD}')`
+          ),
+        ],
+      },
+      order: [['expires_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Expired sessions, and failed ones the user did not retry before they would have expired,
+   * that have not been recorded as abandoned yet
+   */
+  async findUnrecordedAbandoned(
+    at: Date = new Date(),
+    limit: number = 100
+  ): Promise<CheckoutSession[]> {
+    return await this.findAll({
+      where: {
+        status: [CheckoutSessionStatus.EXPIRED, CheckoutSessionStatus.FAILED],
+        expires_at: { [Op.lte]: at },
+        [Op.and]: [
+          CheckoutSession.sequelize!.literal(
+            'NOT EXISTS (SELECT 1 FROM checkout_sessions r WHERE r.retry_of = `CheckoutSession`.`id`)'
+          ),
+          CheckoutSession.sequelize!.literal(
+            'NOT EXISTS (SELECT 1 FROM abandoned_checkouts a WHERE a.checkout_session_id = `CheckoutSession`.`id`)'
+          ),
+        ],
+      },
+      order: [['expires_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * The open session paying for a payment, if any
+   */
+  async findOpenByPaymentId(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<CheckoutSession | null> {
+    return await this.findOne({
+      where: { payment_id, status: CheckoutSessionStatus.OPEN },
+      transaction,
+    });
+  }
+
+  /**
+   * The session opened to retry the given one
+   */
+  async findRetryOf(retry_of: string, transaction?: Transaction): Promise<CheckoutSession | null> {
+    return await this.findOne({ where: { retry_of }, transaction });
+  }
+
+  /**
+   * Update checkout session status
+   */
+  async updateStatus(
+    id: string,
+    status: CheckoutSessionStatus,
+    data: Partial<{
+      payment_id: string | null;
+      failure_code: string | null;
+      failure_message: string | null;
+      completed_at: Date | null;
+    }> = {},
+    transaction?: Transaction
+  ): Promise<CheckoutSession | null> {
+    return await this.updateById(id, { status, ...data }, { transaction });
+  }
+}
+
+export default new CheckoutSessionRepository();
@@ -0,0 +1,38 @@
+import { FindOptions, Transaction } from 'sequelize';
+import CouponRedemption from '../models/coupon-redemption.model';
+import { BaseRepository } from './base.repository';
+
+export class CouponRedemptionRepository extends BaseRepository<CouponRedemption> {
+  constructor() {
+    super(CouponRedemption);
+  }
+
+  /**
+   * Find the redemption recorded for a payment
+   */
+  async findByPaymentId(
+    payment_id: string,
+    options?: FindOptions
+  ): Promise<CouponRedemption | null> {
+    return await this.findOne({
+      where: { payment_id },
+      ...options,
+    });
+  }
+
+  /**
+   * Count how many times a user has redeemed a coupon
+   */
+  async countByUser(
+    coupon_id: string,
+    user_id: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    return await this.count({
+      where: { coupon_id, user_id },
+      transaction,
+    });
+  }
+}
+
+export default new CouponRedemptionRepository();
@@ -0,0 +1,94 @@
+import { Op, FindOptions, Transaction } from 'sequelize';
+import Coupon from '../models/coupon.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface CouponFilterOptions {
+  page?: number;
+  limit?: number;
+  search?: string;
+  scope?: string;
+  is_active?: boolean;
+  created_by?: string;
+}
+
+export class CouponRepository extends BaseRepository<Coupon> {
+  constructor() {
+    super(Coupon);
+  }
+
+  /**
+   * Find coupon by code (codes are stored upper-cased)
+   */
+  async findByCode(code: string, options?: FindOptions): Promise<Coupon | null> {
+    return await this.findOne({
+      where: { code: code.trim().toUpperCase() },
+      ...options,
+    });
+  }
+
+  /**
+   * Find coupons with filtering and pagination
+   */
+  async findWithFilter(
+    options: CouponFilterOptions = {}
+  ): Promise<{ coupons: Coupon[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, search, scope, is_active, created_by } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (search) {
+      whereClause[Op.or] = [
+        { code: { [Op.like]: `%${search}%` } },
+        { description: { [Op.like]: `%${search}%` } },
+      ];
+    }
+
+    if (scope) {
+      whereClause.scope = scope;
+    }
+
+    if (is_active !== undefined) {
+      whereClause.is_active = is_active;
+    }
+
+    if (created_by) {
+      whereClause.created_by = created_by;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      coupons: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Adjust the redemption counter
+   */
+  async incrementRedemptionCount(
+    id: string,
+    by: number = 1,
+    transaction?: Transaction
+  ): Promise<void> {
+    await Coupon.increment('redemption_count', { by, where: { id }, transaction });
+  }
+}
+
+export default new CouponRepository();
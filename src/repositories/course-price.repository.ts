@@ -0,0 +1,36 @@
+import { FindOptions } from 'sequelize';
+import CoursePrice from '../models/course-price.model';
+import { BaseRepository } from './base.repository';
+
+export class CoursePriceRepository extends BaseRepository<CoursePrice> {
+  constructor() {
+    super(CoursePrice);
+  }
+
+  /**
+   * Get all explicit prices for a course
+   */
+  async findByCourseId(course_id: string, options?: FindOptions): Promise<CoursePrice[]> {
+    return await this.findAll({
+      where: { course_id },
+      order: [['currency', 'ASC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Get the explicit price of a course in a currency
+   */
+  async findByCourseAndCurrency(
+    course_id: string,
+    currency: string,
+    options?: FindOptions
+  ): Promise<CoursePrice | null> {
+    return await this.findOne({
+      where: { course_id, currency: currency.toUpperCase() },
+      ...options,
+    });
+  }
+}
+
+export default new CoursePriceRepository();
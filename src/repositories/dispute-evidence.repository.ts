@@ -0,0 +1,22 @@
+import { Transaction } from 'sequelize';
+import DisputeEvidence from '../models/dispute-evidence.model';
+import { BaseRepository } from './base.repository';
+
+export class DisputeEvidenceRepository extends BaseRepository<DisputeEvidence> {
+  constructor() {
+    super(DisputeEvidence);
+  }
+
+  /**
+   * Evidence attached to a dispute, oldest first
+   */
+  async findByDisputeId(dispute_id: string, transaction?: Transaction): Promise<DisputeEvidence[]> {
+    return await this.findAll({
+      where: { dispute_id },
+      order: [['created_at', 'ASC']],
+      transaction,
+    });
+  }
+}
+
+export default new DisputeEvidenceRepository();
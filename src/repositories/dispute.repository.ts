@@ -0,0 +1,181 @@
+import { Transaction } from 'sequelize';
+import Dispute, { DisputeStatus } from '../models/dispute.model';
+import DisputeEvidence from '../models/dispute-evidence.model';
+import Payment from '../models/payment.model';
+import User from '../models/user.model';
+import {
+  getReturnedBreakdown,
+  RevenueBreakdownOptions,
+  RevenueBreakdownRow,
+} from '../utils/paymentStatsHelper';
+import { BaseRepository } from './base.repository';
+
+interface DisputeFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  payment_id?: string;
+}
+
+const OPEN_STATUSES = [DisputeStatus.OPENED, DisputeStatus.EVIDENCE_SUBMITTED];
+
+export class DisputeRepository extends BaseRepository<Dispute> {
+  constructor() {
+    super(Dispute);
+  }
+
+  /**
+   * Find a dispute by the provider's ID for it
+   */
+  async findByProviderDisputeId(
+    provider_dispute_id: string,
+    transaction?: Transaction
+  ): Promise<Dispute | null> {
+    return await this.findOne({ where: { provider_dispute_id }, transaction });
+  }
+
+  /**
+   * The dispute of a payment that has not been decided yet
+   */
+  async findOpenByPaymentId(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<Dispute | null> {
+    return await this.findOne({
+      where: { payment_id, status: OPEN_STATUSES },
+      transaction,
+    });
+  }
+
+  /**
+   * Find a dispute with its payment, buyer and evidence
+   */
+  async findWithDetails(id: string): Promise<Dispute | null> {
+    return await this.findOne({
+      where: { id },
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: [
+            'id',
+            'user_id',
+            'course_id',
+            'bundle_id',
+            'amount',
+            'currency',
+            'status',
+            'payment_method',
+            'transaction_id',
+            'created_at',
+          ],
+          include: [
+            {
+              model: User,
+              as: 'user',
+              attributes: ['id', 'name', 'email'],
+            },
+          ],
+        },
+        {
+          model: DisputeEvidence,
+          as: 'evidence',
+          required: false,
+          include: [
+            {
+              model: User,
+              as: 'author',
+              attributes: ['id', 'name'],
+              required: false,
+            },
+          ],
+        },
+      ],
+      order: [[{ model: DisputeEvidence, as: 'evidence' }, 'created_at', 'ASC']],
+    });
+  }
+
+  /**
+   * Find disputes with filtering and pagination, newest first
+   */
+  async findWithFilter(options: DisputeFilterOptions = {}): Promise<{
+    disputes: Dispute[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, status, payment_id } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    if (payment_id) {
+      whereClause.payment_id = payment_id;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'user_id', 'amount', 'currency', 'status', 'created_at'],
+          include: [
+            {
+              model: User,
+              as: 'user',
+              attributes: ['id', 'name', 'email'],
+            },
+          ],
+        },
+      ],
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      disputes: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Move a dispute between statuses only if it is still in `from`.
+   * Returns false when another request changed it first.
+   */
+  async updateStatus(
+    id: string,
+    from: string,
+    to: string,
+    data: Partial<{
+      evidence_submitted_at: Date;
+      resolved_at: Date;
+      resolution_note: string | null;
+    }> = {},
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status: to },
+      { id, status: from },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+
+  /**
+   * Amounts lost to disputes per currency and day they were lost, with the same options and
+   * row shape as the revenue breakdown so they can be netted against it
+   */
+  async getLostBreakdown(options: RevenueBreakdownOptions = {}): Promise<RevenueBreakdownRow[]> {
+    return await getReturnedBreakdown('disputes', options);
+  }
+}
+
+export default new DisputeRepository();
@@ -0,0 +1,78 @@
+import EnrollmentCodeBatch from '../models/enrollment-code-batch.model';
+import Course from '../models/course.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface EnrollmentCodeBatchFilterOptions {
+  page?: number;
+  limit?: number;
+  course_id?: string;
+}
+
+export class EnrollmentCodeBatchRepository extends BaseRepository<EnrollmentCodeBatch> {
+  constructor() {
+    super(EnrollmentCodeBatch);
+  }
+
+  /**
+   * Find a batch with its course and creator
+   */
+  async findWithDetails(id: string): Promise<EnrollmentCodeBatch | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title'],
+        },
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name'],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Find batches with filtering and pagination, newest first
+   */
+  async findWithFilter(options: EnrollmentCodeBatchFilterOptions = {}): Promise<{
+    batches: EnrollmentCodeBatch[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, course_id } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (course_id) {
+      whereClause.course_id = course_id;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title'],
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    return {
+      batches: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new EnrollmentCodeBatchRepository();
@@ -0,0 +1,104 @@
+import { Transaction } from 'sequelize';
+import EnrollmentCode from '../models/enrollment-code.model';
+import Course from '../models/course.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+export class EnrollmentCodeRepository extends BaseRepository<EnrollmentCode> {
+  constructor() {
+    super(EnrollmentCode);
+  }
+
+  /**
+   * Find a code by its value with its course
+   */
+  async findByCode(code: string, transaction?: Transaction): Promise<EnrollmentCode | null> {
+    return await this.findOne({
+      where: { code },
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title', 'thumbnail', 'is_published', 'is_approved'],
+        },
+      ],
+      transaction,
+    });
+  }
+
+  /**
+   * Find the gift code bought with a payment
+   */
+  async findByPaymentId(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<EnrollmentCode | null> {
+    return await this.findOne({ where: { payment_id }, transaction });
+  }
+
+  /**
+   * Gift codes bought by a user, newest first
+   */
+  async findPurchasedBy(user_id: string): Promise<EnrollmentCode[]> {
+    return await this.findAll({
+      where: { purchased_by: user_id },
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title', 'thumbnail'],
+        },
+        {
+          model: User,
+          as: 'redeemer',
+          attributes: ['id', 'name'],
+          required: false,
+        },
+      ],
+      order: [['created_at', 'DESC']],
+    });
+  }
+
+  /**
+   * Codes of a batch with who redeemed them
+   */
+  async findByBatchId(batch_id: string): Promise<EnrollmentCode[]> {
+    return await this.findAll({
+      where: { batch_id },
+      include: [
+        {
+          model: User,
+          as: 'redeemer',
+          attributes: ['id', 'name', 'email'],
+          required: false,
+        },
+      ],
+      order: [['created_at', 'ASC']],
+    });
+  }
+
+  /**
+   * Move a code between statuses only if it is still in `from`.
+   * Returns false when another request changed it first.
+   */
+  async updateStatus(
+    id: string,
+    from: string,
+    to: string,
+    data: Partial<{
+      redeemed_by: string | null;
+      redeemed_at: Date | null;
+      expires_at: Date | null;
+    }> = {},
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status: to },
+      { id, status: from },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+}
+
+export default new EnrollmentCodeRepository();
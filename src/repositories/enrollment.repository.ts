@@ -1,4 +1,4 @@
-import { Op, FindOptions } from 'sequelize';
+import { Op, FindOptions, Transaction } from 'sequelize';
 import Enrollment from '../models/enrollment.model';
 import Course from '../models/course.model';
 import User from '../models/user.model';
@@ -29,6 +29,23 @@ export class EnrollmentRepository extends BaseRepository<Enrollment> {
     });
   }
 
+  /**
+   * Suspend the matching enrollments that are not suspended yet
+   * @returns the number of enrollments suspended
+   */
+  async suspend(
+    where: { user_id: string; course_id: string | string[]; source?: string },
+    reason: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    const [affectedCount] = await this.update(
+      { suspended_at: new Date(), suspension_reason: reason },
+      { ...where, suspended_at: { [Op.is]: null } } as any,
+      { transaction }
+    );
+    return affectedCount;
+  }
+
   /**
    * Find enrollment by ID with details
    */
@@ -0,0 +1,115 @@
+import { Op, FindOptions } from 'sequelize';
+import ExchangeRate from '../models/exchange-rate.model';
+import { BaseRepository } from './base.repository';
+
+interface RateHistoryOptions {
+  page?: number;
+  limit?: number;
+  currency?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export class ExchangeRateRepository extends BaseRepository<ExchangeRate> {
+  constructor() {
+    super(ExchangeRate);
+  }
+
+  /**
+   * Rate in effect for a currency on a day (the latest one on or before it)
+   */
+  async findEffectiveRate(
+    currency: string,
+    date: string,
+    options?: FindOptions
+  ): Promise<ExchangeRate | null> {
+    return await this.findOne({
+      where: {
+        currency: currency.toUpperCase(),
+        effective_date: { [Op.lte]: date },
+      },
+      order: [['effective_date', 'DESC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Find the rate entered for a currency on an exact day
+   */
+  async findByCurrencyAndDate(currency: string, date: string): Promise<ExchangeRate | null> {
+    return await this.findOne({
+      where: { currency: currency.toUpperCase(), effective_date: date },
+    });
+  }
+
+  /**
+   * Rate history, newest first
+   */
+  async findHistory(
+    options: RateHistoryOptions = {}
+  ): Promise<{ rates: ExchangeRate[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 50, currency, start_date, end_date } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (currency) {
+      whereClause.currency = currency.toUpperCase();
+    }
+
+    if (start_date && end_date) {
+      whereClause.effective_date = { [Op.between]: [start_date, end_date] };
+    } else if (start_date) {
+      whereClause.effective_date = { [Op.gte]: start_date };
+    } else if (end_date) {
+      whereClause.effective_date = { [Op.lte]: end_date };
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      limit,
+      offset,
+      order: [
+        ['effective_date', 'DESC'],
+        ['currency', 'ASC'],
+      ],
+    });
+
+    return {
+      rates: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Every rate on or before a day, for building an in-memory rate table
+   */
+  async findAllUpTo(date?: string): Promise<ExchangeRate[]> {
+    return await this.findAll({
+      where: date ? { effective_date: { [Op.lte]: date } } : {},
+      attributes: ['currency', 'rate', 'effective_date'],
+      order: [['effective_date', 'ASC']],
+      raw: true,
+    });
+  }
+
+  /**
+   * Currencies that have at least one rate
+   */
+  async getCurrencies(): Promise<string[]> {
+    const rows = await this.findAll({
+      attributes: [
+        [
+          ExchangeRate.sequelize!.fn('DISTINCT', ExchangeRate.sequelize!.col('currency')),
+          'currency',
+        ],
+      ],
+      raw: true,
+    });
+    return rows.map((row: any) => row.currency);
+  }
+}
+
+export default new ExchangeRateRepository();
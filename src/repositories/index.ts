@@ -8,6 +8,43 @@ export { LessonRepository } from './lesson.repository';
 export { CategoryRepository } from './category.repository';
 export { PaymentRepository } from './payment.repository';
 export { LessonCompletionRepository } from './lesson-completion.repository';
+export { CheckoutSessionRepository } from './checkout-session.repository';
+export { WebhookEventRepository } from './webhook-event.repository';
+export { RefundRepository } from './refund.repository';
+export { PaymentStatusHistoryRepository } from './payment-status-history.repository';
+export { CouponRepository } from './coupon.repository';
+export { CouponRedemptionRepository } from './coupon-redemption.repository';
+export { ExchangeRateRepository } from './exchange-rate.repository';
+export { CoursePriceRepository } from './course-price.repository';
+export { LedgerEntryRepository } from './ledger-entry.repository';
+export { RevenueShareRuleRepository } from './revenue-share-rule.repository';
+export { PayoutBatchRepository } from './payout-batch.repository';
+export { PayoutRepository } from './payout.repository';
+export { RefundRequestRepository } from './refund-request.repository';
+export { RefundPolicyRepository } from './refund-policy.repository';
+export { SubscriptionPlanRepository } from './subscription-plan.repository';
+export { SubscriptionRepository } from './subscription.repository';
+export { SubscriptionChargeRepository } from './subscription-charge.repository';
+export { BundleRepository } from './bundle.repository';
+export { PaymentItemRepository } from './payment-item.repository';
+export { CartItemRepository } from './cart-item.repository';
+export { EnrollmentCodeBatchRepository } from './enrollment-code-batch.repository';
+export { EnrollmentCodeRepository } from './enrollment-code.repository';
+export { TaxRateRepository } from './tax-rate.repository';
+export { InvoiceRepository } from './invoice.repository';
+export { InvoiceSequenceRepository } from './invoice-sequence.repository';
+export { ReferralLinkRepository } from './referral-link.repository';
+export { ReferralClickRepository } from './referral-click.repository';
+export { ReferralCommissionRepository } from './referral-commission.repository';
+export { DisputeRepository } from './dispute.repository';
+export { DisputeEvidenceRepository } from './dispute-evidence.repository';
+export { AbandonedCheckoutRepository } from './abandoned-checkout.repository';
+export { ReconciliationRunRepository } from './reconciliation-run.repository';
+export { ReconciliationItemRepository } from './reconciliation-item.repository';
+export { PaymentScreeningRepository } from './payment-screening.repository';
+export { RegionalPriceRepository } from './regional-price.repository';
+export { SaleRepository } from './sale.repository';
+export { PriceHistoryRepository } from './price-history.repository';
 
 // Export default instances
 import reviewRepository from './review.repository';
@@ -20,6 +57,43 @@ import categoryRepository from './category.repository';
 import paymentRepository from './payment.repository';
 import lessonCompletionRepository from './lesson-completion.repository';
 import courseCategoryRepository from './course-category.repository';
+import checkoutSessionRepository from './checkout-session.repository';
+import webhookEventRepository from './webhook-event.repository';
+import refundRepository from './refund.repository';
+import paymentStatusHistoryRepository from './payment-status-history.repository';
+import couponRepository from './coupon.repository';
+import couponRedemptionRepository from './coupon-redemption.repository';
+import exchangeRateRepository from './exchange-rate.repository';
+import coursePriceRepository from './course-price.repository';
+import ledgerEntryRepository from './ledger-entry.repository';
+import revenueShareRuleRepository from './revenue-share-rule.repository';
+import payoutBatchRepository from './payout-batch.repository';
+import payoutRepository from './payout.repository';
+import refundRequestRepository from './refund-request.repository';
+import refundPolicyRepository from './refund-policy.repository';
+import subscriptionPlanRepository from './subscription-plan.repository';
+import subscriptionRepository from './subscription.repository';
+import subscriptionChargeRepository from './subscription-charge.repository';
+import bundleRepository from './bundle.repository';
+import paymentItemRepository from './payment-item.repository';
+import cartItemRepository from './cart-item.repository';
+import enrollmentCodeBatchRepository from './enrollment-code-batch.repository';
+import enrollmentCodeRepository from './enrollment-code.repository';
+import taxRateRepository from './tax-rate.repository';
+import invoiceRepository from './invoice.repository';
+import invoiceSequenceRepository from './invoice-sequence.repository';
+import referralLinkRepository from './referral-link.repository';
+import referralClickRepository from './referral-click.repository';
+import referralCommissionRepository from './referral-commission.repository';
+import disputeRepository from './dispute.repository';
+import disputeEvidenceRepository from './dispute-evidence.repository';
+import abandonedCheckoutRepository from './abandoned-checkout.repository';
+import reconciliationRunRepository from './reconciliation-run.repository';
+import reconciliationItemRepository from './reconciliation-item.repository';
+import paymentScreeningRepository from './payment-screening.repository';
+import regionalPriceRepository from './regional-price.repository';
+import saleRepository from './sale.repository';
+import priceHistoryRepository from './price-history.repository';
 
 export {
   reviewRepository,
@@ -32,4 +106,41 @@ export {
   paymentRepository,
   lessonCompletionRepository,
   courseCategoryRepository,
+  checkoutSessionRepository,
+  webhookEventRepository,
+  refundRepository,
+  paymentStatusHistoryRepository,
+  couponRepository,
+  couponRedemptionRepository,
+  exchangeRateRepository,
+  coursePriceRepository,
+  ledgerEntryRepository,
+  revenueShareRuleRepository,
+  payoutBatchRepository,
+  payoutRepository,
+  refundRequestRepository,
+  refundPolicyRepository,
+  subscriptionPlanRepository,
+  subscriptionRepository,
+  subscriptionChargeRepository,
+  bundleRepository,
+  paymentItemRepository,
+  cartItemRepository,
+  enrollmentCodeBatchRepository,
+  enrollmentCodeRepository,
+  taxRateRepository,
+  invoiceRepository,
+  invoiceSequenceRepository,
+  referralLinkRepository,
+  referralClickRepository,
+  referralCommissionRepository,
+  disputeRepository,
+  disputeEvidenceRepository,
+  abandonedCheckoutRepository,
+  reconciliationRunRepository,
+  reconciliationItemRepository,
+  paymentScreeningRepository,
+  regionalPriceRepository,
+  saleRepository,
+  priceHistoryRepository,
 };
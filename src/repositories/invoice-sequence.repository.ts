@@ -0,0 +1,32 @@
+import { Transaction } from 'sequelize';
+import InvoiceSequence from '../models/invoice-sequence.model';
+import { BaseRepository } from './base.repository';
+
+export class InvoiceSequenceRepository extends BaseRepository<InvoiceSequence> {
+  constructor() {
+    super(InvoiceSequence);
+  }
+
+  /**
+   * Take the next number of a sequence. The row stays locked until `transaction` ends, so
+   * concurrent callers wait and the number is only used up if the transaction commits.
+   */
+  async next(type: string, transaction: Transaction): Promise<number> {
+    const sequence = await this.findOne({
+      where: { type },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!sequence) {
+      await this.create({ type, last_number: 1 }, { transaction });
+      return 1;
+    }
+
+    const number = sequence.last_number + 1;
+    await sequence.update({ last_number: number }, { transaction });
+    return number;
+  }
+}
+
+export default new InvoiceSequenceRepository();
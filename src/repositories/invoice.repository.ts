@@ -0,0 +1,37 @@
+import { Transaction } from 'sequelize';
+import Invoice, { InvoiceType } from '../models/invoice.model';
+import { BaseRepository } from './base.repository';
+
+export class InvoiceRepository extends BaseRepository<Invoice> {
+  constructor() {
+    super(Invoice);
+  }
+
+  /**
+   * Find the invoice issued for a payment
+   */
+  async findInvoiceForPayment(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<Invoice | null> {
+    return await this.findOne({
+      where: { payment_id, type: InvoiceType.INVOICE },
+      transaction,
+    });
+  }
+
+  /**
+   * Find the credit note issued for a refund
+   */
+  async findCreditNoteForRefund(
+    refund_id: string,
+    transaction?: Transaction
+  ): Promise<Invoice | null> {
+    return await this.findOne({
+      where: { refund_id, type: InvoiceType.CREDIT_NOTE },
+      transaction,
+    });
+  }
+}
+
+export default new InvoiceRepository();
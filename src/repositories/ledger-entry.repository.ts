@@ -0,0 +1,204 @@
+import { Op, FindOptions, Transaction } from 'sequelize';
+import LedgerEntry, { LedgerAccount, LedgerEntryType } from '../models/ledger-entry.model';
+import Payment from '../models/payment.model';
+import { BaseRepository } from './base.repository';
+
+interface StatementOptions {
+  page?: number;
+  limit?: number;
+  start_date?: Date;
+  end_date?: Date;
+}
+
+// Entries that move money out of instructor_payable for a payout, whatever their date
+const PAYOUT_ENTRY_TYPES = [LedgerEntryType.PAYOUT, LedgerEntryType.PAYOUT_RETURNED];
+
+export class LedgerEntryRepository extends BaseRepository<LedgerEntry> {
+  constructor() {
+    super(LedgerEntry);
+  }
+
+  /**
+   * Entries of the given types posted for a payment
+   */
+  async findByPayment(
+    payment_id: string,
+    entry_types: LedgerEntryType[],
+    options?: FindOptions
+  ): Promise<LedgerEntry[]> {
+    return await this.findAll({
+      where: { payment_id, entry_type: { [Op.in]: entry_types } },
+      ...options,
+    });
+  }
+
+  /**
+   * Entries of one type posted for a refund
+   */
+  async findByRefund(
+    refund_id: string,
+    entry_type: LedgerEntryType,
+    options?: FindOptions
+  ): Promise<LedgerEntry[]> {
+    return await this.findAll({
+      where: { refund_id, entry_type },
+      ...options,
+    });
+  }
+
+  /**
+   * Balance (credits minus debits) of an account, optionally for one instructor and up to a date
+   */
+  async getAccountBalance(
+    account: LedgerAccount,
+    instructor_id?: string,
+    until?: Date,
+    transaction?: Transaction
+  ): Promise<number> {
+    const whereClause: any = { account };
+
+    if (instructor_id) {
+      whereClause.instructor_id = instructor_id;
+    }
+
+    if (until) {
+      whereClause.created_at = { [Op.lte]: until };
+    }
+
+    const result: any = await LedgerEntry.findOne({
+      attributes: [
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('credit')), 'credit'],
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('debit')), 'debit'],
+      ],
+      where: whereClause,
+      raw: true,
+      transaction,
+    });
+
+    return (
+      Math.round((parseFloat(result?.credit || '0') - parseFloat(result?.debit || '0')) * 100) / 100
+    );
+  }
+
+  /**
+   * What each instructor is owed for sales and refunds up to `until`, less everything already
+   * moved into payouts (payout entries count whenever they were posted)
+   */
+  async getPayableBalances(
+    until: Date,
+    transaction?: Transaction
+  ): Promise<{ instructor_id: string; balance: number }[]> {
+    const rows: any[] = await LedgerEntry.findAll({
+      attributes: [
+        'instructor_id',
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('credit')), 'credit'],
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('debit')), 'debit'],
+      ],
+      where: {
+        account: LedgerAccount.INSTRUCTOR_PAYABLE,
+        [Op.or]: [
+          { created_at: { [Op.lte]: until } },
+          { entry_type: { [Op.in]: PAYOUT_ENTRY_TYPES } },
+        ],
+      },
+      group: ['instructor_id'],
+      raw: true,
+      transaction,
+    });
+
+    return rows.map(row => ({
+      instructor_id: row.instructor_id,
+      balance:
+        Math.round((parseFloat(row.credit || '0') - parseFloat(row.debit || '0')) * 100) / 100,
+    }));
+  }
+
+  /**
+   * Debit and credit totals per account and entry type for an instructor's journals
+   */
+  async getTotalsByType(
+    instructor_id: string,
+    start_date?: Date,
+    end_date?: Date
+  ): Promise<{ account: string; entry_type: string; debit: number; credit: number }[]> {
+    const whereClause: any = { instructor_id };
+
+    if (start_date && end_date) {
+      whereClause.created_at = { [Op.between]: [start_date, end_date] };
+    } else if (start_date) {
+      whereClause.created_at = { [Op.gte]: start_date };
+    } else if (end_date) {
+      whereClause.created_at = { [Op.lte]: end_date };
+    }
+
+    const rows: any[] = await LedgerEntry.findAll({
+      attributes: [
+        'account',
+        'entry_type',
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('debit')), 'debit'],
+        [LedgerEntry.sequelize!.fn('SUM', LedgerEntry.sequelize!.col('credit')), 'credit'],
+      ],
+      where: whereClause,
+      group: ['account', 'entry_type'],
+      raw: true,
+    });
+
+    return rows.map(row => ({
+      account: row.account,
+      entry_type: row.entry_type,
+      debit: parseFloat(row.debit || '0'),
+      credit: parseFloat(row.credit || '0'),
+    }));
+  }
+
+  /**
+   * Movements on an instructor's payable account, oldest first
+   */
+  async findStatement(
+    instructor_id: string,
+    options: StatementOptions = {}
+  ): Promise<{ entries: LedgerEntry[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 50, start_date, end_date } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {
+      instructor_id,
+      account: LedgerAccount.INSTRUCTOR_PAYABLE,
+    };
+
+    if (start_date && end_date) {
+      whereClause.created_at = { [Op.between]: [start_date, end_date] };
+    } else if (start_date) {
+      whereClause.created_at = { [Op.gte]: start_date };
+    } else if (end_date) {
+      whereClause.created_at = { [Op.lte]: end_date };
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'course_id', 'amount', 'currency'],
+          required: false,
+        },
+      ],
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      limit,
+      offset,
+    });
+
+    return {
+      entries: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new LedgerEntryRepository();
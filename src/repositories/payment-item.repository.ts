@@ -0,0 +1,22 @@
+import { Transaction } from 'sequelize';
+import PaymentItem from '../models/payment-item.model';
+import { BaseRepository } from './base.repository';
+
+export class PaymentItemRepository extends BaseRepository<PaymentItem> {
+  constructor() {
+    super(PaymentItem);
+  }
+
+  /**
+   * Items of a payment
+   */
+  async findByPaymentId(payment_id: string, transaction?: Transaction): Promise<PaymentItem[]> {
+    return await this.findAll({
+      where: { payment_id },
+      order: [['created_at', 'ASC']],
+      transaction,
+    });
+  }
+}
+
+export default new PaymentItemRepository();
@@ -0,0 +1,113 @@
+import { Transaction } from 'sequelize';
+import PaymentScreening, { PaymentScreeningStatus } from '../models/payment-screening.model';
+import Payment from '../models/payment.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface ScreeningFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+export class PaymentScreeningRepository extends BaseRepository<PaymentScreening> {
+  constructor() {
+    super(PaymentScreening);
+  }
+
+  /**
+   * Find a screening with its payment, buyer and reviewer
+   */
+  async findWithDetails(id: string): Promise<PaymentScreening | null> {
+    return await this.findOne({
+      where: { id },
+      include: this.detailIncludes(),
+    });
+  }
+
+  /**
+   * Find screenings with filtering and pagination, oldest first so the review queue is
+   * worked through in order
+   */
+  async findWithFilter(options: ScreeningFilterOptions = {}): Promise<{
+    screenings: PaymentScreening[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, status } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: this.detailIncludes(),
+      limit,
+      offset,
+      order: [['created_at', 'ASC']],
+    });
+
+    return {
+      screenings: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Record the review of a screening only if it is still held.
+   * Returns false when another admin reviewed it first.
+   */
+  async review(
+    id: string,
+    status: string,
+    data: { reviewed_by: string; review_note: string | null },
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status, reviewed_at: new Date() },
+      { id, status: PaymentScreeningStatus.HELD },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+
+  private detailIncludes(): any[] {
+    return [
+      {
+        model: Payment,
+        as: 'payment',
+        attributes: [
+          'id',
+          'course_id',
+          'bundle_id',
+          'amount',
+          'currency',
+          'payment_method',
+          'status',
+          'tax_country',
+          'created_at',
+        ],
+      },
+      {
+        model: User,
+        as: 'user',
+        attributes: ['id', 'name', 'email', 'created_at'],
+      },
+      {
+        model: User,
+        as: 'reviewer',
+        attributes: ['id', 'name'],
+        required: false,
+      },
+    ];
+  }
+}
+
+export default new PaymentScreeningRepository();
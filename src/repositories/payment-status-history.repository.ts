@@ -0,0 +1,46 @@
+import { FindOptions } from 'sequelize';
+import PaymentStatusHistory from '../models/payment-status-history.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+export class PaymentStatusHistoryRepository extends BaseRepository<PaymentStatusHistory> {
+  constructor() {
+    super(PaymentStatusHistory);
+  }
+
+  /**
+   * Get the transition history of a payment, oldest first
+   */
+  async findByPaymentId(
+    payment_id: string,
+    options?: FindOptions
+  ): Promise<PaymentStatusHistory[]> {
+    return await this.findAll({
+      where: { payment_id },
+      include: [
+        {
+          model: User,
+          as: 'changedBy',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+      order: [['created_at', 'ASC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Most recent transition of a payment into a status
+   */
+  async findLatestTransition(
+    payment_id: string,
+    to_status: string
+  ): Promise<PaymentStatusHistory | null> {
+    return await this.findOne({
+      where: { payment_id, to_status },
+      order: [['created_at', 'DESC']],
+    });
+  }
+}
+
+export default new PaymentStatusHistoryRepository();
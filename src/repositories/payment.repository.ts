@@ -1,11 +1,23 @@
 import { Op, FindOptions, Transaction } from 'sequelize';
 import Payment from '../models/payment.model';
+import PaymentItem from '../models/payment-item.model';
+import Bundle from '../models/bundle.model';
 import Course from '../models/course.model';
 import User from '../models/user.model';
+import Subscription from '../models/subscription.model';
+import SubscriptionPlan from '../models/subscription-plan.model';
 import { BaseRepository } from './base.repository';
 import { PaymentStatus } from '../models/payment.model';
 import sequelize from '../config/database';
-import { getPaymentCount } from '../utils/paymentStatsHelper';
+import {
+  getPaymentCount,
+  getPeriodFormat,
+  getReturnedBreakdown,
+  instructorPaymentIds,
+  RevenueBreakdownOptions,
+  RevenueBreakdownRow,
+  REVENUE_STATUSES,
+} from '../utils/paymentStatsHelper';
 
 interface PaginationOptions {
   page?: number;
@@ -17,6 +29,13 @@ interface PaginationOptions {
   end_date?: Date;
 }
 
+interface ExportFilterOptions {
+  start_date?: Date;
+  end_date?: Date;
+  status?: string;
+  instructor_id?: string;
+}
+
 export class PaymentRepository extends BaseRepository<Payment> {
   constructor() {
     super(Payment);
@@ -58,11 +77,86 @@ export class PaymentRepository extends BaseRepository<Payment> {
             },
           ],
         },
+        {
+          model: Bundle,
+          as: 'bundle',
+          attributes: ['id', 'title', 'instructor_id'],
+          required: false,
+        },
+        {
+          model: PaymentItem,
+          as: 'items',
+          required: false,
+          include: [
+            {
+              model: Course,
+              as: 'course',
+              attributes: ['id', 'title', 'instructor_id'],
+            },
+          ],
+        },
       ],
       ...options,
     });
   }
 
+  /**
+   * Find a payment with what its invoice shows: payer, and each course bought with its
+   * instructor
+   */
+  async findWithInvoiceDetails(id: string, transaction?: Transaction): Promise<Payment | null> {
+    const courseInclude = {
+      model: Course,
+      as: 'course',
+      attributes: ['id', 'title', 'instructor_id'],
+      include: [
+        {
+          model: User,
+          as: 'instructor',
+          attributes: ['id', 'name'],
+        },
+      ],
+    };
+
+    return await this.findById(id, {
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+        courseInclude,
+        {
+          model: Bundle,
+          as: 'bundle',
+          attributes: ['id', 'title'],
+          required: false,
+        },
+        {
+          model: PaymentItem,
+          as: 'items',
+          required: false,
+          include: [courseInclude],
+        },
+        {
+          model: Subscription,
+          as: 'subscription',
+          attributes: ['id', 'plan_id'],
+          required: false,
+          include: [
+            {
+              model: SubscriptionPlan,
+              as: 'plan',
+              attributes: ['id', 'name', 'interval'],
+            },
+          ],
+        },
+      ],
+      order: [[{ model: PaymentItem, as: 'items' }, 'created_at', 'ASC']],
+      transaction,
+    });
+  }
+
   /**
    * Find payments by user ID
    */
@@ -87,6 +181,12 @@ export class PaymentRepository extends BaseRepository<Payment> {
           as: 'course',
           attributes: ['id', 'title', 'thumbnail', 'price'],
         },
+        {
+          model: Bundle,
+          as: 'bundle',
+          attributes: ['id', 'title'],
+          required: false,
+        },
       ],
       limit,
       offset,
@@ -225,105 +325,207 @@ export class PaymentRepository extends BaseRepository<Payment> {
   }
 
   /**
-   * Update payment status
+   * Move a payment from one status to another.
+   * The update only applies while the payment is still in `from`, so a concurrent change wins.
+   * Transition rules live in PaymentService.transitionStatus; use that instead of calling this directly.
+   * @returns false when the payment was not in the expected status
    */
   async updateStatus(
     id: string,
-    status: string,
+    from: string,
+    to: string,
+    data: { transaction_id?: string } = {},
     transaction?: Transaction
-  ): Promise<Payment | null> {
-    return await this.updateById(id, { status }, { transaction });
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status: to },
+      { id, status: from },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+
+  /**
+   * Payments still pending that were created before `before`, oldest first
+   */
+  async findStalePending(before: Date, limit: number = 100): Promise<Payment[]> {
+    return await this.findAll({
+      where: {
+        status: PaymentStatus.PENDING,
+        created_at: { [Op.lte]: before },
+      },
+      order: [['created_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Currencies a user has completed payments in
+   */
+  async getPaidCurrencies(user_id: string): Promise<string[]> {
+    const rows: any[] = await this.findAll({
+      where: { user_id, status: REVENUE_STATUSES },
+      attributes: [[sequelize.fn('DISTINCT', sequelize.col('currency')), 'currency']],
+      raw: true,
+    });
+    return rows.map(row => row.currency);
+  }
+
+  /**
+   * Find the payments with any of the given provider transaction IDs
+   */
+  async findByTransactionIds(transaction_ids: string[]): Promise<Payment[]> {
+    if (transaction_ids.length === 0) {
+      return [];
+    }
+
+    return await this.findAll({
+      where: { transaction_id: transaction_ids },
+      attributes: ['id', 'transaction_id', 'amount', 'currency', 'status', 'payment_method'],
+    });
+  }
+
+  /**
+   * Payments of a period whose money was taken by the provider, i.e. the ones a settlement
+   * file for that period should contain
+   */
+  async findSettleable(
+    start_date: Date,
+    end_date: Date,
+    payment_method?: string
+  ): Promise<Payment[]> {
+    const whereClause: any = {
+      status: REVENUE_STATUSES,
+      transaction_id: { [Op.ne]: null },
+      created_at: { [Op.between]: [start_date, end_date] },
+    };
+
+    if (payment_method) {
+      whereClause.payment_method = payment_method;
+    }
+
+    return await this.findAll({
+      where: whereClause,
+      attributes: ['id', 'transaction_id', 'amount', 'currency', 'status'],
+    });
+  }
+
+  /**
+   * Next batch of payments to export, oldest first, continuing after the last payment of
+   * the previous batch. Paging on (created_at, id) keeps each batch query cheap however far
+   * into the export it is.
+   */
+  async findExportBatch(
+    options: ExportFilterOptions,
+    after: { created_at: Date; id: string } | null,
+    limit: number
+  ): Promise<Payment[]> {
+    const { start_date, end_date, status, instructor_id } = options;
+    const conditions: any[] = [];
+
+    if (status) {
+      conditions.push({ status });
+    }
+
+    if (start_date) {
+      conditions.push({ created_at: { [Op.gte]: start_date } });
+    }
+
+    if (end_date) {
+      conditions.push({ created_at: { [Op.lte]: end_date } });
+    }
+
+    if (instructor_id) {
+      conditions.push({
+        id: { [Op.in]: sequelize.literal(instructorPaymentIds(instructor_id)) },
+      });
+    }
+
+    if (after) {
+      conditions.push({
+        [Op.or]: [
+          { created_at: { [Op.gt]: after.created_at } },
+          { created_at: after.created_at, id: { [Op.gt]: after.id } },
+        ],
+      });
+    }
+
+    return await this.findAll({
+      where: { [Op.and]: conditions },
+      include: [
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'email'],
+          required: false,
+        },
+      ],
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      limit,
+    });
+  }
+
+  /**
+   * Check for a completed payment for the course other than the given one,
+   * whether it bought the course alone or as one of several
+   */
+  async hasOtherCompletedPayment(
+    user_id: string,
+    course_id: string,
+    exclude_payment_id: string,
+    transaction?: Transaction
+  ): Promise<boolean> {
+    return await this.hasCompletedPaymentForCourse(
+      { user_id, id: { [Op.ne]: exclude_payment_id } },
+      course_id,
+      transaction
+    );
   }
 
   /**
-   * Get payment statistics
+   * Count payments by status, for all payments or those for an instructor's courses.
+   * Revenue is reported by the service from the revenue and refund breakdowns.
    */
   async getPaymentStats(instructor_id?: string): Promise<{
     totalPayments: number;
-    totalRevenue: number;
     successfulPayments: number;
     pendingPayments: number;
     failedPayments: number;
+    refundedPayments: number;
+    chargedBackPayments: number;
     recentPayments: number;
-    recentRevenue: number;
   }> {
-    const courseWhere: any = instructor_id ? { instructor_id } : {};
-
-    const includeOptions = instructor_id
-      ? [
-          {
-            model: Course,
-            as: 'course',
-            where: courseWhere,
-            attributes: [],
-          },
-        ]
-      : [];
-
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
-
-    const notRefundedStatus = {
-      status: {
-        [Op.ne]: 'refunded',
-      },
-    };
+    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
 
     const [
       totalPayments,
       successfulPayments,
       pendingPayments,
       failedPayments,
+      refundedPayments,
+      chargedBackPayments,
       recentPayments,
-      revenueResult,
-      recentRevenueResult,
     ] = await Promise.all([
-      getPaymentCount(notRefundedStatus, instructor_id),
-      getPaymentCount({ status: 'completed' }, instructor_id),
-      getPaymentCount({ status: 'pending' }, instructor_id),
-      getPaymentCount({ status: 'failed' }, instructor_id),
-      getPaymentCount(
-        { ...notRefundedStatus, created_at: { [Op.gte]: thirtyDaysAgo } },
-        instructor_id
-      ),
-
-      Payment.findOne({
-        attributes: [
-          [Payment.sequelize!.fn('SUM', Payment.sequelize!.col('amount')), 'totalRevenue'],
-        ],
-        where: {
-          ...notRefundedStatus,
-          status: 'completed',
-        },
-        include: includeOptions,
-        raw: true,
-      }),
-
-      Payment.findOne({
-        attributes: [
-          [Payment.sequelize!.fn('SUM', Payment.sequelize!.col('amount')), 'recentRevenue'],
-        ],
-        where: {
-          ...notRefundedStatus,
-          status: 'completed',
-          created_at: { [Op.gte]: thirtyDaysAgo },
-        },
-        include: includeOptions,
-        raw: true,
-      }),
+      getPaymentCount({}, instructor_id),
+      getPaymentCount({ status: PaymentStatus.COMPLETED }, instructor_id),
+      getPaymentCount({ status: PaymentStatus.PENDING }, instructor_id),
+      getPaymentCount({ status: PaymentStatus.FAILED }, instructor_id),
+      getPaymentCount({ status: PaymentStatus.REFUNDED }, instructor_id),
+      getPaymentCount({ status: PaymentStatus.CHARGEBACK }, instructor_id),
+      getPaymentCount({ created_at: { [Op.gte]: thirtyDaysAgo } }, instructor_id),
     ]);
 
-    const totalRevenue = parseFloat((revenueResult as any)?.totalRevenue || '0');
-    const recentRevenue = parseFloat((recentRevenueResult as any)?.recentRevenue || '0');
-
     return {
       totalPayments,
-      totalRevenue,
       successfulPayments,
       pendingPayments,
       failedPayments,
+      refundedPayments,
+      chargedBackPayments,
       recentPayments,
-      recentRevenue,
     };
   }
 
@@ -335,24 +537,7 @@ export class PaymentRepository extends BaseRepository<Payment> {
     instructor_id?: string,
     limit: number = 30
   ): Promise<any[]> {
-    let dateFormat: string;
-
-    switch (period) {
-      case 'day':
-        dateFormat = '%Y-%m-%d';
-        break;
-      case 'week':
-        dateFormat = '%Y-%u';
-        break;
-      case 'month':
-        dateFormat = '%Y-%m';
-        break;
-      case 'year':
-        dateFormat = '%Y';
-        break;
-      default:
-        dateFormat = '%Y-%m-%d';
-    }
+    const dateFormat = getPeriodFormat(period);
 
     const whereClause: any = {
       status: PaymentStatus.COMPLETED,
@@ -390,6 +575,179 @@ export class PaymentRepository extends BaseRepository<Payment> {
     });
   }
 
+  /**
+   * Gross revenue per currency and day, optionally also per period and/or course: every
+   * payment whose money was taken, including those refunded or charged back since (see
+   * getRefundBreakdown and the lost disputes for what was given back).
+   * Amounts stay in each payment's own currency so they can be converted with the day's rate.
+   */
+  async getRevenueBreakdown(options: RevenueBreakdownOptions = {}): Promise<RevenueBreakdownRow[]> {
+    const { instructor_id, course_id, start_date, end_date, period, by_course } = options;
+    const fn = Payment.sequelize!.fn;
+    const col = Payment.sequelize!.col;
+
+    // Single-course payments, and subscription charges unless revenue is filtered or split by
+    // course; payments for several courses are counted from their items below
+    const whereClause: any = {
+      status: REVENUE_STATUSES,
+    };
+
+    if (course_id || instructor_id || by_course) {
+      whereClause.course_id = course_id || { [Op.ne]: null };
+    } else {
+      whereClause[Op.or] = [
+        { course_id: { [Op.ne]: null } },
+        { subscription_id: { [Op.ne]: null } },
+      ];
+    }
+
+    if (start_date && end_date) {
+      whereClause.created_at = { [Op.between]: [start_date, end_date] };
+    } else if (start_date) {
+      whereClause.created_at = { [Op.gte]: start_date };
+    } else if (end_date) {
+      whereClause.created_at = { [Op.lte]: end_date };
+    }
+
+    const includeOptions: any[] = [];
+
+    if (instructor_id) {
+      includeOptions.push({
+        model: Course,
+        as: 'course',
+        attributes: [],
+        where: { instructor_id },
+        required: true,
+      });
+    }
+
+    const dayExpression = fn('DATE', col('Payment.created_at'));
+    const attributes: any[] = [
+      [dayExpression, 'day'],
+      'currency',
+      [fn('SUM', col('Payment.amount')), 'revenue'],
+      [fn('SUM', col('Payment.tax_amount')), 'tax'],
+      [fn('COUNT', col('Payment.id')), 'payment_count'],
+    ];
+    const group: any[] = [dayExpression, 'currency'];
+
+    if (period) {
+      const periodExpression = fn(
+        'DATE_FORMAT',
+        col('Payment.created_at'),
+        getPeriodFormat(period)
+      );
+      attributes.push([periodExpression, 'period']);
+      group.push(periodExpression);
+    }
+
+    if (by_course) {
+      attributes.push('course_id');
+      group.push('course_id');
+    }
+
+    const rows = await Payment.findAll({
+      attributes,
+      where: whereClause,
+      include: includeOptions,
+      group,
+      raw: true,
+    });
+
+    const itemRows = await this.getItemRevenueBreakdown(options);
+
+    return [...rows, ...itemRows].map((row: any) => ({
+      ...row,
+      day: typeof row.day === 'string' ? row.day : new Date(row.day).toISOString().slice(0, 10),
+      revenue: parseFloat(row.revenue || '0'),
+      tax: parseFloat(row.tax || '0'),
+      payment_count: parseInt(row.payment_count, 10),
+    }));
+  }
+
+  /**
+   * Completed refunds per currency and day they were issued, with the same options and row
+   * shape as getRevenueBreakdown so they can be netted against it
+   */
+  async getRefundBreakdown(options: RevenueBreakdownOptions = {}): Promise<RevenueBreakdownRow[]> {
+    return await getReturnedBreakdown('refunds', options);
+  }
+
+  /**
+   * Revenue of multi-course payments (e.g. bundles), taken from the amount allocated to each
+   * item so it can be attributed to the courses and their instructors
+   */
+  private async getItemRevenueBreakdown(options: RevenueBreakdownOptions): Promise<any[]> {
+    const { instructor_id, course_id, start_date, end_date, period, by_course } = options;
+    const fn = PaymentItem.sequelize!.fn;
+    const col = PaymentItem.sequelize!.col;
+
+    const paymentWhere: any = {
+      status: REVENUE_STATUSES,
+    };
+
+    if (start_date && end_date) {
+      paymentWhere.created_at = { [Op.between]: [start_date, end_date] };
+    } else if (start_date) {
+      paymentWhere.created_at = { [Op.gte]: start_date };
+    } else if (end_date) {
+      paymentWhere.created_at = { [Op.lte]: end_date };
+    }
+
+    const includeOptions: any[] = [
+      {
+        model: Payment,
+        as: 'payment',
+        attributes: [],
+        where: paymentWhere,
+        required: true,
+      },
+    ];
+
+    if (instructor_id) {
+      includeOptions.push({
+        model: Course,
+        as: 'course',
+        attributes: [],
+        where: { instructor_id },
+        required: true,
+      });
+    }
+
+    const dayExpression = fn('DATE', col('payment.created_at'));
+    const attributes: any[] = [
+      [dayExpression, 'day'],
+      [col('payment.currency'), 'currency'],
+      [fn('SUM', col('PaymentItem.amount')), 'revenue'],
+      [fn('SUM', col('PaymentItem.tax_amount')), 'tax'],
+      [fn('COUNT', fn('DISTINCT', col('PaymentItem.payment_id'))), 'payment_count'],
+    ];
+    const group: any[] = [dayExpression, col('payment.currency')];
+
+    if (period) {
+      const periodExpression = fn(
+        'DATE_FORMAT',
+        col('payment.created_at'),
+        getPeriodFormat(period)
+      );
+      attributes.push([periodExpression, 'period']);
+      group.push(periodExpression);
+    }
+
+    if (by_course) {
+      attributes.push([col('PaymentItem.course_id'), 'course_id']);
+      group.push(col('PaymentItem.course_id'));
+    }
+
+    return await PaymentItem.findAll({
+      attributes,
+      where: course_id ? { course_id } : {},
+      include: includeOptions,
+      group,
+      raw: true,
+    });
+  }
+
   /**
    * Get top earning courses
    * @param instructor_id Optional instructor ID to filter by
@@ -474,11 +832,7 @@ export class PaymentRepository extends BaseRepository<Payment> {
    * Check if user has paid for course
    */
   async hasUserPaidForCourse(user_id: string, course_id: string): Promise<boolean> {
-    return await this.exists({
-      user_id,
-      course_id,
-      status: 'completed',
-    });
+    return await this.hasCompletedPaymentForCourse({ user_id }, course_id);
   }
 
   /**
@@ -535,6 +889,39 @@ export class PaymentRepository extends BaseRepository<Payment> {
       raw: true,
     });
   }
+
+  /**
+   * Whether a completed payment matching `where` bought the course, alone or as an item.
+   * Gift purchases pay for someone else's access and do not count.
+   */
+  private async hasCompletedPaymentForCourse(
+    where: any,
+    course_id: string,
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const direct = await this.count({
+      where: { ...where, course_id, is_gift: false, status: PaymentStatus.COMPLETED },
+      transaction,
+    });
+    if (direct > 0) {
+      return true;
+    }
+
+    const items = await PaymentItem.count({
+      where: { course_id },
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: [],
+          where: { ...where, status: PaymentStatus.COMPLETED },
+          required: true,
+        },
+      ],
+      transaction,
+    });
+    return items > 0;
+  }
 }
 
 export default new PaymentRepository();
@@ -0,0 +1,81 @@
+import { Op, FindOptions } from 'sequelize';
+import PayoutBatch, { PayoutBatchStatus } from '../models/payout-batch.model';
+import Payout from '../models/payout.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface BatchFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+export class PayoutBatchRepository extends BaseRepository<PayoutBatch> {
+  constructor() {
+    super(PayoutBatch);
+  }
+
+  /**
+   * Find the batch for a period that has not been cancelled
+   */
+  async findActiveByPeriod(period: string, options?: FindOptions): Promise<PayoutBatch | null> {
+    return await this.findOne({
+      where: {
+        period,
+        status: { [Op.ne]: PayoutBatchStatus.CANCELLED },
+      },
+      ...options,
+    });
+  }
+
+  /**
+   * Find a batch with its payouts and their instructors
+   */
+  async findWithPayouts(id: string, options?: FindOptions): Promise<PayoutBatch | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: Payout,
+          as: 'payouts',
+          include: [
+            {
+              model: User,
+              as: 'instructor',
+              attributes: ['id', 'name', 'email'],
+            },
+          ],
+        },
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Batches with pagination, newest period first
+   */
+  async findWithFilter(
+    options: BatchFilterOptions = {}
+  ): Promise<{ batches: PayoutBatch[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 12, status } = options;
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.findAndCountAll({
+      where: status ? { status } : {},
+      order: [
+        ['period', 'DESC'],
+        ['created_at', 'DESC'],
+      ],
+      limit,
+      offset,
+    });
+
+    return {
+      batches: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new PayoutBatchRepository();
@@ -0,0 +1,76 @@
+import { FindOptions, Transaction } from 'sequelize';
+import Payout, { PayoutStatus } from '../models/payout.model';
+import PayoutBatch from '../models/payout-batch.model';
+import { BaseRepository } from './base.repository';
+
+interface PayoutFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+export class PayoutRepository extends BaseRepository<Payout> {
+  constructor() {
+    super(Payout);
+  }
+
+  /**
+   * Find all payouts in a batch
+   */
+  async findByBatchId(batch_id: string, options?: FindOptions): Promise<Payout[]> {
+    return await this.findAll({
+      where: { batch_id },
+      ...options,
+    });
+  }
+
+  /**
+   * Payouts to an instructor, newest first
+   */
+  async findByInstructor(
+    instructor_id: string,
+    options: PayoutFilterOptions = {}
+  ): Promise<{ payouts: Payout[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 12, status } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = { instructor_id };
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: PayoutBatch,
+          as: 'batch',
+          attributes: ['id', 'period', 'period_start', 'period_end'],
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    return {
+      payouts: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Number of payouts in a batch that are still pending
+   */
+  async countPending(batch_id: string, transaction?: Transaction): Promise<number> {
+    return await this.count({
+      where: { batch_id, status: PayoutStatus.PENDING },
+      transaction,
+    });
+  }
+}
+
+export default new PayoutRepository();
@@ -0,0 +1,50 @@
+import PriceHistory from '../models/price-history.model';
+import Sale from '../models/sale.model';
+import { BaseRepository } from './base.repository';
+
+interface PriceHistoryFilterOptions {
+  page?: number;
+  limit?: number;
+}
+
+export class PriceHistoryRepository extends BaseRepository<PriceHistory> {
+  constructor() {
+    super(PriceHistory);
+  }
+
+  /**
+   * Price changes of a course, latest first
+   */
+  async findByCourseId(
+    course_id: string,
+    options: PriceHistoryFilterOptions = {}
+  ): Promise<{ history: PriceHistory[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 20 } = options;
+
+    const { count, rows } = await this.findAndCountAll({
+      where: { course_id },
+      include: [
+        {
+          model: Sale,
+          as: 'sale',
+          attributes: ['id', 'name', 'starts_at', 'ends_at'],
+        },
+      ],
+      limit,
+      offset: (page - 1) * limit,
+      order: [
+        ['created_at', 'DESC'],
+        ['id', 'DESC'],
+      ],
+    });
+
+    return {
+      history: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new PriceHistoryRepository();
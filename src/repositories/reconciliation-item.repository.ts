@@ -0,0 +1,52 @@
+import ReconciliationItem from '../models/reconciliation-item.model';
+import { BaseRepository } from './base.repository';
+
+interface ItemFilterOptions {
+  page?: number;
+  limit?: number;
+  issue?: string;
+}
+
+export class ReconciliationItemRepository extends BaseRepository<ReconciliationItem> {
+  constructor() {
+    super(ReconciliationItem);
+  }
+
+  /**
+   * Items of a run with pagination, in the order of the settlement file (missing
+   * transactions, which are not in it, last)
+   */
+  async findByRunId(
+    run_id: string,
+    options: ItemFilterOptions = {}
+  ): Promise<{ items: ReconciliationItem[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 50, issue } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = { run_id };
+
+    if (issue) {
+      whereClause.issue = issue;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      limit,
+      offset,
+      order: [
+        [ReconciliationItem.sequelize!.literal('line IS NULL'), 'ASC'],
+        ['line', 'ASC'],
+        ['transaction_id', 'ASC'],
+      ],
+    });
+
+    return {
+      items: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new ReconciliationItemRepository();
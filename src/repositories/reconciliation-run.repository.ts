@@ -0,0 +1,75 @@
+import ReconciliationRun from '../models/reconciliation-run.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface RunFilterOptions {
+  page?: number;
+  limit?: number;
+  payment_method?: string;
+}
+
+export class ReconciliationRunRepository extends BaseRepository<ReconciliationRun> {
+  constructor() {
+    super(ReconciliationRun);
+  }
+
+  /**
+   * Find a run with the admin who imported it
+   */
+  async findWithCreator(id: string): Promise<ReconciliationRun | null> {
+    return await this.findOne({
+      where: { id },
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name'],
+          required: false,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Find runs with filtering and pagination, newest first
+   */
+  async findWithFilter(options: RunFilterOptions = {}): Promise<{
+    runs: ReconciliationRun[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, payment_method } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (payment_method) {
+      whereClause.payment_method = payment_method;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name'],
+          required: false,
+        },
+      ],
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      runs: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new ReconciliationRunRepository();
@@ -0,0 +1,56 @@
+import { Op, Transaction } from 'sequelize';
+import ReferralClick from '../models/referral-click.model';
+import ReferralLink from '../models/referral-link.model';
+import { BaseRepository } from './base.repository';
+
+export class ReferralClickRepository extends BaseRepository<ReferralClick> {
+  constructor() {
+    super(ReferralClick);
+  }
+
+  /**
+   * A user's clicks on active links since a date, newest first, with their links
+   */
+  async findRecentByUser(
+    user_id: string,
+    since: Date,
+    transaction?: Transaction
+  ): Promise<ReferralClick[]> {
+    return await this.findAll({
+      where: { user_id, created_at: { [Op.gte]: since } },
+      include: [
+        {
+          model: ReferralLink,
+          as: 'link',
+          where: { is_active: true },
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      limit: 50,
+      transaction,
+    });
+  }
+
+  /**
+   * Number of clicks per link
+   */
+  async countByLinks(link_ids: string[]): Promise<Map<string, number>> {
+    if (link_ids.length === 0) {
+      return new Map();
+    }
+
+    const rows: any[] = await ReferralClick.findAll({
+      attributes: [
+        'link_id',
+        [ReferralClick.sequelize!.fn('COUNT', ReferralClick.sequelize!.col('id')), 'count'],
+      ],
+      where: { link_id: link_ids },
+      group: ['link_id'],
+      raw: true,
+    });
+
+    return new Map(rows.map(row => [row.link_id, parseInt(row.count, 10)]));
+  }
+}
+
+export default new ReferralClickRepository();
@@ -0,0 +1,162 @@
+import { Transaction } from 'sequelize';
+import ReferralCommission from '../models/referral-commission.model';
+import ReferralLink from '../models/referral-link.model';
+import Course from '../models/course.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface CommissionFilterOptions {
+  page?: number;
+  limit?: number;
+  affiliate_id?: string;
+  status?: string;
+  // Include who bought; only shown to admins
+  include_buyer?: boolean;
+}
+
+export interface CommissionTotalsRow {
+  link_id: string;
+  status: string;
+  count: number;
+  amount: number;
+}
+
+export class ReferralCommissionRepository extends BaseRepository<ReferralCommission> {
+  constructor() {
+    super(ReferralCommission);
+  }
+
+  /**
+   * Find the commission earned on a payment
+   */
+  async findByPaymentId(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<ReferralCommission | null> {
+    return await this.findOne({ where: { payment_id }, transaction });
+  }
+
+  /**
+   * Find commissions with filtering and pagination, newest first
+   */
+  async findWithFilter(options: CommissionFilterOptions = {}): Promise<{
+    commissions: ReferralCommission[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 10, affiliate_id, status, include_buyer = false } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (affiliate_id) {
+      whereClause.affiliate_id = affiliate_id;
+    }
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    const include: any[] = [
+      {
+        model: ReferralLink,
+        as: 'link',
+        attributes: ['id', 'code', 'course_id'],
+        include: [
+          {
+            model: Course,
+            as: 'course',
+            attributes: ['id', 'title'],
+            required: false,
+          },
+        ],
+      },
+    ];
+
+    if (include_buyer) {
+      include.push(
+        {
+          model: User,
+          as: 'affiliate',
+          attributes: ['id', 'name', 'email'],
+        },
+        {
+          model: User,
+          as: 'referredUser',
+          attributes: ['id', 'name', 'email'],
+        }
+      );
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include,
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      commissions: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Number and sum of an affiliate's commissions per link and status
+   */
+  async getTotalsByLink(affiliate_id: string): Promise<CommissionTotalsRow[]> {
+    const rows: any[] = await ReferralCommission.findAll({
+      attributes: [
+        'link_id',
+        'status',
+        [
+          ReferralCommission.sequelize!.fn('COUNT', ReferralCommission.sequelize!.col('id')),
+          'count',
+        ],
+        [
+          ReferralCommission.sequelize!.fn('SUM', ReferralCommission.sequelize!.col('amount')),
+          'amount',
+        ],
+      ],
+      where: { affiliate_id },
+      group: ['link_id', 'status'],
+      raw: true,
+    });
+
+    return rows.map(row => ({
+      link_id: row.link_id,
+      status: row.status,
+      count: parseInt(row.count, 10),
+      amount: parseFloat(row.amount || '0'),
+    }));
+  }
+
+  /**
+   * Move a commission between statuses only if it is still in `from`.
+   * Returns false when another request changed it first.
+   */
+  async updateStatus(
+    id: string,
+    from: string,
+    to: string,
+    data: Partial<{
+      reviewed_by: string | null;
+      reviewed_at: Date | null;
+      note: string | null;
+    }> = {},
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status: to },
+      { id, status: from },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+}
+
+export default new ReferralCommissionRepository();
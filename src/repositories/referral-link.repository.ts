@@ -0,0 +1,60 @@
+import { Op, Transaction } from 'sequelize';
+import ReferralLink from '../models/referral-link.model';
+import Course from '../models/course.model';
+import { BaseRepository } from './base.repository';
+
+export class ReferralLinkRepository extends BaseRepository<ReferralLink> {
+  constructor() {
+    super(ReferralLink);
+  }
+
+  /**
+   * Find a link by its code with its course
+   */
+  async findByCode(code: string): Promise<ReferralLink | null> {
+    return await this.findOne({
+      where: { code },
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title', 'instructor_id'],
+          required: false,
+        },
+      ],
+    });
+  }
+
+  /**
+   * A user's link for a course, or their general link when `course_id` is null
+   */
+  async findByUserAndCourse(
+    user_id: string,
+    course_id: string | null
+  ): Promise<ReferralLink | null> {
+    return await this.findOne({
+      where: { user_id, course_id: course_id === null ? { [Op.is]: null } : course_id },
+    });
+  }
+
+  /**
+   * Links of a user, newest first
+   */
+  async findByUserId(user_id: string, transaction?: Transaction): Promise<ReferralLink[]> {
+    return await this.findAll({
+      where: { user_id },
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title'],
+          required: false,
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      transaction,
+    });
+  }
+}
+
+export default new ReferralLinkRepository();
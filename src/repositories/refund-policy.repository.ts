@@ -0,0 +1,71 @@
+import { Op } from 'sequelize';
+import RefundPolicy from '../models/refund-policy.model';
+import Course from '../models/course.model';
+import { BaseRepository } from './base.repository';
+
+interface RefundPolicyFilterOptions {
+  page?: number;
+  limit?: number;
+  course_id?: string | null;
+  is_active?: boolean;
+}
+
+export class RefundPolicyRepository extends BaseRepository<RefundPolicy> {
+  constructor() {
+    super(RefundPolicy);
+  }
+
+  /**
+   * Active policies of a course, or the global policies when course_id is null
+   */
+  async findActiveByCourse(course_id: string | null): Promise<RefundPolicy[]> {
+    return await this.findAll({
+      where: { course_id, is_active: true },
+      order: [['created_at', 'ASC']],
+    });
+  }
+
+  /**
+   * Find policies with filtering and pagination. Pass course_id null for global policies only.
+   */
+  async findWithFilter(
+    options: RefundPolicyFilterOptions = {}
+  ): Promise<{ policies: RefundPolicy[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 20, course_id, is_active } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (course_id !== undefined) {
+      whereClause.course_id = course_id === null ? { [Op.is]: null } : course_id;
+    }
+
+    if (is_active !== undefined) {
+      whereClause.is_active = is_active;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: Course,
+          as: 'course',
+          attributes: ['id', 'title'],
+          required: false,
+        },
+      ],
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      policies: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new RefundPolicyRepository();
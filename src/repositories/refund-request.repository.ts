@@ -0,0 +1,205 @@
+import { Op, FindOptions, Transaction } from 'sequelize';
+import RefundRequest, { OPEN_REFUND_REQUEST_STATUSES } from '../models/refund-request.model';
+import Payment from '../models/payment.model';
+import PaymentItem from '../models/payment-item.model';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import User from '../models/user.model';
+import Refund from '../models/refund.model';
+import { instructorPaymentIds } from '../utils/paymentStatsHelper';
+import { BaseRepository } from './base.repository';
+
+interface RefundRequestFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  payment_id?: string;
+  // Only requests made by this user
+  user_id?: string;
+  // Requests made by `user_id` or on payments for courses and bundles of this instructor,
+  // including cart payments with one of their courses
+  instructor_id?: string;
+}
+
+export class RefundRequestRepository extends BaseRepository<RefundRequest> {
+  constructor() {
+    super(RefundRequest);
+  }
+
+  /**
+   * Find a request with its payment, course (or the courses of a cart payment), requester and
+   * refund
+   */
+  async findWithDetails(id: string, options?: FindOptions): Promise<RefundRequest | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          include: [
+            {
+              model: Course,
+              as: 'course',
+              attributes: ['id', 'title', 'instructor_id'],
+            },
+            {
+              model: Bundle,
+              as: 'bundle',
+              attributes: ['id', 'title', 'instructor_id'],
+              required: false,
+            },
+            {
+              model: PaymentItem,
+              as: 'items',
+              attributes: ['id', 'course_id'],
+              required: false,
+              include: [
+                {
+                  model: Course,
+                  as: 'course',
+                  attributes: ['id', 'title', 'instructor_id'],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+        {
+          model: User,
+          as: 'reviewer',
+          attributes: ['id', 'name'],
+          required: false,
+        },
+        {
+          model: Refund,
+          as: 'refund',
+          required: false,
+        },
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Find the request for a payment that is still awaiting a decision or its refund
+   */
+  async findOpenByPaymentId(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<RefundRequest | null> {
+    return await this.findOne({
+      where: {
+        payment_id,
+        status: { [Op.in]: OPEN_REFUND_REQUEST_STATUSES },
+      },
+      transaction,
+    });
+  }
+
+  /**
+   * Find requests with filtering and pagination, newest first
+   */
+  async findWithFilter(
+    options: RefundRequestFilterOptions = {}
+  ): Promise<{ requests: RefundRequest[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, status, payment_id, user_id, instructor_id } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    if (payment_id) {
+      whereClause.payment_id = payment_id;
+    }
+
+    if (instructor_id) {
+      whereClause[Op.or] = [
+        { '$payment.course.instructor_id$': instructor_id },
+        { '$payment.bundle.instructor_id$': instructor_id },
+        {
+          payment_id: {
+            [Op.in]: RefundRequest.sequelize!.literal(instructorPaymentIds(instructor_id)),
+          },
+        },
+        ...(user_id ? [{ user_id }] : []),
+      ];
+    } else if (user_id) {
+      whereClause.user_id = user_id;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'course_id', 'bundle_id', 'amount', 'currency', 'status'],
+          include: [
+            {
+              model: Course,
+              as: 'course',
+              attributes: ['id', 'title', 'instructor_id'],
+            },
+            {
+              model: Bundle,
+              as: 'bundle',
+              attributes: ['id', 'title', 'instructor_id'],
+              required: false,
+            },
+          ],
+        },
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      limit,
+      offset,
+      subQuery: false,
+    });
+
+    return {
+      requests: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Move a request between statuses only if it is still in `from`.
+   * Returns false when another request changed it first.
+   */
+  async updateStatus(
+    id: string,
+    from: string,
+    to: string,
+    data: Partial<{
+      reviewer_id: string;
+      reviewer_note: string | null;
+      reviewed_at: Date;
+      amount: number;
+      refund_id: string;
+      processed_at: Date | null;
+    }> = {},
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affectedCount] = await this.update(
+      { ...data, status: to },
+      { id, status: from },
+      { transaction }
+    );
+    return affectedCount > 0;
+  }
+}
+
+export default new RefundRequestRepository();
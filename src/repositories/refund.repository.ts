@@ -0,0 +1,216 @@
+import { FindOptions, Op, Transaction } from 'sequelize';
+import Refund, { RefundStatus } from '../models/refund.model';
+import Payment from '../models/payment.model';
+import { instructorPaymentIds } from '../utils/paymentStatsHelper';
+import { BaseRepository } from './base.repository';
+
+interface ExportFilterOptions {
+  start_date?: Date;
+  end_date?: Date;
+  status?: string;
+  instructor_id?: string;
+}
+
+export class RefundRepository extends BaseRepository<Refund> {
+  constructor() {
+    super(Refund);
+  }
+
+  /**
+   * Find refund by provider transaction ID
+   */
+  async findByTransactionId(
+    transaction_id: string,
+    options?: FindOptions
+  ): Promise<Refund | null> {
+    return await this.findOne({
+      where: { transaction_id },
+      ...options,
+    });
+  }
+
+  /**
+   * Find the refunds with any of the given provider transaction IDs, with the currency of
+   * their payment
+   */
+  async findByTransactionIds(transaction_ids: string[]): Promise<Refund[]> {
+    if (transaction_ids.length === 0) {
+      return [];
+    }
+
+    return await this.findAll({
+      where: { transaction_id: transaction_ids },
+      attributes: ['id', 'payment_id', 'transaction_id', 'amount', 'status'],
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'currency', 'payment_method'],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Completed refunds of a period, i.e. the ones a settlement file for that period should
+   * contain, with the currency of their payment
+   */
+  async findSettleable(
+    start_date: Date,
+    end_date: Date,
+    payment_method?: string
+  ): Promise<Refund[]> {
+    return await this.findAll({
+      where: {
+        status: RefundStatus.COMPLETED,
+        transaction_id: { [Op.ne]: null },
+        created_at: { [Op.between]: [start_date, end_date] },
+      },
+      attributes: ['id', 'payment_id', 'transaction_id', 'amount', 'status'],
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'currency'],
+          where: payment_method ? { payment_method } : undefined,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Next batch of refunds to export, oldest first, continuing after the last refund of the
+   * previous batch (see PaymentRepository.findExportBatch)
+   */
+  async findExportBatch(
+    options: ExportFilterOptions,
+    after: { created_at: Date; id: string } | null,
+    limit: number
+  ): Promise<Refund[]> {
+    const { start_date, end_date, status, instructor_id } = options;
+    const conditions: any[] = [];
+
+    if (status) {
+      conditions.push({ status });
+    }
+
+    if (start_date) {
+      conditions.push({ created_at: { [Op.gte]: start_date } });
+    }
+
+    if (end_date) {
+      conditions.push({ created_at: { [Op.lte]: end_date } });
+    }
+
+    if (instructor_id) {
+      conditions.push({
+        payment_id: { [Op.in]: Refund.sequelize!.literal(instructorPaymentIds(instructor_id)) },
+      });
+    }
+
+    if (after) {
+      conditions.push({
+        [Op.or]: [
+          { created_at: { [Op.gt]: after.created_at } },
+          { created_at: after.created_at, id: { [Op.gt]: after.id } },
+        ],
+      });
+    }
+
+    return await this.findAll({
+      where: { [Op.and]: conditions },
+      include: [
+        {
+          model: Payment,
+          as: 'payment',
+          attributes: ['id', 'transaction_id', 'currency', 'payment_method'],
+        },
+      ],
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      limit,
+    });
+  }
+
+  /**
+   * Find all refunds for a payment
+   */
+  async findByPaymentId(payment_id: string, options?: FindOptions): Promise<Refund[]> {
+    return await this.findAll({
+      where: { payment_id },
+      order: [['created_at', 'ASC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Sum of completed refunds for a payment
+   */
+  async getRefundedTotal(payment_id: string, transaction?: Transaction): Promise<number> {
+    const total = await Refund.sum('amount', {
+      where: { payment_id, status: RefundStatus.COMPLETED },
+      transaction,
+    });
+    return Number(total || 0);
+  }
+
+  /**
+   * Tax part of the completed refunds of a payment
+   */
+  async getRefundedTax(payment_id: string, transaction?: Transaction): Promise<number> {
+    const total = await Refund.sum('tax_amount', {
+      where: { payment_id, status: RefundStatus.COMPLETED },
+      transaction,
+    });
+    return Number(total || 0);
+  }
+
+  /**
+   * Amount and tax of the completed and pending refunds of a payment, i.e. what can no longer
+   * be refunded. Pending refunds are reserved while their gateway call is in flight.
+   */
+  async getReservedTotals(
+    payment_id: string,
+    transaction?: Transaction
+  ): Promise<{ amount: number; tax_amount: number }> {
+    const where = {
+      payment_id,
+      status: { [Op.in]: [RefundStatus.COMPLETED, RefundStatus.PENDING] },
+    };
+    const [amount, tax_amount] = await Promise.all([
+      Refund.sum('amount', { where, transaction }),
+      Refund.sum('tax_amount', { where, transaction }),
+    ]);
+    return { amount: Number(amount || 0), tax_amount: Number(tax_amount || 0) };
+  }
+
+  /**
+   * Pending refunds the provider has already paid out (they have its transaction ID) but that
+   * were never completed on our side, oldest first
+   */
+  async findPaidOutPending(limit: number = 100): Promise<Refund[]> {
+    return await this.findAll({
+      where: {
+        status: RefundStatus.PENDING,
+        transaction_id: { [Op.ne]: null },
+      },
+      order: [['created_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Update refund status
+   */
+  async updateStatus(
+    id: string,
+    status: string,
+    transaction?: Transaction
+  ): Promise<Refund | null> {
+    return await this.updateById(id, { status }, { transaction });
+  }
+}
+
+export default new RefundRepository();
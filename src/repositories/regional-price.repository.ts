@@ -0,0 +1,52 @@
+import { FindOptions, Op } from 'sequelize';
+import RegionalPrice from '../models/regional-price.model';
+import { BaseRepository } from './base.repository';
+
+export class RegionalPriceRepository extends BaseRepository<RegionalPrice> {
+  constructor() {
+    super(RegionalPrice);
+  }
+
+  /**
+   * Get all regional prices of a course
+   */
+  async findByCourseId(course_id: string, options?: FindOptions): Promise<RegionalPrice[]> {
+    return await this.findAll({
+      where: { course_id },
+      order: [['country_code', 'ASC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Get the price of a course in a country
+   */
+  async findByCourseAndCountry(
+    course_id: string,
+    country_code: string,
+    options?: FindOptions
+  ): Promise<RegionalPrice | null> {
+    return await this.findOne({
+      where: { course_id, country_code: country_code.toUpperCase() },
+      ...options,
+    });
+  }
+
+  /**
+   * Get the prices of several courses in a country, for pricing a page of courses at once
+   */
+  async findByCoursesAndCountry(
+    course_ids: string[],
+    country_code: string
+  ): Promise<RegionalPrice[]> {
+    if (course_ids.length === 0) {
+      return [];
+    }
+
+    return await this.findAll({
+      where: { course_id: { [Op.in]: course_ids }, country_code: country_code.toUpperCase() },
+    });
+  }
+}
+
+export default new RegionalPriceRepository();
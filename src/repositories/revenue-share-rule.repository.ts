@@ -0,0 +1,80 @@
+import { Op, FindOptions } from 'sequelize';
+import RevenueShareRule from '../models/revenue-share-rule.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface RuleFilterOptions {
+  page?: number;
+  limit?: number;
+  instructor_id?: string;
+}
+
+export class RevenueShareRuleRepository extends BaseRepository<RevenueShareRule> {
+  constructor() {
+    super(RevenueShareRule);
+  }
+
+  /**
+   * Rule in effect on a day for an instructor, or the platform default when instructor_id is null
+   */
+  async findEffectiveRule(
+    instructor_id: string | null,
+    date: string,
+    options?: FindOptions
+  ): Promise<RevenueShareRule | null> {
+    return await this.findOne({
+      where: {
+        instructor_id,
+        effective_from: { [Op.lte]: date },
+      },
+      order: [['effective_from', 'DESC']],
+      ...options,
+    });
+  }
+
+  /**
+   * Find the rule starting on an exact day
+   */
+  async findByInstructorAndDate(
+    instructor_id: string | null,
+    effective_from: string
+  ): Promise<RevenueShareRule | null> {
+    return await this.findOne({
+      where: { instructor_id, effective_from },
+    });
+  }
+
+  /**
+   * Rules with pagination, newest first
+   */
+  async findWithFilter(
+    options: RuleFilterOptions = {}
+  ): Promise<{ rules: RevenueShareRule[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 20, instructor_id } = options;
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.findAndCountAll({
+      where: instructor_id ? { instructor_id } : {},
+      include: [
+        {
+          model: User,
+          as: 'instructor',
+          attributes: ['id', 'name', 'email'],
+          required: false,
+        },
+      ],
+      order: [['effective_from', 'DESC']],
+      limit,
+      offset,
+    });
+
+    return {
+      rules: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new RevenueShareRuleRepository();
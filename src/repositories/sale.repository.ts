@@ -0,0 +1,153 @@
+import { Op, Transaction } from 'sequelize';
+import Sale, { SaleScope, SaleStatus } from '../models/sale.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface SaleFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  scope?: string;
+  scope_id?: string;
+  created_by?: string;
+}
+
+// What a set of courses can be on sale through
+interface SaleTargets {
+  course_ids: string[];
+  instructor_ids: string[];
+  category_ids: string[];
+}
+
+// Sales that have not ended or been canceled
+const OPEN_STATUSES = [SaleStatus.SCHEDULED, SaleStatus.ACTIVE];
+
+export class SaleRepository extends BaseRepository<Sale> {
+  constructor() {
+    super(Sale);
+  }
+
+  /**
+   * Find sales with filtering and pagination, latest start first
+   */
+  async findWithFilter(
+    options: SaleFilterOptions = {}
+  ): Promise<{ sales: Sale[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, status, scope, scope_id, created_by } = options;
+
+    const whereClause: any = {};
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    if (scope) {
+      whereClause.scope = scope;
+    }
+
+    if (scope_id) {
+      whereClause.scope_id = scope_id;
+    }
+
+    if (created_by) {
+      whereClause.created_by = created_by;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: User,
+          as: 'creator',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+      limit,
+      offset: (page - 1) * limit,
+      order: [['starts_at', 'DESC']],
+    });
+
+    return {
+      sales: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Sales running at `now` that cover any of the targets
+   */
+  async findCurrent(targets: SaleTargets, now: Date = new Date()): Promise<Sale[]> {
+    const scopes = [
+      { scope: SaleScope.COURSE, scope_id: targets.course_ids },
+      { scope: SaleScope.INSTRUCTOR, scope_id: targets.instructor_ids },
+      { scope: SaleScope.CATEGORY, scope_id: targets.category_ids },
+    ].filter(({ scope_id }) => scope_id.length > 0);
+
+    if (scopes.length === 0) {
+      return [];
+    }
+
+    return await this.findAll({
+      where: {
+        status: { [Op.in]: OPEN_STATUSES },
+        starts_at: { [Op.lte]: now },
+        ends_at: { [Op.gt]: now },
+        [Op.or]: scopes.map(({ scope, scope_id }) => ({
+          scope,
+          scope_id: { [Op.in]: scope_id },
+        })),
+      },
+    });
+  }
+
+  /**
+   * Scheduled sales whose window has started and not ended yet
+   */
+  async findDueToStart(now: Date, limit: number = 100): Promise<Sale[]> {
+    return await this.findAll({
+      where: {
+        status: SaleStatus.SCHEDULED,
+        starts_at: { [Op.lte]: now },
+        ends_at: { [Op.gt]: now },
+      },
+      order: [['starts_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Scheduled or active sales whose window is over
+   */
+  async findDueToEnd(now: Date, limit: number = 100): Promise<Sale[]> {
+    return await this.findAll({
+      where: {
+        status: { [Op.in]: OPEN_STATUSES },
+        ends_at: { [Op.lte]: now },
+      },
+      order: [['ends_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Move a sale to `status` if it is still in one of the `from` statuses. Returns whether it
+   * moved, so concurrent runs of the sale job only process a sale once.
+   */
+  async transition(
+    id: string,
+    from: SaleStatus[],
+    status: SaleStatus,
+    transaction?: Transaction
+  ): Promise<boolean> {
+    const [affected] = await this.update(
+      { status },
+      { id, status: { [Op.in]: from } },
+      { transaction }
+    );
+    return affected > 0;
+  }
+}
+
+export default new SaleRepository();
@@ -0,0 +1,34 @@
+import { FindOptions } from 'sequelize';
+import SubscriptionCharge, { SubscriptionChargeStatus } from '../models/subscription-charge.model';
+import { BaseRepository } from './base.repository';
+
+export class SubscriptionChargeRepository extends BaseRepository<SubscriptionCharge> {
+  constructor() {
+    super(SubscriptionCharge);
+  }
+
+  /**
+   * Charges of a subscription, newest first
+   */
+  async findBySubscriptionId(subscription_id: string): Promise<SubscriptionCharge[]> {
+    return await this.findAll({
+      where: { subscription_id },
+      order: [['created_at', 'DESC']],
+    });
+  }
+
+  /**
+   * A charge of the subscription still waiting on the gateway
+   */
+  async findPending(
+    subscription_id: string,
+    options?: FindOptions
+  ): Promise<SubscriptionCharge | null> {
+    return await this.findOne({
+      where: { subscription_id, status: SubscriptionChargeStatus.PENDING },
+      ...options,
+    });
+  }
+}
+
+export default new SubscriptionChargeRepository();
@@ -0,0 +1,23 @@
+import SubscriptionPlan from '../models/subscription-plan.model';
+import { BaseRepository } from './base.repository';
+
+export class SubscriptionPlanRepository extends BaseRepository<SubscriptionPlan> {
+  constructor() {
+    super(SubscriptionPlan);
+  }
+
+  /**
+   * List plans, cheapest first. Inactive plans are left out unless asked for.
+   */
+  async findPlans(includeInactive: boolean = false): Promise<SubscriptionPlan[]> {
+    return await this.findAll({
+      where: includeInactive ? {} : { is_active: true },
+      order: [
+        ['price', 'ASC'],
+        ['name', 'ASC'],
+      ],
+    });
+  }
+}
+
+export default new SubscriptionPlanRepository();
@@ -0,0 +1,132 @@
+import { Op, FindOptions } from 'sequelize';
+import Subscription, { CURRENT_SUBSCRIPTION_STATUSES } from '../models/subscription.model';
+import SubscriptionPlan from '../models/subscription-plan.model';
+import User from '../models/user.model';
+import { BaseRepository } from './base.repository';
+
+interface SubscriptionFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  plan_id?: string;
+  user_id?: string;
+}
+
+export class SubscriptionRepository extends BaseRepository<Subscription> {
+  constructor() {
+    super(Subscription);
+  }
+
+  /**
+   * Find a subscription with its plan and user
+   */
+  async findWithDetails(id: string): Promise<Subscription | null> {
+    return await this.findById(id, {
+      include: [
+        {
+          model: SubscriptionPlan,
+          as: 'plan',
+        },
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+    });
+  }
+
+  /**
+   * The subscription of a user that is still renewing (active or past due), if any
+   */
+  async findCurrentByUser(user_id: string, options?: FindOptions): Promise<Subscription | null> {
+    return await this.findOne({
+      where: { user_id, status: { [Op.in]: CURRENT_SUBSCRIPTION_STATUSES } },
+      ...options,
+    });
+  }
+
+  /**
+   * A subscription that gives the user access right now: within its paid period, or within
+   * the grace period after it while the renewal is outstanding. Subscriptions set to cancel
+   * get no grace period.
+   */
+  async findEntitling(user_id: string, at: Date = new Date()): Promise<Subscription | null> {
+    return await this.findOne({
+      where: {
+        user_id,
+        status: { [Op.in]: CURRENT_SUBSCRIPTION_STATUSES },
+        [Op.or]: [
+          { current_period_end: { [Op.gt]: at } },
+          { cancel_at_period_end: false, grace_until: { [Op.gt]: at } },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Active and past-due subscriptions whose period has ended, oldest first
+   */
+  async findDueForRenewal(at: Date = new Date(), limit: number = 100): Promise<Subscription[]> {
+    return await this.findAll({
+      where: {
+        status: { [Op.in]: CURRENT_SUBSCRIPTION_STATUSES },
+        current_period_end: { [Op.lte]: at },
+      },
+      order: [['current_period_end', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Find subscriptions with filtering and pagination, newest first
+   */
+  async findWithFilter(
+    options: SubscriptionFilterOptions = {}
+  ): Promise<{ subscriptions: Subscription[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, status, plan_id, user_id } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (status) {
+      whereClause.status = status;
+    }
+
+    if (plan_id) {
+      whereClause.plan_id = plan_id;
+    }
+
+    if (user_id) {
+      whereClause.user_id = user_id;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      include: [
+        {
+          model: SubscriptionPlan,
+          as: 'plan',
+          attributes: ['id', 'name', 'interval'],
+        },
+        {
+          model: User,
+          as: 'user',
+          attributes: ['id', 'name', 'email'],
+        },
+      ],
+      order: [['created_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    return {
+      subscriptions: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new SubscriptionRepository();
@@ -0,0 +1,82 @@
+import { Op } from 'sequelize';
+import TaxRate from '../models/tax-rate.model';
+import { BaseRepository } from './base.repository';
+
+interface TaxRateFilterOptions {
+  page?: number;
+  limit?: number;
+  country_code?: string;
+  is_active?: boolean;
+}
+
+export class TaxRateRepository extends BaseRepository<TaxRate> {
+  constructor() {
+    super(TaxRate);
+  }
+
+  /**
+   * The rate for a country, or for one region of it when `region` is given
+   */
+  async findByLocation(country_code: string, region: string | null): Promise<TaxRate | null> {
+    return await this.findOne({
+      where: { country_code, region: region === null ? { [Op.is]: null } : region },
+    });
+  }
+
+  /**
+   * Active rate charged in a location: the region's own rate, else the country's
+   */
+  async findApplicable(country_code: string, region?: string | null): Promise<TaxRate | null> {
+    if (region) {
+      const regional = await this.findOne({
+        where: { country_code, region, is_active: true },
+      });
+      if (regional) {
+        return regional;
+      }
+    }
+
+    return await this.findOne({
+      where: { country_code, region: { [Op.is]: null }, is_active: true },
+    });
+  }
+
+  /**
+   * Find rates with filtering and pagination, ordered by location
+   */
+  async findWithFilter(
+    options: TaxRateFilterOptions = {}
+  ): Promise<{ rates: TaxRate[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 50, country_code, is_active } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause: any = {};
+
+    if (country_code) {
+      whereClause.country_code = country_code;
+    }
+
+    if (is_active !== undefined) {
+      whereClause.is_active = is_active;
+    }
+
+    const { count, rows } = await this.findAndCountAll({
+      where: whereClause,
+      limit,
+      offset,
+      order: [
+        ['country_code', 'ASC'],
+        ['region', 'ASC'],
+      ],
+    });
+
+    return {
+      rates: rows,
+      total: count,
+      page,
+      limit,
+    };
+  }
+}
+
+export default new TaxRateRepository();
@@ -0,0 +1,45 @@
+import { FindOptions, Transaction } from 'sequelize';
+import WebhookEvent, { WebhookEventStatus } from '../models/webhook-event.model';
+import { BaseRepository } from './base.repository';
+
+export class WebhookEventRepository extends BaseRepository<WebhookEvent> {
+  constructor() {
+    super(WebhookEvent);
+  }
+
+  /**
+   * Find a stored event by provider and provider event ID
+   */
+  async findByProviderEventId(
+    provider: string,
+    event_id: string,
+    options?: FindOptions
+  ): Promise<WebhookEvent | null> {
+    return await this.findOne({
+      where: { provider, event_id },
+      ...options,
+    });
+  }
+
+  /**
+   * Record the outcome of processing an event
+   */
+  async markOutcome(
+    id: string,
+    status: WebhookEventStatus,
+    processing_error: string | null = null,
+    transaction?: Transaction
+  ): Promise<WebhookEvent | null> {
+    return await this.updateById(
+      id,
+      {
+        status,
+        processing_error,
+        processed_at: status === WebhookEventStatus.FAILED ? null : new Date(),
+      },
+      { transaction }
+    );
+  }
+}
+
+export default new WebhookEventRepository();
@@ -0,0 +1,260 @@
+import express from 'express';
+import bundleController from '../controllers/bundle.controller';
+import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createBundleSchema,
+  updateBundleSchema,
+  getBundleSchema,
+  getBundlesSchema,
+  getBundleQuoteSchema,
+} from '../validators/bundle.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Bundles
+ *   description: Several courses of one instructor sold together at a combined price
+ */
+
+/**
+ * @swagger
+ * /api/bundles:
+ *   get:
+ *     summary: List bundles
+ *     tags: [Bundles]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: include_inactive
+ *         schema:
+ *           type: boolean
+ *         description: Include inactive bundles (admins, or instructors listing their own)
+ *     responses:
+ *       200:
+ *         description: Bundles, newest first
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Create a bundle (instructor or admin)
+ *     description: All courses must belong to the same instructor, who owns the bundle. The price is in the base currency and cannot exceed the combined price of the courses.
+ *     tags: [Bundles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - price
+ *               - course_ids
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *               course_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Bundle created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not the instructor of the courses
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  optionalAuthenticate,
+  validateRequest(getBundlesSchema),
+  bundleController.getBundles
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(createBundleSchema),
+  bundleController.createBundle
+);
+
+/**
+ * @swagger
+ * /api/bundles/{id}/quote:
+ *   get:
+ *     summary: Quote a bundle for the current user
+ *     description: Returns the bundle price in the requested currency and how it is split over the courses.
+ *     tags: [Bundles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bundle quote
+ *       400:
+ *         description: Bundle unavailable or already owned
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Bundle not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/quote',
+  authenticate,
+  validateRequest(getBundleQuoteSchema),
+  bundleController.getQuote
+);
+
+/**
+ * @swagger
+ * /api/bundles/{id}:
+ *   get:
+ *     summary: Get a bundle with its courses
+ *     tags: [Bundles]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bundle
+ *       404:
+ *         description: Bundle not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a bundle (its instructor or an admin)
+ *     description: Passing course_ids replaces the courses of the bundle.
+ *     tags: [Bundles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *               course_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Bundle updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Bundle not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a bundle that has not been sold (its instructor or an admin)
+ *     tags: [Bundles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bundle deleted
+ *       400:
+ *         description: Bundle has been sold
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Bundle not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  optionalAuthenticate,
+  validateRequest(getBundleSchema),
+  bundleController.getBundleById
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(updateBundleSchema),
+  bundleController.updateBundle
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getBundleSchema),
+  bundleController.deleteBundle
+);
+
+export default router;
@@ -0,0 +1,196 @@
+import express from 'express';
+import cartController from '../controllers/cart.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  getCartSchema,
+  addCartItemSchema,
+  removeCartItemSchema,
+  cartCheckoutSchema,
+} from '../validators/cart.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Cart
+ *   description: A persistent cart of courses checked out together as one order
+ */
+
+/**
+ * @swagger
+ * /api/cart:
+ *   get:
+ *     summary: Get the current user's cart
+ *     description: Each course is priced in the requested currency. Courses that can no longer be bought (unpublished, or already enrolled) carry an issue and are left out of the total.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           default: USD
+ *     responses:
+ *       200:
+ *         description: Priced cart summary
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Empty the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cart cleared
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(getCartSchema),
+  cartController.getCart
+);
+
+router.delete(
+  '/',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  cartController.clearCart
+);
+
+/**
+ * @swagger
+ * /api/cart/items:
+ *   post:
+ *     summary: Add a course to the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - course_id
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Course added; returns the cart
+ *       400:
+ *         description: Course unavailable or already enrolled
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course not found
+ *       409:
+ *         description: Course already in the cart
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/items',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(addCartItemSchema),
+  cartController.addItem
+);
+
+/**
+ * @swagger
+ * /api/cart/items/{course_id}:
+ *   delete:
+ *     summary: Remove a course from the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: course_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course removed; returns the cart
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course is not in the cart
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/items/:course_id',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(removeCartItemSchema),
+  cartController.removeItem
+);
+
+/**
+ * @swagger
+ * /api/cart/checkout:
+ *   post:
+ *     summary: Check out the whole cart as one order
+ *     description: Opens a single checkout session whose payment has one line item per course. Capture it through the checkout session endpoints; the courses leave the cart once the payment completes. Coupons are not supported for cart orders.
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payment_method
+ *             properties:
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               billing_country:
+ *                 type: string
+ *                 example: DE
+ *                 description: ISO country code used to look up the tax rate
+ *               billing_region:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Checkout session created; its payment is `held` when fraud screening flags it, and cannot be captured until approved
+ *       400:
+ *         description: Cart empty or contains courses that cannot be bought
+ *       401:
+ *         description: Not authenticated
+ *       429:
+ *         description: Too many payment attempts from this account or IP
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/checkout',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(cartCheckoutSchema),
+  cartController.checkout
+);
+
+export default router;
@@ -0,0 +1,385 @@
+import express from 'express';
+import checkoutController from '../controllers/checkout.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createCheckoutSessionSchema,
+  getCheckoutSessionSchema,
+  captureCheckoutSessionSchema,
+  cancelCheckoutSessionSchema,
+  retryCheckoutSessionSchema,
+  processStaleCheckoutsSchema,
+  getAbandonedCheckoutsSchema,
+  markCheckoutRemindedSchema,
+} from '../validators/checkout.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Checkout
+ *   description: Checkout sessions backed by the payment gateway adapters
+ */
+
+/**
+ * @swagger
+ * /api/checkout/sessions:
+ *   post:
+ *     summary: Open a checkout session for a course or a bundle
+ *     description: Records a pending payment and creates a payment intent with the gateway registered for the payment method. Pass either course_id or bundle_id; completing a bundle payment enrolls the user in every course of the bundle.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payment_method
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *               bundle_id:
+ *                 type: string
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               coupon_code:
+ *                 type: string
+ *                 description: Courses only; coupons do not apply to bundles
+ *               billing_country:
+ *                 type: string
+ *                 example: DE
+ *                 description: ISO country code used to look up the tax rate
+ *               billing_region:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Checkout session created; its payment is `held` when fraud screening flags it, and cannot be captured until approved
+ *       400:
+ *         description: Invalid input, course or bundle unavailable, invalid coupon or user already enrolled
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course or bundle not found
+ *       429:
+ *         description: Too many payment attempts from this account or IP
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/sessions',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(createCheckoutSessionSchema),
+  checkoutController.createSession
+);
+
+/**
+ * @swagger
+ * /api/checkout/sessions/{id}:
+ *   get:
+ *     summary: Get a checkout session
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checkout session details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Checkout session not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/sessions/:id',
+  authenticate,
+  validateRequest(getCheckoutSessionSchema),
+  checkoutController.getSession
+);
+
+/**
+ * @swagger
+ * /api/checkout/sessions/{id}/capture:
+ *   post:
+ *     summary: Capture the payment for a checkout session
+ *     description: |
+ *       Captures the gateway intent, completes the payment and enrolls the user.
+ *       With the mock gateway, payment_token values mock_card_declined, mock_insufficient_funds,
+ *       mock_expired_card and mock_processing_error simulate failures.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payment_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment captured and enrollment created
+ *       400:
+ *         description: Session is not open, has expired or its payment is held for review
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Payment was declined by the gateway
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Checkout session not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/sessions/:id/capture',
+  authenticate,
+  validateRequest(captureCheckoutSessionSchema),
+  checkoutController.captureSession
+);
+
+/**
+ * @swagger
+ * /api/checkout/sessions/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open checkout session
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checkout session canceled
+ *       400:
+ *         description: Session is not open
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Checkout session not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/sessions/:id/cancel',
+  authenticate,
+  validateRequest(cancelCheckoutSessionSchema),
+  checkoutController.cancelSession
+);
+
+/**
+ * @swagger
+ * /api/checkout/sessions/{id}/retry:
+ *   post:
+ *     summary: Retry a failed or expired checkout session
+ *     description: Opens a new session for what the old one was buying, priced as of now, with the same coupon, gift details and billing location. A session can only be retried once; retrying it again returns the retry while it is open.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *                 description: Defaults to the method of the failed session
+ *     responses:
+ *       201:
+ *         description: New checkout session; its payment is `held` when fraud screening flags it
+ *       400:
+ *         description: Session did not fail or expire, its payment went through, or the course is no longer available
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Checkout session not found
+ *       409:
+ *         description: Session was already retried; retry the latest session instead
+ *       429:
+ *         description: Too many payment attempts from this account or IP
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/sessions/:id/retry',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(retryCheckoutSessionSchema),
+  checkoutController.retrySession
+);
+
+/**
+ * @swagger
+ * /api/checkout/stale:
+ *   post:
+ *     summary: Expire stale checkouts (admin only)
+ *     description: |
+ *       Expires open sessions past their expiry and fails payments pending for longer than
+ *       PENDING_PAYMENT_TIMEOUT_MINUTES, then records the checkouts that were abandoned.
+ *       Also runs in the background every CHECKOUT_SWEEP_INTERVAL_MINUTES.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 default: 100
+ *     responses:
+ *       200:
+ *         description: Counts of expired sessions, expired payments and newly abandoned checkouts
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/stale',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(processStaleCheckoutsSchema),
+  checkoutController.processStaleCheckouts
+);
+
+/**
+ * @swagger
+ * /api/checkout/abandoned:
+ *   get:
+ *     summary: List abandoned checkouts (admin only)
+ *     description: Checkouts that expired, or failed and were not retried, with the buyer and what they were buying. Use reminder_due=true to get those to send a reminder for.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: recovered
+ *         schema:
+ *           type: boolean
+ *         description: Only checkouts the buyer did or did not complete later
+ *       - in: query
+ *         name: reminder_due
+ *         schema:
+ *           type: boolean
+ *         description: Only checkouts not recovered or reminded yet, abandoned more than ABANDONED_CHECKOUT_REMINDER_DELAY_HOURS ago
+ *     responses:
+ *       200:
+ *         description: Abandoned checkouts, most recent first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/abandoned',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getAbandonedCheckoutsSchema),
+  checkoutController.getAbandonedCheckouts
+);
+
+/**
+ * @swagger
+ * /api/checkout/abandoned/{id}/reminded:
+ *   post:
+ *     summary: Record that a reminder was sent for an abandoned checkout (admin only)
+ *     description: Called by whatever sends the reminders, so each checkout is reminded once.
+ *     tags: [Checkout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reminder recorded
+ *       400:
+ *         description: Checkout was already recovered
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Abandoned checkout not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/abandoned/:id/reminded',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(markCheckoutRemindedSchema),
+  checkoutController.markReminded
+);
+
+export default router;
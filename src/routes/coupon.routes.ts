@@ -0,0 +1,288 @@
+import express from 'express';
+import couponController from '../controllers/coupon.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createCouponSchema,
+  updateCouponSchema,
+  getCouponSchema,
+  deleteCouponSchema,
+  getCouponsSchema,
+  validateCouponSchema,
+} from '../validators/coupon.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Coupons
+ *   description: Discount codes applied at checkout
+ */
+
+/**
+ * @swagger
+ * /api/coupons/validate:
+ *   post:
+ *     summary: Check a coupon code against a course
+ *     description: Returns the discount and final amount without redeeming the coupon.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - course_id
+ *             properties:
+ *               code:
+ *                 type: string
+ *               course_id:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Coupon applies; returns list price, discount and amount
+ *       400:
+ *         description: Coupon is invalid, expired, used up or out of scope
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/validate',
+  authenticate,
+  validateRequest(validateCouponSchema),
+  couponController.validateCoupon
+);
+
+/**
+ * @swagger
+ * /api/coupons:
+ *   post:
+ *     summary: Create a coupon (instructor or admin)
+ *     description: |
+ *       Instructors can create coupons scoped to one of their courses or to all of their courses
+ *       (scope `instructor`). Site-wide (`all`) and `category` coupons are admin only.
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discount_type
+ *               - discount_value
+ *             properties:
+ *               code:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               discount_type:
+ *                 type: string
+ *                 enum: [percent, fixed]
+ *               discount_value:
+ *                 type: number
+ *               scope:
+ *                 type: string
+ *                 enum: [all, course, category, instructor]
+ *                 default: all
+ *               scope_id:
+ *                 type: string
+ *                 description: Course, category or instructor ID, depending on scope
+ *               max_redemptions:
+ *                 type: integer
+ *               max_redemptions_per_user:
+ *                 type: integer
+ *                 default: 1
+ *               starts_at:
+ *                 type: string
+ *                 format: date-time
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Coupon created
+ *       400:
+ *         description: Invalid input or code already exists
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized for this scope
+ *       404:
+ *         description: Scope target not found
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List coupons (instructors see their own)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [all, course, category, instructor]
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of coupons
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(createCouponSchema),
+  couponController.createCoupon
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getCouponsSchema),
+  couponController.getCoupons
+);
+
+/**
+ * @swagger
+ * /api/coupons/{id}:
+ *   get:
+ *     summary: Get a coupon
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Coupon not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a coupon
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Coupon updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Coupon not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete an unused coupon
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deleted
+ *       400:
+ *         description: Coupon has been redeemed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Coupon not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getCouponSchema),
+  couponController.getCouponById
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(updateCouponSchema),
+  couponController.updateCoupon
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(deleteCouponSchema),
+  couponController.deleteCoupon
+);
+
+export default router;
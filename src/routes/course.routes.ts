@@ -1,6 +1,6 @@
 import express from "express";
 import courseController from "../controllers/course.controller";
-import { authenticate } from "../middleware/auth.middleware";
+import { authenticate, optionalAuthenticate } from "../middleware/auth.middleware";
 import { authorize } from "../middleware/role.middleware";
 import { Role } from "../models/user-role.model";
 import { validateRequest } from "../middleware/validation.middleware";
@@ -15,6 +15,11 @@ import {
   searchCoursesSchema,
   getCoursesSchema,
   getRecommendedCoursesSchema,
+  setCoursePriceSchema,
+  deleteCoursePriceSchema,
+  setRegionalPricesSchema,
+  deleteRegionalPriceSchema,
+  getPriceHistorySchema,
 } from '../validators/course.validator';
 
 const router = express.Router();
@@ -80,6 +85,11 @@ router.post(
  * /api/courses:
  *   get:
  *     summary: Get all courses
+ *     description: |
+ *       Each course has a `localized_price`: its regional price for the country the request
+ *       comes from (or the signed-in user's profile country), else its base price. While a sale
+ *       runs on the course, `amount` is the sale price, `original_amount` the price without it
+ *       and `sale` gives the discount and when it ends (`ends_at`).
  *     tags: [Courses]
  *     parameters:
  *       - in: query
@@ -113,7 +123,12 @@ router.post(
  *       500:
  *         description: Server error
  */
-router.get('/', validateRequest(getCoursesSchema), courseController.getCourses);
+router.get(
+  '/',
+  optionalAuthenticate,
+  validateRequest(getCoursesSchema),
+  courseController.getCourses
+);
 
 // Get all courses for moderation (admin only)
 /**
@@ -162,6 +177,7 @@ router.get(
  * /api/courses/search:
  *   get:
  *     summary: Search courses by keyword
+ *     description: Each result has a `localized_price` for the buyer's country, as in GET /api/courses.
  *     tags: [Courses]
  *     parameters:
  *       - in: query
@@ -203,7 +219,12 @@ router.get(
  *       500:
  *         description: Server error
  */
-router.get('/search', validateRequest(searchCoursesSchema), courseController.searchCourses);
+router.get(
+  '/search',
+  optionalAuthenticate,
+  validateRequest(searchCoursesSchema),
+  courseController.searchCourses
+);
 
 // Get recommended courses for a user
 /**
@@ -211,6 +232,7 @@ router.get('/search', validateRequest(searchCoursesSchema), courseController.sea
  * /api/courses/recommended:
  *   get:
  *     summary: Get recommended courses for a user
+ *     description: Each course has a `localized_price` for the buyer's country, as in GET /api/courses.
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []
@@ -246,6 +268,7 @@ router.get(
  * /api/courses/instructor/{instructorId}:
  *   get:
  *     summary: Get courses by instructor ID
+ *     description: Each course has a `localized_price` for the buyer's country, as in GET /api/courses.
  *     tags: [Courses]
  *     parameters:
  *       - in: path
@@ -284,6 +307,7 @@ router.get(
  */
 router.get(
   '/instructor/:instructorId',
+  optionalAuthenticate,
   validateRequest(getCoursesByInstructorSchema),
   courseController.getCoursesByInstructorId
 );
@@ -294,6 +318,7 @@ router.get(
  * /api/courses/{id}:
  *   get:
  *     summary: Get a course by ID
+ *     description: The course has a `localized_price` for the buyer's country, as in GET /api/courses.
  *     tags: [Courses]
  *     parameters:
  *       - in: path
@@ -310,7 +335,12 @@ router.get(
  *       500:
  *         description: Server error
  */
-router.get('/:id', validateRequest(getCourseSchema), courseController.getCourseById);
+router.get(
+  '/:id',
+  optionalAuthenticate,
+  validateRequest(getCourseSchema),
+  courseController.getCourseById
+);
 
 // Update a course (instructor only)
 /**
@@ -435,6 +465,286 @@ router.get(
   courseController.getCourseCategories
 );
 
+// Get per-currency prices for a course
+/**
+ * @swagger
+ * /api/courses/{id}/prices:
+ *   get:
+ *     summary: Get per-currency prices for a course
+ *     description: |
+ *       Returns the base price and any explicit prices in other currencies. Currencies without
+ *       an explicit price are charged at the base price converted at the current rate.
+ *     tags: [Courses]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *     responses:
+ *       200:
+ *         description: Course prices
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/prices', validateRequest(getCourseSchema), courseController.getCoursePrices);
+
+// Set or remove a course price in another currency (owner instructor or admin)
+/**
+ * @swagger
+ * /api/courses/{id}/prices/{currency}:
+ *   put:
+ *     summary: Set the price of a course in another currency (instructor or admin)
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Currency code, e.g. EUR
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *             required:
+ *               - amount
+ *     responses:
+ *       200:
+ *         description: Course price updated
+ *       400:
+ *         description: Base or unsupported currency
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Remove the price of a course in another currency (instructor or admin)
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *       - in: path
+ *         name: currency
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Currency code
+ *     responses:
+ *       200:
+ *         description: Course price deleted
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course or price not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/:id/prices/:currency',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(setCoursePriceSchema),
+  courseController.setCoursePrice
+);
+
+router.delete(
+  '/:id/prices/:currency',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(deleteCoursePriceSchema),
+  courseController.deleteCoursePrice
+);
+
+// Get regional prices for a course
+/**
+ * @swagger
+ * /api/courses/{id}/regional-prices:
+ *   get:
+ *     summary: Get regional prices for a course
+ *     description: |
+ *       Returns the base price and the prices for buyers in particular countries. Buyers in
+ *       other countries pay the base price (or the course's explicit price in their currency).
+ *     tags: [Courses]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *     responses:
+ *       200:
+ *         description: Regional prices
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Set the price of a course for buyers in one or more countries (instructor or admin)
+ *     description: |
+ *       Sets one price tier: every listed country gets the same price, replacing any price it
+ *       had. The buyer's country comes from the request's country header, or from their
+ *       profile when the header is missing.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               countries:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Two-letter country codes, e.g. IN
+ *               currency:
+ *                 type: string
+ *                 description: Currency of the price, defaults to the base currency
+ *               amount:
+ *                 type: number
+ *             required:
+ *               - countries
+ *               - amount
+ *     responses:
+ *       200:
+ *         description: Regional prices updated
+ *       400:
+ *         description: Invalid input or unsupported currency
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/regional-prices',
+  validateRequest(getCourseSchema),
+  courseController.getRegionalPrices
+);
+
+router.put(
+  '/:id/regional-prices',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(setRegionalPricesSchema),
+  courseController.setRegionalPrices
+);
+
+// Remove a regional price (owner instructor or admin)
+/**
+ * @swagger
+ * /api/courses/{id}/regional-prices/{country}:
+ *   delete:
+ *     summary: Remove the price of a course for a country (instructor or admin)
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *       - in: path
+ *         name: country
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Two-letter country code
+ *     responses:
+ *       200:
+ *         description: Regional price deleted
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course or regional price not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id/regional-prices/:country',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(deleteRegionalPriceSchema),
+  courseController.deleteRegionalPrice
+);
+
+// Get price history for a course
+/**
+ * @swagger
+ * /api/courses/{id}/price-history:
+ *   get:
+ *     summary: Get the price changes of a course
+ *     description: |
+ *       Base price changes and the sales that started and ended on the course, latest first.
+ *       Sale entries carry the sale and its discount_percent.
+ *     tags: [Courses]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Price history
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/price-history',
+  validateRequest(getPriceHistorySchema),
+  courseController.getPriceHistory
+);
+
 // Approve a course (admin only)
 /**
  * @swagger
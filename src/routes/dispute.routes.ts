@@ -0,0 +1,306 @@
+import express from 'express';
+import disputeController from '../controllers/dispute.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  openDisputeSchema,
+  getDisputesSchema,
+  getDisputeSchema,
+  addEvidenceSchema,
+  resolveDisputeSchema,
+} from '../validators/dispute.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Disputes
+ *   description: Payment disputes (chargebacks), their evidence and outcome
+ */
+
+/**
+ * @swagger
+ * /api/disputes:
+ *   post:
+ *     summary: Open a dispute on a payment (admin only)
+ *     description: Disputes reported by the payment provider are opened by its webhook; this records one the provider told us about some other way. The payment cannot be refunded while the dispute is open.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payment_id
+ *               - reason
+ *             properties:
+ *               payment_id:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: fraudulent
+ *               amount:
+ *                 type: number
+ *                 description: Disputed amount in the payment's currency. Defaults to what has not been refunded.
+ *               evidence_due_by:
+ *                 type: string
+ *                 format: date-time
+ *               provider_dispute_id:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Dispute opened
+ *       400:
+ *         description: Payment is not completed, or invalid amount
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: Payment already has an open dispute
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List disputes (admin only)
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [opened, evidence_submitted, won, lost]
+ *       - in: query
+ *         name: payment_id
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Disputes with their payment and buyer
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(openDisputeSchema),
+  disputeController.openDispute
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getDisputesSchema),
+  disputeController.getDisputes
+);
+
+/**
+ * @swagger
+ * /api/disputes/{id}:
+ *   get:
+ *     summary: Get a dispute with its payment and evidence (admin only)
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dispute
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Dispute not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getDisputeSchema),
+  disputeController.getDispute
+);
+
+/**
+ * @swagger
+ * /api/disputes/{id}/evidence:
+ *   post:
+ *     summary: Attach evidence to a dispute (admin only)
+ *     description: |
+ *       Evidence can be added until it is submitted.
+ *       - `lesson_completions` captures the lessons the learner completed in the courses the payment bought, with their progress and enrollment date (for a gift, the learner is whoever redeemed it)
+ *       - `document` links a document such as a receipt or correspondence (`url` required)
+ *       - `note` is a free-text statement (`description` required)
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [lesson_completions, document, note]
+ *               description:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *     responses:
+ *       201:
+ *         description: Evidence added
+ *       400:
+ *         description: Validation error, or evidence was already submitted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Dispute not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/evidence',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(addEvidenceSchema),
+  disputeController.addEvidence
+);
+
+/**
+ * @swagger
+ * /api/disputes/{id}/submit:
+ *   post:
+ *     summary: Mark the evidence as submitted to the provider (admin only)
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Evidence submitted
+ *       400:
+ *         description: Dispute has no evidence or is not open
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Dispute not found
+ *       409:
+ *         description: Dispute was changed by another request
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/submit',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getDisputeSchema),
+  disputeController.submitEvidence
+);
+
+/**
+ * @swagger
+ * /api/disputes/{id}/resolve:
+ *   post:
+ *     summary: Record the outcome of a dispute (admin only)
+ *     description: Normally set by the provider's webhook. A lost dispute charges the payment back - the disputed amount is taken out of the instructors' earnings and the enrollments the payment paid for are suspended until an admin reinstates them.
+ *     tags: [Disputes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [won, lost]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Dispute resolved
+ *       400:
+ *         description: Dispute is already resolved
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Dispute not found
+ *       409:
+ *         description: Payment status cannot change to chargeback
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/resolve',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(resolveDisputeSchema),
+  disputeController.resolveDispute
+);
+
+export default router;
@@ -0,0 +1,245 @@
+import express from 'express';
+import earningsController from '../controllers/earnings.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  getEarningsSummarySchema,
+  getEarningsStatementSchema,
+  getInstructorPayoutsSchema,
+  getRevenueShareRulesSchema,
+  setRevenueShareRuleSchema,
+} from '../validators/earnings.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Earnings
+ *   description: Instructor earnings ledger, statements and revenue share
+ */
+
+/**
+ * @swagger
+ * /api/earnings/summary:
+ *   get:
+ *     summary: Get an instructor's earnings summary
+ *     description: |
+ *       Gross sales, refunds, platform fees, net earnings, amounts paid out or in transit and
+ *       the balance still owed, all in the base currency. Admins can pass `instructor_id`.
+ *     tags: [Earnings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *         description: Instructor ID (admin only)
+ *     responses:
+ *       200:
+ *         description: Earnings summary
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/summary',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getEarningsSummarySchema),
+  earningsController.getSummary
+);
+
+/**
+ * @swagger
+ * /api/earnings/statement:
+ *   get:
+ *     summary: Get an instructor's earnings statement
+ *     description: |
+ *       Sales, refunds and payouts on the instructor's balance between two dates, with opening
+ *       and closing balances. Admins can pass `instructor_id`.
+ *     tags: [Earnings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *         description: Instructor ID (admin only)
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Earnings statement
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/statement',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getEarningsStatementSchema),
+  earningsController.getStatement
+);
+
+/**
+ * @swagger
+ * /api/earnings/payouts:
+ *   get:
+ *     summary: Get payouts made to an instructor
+ *     tags: [Earnings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *         description: Instructor ID (admin only)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, paid, failed, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Payouts, newest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/payouts',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getInstructorPayoutsSchema),
+  earningsController.getPayouts
+);
+
+/**
+ * @swagger
+ * /api/earnings/revenue-share:
+ *   get:
+ *     summary: List revenue-share rules (admin only)
+ *     tags: [Earnings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revenue-share rules
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Set a revenue-share rule (admin only)
+ *     description: |
+ *       Sets the instructor's share of each sale from `effective_from` (default today). Without
+ *       `instructor_id` the rule is the platform default for instructors with no rule of their
+ *       own. A rule already starting on the same day is replaced.
+ *     tags: [Earnings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - instructor_share_percent
+ *             properties:
+ *               instructor_id:
+ *                 type: string
+ *               instructor_share_percent:
+ *                 type: number
+ *                 example: 70
+ *               effective_from:
+ *                 type: string
+ *                 format: date
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Rule saved
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Instructor not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/revenue-share',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getRevenueShareRulesSchema),
+  earningsController.getRevenueShareRules
+);
+
+router.post(
+  '/revenue-share',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(setRevenueShareRuleSchema),
+  earningsController.setRevenueShareRule
+);
+
+export default router;
@@ -0,0 +1,263 @@
+import express from 'express';
+import enrollmentCodeController from '../controllers/enrollment-code.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  purchaseGiftSchema,
+  createCodeBatchSchema,
+  getCodeBatchesSchema,
+  getCodeBatchSchema,
+} from '../validators/enrollment-code.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: EnrollmentCodes
+ *   description: Gift purchases and admin-generated code batches, redeemed through /api/enrollments/redeem
+ */
+
+/**
+ * @swagger
+ * /api/enrollment-codes/gifts:
+ *   post:
+ *     summary: Buy a course as a gift
+ *     description: Opens a checkout session for the buyer. Capture it through the checkout session endpoints; the gift code becomes redeemable once the payment completes and is shown on the session and in the buyer's gift list. The buyer is not enrolled.
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - course_id
+ *               - payment_method
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               coupon_code:
+ *                 type: string
+ *               billing_country:
+ *                 type: string
+ *                 example: DE
+ *                 description: ISO country code used to look up the tax rate
+ *               billing_region:
+ *                 type: string
+ *               recipient_email:
+ *                 type: string
+ *                 format: email
+ *               message:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Checkout session created; its payment is `held` when fraud screening flags it, and cannot be captured until approved
+ *       400:
+ *         description: Course unavailable or invalid coupon
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course not found
+ *       429:
+ *         description: Too many payment attempts from this account or IP
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List gifts bought by the current user
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Gift codes with their status and who redeemed them
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/gifts',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  validateRequest(purchaseGiftSchema),
+  enrollmentCodeController.purchaseGift
+);
+
+router.get(
+  '/gifts',
+  authenticate,
+  authorize([Role.STUDENT, Role.INSTRUCTOR]),
+  enrollmentCodeController.getPurchasedGifts
+);
+
+/**
+ * @swagger
+ * /api/enrollment-codes/batches:
+ *   post:
+ *     summary: Generate a batch of codes for a course (admin only)
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - course_id
+ *               - name
+ *               - quantity
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *                 example: Spring conference 2025
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Batch created with its codes
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List code batches (admin only)
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: course_id
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of batches
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/batches',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(createCodeBatchSchema),
+  enrollmentCodeController.createBatch
+);
+
+router.get(
+  '/batches',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getCodeBatchesSchema),
+  enrollmentCodeController.getBatches
+);
+
+/**
+ * @swagger
+ * /api/enrollment-codes/batches/{id}:
+ *   get:
+ *     summary: Get a code batch with its codes and redemptions (admin only)
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Batch with codes and counts of redeemed, available and revoked codes
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Batch not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/batches/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getCodeBatchSchema),
+  enrollmentCodeController.getBatch
+);
+
+/**
+ * @swagger
+ * /api/enrollment-codes/batches/{id}/revoke:
+ *   post:
+ *     summary: Revoke the unused codes of a batch (admin only)
+ *     description: Codes already redeemed keep their enrollment.
+ *     tags: [EnrollmentCodes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Unused codes revoked
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Batch not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/batches/:id/revoke',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getCodeBatchSchema),
+  enrollmentCodeController.revokeBatch
+);
+
+export default router;
@@ -6,6 +6,8 @@ import { Role } from "../models/user-role.model";
 import { validateRequest } from "../middleware/validation.middleware";
 import {
   createEnrollmentSchema,
+  redeemEnrollmentCodeSchema,
+  compEnrollmentSchema,
   getEnrollmentSchema,
   checkEnrollmentSchema,
   getUserEnrollmentsSchema,
@@ -28,7 +30,8 @@ const router = express.Router();
  * @swagger
  * /api/enrollments:
  *   post:
- *     summary: Create a new enrollment
+ *     summary: Enroll in a course
+ *     description: Free courses can be joined directly. Paid courses need a completed payment for the course or a current subscription; otherwise buy the course first.
  *     tags: [Enrollments]
  *     security:
  *       - bearerAuth: []
@@ -47,9 +50,11 @@ const router = express.Router();
  *       201:
  *         description: Enrollment created successfully
  *       400:
- *         description: Invalid input or user already enrolled
+ *         description: Invalid input, course not available or user already enrolled
  *       401:
  *         description: Not authenticated
+ *       402:
+ *         description: The course must be purchased first
  *       404:
  *         description: Course not found
  *       500:
@@ -63,6 +68,135 @@ router.post(
   enrollmentController.createEnrollment
 );
 
+/**
+ * @swagger
+ * /api/enrollments/redeem:
+ *   post:
+ *     summary: Redeem a gift or event code
+ *     description: Enrolls the current user in the code's course. A code can be redeemed once, before it expires.
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: ABCD-EFGH-JKMN
+ *     responses:
+ *       201:
+ *         description: Code redeemed and enrollment created
+ *       400:
+ *         description: Code expired, revoked, unpaid or already redeemed, or user already enrolled
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Invalid code
+ *       409:
+ *         description: Code was redeemed by someone else at the same time
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/redeem",
+  authenticate,
+  authorize([Role.STUDENT]),
+  validateRequest(redeemEnrollmentCodeSchema),
+  enrollmentController.redeemCode
+);
+
+/**
+ * @swagger
+ * /api/enrollments/comp:
+ *   post:
+ *     summary: Grant a free enrollment (admin only)
+ *     description: Enrolls a user in any course without payment. The admin and the reason are recorded on the enrollment.
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - user_id
+ *               - course_id
+ *               - reason
+ *             properties:
+ *               user_id:
+ *                 type: string
+ *               course_id:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: Conference speaker
+ *     responses:
+ *       201:
+ *         description: Enrollment created
+ *       400:
+ *         description: Invalid input or user already enrolled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: User or course not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/comp",
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(compEnrollmentSchema),
+  enrollmentController.compEnrollment
+);
+
+/**
+ * @swagger
+ * /api/enrollments/{id}/reinstate:
+ *   post:
+ *     summary: Lift the suspension of an enrollment (admin only)
+ *     description: Enrollments are suspended when the payment that bought them is charged back after a lost dispute. Reinstating gives the student access again.
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Enrollment reinstated
+ *       400:
+ *         description: Enrollment is not suspended
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Enrollment not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:id/reinstate",
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getEnrollmentSchema),
+  enrollmentController.reinstateEnrollment
+);
+
 /**
  * @swagger
  * /api/enrollments/check:
@@ -303,7 +437,7 @@ router.get(
  * @swagger
  * /api/enrollments/revenue/{courseId}:
  *   get:
- *     summary: Calculate the total revenue generated by a course
+ *     summary: Calculate the revenue generated by a course
  *     tags: [Enrollments]
  *     security:
  *       - bearerAuth: []
@@ -315,7 +449,7 @@ router.get(
  *           type: string
  *     responses:
  *       200:
- *         description: Course revenue
+ *         description: Course revenue in the base currency (gross, refunded, charged back and net), including its share of bundle and cart payments
  *       401:
  *         description: Not authenticated
  *       403:
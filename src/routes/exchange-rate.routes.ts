@@ -0,0 +1,173 @@
+import express from 'express';
+import exchangeRateController from '../controllers/exchange-rate.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  setExchangeRateSchema,
+  getExchangeRatesSchema,
+  deleteExchangeRateSchema,
+} from '../validators/exchange-rate.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Exchange Rates
+ *   description: Rates used to price courses and report revenue in other currencies
+ */
+
+/**
+ * @swagger
+ * /api/exchange-rates/currencies:
+ *   get:
+ *     summary: List supported currencies
+ *     description: The base currency plus every currency that has an exchange rate.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Base currency and supported currencies
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get('/currencies', authenticate, exchangeRateController.getCurrencies);
+
+/**
+ * @swagger
+ * /api/exchange-rates:
+ *   get:
+ *     summary: List exchange rate history (admin only)
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Exchange rates, newest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Set the exchange rate for a currency (admin only)
+ *     description: |
+ *       The rate is units of the currency per one unit of the base currency and applies from
+ *       `effective_date` (default today) until the next rate. Setting a rate for a day that
+ *       already has one replaces it.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currency
+ *               - rate
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 example: EUR
+ *               rate:
+ *                 type: number
+ *                 example: 0.92
+ *               effective_date:
+ *                 type: string
+ *                 format: date
+ *               source:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Exchange rate saved
+ *       400:
+ *         description: Invalid input or base currency
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getExchangeRatesSchema),
+  exchangeRateController.getRates
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(setExchangeRateSchema),
+  exchangeRateController.setRate
+);
+
+/**
+ * @swagger
+ * /api/exchange-rates/{id}:
+ *   delete:
+ *     summary: Delete an exchange rate entry (admin only)
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Exchange rate not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(deleteExchangeRateSchema),
+  exchangeRateController.deleteRate
+);
+
+export default router;
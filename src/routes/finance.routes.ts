@@ -0,0 +1,281 @@
+import express from 'express';
+import financeController from '../controllers/finance.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { csvUpload } from '../middleware/upload.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  importSettlementSchema,
+  getReconciliationsSchema,
+  getReconciliationSchema,
+  exportPaymentsSchema,
+  exportRefundsSchema,
+} from '../validators/finance.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Finance
+ *   description: Reconciliation against provider settlement files and CSV exports for finance
+ */
+
+/**
+ * @swagger
+ * /api/finance/reconciliations:
+ *   post:
+ *     summary: Reconcile a provider settlement file (admin only)
+ *     description: The file is a CSV with a header row and at least `transaction_id` and `amount` columns; `currency` is compared when present and other columns are ignored. Refunds may have negative amounts. Rows are matched on `transaction_id` against our payments and refunds. Rows that are none of ours are orphans, rows whose amount or currency differs are mismatches, and payments or completed refunds of the period that are not in the file are missing. The whole file is rejected if a row is invalid.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - period_start
+ *               - period_end
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Settlement CSV file (max 10MB)
+ *               period_start:
+ *                 type: string
+ *                 format: date
+ *                 description: First day the settlement covers
+ *               period_end:
+ *                 type: string
+ *                 format: date
+ *                 description: Last day the settlement covers
+ *               payment_method:
+ *                 type: string
+ *                 description: Only look for missing transactions of this payment method (the provider that sent the file)
+ *     responses:
+ *       201:
+ *         description: Reconciliation run with its matched, missing, mismatched (amount or status) and orphan counts
+ *       400:
+ *         description: Missing or invalid file or period
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List reconciliation runs (admin only)
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: payment_method
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reconciliation runs, newest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/reconciliations',
+  authenticate,
+  authorize([Role.ADMIN]),
+  csvUpload.single('file'),
+  validateRequest(importSettlementSchema),
+  financeController.importSettlement
+);
+
+router.get(
+  '/reconciliations',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getReconciliationsSchema),
+  financeController.getReconciliations
+);
+
+/**
+ * @swagger
+ * /api/finance/reconciliations/{id}:
+ *   get:
+ *     summary: Get a reconciliation run with the transactions that did not match (admin only)
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: issue
+ *         schema:
+ *           type: string
+ *           enum: [missing, amount_mismatch, status_mismatch, orphan]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: The run and a page of its items, in file order with missing transactions last
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reconciliation run not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/reconciliations/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getReconciliationSchema),
+  financeController.getReconciliation
+);
+
+/**
+ * @swagger
+ * /api/finance/exports/payments:
+ *   get:
+ *     summary: Download payments as CSV (admin only)
+ *     description: Streamed oldest first, so large ranges do not have to fit in memory. Amounts are in each payment's own currency.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Payments made on or after this day
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Payments made on or before this day
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, refunded, chargeback, held]
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *         description: Only payments for this instructor's courses, including bundles and carts containing one
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/exports/payments',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(exportPaymentsSchema),
+  financeController.exportPayments
+);
+
+/**
+ * @swagger
+ * /api/finance/exports/refunds:
+ *   get:
+ *     summary: Download refunds as CSV (admin only)
+ *     description: Streamed oldest first. Amounts are in the currency of the refunded payment.
+ *     tags: [Finance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Refunds issued on or after this day
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Refunds issued on or before this day
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed]
+ *       - in: query
+ *         name: instructor_id
+ *         schema:
+ *           type: string
+ *         description: Only refunds of payments for this instructor's courses
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/exports/refunds',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(exportRefundsSchema),
+  financeController.exportRefunds
+);
+
+export default router;
@@ -0,0 +1,193 @@
+import express from 'express';
+import paymentReviewController from '../controllers/payment-review.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  getPaymentReviewsSchema,
+  getPaymentReviewSchema,
+  reviewPaymentSchema,
+} from '../validators/payment-review.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payment Reviews
+ *   description: Payments held by fraud screening, waiting for an admin to approve or reject them
+ */
+
+/**
+ * @swagger
+ * /api/payment-reviews:
+ *   get:
+ *     summary: List payments held by fraud screening (admin only)
+ *     description: Each review lists the screening rules the payment tripped (country_mismatch, currency_mismatch, new_account_high_amount). Too many attempts per account or IP (user_velocity, ip_velocity) refuse the payment instead of holding it.
+ *     tags: [Payment Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [held, approved, rejected]
+ *         description: Use held for the queue still to be reviewed
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Payment reviews, oldest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getPaymentReviewsSchema),
+  paymentReviewController.getReviews
+);
+
+/**
+ * @swagger
+ * /api/payment-reviews/{id}:
+ *   get:
+ *     summary: Get a held payment with the rules it tripped (admin only)
+ *     tags: [Payment Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payment review
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Payment review not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getPaymentReviewSchema),
+  paymentReviewController.getReview
+);
+
+/**
+ * @swagger
+ * /api/payment-reviews/{id}/approve:
+ *   post:
+ *     summary: Approve a held payment (admin only)
+ *     description: |
+ *       The payment goes back to pending and completes as usual. A held checkout gets a fresh
+ *       CHECKOUT_SESSION_TTL_MINUTES to be captured in.
+ *     tags: [Payment Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment approved
+ *       400:
+ *         description: Payment has already been reviewed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Payment review not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/approve',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(reviewPaymentSchema),
+  paymentReviewController.approve
+);
+
+/**
+ * @swagger
+ * /api/payment-reviews/{id}/reject:
+ *   post:
+ *     summary: Reject a held payment (admin only)
+ *     description: The payment fails and any coupon it used is given back; a held checkout is closed.
+ *     tags: [Payment Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment rejected
+ *       400:
+ *         description: Payment has already been reviewed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Payment review not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/reject',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(reviewPaymentSchema),
+  paymentReviewController.reject
+);
+
+export default router;
@@ -7,15 +7,23 @@ import { validateRequest } from "../middleware/validation.middleware";
 import {
   createPaymentSchema,
   getPaymentSchema,
+  getInvoiceSchema,
   getUserPaymentsSchema,
   getCoursePaymentsSchema,
   updatePaymentStatusSchema,
   processRefundSchema,
+  getRefundEligibilitySchema,
   getRevenueByTimeSchema,
   getRevenueStatisticsSchema,
   getInstructorRevenueSchema,
   getHighestRevenueCoursesSchema,
+  getTotalRevenueSchema,
+  paymentWebhookSchema,
+  getPriceQuoteSchema,
+  processPendingRefundsSchema,
 } from "../validators/payment.validator";
+import { requireWebhookSignature } from "../middleware/webhook.middleware";
+import { idempotent } from "../middleware/idempotency.middleware";
 
 const router = express.Router();
 
@@ -34,6 +42,13 @@ const router = express.Router();
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Retries with the same key replay the original response
  *     requestBody:
  *       required: true
  *       content:
@@ -42,27 +57,43 @@ const router = express.Router();
  *             type: object
  *             required:
  *               - course_id
+ *               - amount
  *               - payment_method
  *             properties:
  *               course_id:
  *                 type: string
  *               amount:
  *                 type: number
+ *                 description: Must match the amount from GET /api/payments/quote
  *               currency:
  *                 type: string
  *                 default: USD
  *               payment_method:
  *                 type: string
  *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               coupon_code:
+ *                 type: string
+ *               billing_country:
+ *                 type: string
+ *                 example: DE
+ *                 description: ISO country code used to look up the tax rate
+ *               billing_region:
+ *                 type: string
  *     responses:
  *       201:
- *         description: Payment created successfully
+ *         description: Payment created successfully. Its status is held when fraud screening stopped it for an admin to review.
  *       400:
- *         description: Invalid input or user already enrolled
+ *         description: Invalid input, amount differs from the quote, invalid coupon or user already enrolled
  *       401:
  *         description: Not authenticated
  *       404:
  *         description: Course not found
+ *       409:
+ *         description: A request with the same Idempotency-Key is still in progress
+ *       422:
+ *         description: Idempotency-Key was already used with a different request
+ *       429:
+ *         description: Too many payment attempts from this account or IP
  *       500:
  *         description: Server error
  */
@@ -71,9 +102,168 @@ router.post(
   authenticate,
   authorize([Role.STUDENT, Role.INSTRUCTOR]),
   validateRequest(createPaymentSchema),
+  idempotent(),
   paymentController.createPayment
 );
 
+/**
+ * @swagger
+ * /api/payments/quote:
+ *   get:
+ *     summary: Get the server-computed price of a course
+ *     description: |
+ *       The amount sent to POST /api/payments must match the quoted amount. The list price is
+ *       the course's regional price for the country the request comes from (or the user's
+ *       profile country) when it has one, else its base price.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: course_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Defaults to the regional price's currency, else the base currency
+ *       - in: query
+ *         name: coupon_code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: billing_country
+ *         schema:
+ *           type: string
+ *           example: DE
+ *         description: ISO country code used to look up the tax rate
+ *       - in: query
+ *         name: billing_region
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List price, the running sale and coupon adjustments and the amount to pay, with the tax breakdown
+ *       400:
+ *         description: Course unavailable, unsupported currency or invalid coupon
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/quote',
+  authenticate,
+  validateRequest(getPriceQuoteSchema),
+  paymentController.getPriceQuote
+);
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Receive payment provider webhooks
+ *     description: |
+ *       Called by payment providers, not by users. The request must carry an
+ *       X-Webhook-Signature header of the form `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ *       computed over `<t>.<raw body>` with the provider's webhook secret.
+ *       Every event is stored; replays of an already processed event are acknowledged
+ *       without being applied again.
+ *     tags: [Payments]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: mock
+ *       - in: header
+ *         name: X-Webhook-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - id
+ *               - type
+ *             properties:
+ *               id:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [payment_intent.succeeded, payment_intent.failed, payment_intent.canceled, refund.succeeded, refund.failed]
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Event accepted (processed, ignored or duplicate)
+ *       400:
+ *         description: Malformed payload
+ *       401:
+ *         description: Missing or invalid signature
+ *       404:
+ *         description: Unknown provider
+ *       500:
+ *         description: Processing failed; the provider should retry
+ */
+router.post(
+  '/webhooks/:provider',
+  validateRequest(paymentWebhookSchema),
+  requireWebhookSignature,
+  paymentController.handleWebhook
+);
+
+/**
+ * @swagger
+ * /api/payments/refunds/pending:
+ *   post:
+ *     summary: Complete refunds that were paid out but not posted (admin only)
+ *     description: |
+ *       Completes pending refunds the provider has already paid out (they have its
+ *       transaction ID), e.g. when posting them failed after the provider call: they are
+ *       posted to the ledger, get their credit note, and a fully refunded payment moves to
+ *       refunded. Also runs in the background every REFUND_SWEEP_INTERVAL_MINUTES.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 default: 100
+ *     responses:
+ *       200:
+ *         description: Count of completed refunds
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/refunds/pending',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(processPendingRefundsSchema),
+  paymentController.processPendingRefunds
+);
+
 /**
  * @swagger
  * /api/payments/revenue/highest:
@@ -106,9 +296,15 @@ router.post(
  *           type: string
  *           format: date
  *         description: End date for filtering
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to report in (defaults to the base currency)
  *     responses:
  *       200:
- *         description: List of highest revenue courses
+ *         description: Courses ranked by net revenue, with their gross, refunded and charged back amounts
  *       500:
  *         description: Server error
  */
@@ -126,9 +322,22 @@ router.get(
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to report in (defaults to the base currency)
+ *       - in: query
+ *         name: net_of_tax
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Leave the tax collected out of the revenue
  *     responses:
  *       200:
- *         description: Total revenue
+ *         description: Gross revenue, the amounts refunded and charged back, and the net revenue left
  *       401:
  *         description: Not authenticated
  *       403:
@@ -140,6 +349,7 @@ router.get(
   '/revenue/total',
   authenticate,
   authorize([Role.ADMIN]),
+  validateRequest(getTotalRevenueSchema),
   paymentController.getTotalRevenue
 );
 
@@ -173,9 +383,21 @@ router.get(
  *           enum: [day, month, year]
  *           default: day
  *         description: Time period for grouping
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to report in (defaults to the base currency)
+ *       - in: query
+ *         name: net_of_tax
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Leave the tax collected out of the revenue
  *     responses:
  *       200:
- *         description: Revenue by time period
+ *         description: Gross, refunded, charged back and net revenue per period. Refunds and lost disputes count in the period the money was given back.
  *       400:
  *         description: Missing required parameters
  *       401:
@@ -198,7 +420,7 @@ router.get(
  * /api/payments/revenue/statistics:
  *   get:
  *     summary: Get revenue statistics
- *     description: Admin can view overall statistics or for specific instructor. Instructor can only view their own statistics.
+ *     description: Admin can view overall statistics or for specific instructor. Instructor can only view their own statistics. Gross revenue includes payments that were later refunded or charged back; `refunded` and `charged_back` are what was given back in the range (by refund date and by the date the dispute was lost), and `net` is what is left.
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -220,6 +442,18 @@ router.get(
  *         schema:
  *           type: string
  *         description: Instructor ID for filtering (admin only)
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           example: EUR
+ *         description: Currency to report in (defaults to the base currency)
+ *       - in: query
+ *         name: net_of_tax
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Leave the tax collected out of the revenue
  *     responses:
  *       200:
  *         description: Revenue statistics
@@ -265,7 +499,7 @@ router.get(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, completed, failed, refunded]
+ *           enum: [pending, completed, failed, refunded, chargeback, held]
  *         description: Payment status
  *     responses:
  *       200:
@@ -313,7 +547,7 @@ router.get(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, completed, failed, refunded]
+ *           enum: [pending, completed, failed, refunded, chargeback, held]
  *         description: Payment status
  *     responses:
  *       200:
@@ -364,7 +598,7 @@ router.get(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, completed, failed, refunded]
+ *           enum: [pending, completed, failed, refunded, chargeback, held]
  *         description: Payment status
  *       - in: query
  *         name: search
@@ -422,6 +656,96 @@ router.get(
   paymentController.getPaymentById
 );
 
+/**
+ * @swagger
+ * /api/payments/{id}/history:
+ *   get:
+ *     summary: Get the status history of a payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Status transitions, oldest first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payment not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/history',
+  authenticate,
+  validateRequest(getPaymentSchema),
+  paymentController.getPaymentStatusHistory
+);
+
+/**
+ * @swagger
+ * /api/payments/{id}/invoice:
+ *   get:
+ *     summary: Download the invoice of a payment
+ *     description: |
+ *       Only the payer and admins can download it. Pass refund_id to get the credit note of
+ *       one of the payment's refunds instead. Invoices are numbered when the payment completes.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html]
+ *           default: pdf
+ *       - in: query
+ *         name: refund_id
+ *         schema:
+ *           type: string
+ *         description: Get the credit note of this refund
+ *     responses:
+ *       200:
+ *         description: The invoice or credit note
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Payment or refund not completed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payment or refund not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id/invoice',
+  authenticate,
+  validateRequest(getInvoiceSchema),
+  paymentController.getInvoice
+);
+
 /**
  * @swagger
  * /api/payments/{id}/status:
@@ -449,6 +773,9 @@ router.get(
  *                 type: string
  *                 enum: [pending, completed, failed, refunded]
  *                 description: Payment status
+ *               reason:
+ *                 type: string
+ *                 description: Why the status is being changed (kept in the status history)
  *     responses:
  *       200:
  *         description: Payment status updated
@@ -458,6 +785,8 @@ router.get(
  *         description: Not authorized
  *       404:
  *         description: Payment not found
+ *       409:
+ *         description: Status transition not allowed
  *       500:
  *         description: Server error
  */
@@ -470,6 +799,43 @@ router.put(
   paymentController.updatePaymentStatus
 );
 
+/**
+ * @swagger
+ * /api/payments/{id}/refund-eligibility:
+ *   get:
+ *     summary: Check whether a payment can be refunded under the refund policy
+ *     description: |
+ *       Applies the course's refund policies, or the global ones when the course has none,
+ *       against the days since purchase and the student's course progress. The response
+ *       lists the outcome of each rule and the reasons behind the decision.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund eligibility
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payment not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:id/refund-eligibility",
+  authenticate,
+  validateRequest(getRefundEligibilitySchema),
+  paymentController.getRefundEligibility
+);
+
 /**
  * @swagger
  * /api/payments/{id}/refund:
@@ -484,6 +850,12 @@ router.put(
  *         required: true
  *         schema:
  *           type: string
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Retries with the same key replay the original response
  *     requestBody:
  *       required: true
  *       content:
@@ -497,17 +869,24 @@ router.put(
  *                 type: string
  *               amount:
  *                 type: number
+ *               override_policy:
+ *                 type: boolean
+ *                 description: Refund even if the refund policy does not allow it
  *     responses:
  *       200:
  *         description: Refund processed successfully
  *       400:
- *         description: Invalid input
+ *         description: Invalid input, or the payment is not refundable under the refund policy
  *       401:
  *         description: Not authenticated
  *       403:
  *         description: Not authorized
  *       404:
  *         description: Payment not found
+ *       409:
+ *         description: A request with the same Idempotency-Key is still in progress
+ *       422:
+ *         description: Idempotency-Key was already used with a different request
  *       500:
  *         description: Server error
  */
@@ -516,6 +895,7 @@ router.post(
   authenticate,
   authorize([Role.ADMIN]),
   validateRequest(processRefundSchema),
+  idempotent(),
   paymentController.processRefund
 );
 
@@ -0,0 +1,229 @@
+import express from 'express';
+import payoutController from '../controllers/payout.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createPayoutBatchSchema,
+  getPayoutBatchesSchema,
+  payoutBatchIdSchema,
+  updatePayoutStatusSchema,
+} from '../validators/payout.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payouts
+ *   description: Monthly instructor payout batches (admin only)
+ */
+
+/**
+ * @swagger
+ * /api/payouts/batches:
+ *   post:
+ *     summary: Create the payout batch for a month
+ *     description: |
+ *       Creates a pending payout for every instructor owed at least PAYOUT_MINIMUM_AMOUNT for
+ *       sales up to the end of the month. Smaller balances carry over to the next batch.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - period
+ *             properties:
+ *               period:
+ *                 type: string
+ *                 example: 2025-05
+ *     responses:
+ *       201:
+ *         description: Payout batch created
+ *       400:
+ *         description: Month not over yet or nothing to pay out
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       409:
+ *         description: A batch for this month already exists
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List payout batches
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [processing, completed, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Payout batches, newest month first
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/batches',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(createPayoutBatchSchema),
+  payoutController.createBatch
+);
+
+router.get(
+  '/batches',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getPayoutBatchesSchema),
+  payoutController.getBatches
+);
+
+/**
+ * @swagger
+ * /api/payouts/batches/{id}:
+ *   get:
+ *     summary: Get a payout batch with its payouts
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payout batch
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payout batch not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/batches/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(payoutBatchIdSchema),
+  payoutController.getBatchById
+);
+
+/**
+ * @swagger
+ * /api/payouts/batches/{id}/cancel:
+ *   post:
+ *     summary: Cancel a payout batch
+ *     description: Only possible while every payout in the batch is still pending.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payout batch cancelled
+ *       400:
+ *         description: Batch already processed
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payout batch not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/batches/:id/cancel',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(payoutBatchIdSchema),
+  payoutController.cancelBatch
+);
+
+/**
+ * @swagger
+ * /api/payouts/{id}/status:
+ *   patch:
+ *     summary: Record whether a payout was paid or failed
+ *     description: Failed payouts go back to the instructor's balance for the next batch.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [paid, failed]
+ *               reference:
+ *                 type: string
+ *                 description: Bank or provider transfer reference
+ *               failure_reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payout updated
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Payout not found
+ *       409:
+ *         description: Payout is no longer pending
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  '/:id/status',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(updatePayoutStatusSchema),
+  payoutController.updatePayoutStatus
+);
+
+export default router;
@@ -0,0 +1,362 @@
+import express from 'express';
+import referralController from '../controllers/referral.controller';
+import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createReferralLinkSchema,
+  updateReferralLinkSchema,
+  recordClickSchema,
+  getCommissionsSchema,
+  reviewCommissionSchema,
+} from '../validators/referral.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Referrals
+ *   description: Referral links, click tracking and affiliate commissions
+ */
+
+/**
+ * @swagger
+ * /api/referrals/links:
+ *   post:
+ *     summary: Get a referral link
+ *     description: Returns the current user's link for a course, or their general link when no course is given, creating it on first use. Purchases made by visitors within the attribution window (REFERRAL_ATTRIBUTION_DAYS) of following the link earn a commission on the amount paid without tax.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *                 description: Only purchases of this course earn a commission
+ *     responses:
+ *       201:
+ *         description: Referral link
+ *       400:
+ *         description: Course is not available for sale
+ *       401:
+ *         description: Not authenticated
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List the current user's referral links
+ *     description: Each link with its commission rate, clicks, conversions and commissions by status, in the base currency.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Referral links with their stats
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/links',
+  authenticate,
+  validateRequest(createReferralLinkSchema),
+  referralController.createLink
+);
+
+router.get('/links', authenticate, referralController.getLinks);
+
+/**
+ * @swagger
+ * /api/referrals/links/{id}:
+ *   put:
+ *     summary: Update a referral link (admin only)
+ *     description: Sets a commission rate for the link instead of the default one (null goes back to the default), or switches the link off. Commissions already earned are not changed.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               commission_rate:
+ *                 type: number
+ *                 nullable: true
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 example: 15
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Referral link updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Referral link not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  '/links/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(updateReferralLinkSchema),
+  referralController.updateLink
+);
+
+/**
+ * @swagger
+ * /api/referrals/clicks:
+ *   post:
+ *     summary: Record a visit through a referral link
+ *     description: Called when someone opens a referral link. Authentication is optional; only signed-in visitors can be credited with a later purchase.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: K7QM2XPA
+ *     responses:
+ *       201:
+ *         description: Click recorded; returns the link's course, if any
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Referral link not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/clicks',
+  optionalAuthenticate,
+  validateRequest(recordClickSchema),
+  referralController.recordClick
+);
+
+/**
+ * @swagger
+ * /api/referrals/stats:
+ *   get:
+ *     summary: Referral stats of the current user
+ *     description: Clicks and conversions over all the user's links, and the number and sum of their commissions by status (pending, approved, rejected, reversed) in the base currency.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Referral stats
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get('/stats', authenticate, referralController.getStats);
+
+/**
+ * @swagger
+ * /api/referrals/commissions:
+ *   get:
+ *     summary: List commissions earned by the current user
+ *     description: Approved commissions are added to the user's balance and paid with the monthly payouts.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, reversed]
+ *     responses:
+ *       200:
+ *         description: Commissions
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/commissions',
+  authenticate,
+  validateRequest(getCommissionsSchema),
+  referralController.getMyCommissions
+);
+
+/**
+ * @swagger
+ * /api/referrals/admin/commissions:
+ *   get:
+ *     summary: List all commissions (admin only)
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, reversed]
+ *       - in: query
+ *         name: affiliate_id
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Commissions with their affiliate and buyer
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/admin/commissions',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getCommissionsSchema),
+  referralController.getCommissions
+);
+
+/**
+ * @swagger
+ * /api/referrals/admin/commissions/{id}/approve:
+ *   post:
+ *     summary: Approve a pending commission (admin only)
+ *     description: Credits the commission to the affiliate's balance, which the next payout batch pays out. If the payment is refunded later the commission is taken back.
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Commission approved
+ *       400:
+ *         description: Commission is not pending
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Commission not found
+ *       409:
+ *         description: Commission was changed by another request
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/admin/commissions/:id/approve',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(reviewCommissionSchema),
+  referralController.approveCommission
+);
+
+/**
+ * @swagger
+ * /api/referrals/admin/commissions/{id}/reject:
+ *   post:
+ *     summary: Reject a pending commission (admin only)
+ *     tags: [Referrals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Why the commission was rejected
+ *     responses:
+ *       200:
+ *         description: Commission rejected
+ *       400:
+ *         description: Commission is not pending
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Commission not found
+ *       409:
+ *         description: Commission was changed by another request
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/admin/commissions/:id/reject',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(reviewCommissionSchema),
+  referralController.rejectCommission
+);
+
+export default router;
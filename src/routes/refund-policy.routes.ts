@@ -0,0 +1,241 @@
+import express from 'express';
+import refundPolicyController from '../controllers/refund-policy.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createRefundPolicySchema,
+  updateRefundPolicySchema,
+  getRefundPolicySchema,
+  deleteRefundPolicySchema,
+  getRefundPoliciesSchema,
+} from '../validators/refund-policy.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Refund Policies
+ *   description: Rules deciding which payments can be refunded
+ */
+
+/**
+ * @swagger
+ * /api/refund-policies:
+ *   post:
+ *     summary: Create a refund policy (admin only)
+ *     description: |
+ *       A payment meets a policy when it is within all of the policy's limits, e.g. within
+ *       30 days of purchase and at most 30% of the course completed. Policies with a course_id
+ *       replace the global ones (no course_id) for that course. A payment is refundable when it
+ *       meets any applicable policy; with no policies at all, REFUND_WINDOW_DAYS applies.
+ *     tags: [Refund Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *               max_days_since_purchase:
+ *                 type: integer
+ *                 nullable: true
+ *               max_progress_percent:
+ *                 type: number
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Refund policy created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course not found
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List refund policies (admin only)
+ *     tags: [Refund Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: course_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: global
+ *         schema:
+ *           type: boolean
+ *         description: Only policies that apply to all courses
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Refund policies
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(createRefundPolicySchema),
+  refundPolicyController.createPolicy
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getRefundPoliciesSchema),
+  refundPolicyController.getPolicies
+);
+
+/**
+ * @swagger
+ * /api/refund-policies/{id}:
+ *   get:
+ *     summary: Get a refund policy (admin only)
+ *     tags: [Refund Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund policy
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund policy not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a refund policy (admin only)
+ *     tags: [Refund Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               course_id:
+ *                 type: string
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *               max_days_since_purchase:
+ *                 type: integer
+ *                 nullable: true
+ *               max_progress_percent:
+ *                 type: number
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Refund policy updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund policy or course not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a refund policy (admin only)
+ *     tags: [Refund Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund policy deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund policy not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getRefundPolicySchema),
+  refundPolicyController.getPolicyById
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(updateRefundPolicySchema),
+  refundPolicyController.updatePolicy
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(deleteRefundPolicySchema),
+  refundPolicyController.deletePolicy
+);
+
+export default router;
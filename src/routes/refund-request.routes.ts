@@ -0,0 +1,280 @@
+import express from 'express';
+import refundRequestController from '../controllers/refund-request.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
+import {
+  createRefundRequestSchema,
+  getRefundRequestsSchema,
+  refundRequestIdSchema,
+  reviewRefundRequestSchema,
+} from '../validators/refund-request.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Refund Requests
+ *   description: Student refund requests and their review
+ */
+
+/**
+ * @swagger
+ * /api/refund-requests:
+ *   post:
+ *     summary: Request a refund for one of your payments
+ *     description: |
+ *       Without `amount` the whole amount not yet refunded is requested. Only one request per
+ *       payment can be open at a time.
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payment_id
+ *               - reason
+ *             properties:
+ *               payment_id:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Refund request created
+ *       400:
+ *         description: Payment not refundable under the refund policy, or amount too large
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your payment
+ *       404:
+ *         description: Payment not found
+ *       409:
+ *         description: A request for this payment is already open
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List refund requests
+ *     description: |
+ *       Admins see all requests, instructors see requests on their courses and their own,
+ *       students see their own.
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, approved, rejected, processed, cancelled]
+ *       - in: query
+ *         name: payment_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Refund requests, newest first
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  validateRequest(createRefundRequestSchema),
+  idempotent(),
+  refundRequestController.createRequest
+);
+
+router.get(
+  '/',
+  authenticate,
+  validateRequest(getRefundRequestsSchema),
+  refundRequestController.getRequests
+);
+
+/**
+ * @swagger
+ * /api/refund-requests/{id}:
+ *   get:
+ *     summary: Get a refund request
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund request
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund request not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateRequest(refundRequestIdSchema),
+  refundRequestController.getRequestById
+);
+
+/**
+ * @swagger
+ * /api/refund-requests/{id}/cancel:
+ *   post:
+ *     summary: Withdraw your refund request before it is reviewed
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund request cancelled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your request
+ *       404:
+ *         description: Refund request not found
+ *       409:
+ *         description: Request already reviewed
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  validateRequest(refundRequestIdSchema),
+  refundRequestController.cancelRequest
+);
+
+/**
+ * @swagger
+ * /api/refund-requests/{id}/review:
+ *   patch:
+ *     summary: Approve or reject a refund request (course instructor or admin)
+ *     description: |
+ *       Approving refunds the payment straight away, optionally for a smaller `amount` than
+ *       requested. A full refund revokes the student's enrollment and lesson access.
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               reviewer_note:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Refund request reviewed
+ *       400:
+ *         description: Invalid amount
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Refund failed at the payment provider; the request stays approved
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund request not found
+ *       409:
+ *         description: Request already reviewed
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  '/:id/review',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(reviewRefundRequestSchema),
+  refundRequestController.reviewRequest
+);
+
+/**
+ * @swagger
+ * /api/refund-requests/{id}/process:
+ *   post:
+ *     summary: Retry the refund of an approved request (admin only)
+ *     tags: [Refund Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund request processed
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Refund failed at the payment provider
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Refund request not found
+ *       409:
+ *         description: Request is not approved
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/process',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(refundRequestIdSchema),
+  refundRequestController.processRequest
+);
+
+export default router;
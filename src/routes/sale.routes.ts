@@ -0,0 +1,284 @@
+import express from 'express';
+import saleController from '../controllers/sale.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createSaleSchema,
+  updateSaleSchema,
+  getSaleSchema,
+  cancelSaleSchema,
+  getSalesSchema,
+  processSalesSchema,
+} from '../validators/sale.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Sales
+ *   description: Scheduled percentage discounts on course prices
+ */
+
+/**
+ * @swagger
+ * /api/sales/process:
+ *   post:
+ *     summary: Start and end the sales that are due (admin only)
+ *     description: |
+ *       Activates scheduled sales whose window has started and ends those whose window is over,
+ *       recording the price changes in each course's price history. Prices follow the sale
+ *       window either way; this only moves the status along.
+ *       Also runs in the background every SALE_SWEEP_INTERVAL_MINUTES.
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 default: 100
+ *     responses:
+ *       200:
+ *         description: Counts of activated and ended sales
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/process',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(processSalesSchema),
+  saleController.processSales
+);
+
+/**
+ * @swagger
+ * /api/sales:
+ *   post:
+ *     summary: Schedule a sale (instructor or admin)
+ *     description: |
+ *       Takes discount_percent off the price of the courses in scope between starts_at and
+ *       ends_at. Instructors can put one of their courses or all of their courses (scope
+ *       `instructor`) on sale; `category` sales are admin only. When several sales cover a
+ *       course, the biggest discount applies. Coupons are taken off the sale price.
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scope
+ *               - discount_percent
+ *               - starts_at
+ *               - ends_at
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [course, category, instructor]
+ *               scope_id:
+ *                 type: string
+ *                 description: Course, category or instructor ID, depending on scope; defaults to the caller for `instructor`
+ *               discount_percent:
+ *                 type: number
+ *               starts_at:
+ *                 type: string
+ *                 format: date-time
+ *               ends_at:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Sale scheduled, or active when its window has already started
+ *       400:
+ *         description: Invalid input or sale window
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized for this scope
+ *       404:
+ *         description: Scope target not found
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List sales (instructors see their own)
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, active, ended, canceled]
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [course, category, instructor]
+ *       - in: query
+ *         name: scope_id
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of sales
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(createSaleSchema),
+  saleController.createSale
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getSalesSchema),
+  saleController.getSales
+);
+
+/**
+ * @swagger
+ * /api/sales/{id}:
+ *   get:
+ *     summary: Get a sale
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sale details
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Sale not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a scheduled sale
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Sale updated
+ *       400:
+ *         description: Invalid input, or the sale has already started
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Sale not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(getSaleSchema),
+  saleController.getSaleById
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(updateSaleSchema),
+  saleController.updateSale
+);
+
+/**
+ * @swagger
+ * /api/sales/{id}/cancel:
+ *   post:
+ *     summary: Cancel a scheduled or running sale
+ *     description: A running sale's courses go back to their price straight away.
+ *     tags: [Sales]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sale canceled
+ *       400:
+ *         description: Sale has already ended or been canceled
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Sale not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize([Role.INSTRUCTOR, Role.ADMIN]),
+  validateRequest(cancelSaleSchema),
+  saleController.cancelSale
+);
+
+export default router;
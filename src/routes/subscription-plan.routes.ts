@@ -0,0 +1,178 @@
+import express from 'express';
+import subscriptionPlanController from '../controllers/subscription-plan.controller';
+import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createPlanSchema,
+  updatePlanSchema,
+  getPlanSchema,
+  getPlansSchema,
+} from '../validators/subscription.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Subscription Plans
+ *   description: Monthly and yearly plans giving access to every published course
+ */
+
+/**
+ * @swagger
+ * /api/subscription-plans:
+ *   get:
+ *     summary: List subscription plans
+ *     tags: [Subscription Plans]
+ *     parameters:
+ *       - in: query
+ *         name: include_inactive
+ *         schema:
+ *           type: boolean
+ *         description: Include plans no longer offered (admin only)
+ *     responses:
+ *       200:
+ *         description: Subscription plans, cheapest first
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Create a subscription plan (admin only)
+ *     tags: [Subscription Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - interval
+ *               - price
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               interval:
+ *                 type: string
+ *                 enum: [month, year]
+ *               price:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 default: USD
+ *               grace_period_days:
+ *                 type: integer
+ *                 default: 7
+ *                 description: How long access continues after a failed renewal
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Subscription plan created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/',
+  optionalAuthenticate,
+  validateRequest(getPlansSchema),
+  subscriptionPlanController.getPlans
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(createPlanSchema),
+  subscriptionPlanController.createPlan
+);
+
+/**
+ * @swagger
+ * /api/subscription-plans/{id}:
+ *   get:
+ *     summary: Get a subscription plan
+ *     tags: [Subscription Plans]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription plan
+ *       404:
+ *         description: Subscription plan not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a subscription plan (admin only)
+ *     description: Existing subscribers keep the price and interval they signed up with.
+ *     tags: [Subscription Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               interval:
+ *                 type: string
+ *                 enum: [month, year]
+ *               price:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               grace_period_days:
+ *                 type: integer
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Subscription plan updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Subscription plan not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id', validateRequest(getPlanSchema), subscriptionPlanController.getPlanById);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(updatePlanSchema),
+  subscriptionPlanController.updatePlan
+);
+
+export default router;
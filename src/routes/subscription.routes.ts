@@ -0,0 +1,363 @@
+import express from 'express';
+import subscriptionController from '../controllers/subscription.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import { idempotent } from '../middleware/idempotency.middleware';
+import {
+  subscribeSchema,
+  getSubscriptionsSchema,
+  subscriptionIdSchema,
+  updatePaymentMethodSchema,
+  processRenewalsSchema,
+} from '../validators/subscription.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Subscriptions
+ *   description: |
+ *     All-access subscriptions. A current subscription opens every published course, alongside
+ *     courses bought individually. Access lasts until the end of the paid period, plus the plan's
+ *     grace period while a failed renewal is retried.
+ */
+
+/**
+ * @swagger
+ * /api/subscriptions:
+ *   post:
+ *     summary: Subscribe to a plan
+ *     description: The first period is charged straight away.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Retries with the same key replay the original response
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - plan_id
+ *               - payment_method
+ *             properties:
+ *               plan_id:
+ *                 type: string
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               payment_token:
+ *                 type: string
+ *                 description: Saved card token or wallet approval, reused for renewals
+ *     responses:
+ *       201:
+ *         description: Subscription created
+ *       400:
+ *         description: Invalid input or plan not available
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Payment failed
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: Already subscribed
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List all subscriptions (admin only)
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, past_due, canceled, expired]
+ *       - in: query
+ *         name: plan_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Subscriptions
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  validateRequest(subscribeSchema),
+  idempotent(),
+  subscriptionController.subscribe
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getSubscriptionsSchema),
+  subscriptionController.getSubscriptions
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/me:
+ *   get:
+ *     summary: List your subscriptions
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, past_due, canceled, expired]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Your subscriptions, newest first
+ *       401:
+ *         description: Not authenticated
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/me',
+  authenticate,
+  validateRequest(getSubscriptionsSchema),
+  subscriptionController.getMySubscriptions
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/renewals:
+ *   post:
+ *     summary: Process subscriptions whose period has ended (admin only)
+ *     description: |
+ *       Charges the next period of due subscriptions, ends those set to cancel and expires
+ *       those past their grace period. Each successful charge is recorded as a payment.
+ *       Also runs in the background every SUBSCRIPTION_SWEEP_INTERVAL_MINUTES.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               limit:
+ *                 type: integer
+ *                 default: 100
+ *     responses:
+ *       200:
+ *         description: Counts of renewed, past-due, cancelled and expired subscriptions
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/renewals',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(processRenewalsSchema),
+  subscriptionController.processRenewals
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/{id}:
+ *   get:
+ *     summary: Get a subscription with its charges
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription and charges
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your subscription
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateRequest(subscriptionIdSchema),
+  subscriptionController.getSubscriptionById
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/{id}/cancel:
+ *   post:
+ *     summary: Cancel a subscription
+ *     description: |
+ *       Access continues until the end of the paid period. A subscription whose period has
+ *       already ended (past due) ends straight away.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription cancelled
+ *       400:
+ *         description: Subscription already ended
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your subscription
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/cancel',
+  authenticate,
+  validateRequest(subscriptionIdSchema),
+  subscriptionController.cancelSubscription
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/{id}/resume:
+ *   post:
+ *     summary: Keep a subscription that was set to cancel
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription resumed
+ *       400:
+ *         description: Subscription is not set to cancel
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not your subscription
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/:id/resume',
+  authenticate,
+  validateRequest(subscriptionIdSchema),
+  subscriptionController.resumeSubscription
+);
+
+/**
+ * @swagger
+ * /api/subscriptions/{id}/payment-method:
+ *   patch:
+ *     summary: Change how a subscription is paid
+ *     description: A past-due subscription is charged again straight away.
+ *     tags: [Subscriptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payment_method:
+ *                 type: string
+ *                 enum: [credit_card, paypal, stripe, bank_transfer]
+ *               payment_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment method updated
+ *       400:
+ *         description: Subscription already ended
+ *       401:
+ *         description: Not authenticated
+ *       402:
+ *         description: Retried renewal failed
+ *       403:
+ *         description: Not your subscription
+ *       404:
+ *         description: Subscription not found
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  '/:id/payment-method',
+  authenticate,
+  validateRequest(updatePaymentMethodSchema),
+  subscriptionController.updatePaymentMethod
+);
+
+export default router;
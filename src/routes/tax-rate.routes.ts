@@ -0,0 +1,244 @@
+import express from 'express';
+import taxRateController from '../controllers/tax-rate.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorize } from '../middleware/role.middleware';
+import { Role } from '../models/user-role.model';
+import { validateRequest } from '../middleware/validation.middleware';
+import {
+  createTaxRateSchema,
+  updateTaxRateSchema,
+  getTaxRateSchema,
+  deleteTaxRateSchema,
+  getTaxRatesSchema,
+} from '../validators/tax-rate.validator';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tax Rates
+ *   description: Tax charged on purchases by billing location
+ */
+
+/**
+ * @swagger
+ * /api/tax-rates:
+ *   post:
+ *     summary: Create a tax rate (admin only)
+ *     description: |
+ *       A rate applies to buyers billed in its country, or only in one region of it when a
+ *       region is set. A region rate replaces the country rate for that region. Inclusive
+ *       rates are already part of course prices; exclusive rates are added on top at checkout.
+ *     tags: [Tax Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - country_code
+ *               - name
+ *               - rate
+ *             properties:
+ *               country_code:
+ *                 type: string
+ *                 example: DE
+ *               region:
+ *                 type: string
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *                 example: VAT
+ *               rate:
+ *                 type: number
+ *                 description: Percentage, e.g. 19 for 19%
+ *               is_inclusive:
+ *                 type: boolean
+ *                 default: false
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Tax rate created
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       409:
+ *         description: A tax rate already exists for this location
+ *       500:
+ *         description: Server error
+ *   get:
+ *     summary: List tax rates (admin only)
+ *     tags: [Tax Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: country_code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Tax rates
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(createTaxRateSchema),
+  taxRateController.createRate
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getTaxRatesSchema),
+  taxRateController.getRates
+);
+
+/**
+ * @swagger
+ * /api/tax-rates/{id}:
+ *   get:
+ *     summary: Get a tax rate (admin only)
+ *     tags: [Tax Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Tax rate not found
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Update a tax rate (admin only)
+ *     description: Payments already taken keep the tax they were charged.
+ *     tags: [Tax Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               country_code:
+ *                 type: string
+ *               region:
+ *                 type: string
+ *                 nullable: true
+ *               name:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *               is_inclusive:
+ *                 type: boolean
+ *               is_active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Tax rate updated
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Tax rate not found
+ *       409:
+ *         description: A tax rate already exists for this location
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a tax rate (admin only)
+ *     tags: [Tax Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax rate deleted
+ *       401:
+ *         description: Not authenticated
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Tax rate not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(getTaxRateSchema),
+  taxRateController.getRateById
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(updateTaxRateSchema),
+  taxRateController.updateRate
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN]),
+  validateRequest(deleteTaxRateSchema),
+  taxRateController.deleteRate
+);
+
+export default router;
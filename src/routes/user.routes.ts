@@ -418,6 +418,9 @@ router.get('/:id', authenticate, userController.getUserById);
  *                 type: string
  *               bio:
  *                 type: string
+ *               country:
+ *                 type: string
+ *                 description: Two-letter country code, used for regional prices when the request does not say where it comes from
  *               profile_image:
  *                 type: string
  *                 format: binary
@@ -0,0 +1,299 @@
+import { Transaction } from 'sequelize';
+import {
+  bundleRepository,
+  courseRepository,
+  enrollmentRepository,
+  paymentRepository,
+} from '../repositories';
+import Bundle from '../models/bundle.model';
+import Course from '../models/course.model';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+import pricingService, { BundleQuote } from './pricing.service';
+
+interface BundleInput {
+  title: string;
+  description?: string | null;
+  price: number;
+  course_ids: string[];
+  is_active?: boolean;
+}
+
+interface BundleFilterOptions {
+  page?: number;
+  limit?: number;
+  instructor_id?: string;
+  include_inactive?: boolean;
+}
+
+export interface PurchasableBundle {
+  bundle: Bundle;
+  courses: Course[];
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class BundleService {
+  /**
+   * Create a bundle of courses. All courses must belong to one instructor, who owns the bundle;
+   * instructors can only bundle their own courses.
+   */
+  async createBundle(
+    data: BundleInput,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Bundle> {
+    const courses = await this.resolveCourses(data.course_ids, user_id, isAdmin);
+    this.assertPriceWithinCourses(data.price, courses);
+
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const bundle = await bundleRepository.create(
+        {
+          instructor_id: courses[0].instructor_id,
+          title: data.title,
+          description: data.description || null,
+          price: data.price,
+          is_active: data.is_active,
+        },
+        { transaction }
+      );
+
+      await bundleRepository.setCourses(
+        bundle.id,
+        courses.map(course => course.id),
+        transaction
+      );
+
+      await transaction.commit();
+      transaction = null;
+
+      return (await bundleRepository.findWithCourses(bundle.id))!;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List bundles. Inactive bundles are only listed for admins and for their own instructor.
+   */
+  async getBundles(
+    options: BundleFilterOptions,
+    user_id?: string,
+    isAdmin: boolean = false
+  ): Promise<{ bundles: Bundle[]; total: number; page: number; limit: number }> {
+    const { include_inactive, ...filter } = options;
+    const canSeeInactive =
+      include_inactive && (isAdmin || (!!user_id && filter.instructor_id === user_id));
+
+    return await bundleRepository.findWithFilter({
+      ...filter,
+      is_active: canSeeInactive ? undefined : true,
+    });
+  }
+
+  /**
+   * Get a bundle with its courses. Inactive bundles are hidden from everyone but their
+   * instructor and admins.
+   */
+  async getBundleById(id: string, user_id?: string, isAdmin: boolean = false): Promise<Bundle> {
+    const bundle = await bundleRepository.findWithCourses(id);
+
+    if (!bundle || (!bundle.is_active && !isAdmin && bundle.instructor_id !== user_id)) {
+      throw new ApiError(404, 'Bundle not found');
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Update a bundle; passing course_ids replaces its courses
+   */
+  async updateBundle(
+    id: string,
+    data: Partial<BundleInput>,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Bundle> {
+    const bundle = await this.getManagedBundle(id, user_id, isAdmin);
+
+    const courses = data.course_ids
+      ? await this.resolveCourses(data.course_ids, user_id, isAdmin)
+      : await this.getBundleCourses(bundle.id);
+
+    if (data.course_ids && courses[0].instructor_id !== bundle.instructor_id) {
+      throw new ApiError(400, "A bundle can only contain its instructor's courses");
+    }
+
+    this.assertPriceWithinCourses(data.price !== undefined ? data.price : bundle.price, courses);
+
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const { course_ids, ...updates } = data;
+      await bundle.update(updates, { transaction });
+
+      if (course_ids) {
+        await bundleRepository.setCourses(
+          bundle.id,
+          courses.map(course => course.id),
+          transaction
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+
+      return (await bundleRepository.findWithCourses(bundle.id))!;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a bundle that has never been bought. Sold bundles are kept for their payments'
+   * sake and can be deactivated instead.
+   */
+  async deleteBundle(id: string, user_id: string, isAdmin: boolean = false): Promise<void> {
+    const bundle = await this.getManagedBundle(id, user_id, isAdmin);
+
+    if (await paymentRepository.exists({ bundle_id: bundle.id })) {
+      throw new ApiError(400, 'A bundle that has been sold cannot be deleted; deactivate it');
+    }
+
+    await bundleRepository.deleteById(bundle.id);
+  }
+
+  /**
+   * Quote the price of a bundle for a user before checkout
+   */
+  async getQuote(id: string, user_id: string, currency?: string): Promise<BundleQuote> {
+    const { bundle, courses } = await this.getPurchasableBundle(id, user_id);
+    return await pricingService.priceBundle(bundle, courses, currency);
+  }
+
+  /**
+   * Load a bundle the user can buy: active, every course available for purchase and at
+   * least one course the user is not enrolled in yet. The price is not reduced for courses
+   * the user already has.
+   */
+  async getPurchasableBundle(id: string, user_id: string): Promise<PurchasableBundle> {
+    const bundle = await bundleRepository.findById(id);
+
+    if (!bundle || !bundle.is_active) {
+      throw new ApiError(404, 'Bundle not found');
+    }
+
+    const courses = await this.getBundleCourses(bundle.id);
+
+    if (courses.some(course => !course.is_published || !course.is_approved)) {
+      throw new ApiError(400, 'Bundle is not available for purchase');
+    }
+
+    const enrollments = await Promise.all(
+      courses.map(course => enrollmentRepository.findByUserAndCourse(user_id, course.id))
+    );
+    if (enrollments.every(enrollment => !!enrollment)) {
+      throw new ApiError(400, 'User is already enrolled in every course of this bundle');
+    }
+
+    return { bundle, courses };
+  }
+
+  private async getManagedBundle(id: string, user_id: string, isAdmin: boolean): Promise<Bundle> {
+    const bundle = await bundleRepository.findById(id);
+
+    if (!bundle) {
+      throw new ApiError(404, 'Bundle not found');
+    }
+
+    if (!isAdmin && bundle.instructor_id !== user_id) {
+      throw new ApiError(403, 'You can only manage your own bundles');
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Courses of a bundle in bundle order
+   */
+  private async getBundleCourses(bundle_id: string): Promise<Course[]> {
+    const course_ids = await bundleRepository.getCourseIds(bundle_id);
+    const courses = await courseRepository.findAll({ where: { id: course_ids } });
+    const coursesById = new Map(courses.map(course => [course.id, course]));
+
+    return course_ids
+      .map(course_id => coursesById.get(course_id))
+      .filter((course): course is Course => !!course);
+  }
+
+  /**
+   * Load the courses for a bundle, in the given order, and check they can be bundled together
+   */
+  private async resolveCourses(
+    course_ids: string[],
+    user_id: string,
+    isAdmin: boolean
+  ): Promise<Course[]> {
+    const unique = Array.from(new Set(course_ids));
+
+    if (unique.length < 2) {
+      throw new ApiError(400, 'A bundle must contain at least two different courses');
+    }
+
+    const courses = await courseRepository.findAll({ where: { id: unique } });
+    const coursesById = new Map(courses.map(course => [course.id, course]));
+
+    const missing = unique.filter(course_id => !coursesById.has(course_id));
+    if (missing.length > 0) {
+      throw new ApiError(404, 'Course not found', [{ course_ids: missing }]);
+    }
+
+    const ordered = unique.map(course_id => coursesById.get(course_id)!);
+    const instructor_id = ordered[0].instructor_id;
+
+    if (ordered.some(course => course.instructor_id !== instructor_id)) {
+      throw new ApiError(400, 'All courses in a bundle must belong to the same instructor');
+    }
+
+    if (!isAdmin && instructor_id !== user_id) {
+      throw new ApiError(403, 'You can only bundle your own courses');
+    }
+
+    return ordered;
+  }
+
+  /**
+   * A bundle must not cost more than its courses bought one by one
+   */
+  private assertPriceWithinCourses(price: number, courses: Course[]): void {
+    const combinedCents = courses.reduce((sum, course) => sum + toCents(course.price), 0);
+
+    if (toCents(price) > combinedCents) {
+      throw new ApiError(400, 'Bundle price cannot exceed the combined price of its courses', [
+        { combined_price: combinedCents / 100 },
+      ]);
+    }
+  }
+}
+
+export default new BundleService();
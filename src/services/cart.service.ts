@@ -0,0 +1,183 @@
+import { cartItemRepository, courseRepository, enrollmentRepository } from '../repositories';
+import Course from '../models/course.model';
+import CheckoutSession from '../models/checkout-session.model';
+import { ApiError } from '../utils/api-error';
+import pricingService from './pricing.service';
+import checkoutService from './checkout.service';
+import { BASE_CURRENCY } from './currency.service';
+import { ClientContext } from './fraud-screening.service';
+
+export interface CartLine {
+  course_id: string;
+  course: Course;
+  list_price: number;
+  amount: number;
+  // Why the course cannot be checked out, or null when it can
+  issue: string | null;
+}
+
+export interface CartSummary {
+  currency: string;
+  items: CartLine[];
+  item_count: number;
+  // Total of the courses that can be checked out
+  total: number;
+  can_checkout: boolean;
+}
+
+interface CartCheckoutData {
+  payment_method: string;
+  currency?: string;
+  billing_country?: string;
+  billing_region?: string;
+  // Country the request comes from, for regional prices
+  country?: string | null;
+  // Where the buyer's request came from, for fraud screening
+  client?: ClientContext;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class CartService {
+  /**
+   * The user's cart priced in `currency`, with the regional prices for the country the request
+   * comes from (or the user's profile country). Courses that were unpublished or that the user
+   * has enrolled in since adding them are flagged and left out of the total.
+   */
+  async getCart(
+    user_id: string,
+    currency: string = BASE_CURRENCY,
+    country?: string | null
+  ): Promise<CartSummary> {
+    const code = currency.toUpperCase();
+    const priceCountry = await pricingService.resolveCountry(country, user_id);
+    const cartItems = await cartItemRepository.findByUserId(user_id);
+
+    const items: CartLine[] = [];
+    for (const cartItem of cartItems) {
+      const course = cartItem.get('course') as Course;
+      const { quote } = await pricingService.priceCourse(course, user_id, {
+        currency: code,
+        country: priceCountry,
+      });
+
+      items.push({
+        course_id: course.id,
+        course,
+        list_price: quote.list_price,
+        amount: quote.amount,
+        issue: await this.getIssue(course, user_id),
+      });
+    }
+
+    const totalCents = items
+      .filter(item => !item.issue)
+      .reduce((sum, item) => sum + toCents(item.amount), 0);
+
+    return {
+      currency: code,
+      items,
+      item_count: items.length,
+      total: totalCents / 100,
+      can_checkout: items.length > 0 && items.every(item => !item.issue),
+    };
+  }
+
+  /**
+   * Add a course to the user's cart
+   */
+  async addItem(
+    user_id: string,
+    course_id: string,
+    currency?: string,
+    country?: string | null
+  ): Promise<CartSummary> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    const issue = await this.getIssue(course, user_id);
+    if (issue) {
+      throw new ApiError(400, issue);
+    }
+
+    if (await cartItemRepository.findByUserAndCourse(user_id, course_id)) {
+      throw new ApiError(409, 'Course is already in your cart');
+    }
+
+    await cartItemRepository.create({ user_id, course_id });
+
+    return await this.getCart(user_id, currency, country);
+  }
+
+  /**
+   * Remove a course from the user's cart
+   */
+  async removeItem(
+    user_id: string,
+    course_id: string,
+    currency?: string,
+    country?: string | null
+  ): Promise<CartSummary> {
+    const deleted = await cartItemRepository.delete({ user_id, course_id });
+
+    if (!deleted) {
+      throw new ApiError(404, 'Course is not in your cart');
+    }
+
+    return await this.getCart(user_id, currency, country);
+  }
+
+  /**
+   * Empty the user's cart
+   */
+  async clearCart(user_id: string): Promise<void> {
+    await cartItemRepository.delete({ user_id });
+  }
+
+  /**
+   * Check out the whole cart as one order: a single checkout session and payment with one
+   * item per course. The courses leave the cart once the payment completes.
+   */
+  async checkout(user_id: string, data: CartCheckoutData): Promise<CheckoutSession> {
+    const cart = await this.getCart(user_id, data.currency, data.country);
+
+    if (cart.items.length === 0) {
+      throw new ApiError(400, 'Your cart is empty');
+    }
+
+    const problems = cart.items.filter(item => item.issue);
+    if (problems.length > 0) {
+      throw new ApiError(
+        400,
+        'Some courses in your cart cannot be checked out',
+        problems.map(item => ({ course_id: item.course_id, issue: item.issue }))
+      );
+    }
+
+    return await checkoutService.createSession({
+      user_id,
+      course_ids: cart.items.map(item => item.course_id),
+      payment_method: data.payment_method,
+      currency: cart.currency,
+      billing: { country: data.billing_country, region: data.billing_region },
+      country: data.country,
+      client: data.client,
+    });
+  }
+
+  private async getIssue(course: Course, user_id: string): Promise<string | null> {
+    if (!course.is_published || !course.is_approved) {
+      return 'Course is not available for purchase';
+    }
+
+    if (await enrollmentRepository.findByUserAndCourse(user_id, course.id)) {
+      return 'User is already enrolled in this course';
+    }
+
+    return null;
+  }
+}
+
+export default new CartService();
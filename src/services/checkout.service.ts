@@ -0,0 +1,885 @@
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import {
+  abandonedCheckoutRepository,
+  checkoutSessionRepository,
+  couponRepository,
+  courseRepository,
+  enrollmentCodeRepository,
+  enrollmentRepository,
+  paymentItemRepository,
+  paymentRepository,
+  userRepository,
+} from '../repositories';
+import CheckoutSession, { CheckoutSessionStatus } from '../models/checkout-session.model';
+import AbandonedCheckout from '../models/abandoned-checkout.model';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import { PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import { PaymentIntent, PaymentIntentStatus } from '../types/payment-gateway.types';
+import paymentGateways from '../gateways';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+import paymentService, { GiftDetails, PendingPaymentData } from './payment.service';
+import pricingService from './pricing.service';
+import bundleService from './bundle.service';
+import { AppliedCoupon } from './coupon.service';
+import taxService, { TaxLocation } from './tax.service';
+import fraudScreeningService, { ClientContext } from './fraud-screening.service';
+
+const SESSION_TTL_MINUTES = parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES || '30', 10);
+
+// How long a payment may stay pending before it is failed as expired
+const PENDING_PAYMENT_TIMEOUT_MINUTES = parseInt(
+  process.env.PENDING_PAYMENT_TIMEOUT_MINUTES || '60',
+  10
+);
+
+// How long after a checkout is abandoned its buyer becomes due for a reminder
+const REMINDER_DELAY_HOURS = parseInt(
+  process.env.ABANDONED_CHECKOUT_REMINDER_DELAY_HOURS || '24',
+  10
+);
+
+// Who closed the session, for the payment's status history
+const CLOSE_SOURCES: Partial<Record<CheckoutSessionStatus, PaymentStatusChangeSource>> = {
+  [CheckoutSessionStatus.CANCELED]: PaymentStatusChangeSource.USER,
+  [CheckoutSessionStatus.FAILED]: PaymentStatusChangeSource.GATEWAY,
+  [CheckoutSessionStatus.EXPIRED]: PaymentStatusChangeSource.SYSTEM,
+};
+
+interface CreateCheckoutSessionData {
+  user_id: string;
+  // One of: a course, a bundle, or several courses (a cart)
+  course_id?: string;
+  bundle_id?: string;
+  course_ids?: string[];
+  payment_method: string;
+  currency?: string;
+  coupon_code?: string;
+  // Buy the course for someone else; the buyer gets a gift code instead of access
+  gift?: GiftDetails;
+  // Where the buyer is billed, for tax
+  billing?: TaxLocation;
+  // Country the request comes from, for regional prices; the user's profile country otherwise
+  country?: string | null;
+  // Where the buyer's request came from, for fraud screening
+  client?: ClientContext;
+  // The failed or expired session this one retries
+  retry_of?: string;
+}
+
+interface AbandonedCheckoutFilterOptions {
+  page?: number;
+  limit?: number;
+  user_id?: string;
+  recovered?: boolean;
+  reminder_due?: boolean;
+}
+
+export interface StaleCheckoutSummary {
+  expired_sessions: number;
+  expired_payments: number;
+  abandoned: number;
+}
+
+// What a checkout session buys, checked to be available to the user
+type CheckoutOrder =
+  | { kind: 'course'; course: Course }
+  | { kind: 'bundle'; bundle: Bundle; courses: Course[] }
+  | { kind: 'cart'; courses: Course[] };
+
+interface PricedOrder {
+  amount: number;
+  currency: string;
+  payment: Pick<
+    PendingPaymentData,
+    | 'course_id'
+    | 'bundle_id'
+    | 'items'
+    | 'gift'
+    | 'tax'
+    | 'price_country'
+    | 'list_price'
+    | 'sale_price'
+    | 'sale_id'
+  >;
+  coupon?: AppliedCoupon;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class CheckoutService {
+  /**
+   * Open a checkout session: records a pending payment and creates a gateway intent.
+   * The payment is screened for fraud first: the checkout is refused, or its payment held for
+   * review (and not capturable until approved), when it trips a screening rule.
+   */
+  async createSession(data: CreateCheckoutSessionData): Promise<CheckoutSession> {
+    const { user_id, payment_method, coupon_code } = data;
+
+    // Resolve the adapter first so unsupported methods fail before anything is written
+    const gateway = paymentGateways.get(payment_method);
+
+    const user = await userRepository.findById(user_id);
+    if (!user) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    if (coupon_code && !data.course_id) {
+      throw new ApiError(400, 'Coupons can only be applied when buying a single course');
+    }
+
+    if (data.gift && !data.course_id) {
+      throw new ApiError(400, 'Only a single course can be bought as a gift');
+    }
+
+    const order = await this.resolveOrder(data);
+    const country = await pricingService.resolveCountry(data.country, user_id);
+
+    let amount: number;
+    let currency: string;
+    let session: CheckoutSession;
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const priced = await this.applyTax(
+        await this.priceOrder(order, { ...data, country }, transaction),
+        data.billing
+      );
+      amount = priced.amount;
+      currency = priced.currency;
+
+      const client = data.client || {};
+      const screening = await fraudScreeningService.screen({
+        user,
+        amount,
+        currency,
+        billing_country: data.billing?.country,
+        client,
+      });
+
+      if (screening.action === 'block') {
+        throw new ApiError(429, 'Too many payment attempts, please try again later');
+      }
+
+      session = await checkoutSessionRepository.create(
+        {
+          user_id,
+          course_id: priced.payment.course_id || null,
+          bundle_id: priced.payment.bundle_id || null,
+          amount,
+          currency,
+          payment_method,
+          provider: gateway.provider,
+          expires_at: new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000),
+          retry_of: data.retry_of || null,
+        },
+        { transaction }
+      );
+
+      const payment = await paymentService.createPendingPayment(
+        {
+          ...priced.payment,
+          user_id,
+          amount,
+          currency,
+          payment_method,
+          metadata: { checkout_session_id: session.id, provider: gateway.provider },
+        },
+        { changed_by: user_id, source: PaymentStatusChangeSource.USER },
+        transaction,
+        priced.coupon
+      );
+
+      if (screening.action === 'hold') {
+        await paymentService.holdForReview(payment, screening.rules, client, transaction);
+      }
+
+      await session.update({ payment_id: payment.id }, { transaction });
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    // Talk to the provider only after our own rows are committed
+    let intent: PaymentIntent;
+    try {
+      intent = await gateway.createIntent(payment_method as PaymentMethod, {
+        reference: session.id,
+        amount,
+        currency,
+        customer_id: user_id,
+        metadata: {
+          course_id: session.course_id,
+          bundle_id: session.bundle_id,
+          payment_id: session.payment_id,
+        },
+      });
+    } catch (error: any) {
+      await this.markFailed(session, 'intent_creation_failed', error?.message);
+      throw error;
+    }
+
+    await checkoutSessionRepository.updateById(session.id, { gateway_intent_id: intent.id });
+
+    return await this.getSessionForUser(session.id, user_id);
+  }
+
+  /**
+   * Capture the gateway intent and complete the purchase
+   */
+  async captureSession(
+    session_id: string,
+    user_id: string,
+    payment_token?: string
+  ): Promise<CheckoutSession> {
+    const session = await this.getSessionForUser(session_id, user_id);
+
+    // Capturing an already completed session is a no-op
+    if (session.status === CheckoutSessionStatus.COMPLETED.toString()) {
+      return session;
+    }
+
+    if (session.status !== CheckoutSessionStatus.OPEN.toString()) {
+      throw new ApiError(400, `Checkout session is ${session.status}`);
+    }
+
+    // A held payment may only be charged once its review approves it; its session stays open
+    // until then
+    const payment = session.payment_id
+      ? await paymentRepository.findById(session.payment_id)
+      : null;
+    if (payment && payment.status === PaymentStatus.HELD.toString()) {
+      throw new ApiError(400, 'Payment is held for review');
+    }
+
+    if (new Date(session.expires_at) <= new Date()) {
+      await this.expireSession(session);
+      throw new ApiError(400, 'Checkout session has expired');
+    }
+
+    if (!session.gateway_intent_id) {
+      throw new ApiError(400, 'Checkout session has no payment intent');
+    }
+
+    const gateway = paymentGateways.get(session.payment_method);
+    const intent = await gateway.captureIntent(session.gateway_intent_id, { payment_token });
+
+    if (intent.status !== PaymentIntentStatus.SUCCEEDED) {
+      await this.markFailed(session, intent.failure_code, intent.failure_message);
+      throw new ApiError(402, `Payment failed: ${intent.failure_message || 'unknown error'}`, [
+        { code: intent.failure_code, checkout_session_id: session.id },
+      ]);
+    }
+
+    await this.completeSession(session, intent.transaction_id);
+
+    return await this.getSessionForUser(session.id, user_id);
+  }
+
+  /**
+   * Cancel an open checkout session
+   */
+  async cancelSession(session_id: string, user_id: string): Promise<CheckoutSession> {
+    const session = await this.getSessionForUser(session_id, user_id);
+
+    if (session.status !== CheckoutSessionStatus.OPEN.toString()) {
+      throw new ApiError(400, `Checkout session is ${session.status}`);
+    }
+
+    if (session.gateway_intent_id) {
+      const gateway = paymentGateways.get(session.payment_method);
+      await gateway.cancelIntent(session.gateway_intent_id);
+    }
+
+    await this.closeSession(session, CheckoutSessionStatus.CANCELED);
+
+    return await this.getSessionForUser(session.id, user_id);
+  }
+
+  /**
+   * Complete the session's payment and enroll the user. Checkouts the user abandoned for
+   * the same course or bundle count as recovered. The provider has taken the money, so a
+   * payment failed meanwhile (e.g. the session expired) is completed all the same.
+   * Safe to call more than once for the same session (capture and webhook may both arrive).
+   */
+  async completeSession(session: CheckoutSession, transaction_id?: string): Promise<void> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      // Completing the payment enrolls the user
+      if (session.payment_id) {
+        await paymentService.completeCaptured(
+          session.payment_id,
+          {
+            source: PaymentStatusChangeSource.GATEWAY,
+            reason: 'Payment captured',
+            metadata: { checkout_session_id: session.id },
+          },
+          transaction,
+          { transaction_id }
+        );
+      }
+
+      await checkoutSessionRepository.updateStatus(
+        session.id,
+        CheckoutSessionStatus.COMPLETED,
+        { completed_at: new Date(), failure_code: null, failure_message: null },
+        transaction
+      );
+
+      await abandonedCheckoutRepository.markRecovered(
+        {
+          user_id: session.user_id,
+          course_id: session.course_id,
+          bundle_id: session.bundle_id,
+          checkout_session_id: session.retry_of,
+        },
+        session.id,
+        transaction
+      );
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Try again to pay for what a failed or expired session was buying, with a new session
+   * priced as of now. A session is retried once: retrying it again returns the retry while it
+   * is open, so a user cannot end up with two payments for the same attempt.
+   */
+  async retrySession(
+    session_id: string,
+    user_id: string,
+    payment_method?: string,
+    client: ClientContext = {}
+  ): Promise<CheckoutSession> {
+    const session = await this.getSessionForUser(session_id, user_id);
+
+    const retryable = [
+      CheckoutSessionStatus.FAILED.toString(),
+      CheckoutSessionStatus.EXPIRED.toString(),
+    ];
+    if (!retryable.includes(session.status)) {
+      throw new ApiError(400, `Checkout session is ${session.status}`);
+    }
+
+    const existing = await this.getOpenRetry(session.id, user_id);
+    if (existing) {
+      return existing;
+    }
+
+    const payment = session.payment_id
+      ? await paymentRepository.findById(session.payment_id)
+      : null;
+    if (!payment) {
+      throw new ApiError(400, 'Checkout session has no payment to retry');
+    }
+
+    // The provider may have taken the money after all, e.g. through a late webhook
+    if (payment.status !== PaymentStatus.FAILED.toString()) {
+      throw new ApiError(400, `Payment is ${payment.status}`);
+    }
+
+    const [items, giftCode, coupon] = await Promise.all([
+      payment.course_id || payment.bundle_id
+        ? Promise.resolve([])
+        : paymentItemRepository.findByPaymentId(payment.id),
+      payment.is_gift
+        ? enrollmentCodeRepository.findByPaymentId(payment.id)
+        : Promise.resolve(null),
+      payment.coupon_id ? couponRepository.findById(payment.coupon_id) : Promise.resolve(null),
+    ]);
+
+    try {
+      return await this.createSession({
+        user_id,
+        course_id: payment.course_id || undefined,
+        bundle_id: payment.bundle_id || undefined,
+        course_ids: items.length > 0 ? items.map(item => item.course_id) : undefined,
+        payment_method: payment_method || session.payment_method,
+        currency: session.currency,
+        coupon_code: coupon ? coupon.code : undefined,
+        gift: payment.is_gift
+          ? {
+              recipient_email: giftCode ? giftCode.recipient_email : null,
+              message: giftCode ? giftCode.message : null,
+            }
+          : undefined,
+        billing: { country: payment.tax_country, region: payment.tax_region },
+        country: payment.price_country,
+        client,
+        retry_of: session.id,
+      });
+    } catch (error) {
+      // Another request retried the same session first
+      if (error instanceof UniqueConstraintError) {
+        const retry = await this.getOpenRetry(session.id, user_id);
+        if (retry) {
+          return retry;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expire open sessions whose time ran out and payments left pending for longer than
+   * PENDING_PAYMENT_TIMEOUT_MINUTES, then record the checkouts that were abandoned.
+   * Checkouts held for fraud review are left alone, and an approved one keeps the time it was
+   * given to be paid in (see reopenAfterReview).
+   * Meant to be run periodically; each step handles at most `limit` rows.
+   */
+  async processStaleCheckouts(limit: number = 100): Promise<StaleCheckoutSummary> {
+    const now = new Date();
+    const summary: StaleCheckoutSummary = {
+      expired_sessions: 0,
+      expired_payments: 0,
+      abandoned: 0,
+    };
+
+    for (const session of await checkoutSessionRepository.findExpiredOpen(now, limit)) {
+      try {
+        await this.cancelIntent(session);
+        await this.expireSession(session);
+        summary.expired_sessions++;
+      } catch (error) {
+        console.error(`Expiring checkout session ${session.id} failed:`, error);
+      }
+    }
+
+    const pendingBefore = new Date(now.getTime() - PENDING_PAYMENT_TIMEOUT_MINUTES * 60 * 1000);
+    for (const payment of await paymentRepository.findStalePending(pendingBefore, limit)) {
+      try {
+        // A payment still in an open session expires with it
+        const session = await checkoutSessionRepository.findOpenByPaymentId(payment.id);
+
+        if (session && new Date(session.expires_at) > now) {
+          continue;
+        }
+
+        if (session) {
+          await this.cancelIntent(session);
+          await this.expireSession(session);
+          summary.expired_sessions++;
+        } else {
+          await paymentService.transitionStatus(payment.id, PaymentStatus.FAILED, {
+            source: PaymentStatusChangeSource.SYSTEM,
+            reason: 'Payment expired',
+            metadata: { timeout_minutes: PENDING_PAYMENT_TIMEOUT_MINUTES },
+          });
+        }
+        summary.expired_payments++;
+      } catch (error) {
+        console.error(`Expiring payment ${payment.id} failed:`, error);
+      }
+    }
+
+    for (const session of await checkoutSessionRepository.findUnrecordedAbandoned(now, limit)) {
+      try {
+        await abandonedCheckoutRepository.create({
+          checkout_session_id: session.id,
+          user_id: session.user_id,
+          course_id: session.course_id,
+          bundle_id: session.bundle_id,
+          amount: session.amount,
+          currency: session.currency,
+          abandoned_at: session.expires_at,
+        });
+        summary.abandoned++;
+      } catch (error) {
+        // Recorded by a concurrent run
+        if (!(error instanceof UniqueConstraintError)) {
+          console.error(`Recording abandoned checkout ${session.id} failed:`, error);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * List abandoned checkouts. With `reminder_due`, only those whose buyer has not come back
+   * or been reminded yet and that were abandoned more than
+   * ABANDONED_CHECKOUT_REMINDER_DELAY_HOURS ago.
+   */
+  async getAbandonedCheckouts(options: AbandonedCheckoutFilterOptions = {}): Promise<{
+    checkouts: AbandonedCheckout[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { reminder_due, ...filter } = options;
+
+    return await abandonedCheckoutRepository.findWithFilter({
+      ...filter,
+      reminder_due_before: reminder_due
+        ? new Date(Date.now() - REMINDER_DELAY_HOURS * 60 * 60 * 1000)
+        : undefined,
+    });
+  }
+
+  /**
+   * Record that the buyer of an abandoned checkout was sent a reminder
+   */
+  async markReminded(id: string): Promise<AbandonedCheckout> {
+    const checkout = await abandonedCheckoutRepository.findById(id);
+
+    if (!checkout) {
+      throw new ApiError(404, 'Abandoned checkout not found');
+    }
+
+    if (checkout.recovered_at) {
+      throw new ApiError(400, 'Checkout has already been recovered');
+    }
+
+    if (!checkout.reminded_at) {
+      await checkout.update({ reminded_at: new Date() });
+    }
+
+    return checkout;
+  }
+
+  /**
+   * Get checkout session, restricted to its owner unless isAdmin is set
+   */
+  async getSessionForUser(
+    session_id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<CheckoutSession> {
+    const session = await checkoutSessionRepository.findByIdWithDetails(session_id);
+
+    if (!session) {
+      throw new ApiError(404, 'Checkout session not found');
+    }
+
+    if (!isAdmin && session.user_id !== user_id) {
+      throw new ApiError(403, "You don't have permission to access this checkout session");
+    }
+
+    return session;
+  }
+
+  /**
+   * Give the open session of a payment just approved after fraud review a full session
+   * lifetime, counted from now, to be paid in
+   */
+  async reopenAfterReview(payment_id: string, transaction: Transaction): Promise<void> {
+    const session = await checkoutSessionRepository.findOpenByPaymentId(payment_id, transaction);
+
+    if (session) {
+      await checkoutSessionRepository.updateById(
+        session.id,
+        { expires_at: new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000) },
+        { transaction }
+      );
+    }
+  }
+
+  /**
+   * Close the open session of a payment rejected after fraud review and cancel its intent
+   */
+  async closeAfterReview(payment_id: string): Promise<void> {
+    const session = await checkoutSessionRepository.findOpenByPaymentId(payment_id);
+
+    if (session) {
+      await this.cancelIntent(session);
+      await this.markFailed(session, 'fraud_review_rejected', 'Rejected after fraud review');
+    }
+  }
+
+  /**
+   * Mark an open session as expired and fail its pending payment
+   */
+  async expireSession(session: CheckoutSession): Promise<void> {
+    await this.closeSession(session, CheckoutSessionStatus.EXPIRED);
+  }
+
+  /**
+   * Fail the session and its pending payment with the gateway's failure reason
+   */
+  async markFailed(
+    session: CheckoutSession,
+    failure_code?: string,
+    failure_message?: string
+  ): Promise<void> {
+    await this.closeSession(session, CheckoutSessionStatus.FAILED, {
+      failure_code: failure_code || null,
+      failure_message: failure_message || null,
+    });
+  }
+
+  /**
+   * The open retry of a session, if it has one. A retry that is no longer open means the
+   * session was already retried; that retry is the one to try again.
+   */
+  private async getOpenRetry(session_id: string, user_id: string): Promise<CheckoutSession | null> {
+    const retry = await checkoutSessionRepository.findRetryOf(session_id);
+
+    if (!retry) {
+      return null;
+    }
+
+    if (retry.status !== CheckoutSessionStatus.OPEN.toString()) {
+      throw new ApiError(409, 'Checkout session was already retried', [
+        { checkout_session_id: retry.id, status: retry.status },
+      ]);
+    }
+
+    return await this.getSessionForUser(retry.id, user_id);
+  }
+
+  /**
+   * Cancel the session's intent with the provider so it can no longer be paid.
+   * Failures are logged only; the session is closed on our side regardless.
+   */
+  private async cancelIntent(session: CheckoutSession): Promise<void> {
+    if (!session.gateway_intent_id) {
+      return;
+    }
+
+    try {
+      await paymentGateways.get(session.payment_method).cancelIntent(session.gateway_intent_id);
+    } catch (error) {
+      console.error(`Canceling intent of checkout session ${session.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Load and check what the session is for
+   */
+  private async resolveOrder(data: CreateCheckoutSessionData): Promise<CheckoutOrder> {
+    if (data.bundle_id) {
+      const { bundle, courses } = await bundleService.getPurchasableBundle(
+        data.bundle_id,
+        data.user_id
+      );
+      return { kind: 'bundle', bundle, courses };
+    }
+
+    if (data.course_ids) {
+      if (data.course_ids.length === 0) {
+        throw new ApiError(400, 'Nothing to check out');
+      }
+
+      const courses = [];
+      for (const course_id of data.course_ids) {
+        courses.push(await this.getPurchasableCourse(course_id, data.user_id));
+      }
+      return { kind: 'cart', courses };
+    }
+
+    return {
+      kind: 'course',
+      course: await this.getPurchasableCourse(data.course_id!, data.user_id, !!data.gift),
+    };
+  }
+
+  /**
+   * Price an order. A bundle's price and a cart's total are split into one item per course.
+   * Courses get their regional price for `data.country` and the discount of any sale running
+   * on them; bundles have a single price.
+   */
+  private async priceOrder(
+    order: CheckoutOrder,
+    data: CreateCheckoutSessionData,
+    transaction: Transaction
+  ): Promise<PricedOrder> {
+    if (order.kind === 'bundle') {
+      const quote = await pricingService.priceBundle(order.bundle, order.courses, data.currency);
+      return {
+        amount: quote.amount,
+        currency: quote.currency,
+        payment: {
+          bundle_id: order.bundle.id,
+          list_price: quote.amount,
+          items: quote.items.map(item => ({ ...item, bundle_id: order.bundle.id })),
+        },
+      };
+    }
+
+    if (order.kind === 'cart') {
+      const quotes = [];
+      for (const course of order.courses) {
+        const { quote } = await pricingService.priceCourse(course, data.user_id, {
+          currency: data.currency,
+          country: data.country,
+        });
+        quotes.push(quote);
+      }
+
+      const totalCents = quotes.reduce((sum, quote) => sum + toCents(quote.amount), 0);
+      const listCents = quotes.reduce((sum, quote) => sum + toCents(quote.list_price), 0);
+      const onSale = quotes.some(quote => quote.sale);
+      const saleCents = quotes.reduce(
+        (sum, quote) => sum + toCents(quote.sale_price ?? quote.list_price),
+        0
+      );
+      return {
+        amount: totalCents / 100,
+        currency: quotes[0].currency,
+        payment: {
+          price_country: quotes.find(quote => quote.price_country)?.price_country || null,
+          // A cart can mix sales, so only the totals are kept; sale_id stays empty
+          list_price: listCents / 100,
+          sale_price: onSale ? saleCents / 100 : null,
+          items: quotes.map(quote => ({
+            course_id: quote.course_id,
+            list_price: quote.list_price,
+            amount: quote.amount,
+          })),
+        },
+      };
+    }
+
+    const { quote, coupon } = await pricingService.priceCourse(
+      order.course,
+      data.user_id,
+      { currency: data.currency, coupon_code: data.coupon_code, country: data.country },
+      transaction
+    );
+    return {
+      amount: quote.amount,
+      currency: quote.currency,
+      payment: {
+        course_id: order.course.id,
+        gift: data.gift,
+        price_country: quote.price_country,
+        list_price: quote.list_price,
+        sale_price: quote.sale_price,
+        sale_id: quote.sale?.id || null,
+      },
+      coupon,
+    };
+  }
+
+  /**
+   * Add the tax charged where the buyer is billed. The taxed total is spread back over the
+   * order's items so they still add up to the payment's amount.
+   */
+  private async applyTax(priced: PricedOrder, billing?: TaxLocation): Promise<PricedOrder> {
+    const tax = await taxService.calculate(priced.amount, billing);
+    const items = priced.payment.items;
+    const shares = items
+      ? taxService.allocate(
+          items.map(item => item.amount),
+          tax
+        )
+      : [];
+
+    return {
+      ...priced,
+      amount: tax.gross_amount,
+      payment: {
+        ...priced.payment,
+        tax,
+        items: items?.map((item, index) => ({ ...item, ...shares[index] })),
+      },
+    };
+  }
+
+  /**
+   * Course that the user can buy: published, approved and not already enrolled in.
+   * A gift may be bought for a course the buyer is enrolled in.
+   */
+  private async getPurchasableCourse(
+    course_id: string,
+    user_id: string,
+    isGift: boolean = false
+  ): Promise<Course> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    if (!course.is_published || !course.is_approved) {
+      throw new ApiError(400, 'Course is not available for purchase');
+    }
+
+    if (isGift) {
+      return course;
+    }
+
+    const existingEnrollment = await enrollmentRepository.findByUserAndCourse(user_id, course_id);
+    if (existingEnrollment) {
+      throw new ApiError(400, 'User is already enrolled in this course');
+    }
+
+    return course;
+  }
+
+  /**
+   * Move the session to a terminal status and fail the pending payment with it
+   */
+  private async closeSession(
+    session: CheckoutSession,
+    status: CheckoutSessionStatus,
+    data: { failure_code?: string | null; failure_message?: string | null } = {}
+  ): Promise<void> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      await checkoutSessionRepository.updateStatus(session.id, status, data, transaction);
+
+      // The payment may already have completed through a webhook; leave it alone then
+      const payment = session.payment_id
+        ? await paymentRepository.findById(session.payment_id, { transaction })
+        : null;
+
+      if (payment && payment.status === PaymentStatus.PENDING.toString()) {
+        await paymentService.transitionStatus(
+          payment.id,
+          PaymentStatus.FAILED,
+          {
+            changed_by: status === CheckoutSessionStatus.CANCELED ? session.user_id : null,
+            source: CLOSE_SOURCES[status] || PaymentStatusChangeSource.SYSTEM,
+            reason: data.failure_message || `Checkout session ${status}`,
+            metadata: { checkout_session_id: session.id, failure_code: data.failure_code },
+          },
+          transaction
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export default new CheckoutService();
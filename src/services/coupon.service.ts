@@ -0,0 +1,414 @@
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import {
+  couponRepository,
+  couponRedemptionRepository,
+  courseRepository,
+  categoryRepository,
+  courseCategoryRepository,
+  userRepository,
+} from '../repositories';
+import Coupon, { CouponDiscountType, CouponScope } from '../models/coupon.model';
+import Course from '../models/course.model';
+import Payment from '../models/payment.model';
+import { ApiError } from '../utils/api-error';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+
+interface CouponInput {
+  code: string;
+  description?: string | null;
+  discount_type: string;
+  discount_value: number;
+  scope?: string;
+  scope_id?: string | null;
+  max_redemptions?: number | null;
+  max_redemptions_per_user?: number | null;
+  starts_at?: Date | null;
+  expires_at?: Date | null;
+  is_active?: boolean;
+}
+
+interface CouponFilterOptions {
+  page?: number;
+  limit?: number;
+  search?: string;
+  scope?: string;
+  is_active?: boolean;
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  discount_amount: number;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+class CouponService {
+  /**
+   * Create a coupon. Instructors can only create coupons for their own courses.
+   */
+  async createCoupon(
+    data: CouponInput,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Coupon> {
+    const scope = data.scope || CouponScope.ALL;
+    const scope_id = await this.resolveScope(scope, data.scope_id, user_id, isAdmin);
+
+    this.validateDiscount(data.discount_type, data.discount_value);
+    this.validateWindow(data.starts_at, data.expires_at);
+
+    try {
+      return await couponRepository.create({
+        ...data,
+        scope,
+        scope_id,
+        created_by: user_id,
+      });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiError(400, 'Coupon code already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List coupons. Instructors only see the coupons they created.
+   */
+  async getCoupons(
+    options: CouponFilterOptions,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<{ coupons: Coupon[]; total: number; page: number; limit: number }> {
+    return await couponRepository.findWithFilter({
+      ...options,
+      created_by: isAdmin ? undefined : user_id,
+    });
+  }
+
+  /**
+   * Get a coupon the user is allowed to manage
+   */
+  async getCouponById(id: string, user_id: string, isAdmin: boolean = false): Promise<Coupon> {
+    const coupon = await couponRepository.findById(id);
+
+    if (!coupon) {
+      throw new ApiError(404, 'Coupon not found');
+    }
+
+    if (!isAdmin && coupon.created_by !== user_id) {
+      throw new ApiError(403, "You don't have permission to manage this coupon");
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Update a coupon. The code cannot change once the coupon has been redeemed.
+   */
+  async updateCoupon(
+    id: string,
+    data: Partial<CouponInput>,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Coupon> {
+    const coupon = await this.getCouponById(id, user_id, isAdmin);
+
+    if (data.code && coupon.redemption_count > 0 && data.code.toUpperCase() !== coupon.code) {
+      throw new ApiError(400, 'Cannot change the code of a coupon that has been redeemed');
+    }
+
+    const updates: Partial<CouponInput> = { ...data };
+
+    if (data.scope !== undefined || data.scope_id !== undefined) {
+      const scope = data.scope || coupon.scope;
+      updates.scope = scope;
+      updates.scope_id = await this.resolveScope(
+        scope,
+        data.scope_id !== undefined ? data.scope_id : coupon.scope_id,
+        user_id,
+        isAdmin
+      );
+    }
+
+    this.validateDiscount(
+      data.discount_type || coupon.discount_type,
+      data.discount_value !== undefined ? data.discount_value : Number(coupon.discount_value)
+    );
+    this.validateWindow(
+      data.starts_at !== undefined ? data.starts_at : coupon.starts_at,
+      data.expires_at !== undefined ? data.expires_at : coupon.expires_at
+    );
+
+    try {
+      await coupon.update(updates);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ApiError(400, 'Coupon code already exists');
+      }
+      throw error;
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Delete a coupon. Redeemed coupons are kept for the payment records; deactivate those instead.
+   */
+  async deleteCoupon(id: string, user_id: string, isAdmin: boolean = false): Promise<void> {
+    const coupon = await this.getCouponById(id, user_id, isAdmin);
+
+    if (coupon.redemption_count > 0) {
+      throw new ApiError(400, 'Coupon has been redeemed; deactivate it instead');
+    }
+
+    await couponRepository.deleteById(id);
+  }
+
+  /**
+   * Check a code against a course without redeeming it
+   */
+  async previewCoupon(
+    code: string,
+    course_id: string,
+    user_id: string
+  ): Promise<{ code: string; list_price: number; discount_amount: number; amount: number }> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    const list_price = Number(course.price);
+    const { coupon, discount_amount } = await this.applyCoupon(
+      code,
+      user_id,
+      course,
+      list_price,
+      BASE_CURRENCY
+    );
+
+    return {
+      code: coupon.code,
+      list_price,
+      discount_amount,
+      amount: roundAmount(list_price - discount_amount),
+    };
+  }
+
+  /**
+   * Validate a code for a user and course and work out the discount on `price` (in `currency`).
+   * Pass the payment's transaction to lock the coupon row until the redemption is recorded.
+   */
+  async applyCoupon(
+    code: string,
+    user_id: string,
+    course: Course,
+    price: number,
+    currency: string,
+    transaction?: Transaction
+  ): Promise<AppliedCoupon> {
+    const coupon = await couponRepository.findByCode(
+      code,
+      transaction ? { transaction, lock: transaction.LOCK.UPDATE } : undefined
+    );
+
+    if (!coupon || !coupon.is_active) {
+      throw new ApiError(400, 'Invalid coupon code');
+    }
+
+    const now = new Date();
+    if (coupon.starts_at && new Date(coupon.starts_at) > now) {
+      throw new ApiError(400, 'Coupon is not active yet');
+    }
+    if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+      throw new ApiError(400, 'Coupon has expired');
+    }
+
+    if (coupon.max_redemptions !== null && coupon.redemption_count >= coupon.max_redemptions) {
+      throw new ApiError(400, 'Coupon usage limit has been reached');
+    }
+
+    if (coupon.max_redemptions_per_user !== null) {
+      const used = await couponRedemptionRepository.countByUser(coupon.id, user_id, transaction);
+      if (used >= coupon.max_redemptions_per_user) {
+        throw new ApiError(400, 'You have already used this coupon');
+      }
+    }
+
+    if (!(await this.isInScope(coupon, course))) {
+      throw new ApiError(400, 'Coupon does not apply to this course');
+    }
+
+    if (price <= 0) {
+      throw new ApiError(400, 'Coupon cannot be applied to a free course');
+    }
+
+    return { coupon, discount_amount: await this.calculateDiscount(coupon, price, currency) };
+  }
+
+  /**
+   * Record that a payment used a coupon
+   */
+  async redeemCoupon(
+    applied: AppliedCoupon,
+    user_id: string,
+    payment_id: string,
+    transaction: Transaction
+  ): Promise<void> {
+    await couponRedemptionRepository.create(
+      {
+        coupon_id: applied.coupon.id,
+        user_id,
+        payment_id,
+        discount_amount: applied.discount_amount,
+      },
+      { transaction }
+    );
+    await couponRepository.incrementRedemptionCount(applied.coupon.id, 1, transaction);
+  }
+
+  /**
+   * Give the redemption back when the payment that used it fails
+   */
+  async releaseRedemption(payment_id: string, transaction: Transaction): Promise<void> {
+    const redemption = await couponRedemptionRepository.findByPaymentId(payment_id, {
+      transaction,
+    });
+
+    if (!redemption) {
+      return;
+    }
+
+    await redemption.destroy({ transaction });
+    await couponRepository.incrementRedemptionCount(redemption.coupon_id, -1, transaction);
+  }
+
+  /**
+   * Take the redemption again when a failed payment that gave it back is captured after all.
+   * Limits are not checked: the buyer has already paid the discounted price.
+   */
+  async restoreRedemption(payment: Payment, transaction: Transaction): Promise<void> {
+    if (!payment.coupon_id) {
+      return;
+    }
+
+    const redemption = await couponRedemptionRepository.findByPaymentId(payment.id, {
+      transaction,
+    });
+
+    if (redemption) {
+      return;
+    }
+
+    await couponRedemptionRepository.create(
+      {
+        coupon_id: payment.coupon_id,
+        user_id: payment.user_id,
+        payment_id: payment.id,
+        discount_amount: payment.discount_amount || 0,
+      },
+      { transaction }
+    );
+    await couponRepository.incrementRedemptionCount(payment.coupon_id, 1, transaction);
+  }
+
+  /**
+   * Discount for a price, never more than the price itself.
+   * Fixed discounts are set in the base currency and converted at today's rate.
+   */
+  async calculateDiscount(coupon: Coupon, price: number, currency: string): Promise<number> {
+    const value = Number(coupon.discount_value);
+    const discount =
+      coupon.discount_type === CouponDiscountType.PERCENT.toString()
+        ? (price * value) / 100
+        : await currencyService.convert(value, BASE_CURRENCY, currency);
+
+    return roundAmount(Math.min(discount, price));
+  }
+
+  private async isInScope(coupon: Coupon, course: Course): Promise<boolean> {
+    switch (coupon.scope) {
+      case CouponScope.ALL:
+        return true;
+      case CouponScope.COURSE:
+        return coupon.scope_id === course.id;
+      case CouponScope.INSTRUCTOR:
+        return coupon.scope_id === course.instructor_id;
+      case CouponScope.CATEGORY: {
+        const categoryIds = await courseCategoryRepository.getCategoryIdsForCourse(course.id);
+        return !!coupon.scope_id && categoryIds.includes(coupon.scope_id);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check the scope target exists and the user may create coupons for it
+   */
+  private async resolveScope(
+    scope: string,
+    scope_id: string | null | undefined,
+    user_id: string,
+    isAdmin: boolean
+  ): Promise<string | null> {
+    switch (scope) {
+      case CouponScope.ALL:
+        if (!isAdmin) {
+          throw new ApiError(403, 'Only admin can create site-wide coupons');
+        }
+        return null;
+
+      case CouponScope.CATEGORY: {
+        if (!isAdmin) {
+          throw new ApiError(403, 'Only admin can create category coupons');
+        }
+        const category = scope_id ? await categoryRepository.findById(scope_id) : null;
+        if (!category) {
+          throw new ApiError(404, 'Category not found');
+        }
+        return category.id;
+      }
+
+      case CouponScope.COURSE: {
+        const course = scope_id ? await courseRepository.findById(scope_id) : null;
+        if (!course) {
+          throw new ApiError(404, 'Course not found');
+        }
+        if (!isAdmin && course.instructor_id !== user_id) {
+          throw new ApiError(403, 'You can only create coupons for your own courses');
+        }
+        return course.id;
+      }
+
+      case CouponScope.INSTRUCTOR: {
+        const instructor_id = scope_id || user_id;
+        if (!isAdmin && instructor_id !== user_id) {
+          throw new ApiError(403, 'You can only create coupons for your own courses');
+        }
+        const instructor = await userRepository.findById(instructor_id);
+        if (!instructor) {
+          throw new ApiError(404, 'Instructor not found');
+        }
+        return instructor_id;
+      }
+
+      default:
+        throw new ApiError(400, 'Invalid coupon scope');
+    }
+  }
+
+  private validateDiscount(discount_type: string, discount_value: number): void {
+    if (discount_type === CouponDiscountType.PERCENT.toString() && discount_value > 100) {
+      throw new ApiError(400, 'Percent discount cannot exceed 100');
+    }
+  }
+
+  private validateWindow(starts_at?: Date | null, expires_at?: Date | null): void {
+    if (starts_at && expires_at && new Date(starts_at) >= new Date(expires_at)) {
+      throw new ApiError(400, 'Coupon expiry must be after its start date');
+    }
+  }
+}
+
+export default new CouponService();
@@ -6,12 +6,15 @@ import {
   categoryRepository,
   userRepository,
   enrollmentRepository,
+  priceHistoryRepository,
 } from '../repositories';
 import Course from '../models/course.model';
+import { PriceChangeReason } from '../models/price-history.model';
 import CourseCategory from '../models/course-category.model';
 import Category from '../models/category.model';
 import { ApiError } from '../utils/api-error';
 import sequelize from '../config/database';
+import entitlementService from './entitlement.service';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -195,6 +198,17 @@ class CourseService {
         await CourseCategory.bulkCreate(categoryAssociations, { transaction });
       }
 
+      // Start the course's price history
+      await priceHistoryRepository.create(
+        {
+          course_id: course.id,
+          reason: PriceChangeReason.PRICE_SET,
+          price,
+          changed_by: instructor_id,
+        },
+        { transaction }
+      );
+
       // Commit the transaction
       await transaction.commit();
       transaction = null;
@@ -295,6 +309,20 @@ class CourseService {
       // Update the course
       await courseRepository.update(updateData, { id }, { transaction });
 
+      // Record a price change in the course's price history
+      if (updateData.price !== undefined && Number(updateData.price) !== Number(course.price)) {
+        await priceHistoryRepository.create(
+          {
+            course_id: id,
+            reason: PriceChangeReason.PRICE_SET,
+            price: updateData.price,
+            previous_price: course.price,
+            changed_by: currentUserId,
+          },
+          { transaction }
+        );
+      }
+
       // Update categories if provided
       if (categories) {
         // Chuyển đổi categories từ string thành mảng nếu cần
@@ -568,10 +596,10 @@ class CourseService {
   }
 
   /**
-   * Check if user can access course
+   * Check if user can access course: instructor, enrolled or subscribed
    */
   async canUserAccessCourse(course_id: string, user_id: string): Promise<boolean> {
-    return await courseRepository.canUserAccessCourse(course_id, user_id);
+    return await entitlementService.canAccessCourse(course_id, user_id);
   }
 
   /**
@@ -0,0 +1,142 @@
+import { exchangeRateRepository } from '../repositories';
+import ExchangeRate from '../models/exchange-rate.model';
+import { ApiError } from '../utils/api-error';
+import { RateTable, toDateKey } from '../utils/rate-table';
+
+// Currency course prices (Course.price) and reports default to
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+interface SetRateInput {
+  currency: string;
+  rate: number;
+  effective_date?: string;
+  source?: string;
+}
+
+interface RateHistoryOptions {
+  page?: number;
+  limit?: number;
+  currency?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+class CurrencyService {
+  /**
+   * Record the rate for a currency on a day, replacing any rate already entered for that day
+   */
+  async setRate(data: SetRateInput, user_id: string): Promise<ExchangeRate> {
+    const currency = data.currency.toUpperCase();
+
+    if (currency === BASE_CURRENCY) {
+      throw new ApiError(400, `${BASE_CURRENCY} is the base currency and always has a rate of 1`);
+    }
+
+    const effective_date = toDateKey(data.effective_date || new Date());
+    const existing = await exchangeRateRepository.findByCurrencyAndDate(currency, effective_date);
+
+    if (existing) {
+      await existing.update({ rate: data.rate, source: data.source || null, created_by: user_id });
+      return existing;
+    }
+
+    return await exchangeRateRepository.create({
+      currency,
+      rate: data.rate,
+      effective_date,
+      source: data.source || null,
+      created_by: user_id,
+    });
+  }
+
+  /**
+   * Delete a rate entry
+   */
+  async deleteRate(id: string): Promise<void> {
+    const deleted = await exchangeRateRepository.deleteById(id);
+
+    if (!deleted) {
+      throw new ApiError(404, 'Exchange rate not found');
+    }
+  }
+
+  /**
+   * Rate history, newest first
+   */
+  async getRateHistory(
+    options: RateHistoryOptions = {}
+  ): Promise<{ rates: ExchangeRate[]; total: number; page: number; limit: number }> {
+    return await exchangeRateRepository.findHistory(options);
+  }
+
+  /**
+   * Currencies that prices and payments can be in
+   */
+  async getSupportedCurrencies(): Promise<string[]> {
+    const currencies = await exchangeRateRepository.getCurrencies();
+    return [BASE_CURRENCY, ...currencies.filter(currency => currency !== BASE_CURRENCY).sort()];
+  }
+
+  /**
+   * Whether a currency can be priced and reported
+   */
+  async isSupported(currency: string): Promise<boolean> {
+    const code = currency.toUpperCase();
+    if (code === BASE_CURRENCY) {
+      return true;
+    }
+    return (await exchangeRateRepository.count({ where: { currency: code } })) > 0;
+  }
+
+  /**
+   * Convert a single amount with the rates in effect on a day
+   */
+  async convert(
+    amount: number,
+    from: string,
+    to: string,
+    date: Date | string = new Date()
+  ): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return roundAmount(Number(amount));
+    }
+
+    const day = toDateKey(date);
+    const rates = await Promise.all(
+      [from, to]
+        .filter(currency => currency.toUpperCase() !== BASE_CURRENCY)
+        .map(currency => exchangeRateRepository.findEffectiveRate(currency, day, { raw: true }))
+    );
+
+    const table = new RateTable(
+      BASE_CURRENCY,
+      rates.filter((rate): rate is ExchangeRate => rate !== null)
+    );
+    return table.convert(amount, from, to, day);
+  }
+
+  /**
+   * Load the full rate history for converting many amounts (e.g. revenue reports)
+   */
+  async getRateTable(): Promise<RateTable> {
+    const rates = await exchangeRateRepository.findAllUpTo();
+    return new RateTable(BASE_CURRENCY, rates);
+  }
+
+  /**
+   * Validate a report currency, defaulting to the base currency
+   */
+  async resolveReportCurrency(currency?: string): Promise<string> {
+    const code = (currency || BASE_CURRENCY).toUpperCase();
+
+    if (!(await this.isSupported(code))) {
+      throw new ApiError(400, `Currency ${code} is not supported`);
+    }
+
+    return code;
+  }
+}
+
+export default new CurrencyService();
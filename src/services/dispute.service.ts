@@ -0,0 +1,302 @@
+import { Transaction } from 'sequelize';
+import {
+  disputeRepository,
+  disputeEvidenceRepository,
+  paymentRepository,
+  paymentItemRepository,
+  refundRepository,
+  enrollmentRepository,
+  enrollmentCodeRepository,
+  lessonCompletionRepository,
+} from '../repositories';
+import Dispute, { DisputeStatus, canTransitionDisputeStatus } from '../models/dispute.model';
+import DisputeEvidence, { DisputeEvidenceType } from '../models/dispute-evidence.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import Lesson from '../models/lesson.model';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+import ledgerService from './ledger.service';
+import paymentService from './payment.service';
+
+interface OpenDisputeData {
+  payment_id: string;
+  reason: string;
+  amount?: number;
+  evidence_due_by?: Date | string | null;
+  provider_dispute_id?: string | null;
+}
+
+interface DisputeFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  payment_id?: string;
+}
+
+interface EvidenceData {
+  type: DisputeEvidenceType;
+  description?: string;
+  url?: string;
+}
+
+interface ResolveContext {
+  changed_by?: string;
+  source: PaymentStatusChangeSource;
+  note?: string;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class DisputeService {
+  /**
+   * Open a dispute on a completed payment. The amount defaults to what has not been refunded
+   * yet and cannot exceed it. While the dispute is open the payment cannot be refunded.
+   */
+  async openDispute(data: OpenDisputeData, opened_by?: string): Promise<Dispute> {
+    if (data.provider_dispute_id) {
+      const existing = await disputeRepository.findByProviderDisputeId(data.provider_dispute_id);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const payment = await paymentRepository.findById(data.payment_id);
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    if (payment.status !== PaymentStatus.COMPLETED.toString()) {
+      throw new ApiError(400, 'Only completed payments can be disputed');
+    }
+
+    if (await disputeRepository.findOpenByPaymentId(payment.id)) {
+      throw new ApiError(409, 'Payment already has an open dispute');
+    }
+
+    const refunded = await refundRepository.getRefundedTotal(payment.id);
+    const disputable = (toCents(payment.amount) - toCents(refunded)) / 100;
+    const amount = data.amount !== undefined ? Number(data.amount) : disputable;
+
+    if (amount <= 0 || toCents(amount) > toCents(disputable)) {
+      throw new ApiError(400, `Dispute amount must be between 0.01 and ${disputable.toFixed(2)}`);
+    }
+
+    return await disputeRepository.create({
+      payment_id: payment.id,
+      provider_dispute_id: data.provider_dispute_id || null,
+      reason: data.reason,
+      amount,
+      currency: payment.currency,
+      evidence_due_by: data.evidence_due_by ? new Date(data.evidence_due_by) : null,
+      opened_by: opened_by || null,
+    });
+  }
+
+  /**
+   * List disputes
+   */
+  async getDisputes(options: DisputeFilterOptions = {}): Promise<{
+    disputes: Dispute[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await disputeRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a dispute with its payment and evidence
+   */
+  async getDispute(id: string): Promise<Dispute> {
+    const dispute = await disputeRepository.findWithDetails(id);
+
+    if (!dispute) {
+      throw new ApiError(404, 'Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Attach evidence to a dispute that has not been submitted yet. Lesson completions are
+   * captured as they are now, so later activity does not change what was submitted.
+   */
+  async addEvidence(id: string, added_by: string, data: EvidenceData): Promise<DisputeEvidence> {
+    const dispute = await disputeRepository.findById(id);
+    if (!dispute) {
+      throw new ApiError(404, 'Dispute not found');
+    }
+
+    if (dispute.status !== DisputeStatus.OPENED.toString()) {
+      throw new ApiError(400, 'Evidence can only be added before it is submitted');
+    }
+
+    let content: any = null;
+
+    if (data.type === DisputeEvidenceType.LESSON_COMPLETIONS) {
+      const payment = await paymentRepository.findById(dispute.payment_id);
+      content = await this.getLessonCompletionSnapshot(payment!);
+    } else if (data.type === DisputeEvidenceType.DOCUMENT) {
+      content = { url: data.url };
+    }
+
+    return await disputeEvidenceRepository.create({
+      dispute_id: dispute.id,
+      type: data.type,
+      description: data.description || null,
+      content,
+      added_by,
+    });
+  }
+
+  /**
+   * Mark the evidence of a dispute as sent to the provider
+   */
+  async submitEvidence(id: string): Promise<Dispute> {
+    const dispute = await disputeRepository.findById(id);
+    if (!dispute) {
+      throw new ApiError(404, 'Dispute not found');
+    }
+
+    if (!canTransitionDisputeStatus(dispute.status, DisputeStatus.EVIDENCE_SUBMITTED)) {
+      throw new ApiError(400, `Evidence cannot be submitted for a ${dispute.status} dispute`);
+    }
+
+    const evidence = await disputeEvidenceRepository.findByDisputeId(dispute.id);
+    if (evidence.length === 0) {
+      throw new ApiError(400, 'Add evidence before submitting it');
+    }
+
+    const updated = await disputeRepository.updateStatus(
+      dispute.id,
+      dispute.status,
+      DisputeStatus.EVIDENCE_SUBMITTED,
+      { evidence_submitted_at: new Date() }
+    );
+    if (!updated) {
+      throw new ApiError(409, 'Dispute was changed by another request');
+    }
+
+    return await this.getDispute(dispute.id);
+  }
+
+  /**
+   * Record the outcome of a dispute. A lost dispute charges the payment back: the amount is
+   * taken out of the earnings ledger and the enrollments the payment paid for are suspended.
+   */
+  async resolveDispute(
+    id: string,
+    outcome: DisputeStatus.WON | DisputeStatus.LOST,
+    context: ResolveContext
+  ): Promise<Dispute> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const dispute = await disputeRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!dispute) {
+        throw new ApiError(404, 'Dispute not found');
+      }
+
+      if (!canTransitionDisputeStatus(dispute.status, outcome)) {
+        throw new ApiError(400, `A ${dispute.status} dispute cannot be marked as ${outcome}`);
+      }
+
+      await disputeRepository.updateStatus(
+        dispute.id,
+        dispute.status,
+        outcome,
+        { resolved_at: new Date(), resolution_note: context.note || null },
+        transaction
+      );
+
+      if (outcome === DisputeStatus.LOST) {
+        await ledgerService.recordChargeback(dispute, transaction);
+        await paymentService.transitionStatus(
+          dispute.payment_id,
+          PaymentStatus.CHARGEBACK,
+          {
+            changed_by: context.changed_by,
+            source: context.source,
+            reason: 'Dispute lost',
+            metadata: { dispute_id: dispute.id },
+          },
+          transaction
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return await this.getDispute(id);
+  }
+
+  /**
+   * Lesson completions of the learner in each course the payment bought, with when they
+   * enrolled. For a gift the learner is whoever redeemed the code.
+   */
+  private async getLessonCompletionSnapshot(payment: Payment): Promise<any> {
+    let learner_id: string | null = payment.user_id;
+    let course_ids: string[];
+
+    if (payment.is_gift) {
+      const giftCode = await enrollmentCodeRepository.findByPaymentId(payment.id);
+      learner_id = giftCode ? giftCode.redeemed_by : null;
+      course_ids = giftCode ? [giftCode.course_id] : [];
+    } else if (payment.course_id) {
+      course_ids = [payment.course_id];
+    } else {
+      const items = await paymentItemRepository.findByPaymentId(payment.id);
+      course_ids = items.map(item => item.course_id);
+    }
+
+    const courses = [];
+
+    for (const course_id of course_ids) {
+      if (!learner_id) {
+        courses.push({ course_id, enrolled_at: null, progress: null, completions: [] });
+        continue;
+      }
+
+      const [enrollment, progress, completions] = await Promise.all([
+        enrollmentRepository.findByUserAndCourse(learner_id, course_id),
+        lessonCompletionRepository.getCourseProgress(course_id, learner_id),
+        lessonCompletionRepository.findByCourseAndUser(course_id, learner_id),
+      ]);
+
+      courses.push({
+        course_id,
+        enrolled_at: enrollment ? enrollment.created_at : null,
+        progress,
+        completions: completions.map(completion => {
+          const lesson = completion.get('lesson') as Lesson | null;
+          return {
+            lesson_id: completion.lesson_id,
+            lesson_title: lesson ? lesson.title : null,
+            completed_at: completion.completed_at,
+          };
+        }),
+      });
+    }
+
+    return { learner_id, captured_at: new Date(), courses };
+  }
+}
+
+export default new DisputeService();
@@ -0,0 +1,257 @@
+import { Transaction } from 'sequelize';
+import {
+  enrollmentCodeRepository,
+  enrollmentCodeBatchRepository,
+  courseRepository,
+} from '../repositories';
+import EnrollmentCode, { EnrollmentCodeStatus } from '../models/enrollment-code.model';
+import EnrollmentCodeBatch from '../models/enrollment-code-batch.model';
+import Enrollment, { EnrollmentSource } from '../models/enrollment.model';
+import CheckoutSession from '../models/checkout-session.model';
+import Course from '../models/course.model';
+import { ApiError } from '../utils/api-error';
+import { generateRedeemCode, normalizeRedeemCode } from '../utils/redeem-code';
+import sequelize from '../config/database';
+import enrollmentService from './enrollment.service';
+import checkoutService from './checkout.service';
+import { ClientContext } from './fraud-screening.service';
+
+interface GiftPurchaseData {
+  course_id: string;
+  payment_method: string;
+  currency?: string;
+  coupon_code?: string;
+  billing_country?: string;
+  billing_region?: string;
+  recipient_email?: string;
+  message?: string;
+}
+
+interface CreateBatchData {
+  course_id: string;
+  name: string;
+  quantity: number;
+  expires_at?: Date | string | null;
+}
+
+interface BatchFilterOptions {
+  page?: number;
+  limit?: number;
+  course_id?: string;
+}
+
+export interface BatchSummary {
+  batch: EnrollmentCodeBatch;
+  codes: EnrollmentCode[];
+  redeemed: number;
+  available: number;
+  revoked: number;
+}
+
+class EnrollmentCodeService {
+  /**
+   * Buy a course as a gift. Opens a checkout session for the buyer; the gift code becomes
+   * redeemable once the session's payment completes.
+   */
+  async purchaseGift(
+    user_id: string,
+    data: GiftPurchaseData,
+    client: ClientContext = {}
+  ): Promise<CheckoutSession> {
+    return await checkoutService.createSession({
+      user_id,
+      course_id: data.course_id,
+      payment_method: data.payment_method,
+      currency: data.currency,
+      coupon_code: data.coupon_code,
+      billing: { country: data.billing_country, region: data.billing_region },
+      gift: {
+        recipient_email: data.recipient_email || null,
+        message: data.message || null,
+      },
+      country: client.country,
+      client,
+    });
+  }
+
+  /**
+   * Gift codes bought by a user, with who redeemed them
+   */
+  async getPurchasedGifts(user_id: string): Promise<EnrollmentCode[]> {
+    return await enrollmentCodeRepository.findPurchasedBy(user_id);
+  }
+
+  /**
+   * Generate a batch of codes for a course
+   */
+  async createBatch(created_by: string, data: CreateBatchData): Promise<BatchSummary> {
+    const course = await courseRepository.findById(data.course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    const expires_at = data.expires_at ? new Date(data.expires_at) : null;
+    if (expires_at && expires_at <= new Date()) {
+      throw new ApiError(400, 'Expiry date must be in the future');
+    }
+
+    let batch: EnrollmentCodeBatch;
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      batch = await enrollmentCodeBatchRepository.create(
+        {
+          course_id: data.course_id,
+          name: data.name,
+          quantity: data.quantity,
+          expires_at,
+          created_by,
+        },
+        { transaction }
+      );
+
+      for (let i = 0; i < data.quantity; i++) {
+        await enrollmentCodeRepository.create(
+          {
+            code: generateRedeemCode(),
+            course_id: data.course_id,
+            batch_id: batch.id,
+            expires_at,
+          },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return await this.getBatch(batch.id);
+  }
+
+  /**
+   * List code batches
+   */
+  async getBatches(options: BatchFilterOptions = {}): Promise<{
+    batches: EnrollmentCodeBatch[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await enrollmentCodeBatchRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a batch with its codes and how many have been used
+   */
+  async getBatch(id: string): Promise<BatchSummary> {
+    const batch = await enrollmentCodeBatchRepository.findWithDetails(id);
+    if (!batch) {
+      throw new ApiError(404, 'Code batch not found');
+    }
+
+    const codes = await enrollmentCodeRepository.findByBatchId(id);
+    const countStatus = (status: EnrollmentCodeStatus) =>
+      codes.filter(code => code.status === status.toString()).length;
+
+    return {
+      batch,
+      codes,
+      redeemed: countStatus(EnrollmentCodeStatus.REDEEMED),
+      available: countStatus(EnrollmentCodeStatus.ACTIVE),
+      revoked: countStatus(EnrollmentCodeStatus.REVOKED),
+    };
+  }
+
+  /**
+   * Revoke the codes of a batch that have not been redeemed yet
+   */
+  async revokeBatch(id: string): Promise<BatchSummary> {
+    const batch = await enrollmentCodeBatchRepository.findById(id);
+    if (!batch) {
+      throw new ApiError(404, 'Code batch not found');
+    }
+
+    await enrollmentCodeRepository.update(
+      { status: EnrollmentCodeStatus.REVOKED },
+      { batch_id: id, status: EnrollmentCodeStatus.ACTIVE }
+    );
+
+    return await this.getBatch(id);
+  }
+
+  /**
+   * Redeem a code: enrolls the user in the code's course and records who redeemed it
+   */
+  async redeemCode(user_id: string, value: string): Promise<Enrollment> {
+    const code = await enrollmentCodeRepository.findByCode(normalizeRedeemCode(value));
+    if (!code) {
+      throw new ApiError(404, 'Invalid code');
+    }
+
+    this.assertRedeemable(code);
+
+    const course = code.get('course') as Course;
+    if (!course.is_published || !course.is_approved) {
+      throw new ApiError(400, 'Course is not available for enrollment');
+    }
+
+    if (await enrollmentService.isUserEnrolled(user_id, code.course_id)) {
+      throw new ApiError(400, 'User is already enrolled in this course');
+    }
+
+    // Claim the code first so two users cannot redeem it at the same time
+    const claimed = await enrollmentCodeRepository.updateStatus(
+      code.id,
+      EnrollmentCodeStatus.ACTIVE,
+      EnrollmentCodeStatus.REDEEMED,
+      { redeemed_by: user_id, redeemed_at: new Date() }
+    );
+    if (!claimed) {
+      throw new ApiError(409, 'Code has already been redeemed');
+    }
+
+    try {
+      return await enrollmentService.createEnrollment(user_id, code.course_id, {
+        source: EnrollmentSource.CODE,
+      });
+    } catch (error) {
+      // Release the code so it can still be used
+      await enrollmentCodeRepository.updateStatus(
+        code.id,
+        EnrollmentCodeStatus.REDEEMED,
+        EnrollmentCodeStatus.ACTIVE,
+        { redeemed_by: null, redeemed_at: null }
+      );
+      throw error;
+    }
+  }
+
+  private assertRedeemable(code: EnrollmentCode): void {
+    switch (code.status) {
+      case EnrollmentCodeStatus.PENDING:
+        throw new ApiError(400, 'This gift has not been paid for yet');
+      case EnrollmentCodeStatus.REDEEMED:
+        throw new ApiError(400, 'Code has already been redeemed');
+      case EnrollmentCodeStatus.REVOKED:
+        throw new ApiError(400, 'Code is no longer valid');
+    }
+
+    if (code.expires_at && new Date(code.expires_at) <= new Date()) {
+      throw new ApiError(400, 'Code has expired');
+    }
+  }
+}
+
+export default new EnrollmentCodeService();
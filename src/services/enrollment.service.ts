@@ -1,6 +1,13 @@
-import { enrollmentRepository, userRepository, courseRepository } from '../repositories';
-import Enrollment from '../models/enrollment.model';
+import {
+  enrollmentRepository,
+  userRepository,
+  courseRepository,
+  paymentRepository,
+  subscriptionRepository,
+} from '../repositories';
+import Enrollment, { EnrollmentSource } from '../models/enrollment.model';
 import { ApiError } from '../utils/api-error';
+import paymentService, { RevenueFigures } from './payment.service';
 
 interface PaginationOptions {
   page?: number;
@@ -8,11 +15,90 @@ interface PaginationOptions {
   search?: string;
 }
 
+// How an enrollment is being granted; comp enrollments record the admin and reason
+interface EnrollmentGrant {
+  source: EnrollmentSource;
+  granted_by?: string;
+  reason?: string;
+}
+
 class EnrollmentService {
   /**
-   * Create a new enrollment
+   * Enroll a user who asks for it. Free courses are open to everyone; paid courses need a
+   * completed payment or a current subscription.
    */
-  async createEnrollment(user_id: string, course_id: string): Promise<Enrollment> {
+  async enroll(user_id: string, course_id: string): Promise<Enrollment> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    if (!course.is_published || !course.is_approved) {
+      throw new ApiError(400, 'Course is not available for enrollment');
+    }
+
+    if (Number(course.price) <= 0) {
+      return await this.createEnrollment(user_id, course_id, { source: EnrollmentSource.FREE });
+    }
+
+    if (await paymentRepository.hasUserPaidForCourse(user_id, course_id)) {
+      return await this.createEnrollment(user_id, course_id, {
+        source: EnrollmentSource.PURCHASE,
+      });
+    }
+
+    if (await subscriptionRepository.findEntitling(user_id)) {
+      return await this.createEnrollment(user_id, course_id, {
+        source: EnrollmentSource.SUBSCRIPTION,
+      });
+    }
+
+    throw new ApiError(402, 'This course must be purchased before enrolling');
+  }
+
+  /**
+   * Enroll a user without payment on an admin's authority. The admin and the reason are
+   * kept on the enrollment.
+   */
+  async compEnrollment(
+    granted_by: string,
+    user_id: string,
+    course_id: string,
+    reason: string
+  ): Promise<Enrollment> {
+    return await this.createEnrollment(user_id, course_id, {
+      source: EnrollmentSource.COMP,
+      granted_by,
+      reason,
+    });
+  }
+
+  /**
+   * Give back access to a suspended enrollment (admin), e.g. once a charged-back payment
+   * has been settled with the student
+   */
+  async reinstateEnrollment(id: string): Promise<Enrollment> {
+    const enrollment = await enrollmentRepository.findById(id);
+    if (!enrollment) {
+      throw new ApiError(404, 'Enrollment not found');
+    }
+
+    if (!enrollment.suspended_at) {
+      throw new ApiError(400, 'Enrollment is not suspended');
+    }
+
+    await enrollment.update({ suspended_at: null, suspension_reason: null });
+    return enrollment;
+  }
+
+  /**
+   * Create a new enrollment. Callers decide whether the user is entitled to it.
+   */
+  async createEnrollment(
+    user_id: string,
+    course_id: string,
+    grant: EnrollmentGrant = { source: EnrollmentSource.PURCHASE }
+  ): Promise<Enrollment> {
     // Check if user is already enrolled in the course using repository
     const existingEnrollment = await this.isUserEnrolled(user_id, course_id);
     if (existingEnrollment) {
@@ -35,6 +121,9 @@ class EnrollmentService {
     return await enrollmentRepository.create({
       user_id,
       course_id,
+      source: grant.source,
+      granted_by: grant.granted_by || null,
+      grant_reason: grant.reason || null,
     });
   }
 
@@ -79,20 +168,16 @@ class EnrollmentService {
   }
 
   /**
-   * Calculate the total revenue generated by a course
+   * Calculate the revenue generated by a course: what its payments took in, what was
+   * refunded or charged back, and the net
    */
-  async getCourseRevenue(course_id: string): Promise<number> {
+  async getCourseRevenue(course_id: string): Promise<RevenueFigures> {
     const course = await courseRepository.findById(course_id);
     if (!course) {
       throw new ApiError(404, 'Course not found');
     }
 
-    const enrollmentCount = await enrollmentRepository.count({
-      where: { course_id },
-    });
-
-    // Calculate revenue (price * number of enrollments)
-    return Number(course.price) * enrollmentCount;
+    return await paymentService.getCourseRevenue(course_id);
   }
 
   /**
@@ -0,0 +1,69 @@
+import { courseRepository, enrollmentRepository, subscriptionRepository } from '../repositories';
+import { EnrollmentSource } from '../models/enrollment.model';
+
+// Why a user can open a course
+export type CourseAccessSource = 'instructor' | 'enrollment' | 'subscription';
+
+export interface CourseAccess {
+  has_access: boolean;
+  source: CourseAccessSource | null;
+  subscription_id?: string;
+  // When subscription access lapses if the subscription is not renewed
+  access_until?: Date;
+}
+
+class EntitlementService {
+  /**
+   * Work out whether a user can open a course: its instructor, an enrolled student, or anyone
+   * with a current subscription (published and approved courses only)
+   */
+  async getCourseAccess(course_id: string, user_id: string): Promise<CourseAccess> {
+    const course = await courseRepository.findById(course_id);
+
+    if (!course) {
+      return { has_access: false, source: null };
+    }
+
+    if (course.instructor_id === user_id) {
+      return { has_access: true, source: 'instructor' };
+    }
+
+    // Enrollments made through a subscription only count while it lasts; suspended ones
+    // (e.g. after a lost payment dispute) not at all
+    const enrollment = await enrollmentRepository.findByUserAndCourse(user_id, course_id);
+    if (
+      enrollment &&
+      !enrollment.suspended_at &&
+      enrollment.source !== EnrollmentSource.SUBSCRIPTION.toString()
+    ) {
+      return { has_access: true, source: 'enrollment' };
+    }
+
+    if (course.is_published && course.is_approved) {
+      const subscription = await subscriptionRepository.findEntitling(user_id);
+
+      if (subscription) {
+        return {
+          has_access: true,
+          source: 'subscription',
+          subscription_id: subscription.id,
+          access_until: subscription.cancel_at_period_end
+            ? subscription.current_period_end
+            : subscription.grace_until,
+        };
+      }
+    }
+
+    return { has_access: false, source: null };
+  }
+
+  /**
+   * Check if a user can open a course
+   */
+  async canAccessCourse(course_id: string, user_id: string): Promise<boolean> {
+    const { has_access } = await this.getCourseAccess(course_id, user_id);
+    return has_access;
+  }
+}
+
+export default new EntitlementService();
@@ -0,0 +1,184 @@
+import { Writable } from 'stream';
+import { paymentRepository, refundRepository } from '../repositories';
+import Payment from '../models/payment.model';
+import Refund from '../models/refund.model';
+import User from '../models/user.model';
+import { toCsvLine } from '../utils/csv';
+
+interface ExportFilterOptions {
+  start_date?: Date;
+  end_date?: Date;
+  status?: string;
+  instructor_id?: string;
+}
+
+// Rows fetched per query; only one batch is held in memory at a time
+const EXPORT_BATCH_SIZE = 500;
+
+const PAYMENT_COLUMNS = [
+  'id',
+  'created_at',
+  'status',
+  'user_id',
+  'user_email',
+  'course_id',
+  'bundle_id',
+  'is_gift',
+  'payment_method',
+  'transaction_id',
+  'currency',
+  'amount',
+  'discount_amount',
+  'net_amount',
+  'tax_amount',
+  'tax_rate',
+  'tax_country',
+];
+
+const REFUND_COLUMNS = [
+  'id',
+  'created_at',
+  'status',
+  'payment_id',
+  'payment_transaction_id',
+  'payment_method',
+  'transaction_id',
+  'currency',
+  'amount',
+  'net_amount',
+  'tax_amount',
+  'reason',
+];
+
+class FinanceExportService {
+  /**
+   * Write payments matching the filters to `out` as CSV, oldest first. The date range
+   * applies to when the payment was made; `instructor_id` keeps payments for the
+   * instructor's courses, bought alone or as one of several.
+   * Nothing is written until the first batch is fetched, so a failing query can still be
+   * answered with an error.
+   */
+  async exportPayments(out: Writable, options: ExportFilterOptions = {}): Promise<void> {
+    let payments: Payment[] = await paymentRepository.findExportBatch(
+      options,
+      null,
+      EXPORT_BATCH_SIZE
+    );
+
+    await this.write(out, toCsvLine(PAYMENT_COLUMNS));
+
+    do {
+      for (const payment of payments) {
+        const user = payment.get('user') as User | null;
+        await this.write(
+          out,
+          toCsvLine([
+            payment.id,
+            payment.created_at,
+            payment.status,
+            payment.user_id,
+            user ? user.email : null,
+            payment.course_id,
+            payment.bundle_id,
+            payment.is_gift ? 1 : 0,
+            payment.payment_method,
+            payment.transaction_id,
+            payment.currency,
+            payment.amount,
+            payment.discount_amount,
+            payment.net_amount,
+            payment.tax_amount,
+            payment.tax_rate,
+            payment.tax_country,
+          ])
+        );
+      }
+
+      payments =
+        payments.length === EXPORT_BATCH_SIZE
+          ? await paymentRepository.findExportBatch(
+              options,
+              payments[payments.length - 1],
+              EXPORT_BATCH_SIZE
+            )
+          : [];
+    } while (payments.length > 0);
+  }
+
+  /**
+   * Write refunds matching the filters to `out` as CSV, oldest first. The date range
+   * applies to when the refund was issued; `instructor_id` keeps refunds of payments for
+   * the instructor's courses. Like exportPayments, nothing is written before the first batch.
+   */
+  async exportRefunds(out: Writable, options: ExportFilterOptions = {}): Promise<void> {
+    let refunds: Refund[] = await refundRepository.findExportBatch(
+      options,
+      null,
+      EXPORT_BATCH_SIZE
+    );
+
+    await this.write(out, toCsvLine(REFUND_COLUMNS));
+
+    do {
+      for (const refund of refunds) {
+        const payment = refund.get('payment') as Payment;
+        await this.write(
+          out,
+          toCsvLine([
+            refund.id,
+            refund.created_at,
+            refund.status,
+            refund.payment_id,
+            payment.transaction_id,
+            payment.payment_method,
+            refund.transaction_id,
+            payment.currency,
+            refund.amount,
+            refund.net_amount,
+            refund.tax_amount,
+            refund.reason,
+          ])
+        );
+      }
+
+      refunds =
+        refunds.length === EXPORT_BATCH_SIZE
+          ? await refundRepository.findExportBatch(
+              options,
+              refunds[refunds.length - 1],
+              EXPORT_BATCH_SIZE
+            )
+          : [];
+    } while (refunds.length > 0);
+  }
+
+  /**
+   * Write a chunk, waiting for the client to catch up when its buffer is full. Fails when
+   * the client has gone away so the export stops querying.
+   */
+  private async write(out: Writable, chunk: string): Promise<void> {
+    if (out.destroyed) {
+      throw new Error('Export stream was closed before the export finished');
+    }
+
+    if (out.write(chunk)) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        out.off('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        out.off('drain', onDrain);
+        reject(new Error('Export stream was closed before the export finished'));
+      };
+
+      out.once('drain', onDrain);
+      out.once('close', onClose);
+    });
+  }
+}
+
+export default new FinanceExportService();
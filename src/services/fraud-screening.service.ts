@@ -0,0 +1,140 @@
+import { Redis } from 'ioredis';
+import RedisClient from '../config/redis';
+import { paymentRepository } from '../repositories';
+import User from '../models/user.model';
+import { ScreeningRule, TriggeredRule } from '../models/payment-screening.model';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+
+// Where the buyer's request came from, as far as we can tell
+export interface ClientContext {
+  ip?: string | null;
+  // Two-letter country of the IP, set by the proxy in front of the API (see utils/client-country)
+  country?: string | null;
+}
+
+export interface ScreeningInput {
+  user: User;
+  amount: number;
+  currency: string;
+  billing_country?: string | null;
+  client: ClientContext;
+}
+
+// `block` refuses the payment outright; `hold` creates it but stops it for review
+export interface ScreeningResult {
+  action: 'allow' | 'hold' | 'block';
+  rules: TriggeredRule[];
+}
+
+const WINDOW_MINUTES = parseInt(process.env.PAYMENT_ATTEMPT_WINDOW_MINUTES || '10', 10);
+const MAX_ATTEMPTS_PER_USER = parseInt(process.env.PAYMENT_MAX_ATTEMPTS_PER_USER || '5', 10);
+const MAX_ATTEMPTS_PER_IP = parseInt(process.env.PAYMENT_MAX_ATTEMPTS_PER_IP || '10', 10);
+const NEW_ACCOUNT_DAYS = parseInt(process.env.PAYMENT_NEW_ACCOUNT_DAYS || '7', 10);
+// In the base currency
+const NEW_ACCOUNT_MAX_AMOUNT = parseFloat(process.env.PAYMENT_NEW_ACCOUNT_MAX_AMOUNT || '200');
+
+// Rules that refuse the payment; the others hold it
+const BLOCKING_RULES = [ScreeningRule.USER_VELOCITY, ScreeningRule.IP_VELOCITY];
+
+/**
+ * Rule-based screening of payments before they are created. Attempts are counted in Redis
+ * per fixed window; when Redis is down the velocity rules are skipped rather than refusing
+ * every payment.
+ */
+class FraudScreeningService {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = RedisClient.getInstance();
+  }
+
+  /**
+   * Count the attempt and run the rules. Every call counts, so refused and held attempts
+   * use up the window too.
+   */
+  async screen(input: ScreeningInput): Promise<ScreeningResult> {
+    const { user, amount, currency, billing_country, client } = input;
+    const rules: TriggeredRule[] = [];
+
+    const [userAttempts, ipAttempts] = await Promise.all([
+      this.countAttempt(`user:${user.id}`),
+      client.ip ? this.countAttempt(`ip:${client.ip}`) : Promise.resolve(null),
+    ]);
+
+    if (userAttempts !== null && userAttempts > MAX_ATTEMPTS_PER_USER) {
+      rules.push({
+        rule: ScreeningRule.USER_VELOCITY,
+        message: `${userAttempts} payment attempts by this account in ${WINDOW_MINUTES} minutes`,
+      });
+    }
+
+    if (ipAttempts !== null && ipAttempts > MAX_ATTEMPTS_PER_IP) {
+      rules.push({
+        rule: ScreeningRule.IP_VELOCITY,
+        message: `${ipAttempts} payment attempts from ${client.ip} in ${WINDOW_MINUTES} minutes`,
+      });
+    }
+
+    const billingCountry = billing_country ? billing_country.toUpperCase() : null;
+    const ipCountry = client.country ? client.country.toUpperCase() : null;
+
+    if (billingCountry && ipCountry && billingCountry !== ipCountry) {
+      rules.push({
+        rule: ScreeningRule.COUNTRY_MISMATCH,
+        message: `Billed in ${billingCountry} but paying from ${ipCountry}`,
+      });
+    }
+
+    const paidCurrencies = await paymentRepository.getPaidCurrencies(user.id);
+    if (paidCurrencies.length > 0 && !paidCurrencies.includes(currency)) {
+      rules.push({
+        rule: ScreeningRule.CURRENCY_MISMATCH,
+        message: `Paying in ${currency}; earlier payments were in ${paidCurrencies.join(', ')}`,
+      });
+    }
+
+    const accountAgeDays = (Date.now() - new Date(user.created_at).getTime()) / 86400000;
+    if (accountAgeDays < NEW_ACCOUNT_DAYS) {
+      const baseAmount = await currencyService.convert(amount, currency, BASE_CURRENCY);
+      if (baseAmount >= NEW_ACCOUNT_MAX_AMOUNT) {
+        rules.push({
+          rule: ScreeningRule.NEW_ACCOUNT_HIGH_AMOUNT,
+          message: `${amount} ${currency} from an account created ${Math.floor(accountAgeDays)} day(s) ago`,
+        });
+      }
+    }
+
+    if (rules.some(({ rule }) => BLOCKING_RULES.includes(rule))) {
+      return { action: 'block', rules };
+    }
+
+    return { action: rules.length > 0 ? 'hold' : 'allow', rules };
+  }
+
+  /**
+   * Count an attempt in the current window and return the window's total, or null when
+   * Redis cannot be reached
+   */
+  private async countAttempt(subject: string): Promise<number | null> {
+    const windowSeconds = WINDOW_MINUTES * 60;
+    const window = Math.floor(Date.now() / 1000 / windowSeconds);
+    const key = `payment:attempts:${subject}:${window}`;
+
+    try {
+      const [[incrError, count]] = (await this.redis
+        .multi()
+        .incr(key)
+        .expire(key, windowSeconds * 2)
+        .exec()) as [Error | null, number][];
+      if (incrError) {
+        throw incrError;
+      }
+      return count;
+    } catch (error) {
+      console.error('Payment attempt counter unavailable:', error);
+      return null;
+    }
+  }
+}
+
+export default new FraudScreeningService();
@@ -0,0 +1,259 @@
+import { Transaction } from 'sequelize';
+import {
+  invoiceRepository,
+  invoiceSequenceRepository,
+  paymentRepository,
+  refundRepository,
+} from '../repositories';
+import Invoice, { InvoiceType } from '../models/invoice.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import PaymentItem from '../models/payment-item.model';
+import Refund, { RefundStatus } from '../models/refund.model';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import User from '../models/user.model';
+import Subscription from '../models/subscription.model';
+import SubscriptionPlan from '../models/subscription-plan.model';
+import { ApiError } from '../utils/api-error';
+import { InvoiceDocument, InvoiceFormat, InvoiceLine } from '../types/invoice.types';
+import { renderInvoiceHtml, renderInvoicePdf } from '../templates/invoice.template';
+import sequelize from '../config/database';
+
+const NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: 'INV',
+  [InvoiceType.CREDIT_NOTE]: 'CN',
+};
+
+const ISSUER = {
+  name: process.env.INVOICE_ISSUER_NAME || 'Course Platform',
+  address: process.env.INVOICE_ISSUER_ADDRESS || null,
+  tax_id: process.env.INVOICE_ISSUER_TAX_ID || null,
+};
+
+class InvoiceService {
+  /**
+   * Issue the invoice of a completed payment. Does nothing when it already has one.
+   * The payment row is locked so the same payment is never invoiced twice.
+   */
+  async issueInvoice(payment_id: string, transaction: Transaction): Promise<Invoice> {
+    const payment = await paymentRepository.findById(payment_id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    const existing = await invoiceRepository.findInvoiceForPayment(payment.id, transaction);
+    if (existing) {
+      return existing;
+    }
+
+    const amount = Number(payment.amount);
+    const tax_amount = Number(payment.tax_amount || 0);
+
+    return await invoiceRepository.create(
+      {
+        number: await this.nextNumber(InvoiceType.INVOICE, transaction),
+        type: InvoiceType.INVOICE,
+        payment_id: payment.id,
+        user_id: payment.user_id,
+        currency: payment.currency,
+        net_amount: payment.net_amount ?? amount - tax_amount,
+        tax_amount,
+        total_amount: amount,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * Issue the credit note of a completed refund, against its payment's invoice (issued
+   * first if the payment has none yet). Does nothing when the refund already has one.
+   */
+  async issueCreditNote(refund: Refund, transaction: Transaction): Promise<Invoice> {
+    const invoice = await this.issueInvoice(refund.payment_id, transaction);
+
+    const existing = await invoiceRepository.findCreditNoteForRefund(refund.id, transaction);
+    if (existing) {
+      return existing;
+    }
+
+    const amount = Number(refund.amount);
+    const tax_amount = Number(refund.tax_amount || 0);
+
+    return await invoiceRepository.create(
+      {
+        number: await this.nextNumber(InvoiceType.CREDIT_NOTE, transaction),
+        type: InvoiceType.CREDIT_NOTE,
+        payment_id: refund.payment_id,
+        refund_id: refund.id,
+        user_id: invoice.user_id,
+        currency: invoice.currency,
+        net_amount: refund.net_amount ?? amount - tax_amount,
+        tax_amount,
+        total_amount: amount,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * The invoice of a payment, or the credit note of one of its refunds when `refund_id` is
+   * given, ready to render. Payments completed before invoicing existed get theirs now.
+   */
+  async getDocument(payment_id: string, refund_id?: string): Promise<InvoiceDocument> {
+    const payment = await paymentRepository.findWithInvoiceDetails(payment_id);
+
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    const invoiced = [
+      PaymentStatus.COMPLETED.toString(),
+      PaymentStatus.REFUNDED.toString(),
+      PaymentStatus.CHARGEBACK.toString(),
+    ];
+    if (!invoiced.includes(payment.status)) {
+      throw new ApiError(400, 'Invoices are only issued for completed payments');
+    }
+
+    if (!refund_id) {
+      const invoice =
+        (await invoiceRepository.findInvoiceForPayment(payment.id)) ||
+        (await this.inTransaction(transaction => this.issueInvoice(payment.id, transaction)));
+
+      return this.buildDocument(invoice, payment, this.getLines(payment, true));
+    }
+
+    const refund = await refundRepository.findById(refund_id);
+    if (!refund || refund.payment_id !== payment.id) {
+      throw new ApiError(404, 'Refund not found');
+    }
+
+    if (refund.status !== RefundStatus.COMPLETED.toString()) {
+      throw new ApiError(400, 'Credit notes are only issued for completed refunds');
+    }
+
+    const creditNote =
+      (await invoiceRepository.findCreditNoteForRefund(refund.id)) ||
+      (await this.inTransaction(transaction => this.issueCreditNote(refund, transaction)));
+    const invoice = await invoiceRepository.findInvoiceForPayment(payment.id);
+
+    return {
+      ...this.buildDocument(creditNote, payment, this.getLines(payment, false)),
+      invoice_number: invoice ? invoice.number : null,
+      refund: {
+        id: refund.id,
+        reason: refund.reason,
+        transaction_id: refund.transaction_id || null,
+      },
+    };
+  }
+
+  /**
+   * Render a document in the requested format
+   */
+  render(document: InvoiceDocument, format: InvoiceFormat): Buffer | string {
+    return format === 'html' ? renderInvoiceHtml(document) : renderInvoicePdf(document);
+  }
+
+  private buildDocument(invoice: Invoice, payment: Payment, lines: InvoiceLine[]): InvoiceDocument {
+    const user = payment.get('user') as User;
+
+    return {
+      type: invoice.type as InvoiceType,
+      number: invoice.number,
+      issued_at: invoice.issued_at,
+      invoice_number: null,
+      issuer: ISSUER,
+      customer: { name: user.name, email: user.email },
+      payment: {
+        id: payment.id,
+        method: payment.payment_method,
+        transaction_id: payment.transaction_id || null,
+        paid_at: payment.created_at!,
+      },
+      refund: null,
+      lines,
+      currency: invoice.currency,
+      tax_rate: Number(payment.tax_rate || 0),
+      tax_inclusive: !!payment.tax_inclusive,
+      net_amount: Number(invoice.net_amount),
+      tax_amount: Number(invoice.tax_amount),
+      total_amount: Number(invoice.total_amount),
+    };
+  }
+
+  /**
+   * One line per course bought, or the plan of a subscription charge. Credit notes leave the
+   * amounts out as refunds are not split between courses.
+   */
+  private getLines(payment: Payment, withAmounts: boolean): InvoiceLine[] {
+    const items = (payment.get('items') as PaymentItem[] | undefined) || [];
+    const bundle = payment.get('bundle') as Bundle | null;
+    const suffix = payment.is_gift ? ' (gift)' : '';
+
+    const line = (course: Course, amount: number, tax_amount: number): InvoiceLine => {
+      const instructor = course.get('instructor') as User | null;
+      return {
+        description: `${course.title}${bundle ? ` (${bundle.title})` : ''}${suffix}`,
+        instructor: instructor ? instructor.name : null,
+        amount: withAmounts ? Number(amount) : null,
+        tax_amount: withAmounts ? Number(tax_amount || 0) : null,
+      };
+    };
+
+    if (items.length > 0) {
+      return items.map(item => line(item.get('course') as Course, item.amount, item.tax_amount));
+    }
+
+    const subscription = payment.get('subscription') as Subscription | null;
+    if (subscription) {
+      const plan = subscription.get('plan') as SubscriptionPlan;
+      return [
+        {
+          description: `${plan.name} subscription, billed ${plan.interval}ly`,
+          instructor: null,
+          amount: withAmounts ? Number(payment.amount) : null,
+          tax_amount: withAmounts ? Number(payment.tax_amount || 0) : null,
+        },
+      ];
+    }
+
+    const course = payment.get('course') as Course | null;
+    return course ? [line(course, payment.amount, payment.tax_amount || 0)] : [];
+  }
+
+  /**
+   * Next number of a document type, e.g. INV-000042
+   */
+  private async nextNumber(type: InvoiceType, transaction: Transaction): Promise<string> {
+    const number = await invoiceSequenceRepository.next(type, transaction);
+    return `${NUMBER_PREFIXES[type]}-${number.toString().padStart(6, '0')}`;
+  }
+
+  private async inTransaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+      const result = await work(transaction);
+      await transaction.commit();
+      transaction = null;
+      return result;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export default new InvoiceService();
@@ -0,0 +1,729 @@
+import { Transaction } from 'sequelize';
+import {
+  ledgerEntryRepository,
+  revenueShareRuleRepository,
+  courseRepository,
+  bundleRepository,
+  paymentRepository,
+  paymentItemRepository,
+  userRepository,
+} from '../repositories';
+import LedgerEntry, { LedgerAccount, LedgerEntryType } from '../models/ledger-entry.model';
+import Payment from '../models/payment.model';
+import Refund from '../models/refund.model';
+import Payout from '../models/payout.model';
+import Dispute from '../models/dispute.model';
+import ReferralCommission from '../models/referral-commission.model';
+import RevenueShareRule from '../models/revenue-share-rule.model';
+import { ApiError } from '../utils/api-error';
+import { generateUniqueId } from '../utils/uuid';
+import { toDateKey } from '../utils/rate-table';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+
+// Instructor share used when no revenue-share rule has been set
+const DEFAULT_INSTRUCTOR_SHARE_PERCENT = parseFloat(
+  process.env.INSTRUCTOR_REVENUE_SHARE_PERCENT || '70'
+);
+
+interface JournalLine {
+  account: LedgerAccount;
+  debit?: number;
+  credit?: number;
+}
+
+interface JournalReferences {
+  // Null for the platform's own sales, e.g. subscriptions
+  instructor_id: string | null;
+  payment_id?: string;
+  refund_id?: string;
+  payout_id?: string;
+  description?: string;
+  metadata?: any;
+}
+
+interface RevenueShareRuleInput {
+  instructor_id?: string | null;
+  instructor_share_percent: number;
+  effective_from?: string;
+  note?: string | null;
+}
+
+interface StatementOptions {
+  page?: number;
+  limit?: number;
+  start_date?: Date;
+  end_date?: Date;
+}
+
+export interface EarningsSummary {
+  instructor_id: string;
+  currency: string;
+  instructor_share_percent: number;
+  gross_sales: number;
+  refunds: number;
+  chargebacks: number;
+  taxes: number;
+  platform_fees: number;
+  net_earnings: number;
+  commissions: number;
+  paid_out: number;
+  pending_payout: number;
+  balance: number;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class LedgerService {
+  /**
+   * Post a completed payment: the tax collected is set aside and the rest is split between the
+   * instructor's payable balance and platform revenue by the revenue share in effect on the
+   * payment date.
+   * A payment covering courses of several instructors gets one journal per instructor; a
+   * subscription charge is all platform revenue.
+   * Amounts are converted to the base currency. Posting the same payment twice is a no-op.
+   */
+  async recordSale(payment: Payment, transaction: Transaction): Promise<void> {
+    const posted = await ledgerEntryRepository.findByPayment(payment.id, [LedgerEntryType.SALE], {
+      transaction,
+    });
+    if (posted.length > 0 || toCents(payment.amount) <= 0) {
+      return;
+    }
+
+    const sellers = await this.getSellers(payment, transaction);
+
+    for (const seller of sellers) {
+      if (toCents(seller.amount) <= 0) {
+        continue;
+      }
+
+      const amount = await currencyService.convert(
+        seller.amount,
+        payment.currency,
+        BASE_CURRENCY,
+        payment.created_at
+      );
+      const tax = await currencyService.convert(
+        seller.tax_amount,
+        payment.currency,
+        BASE_CURRENCY,
+        payment.created_at
+      );
+      const sharePercent = seller.instructor_id
+        ? await this.getInstructorSharePercent(seller.instructor_id, payment.created_at)
+        : 0;
+      const netCents = toCents(amount) - toCents(tax);
+      const instructorCents = Math.round((netCents * sharePercent) / 100);
+
+      await this.postJournal(
+        LedgerEntryType.SALE,
+        [
+          { account: LedgerAccount.CASH, debit: amount },
+          { account: LedgerAccount.TAX_PAYABLE, credit: tax },
+          { account: LedgerAccount.INSTRUCTOR_PAYABLE, credit: instructorCents / 100 },
+          {
+            account: LedgerAccount.PLATFORM_REVENUE,
+            credit: (netCents - instructorCents) / 100,
+          },
+        ],
+        {
+          instructor_id: seller.instructor_id,
+          payment_id: payment.id,
+          description: `Sale of ${seller.title}`,
+          metadata: {
+            instructor_share_percent: sharePercent,
+            amount: seller.amount,
+            tax_amount: seller.tax_amount,
+            currency: payment.currency,
+          },
+        },
+        transaction
+      );
+    }
+  }
+
+  /**
+   * Post a completed refund, taking back each instructor's, the platform's and the tax parts
+   * in the same proportion as the sale. The last refund of a payment takes back whatever remains.
+   */
+  async recordRefund(refund: Refund, transaction: Transaction): Promise<void> {
+    const posted = await ledgerEntryRepository.findByRefund(refund.id, LedgerEntryType.REFUND, {
+      transaction,
+    });
+    if (posted.length > 0) {
+      return;
+    }
+
+    await this.postReturn(
+      LedgerEntryType.REFUND,
+      refund.payment_id,
+      Number(refund.amount),
+      { refund_id: refund.id, description: 'Refund' },
+      transaction
+    );
+  }
+
+  /**
+   * Post a lost dispute: the disputed amount is taken back like a refund. A payment is only
+   * charged back once.
+   */
+  async recordChargeback(dispute: Dispute, transaction: Transaction): Promise<void> {
+    const posted = await ledgerEntryRepository.findByPayment(
+      dispute.payment_id,
+      [LedgerEntryType.CHARGEBACK],
+      { transaction }
+    );
+    if (posted.length > 0) {
+      return;
+    }
+
+    await this.postReturn(
+      LedgerEntryType.CHARGEBACK,
+      dispute.payment_id,
+      Number(dispute.amount),
+      { description: 'Chargeback', metadata: { dispute_id: dispute.id, reason: dispute.reason } },
+      transaction
+    );
+  }
+
+  /**
+   * Undo a posted refund that the provider later reported as failed
+   */
+  async reverseRefund(refund: Refund, transaction: Transaction): Promise<void> {
+    const [posted, reversed] = await Promise.all([
+      ledgerEntryRepository.findByRefund(refund.id, LedgerEntryType.REFUND, { transaction }),
+      ledgerEntryRepository.findByRefund(refund.id, LedgerEntryType.REFUND_REVERSAL, {
+        transaction,
+      }),
+    ]);
+
+    if (posted.length === 0 || reversed.length > 0) {
+      return;
+    }
+
+    const journalIds = Array.from(new Set(posted.map(entry => entry.journal_id)));
+
+    for (const journal_id of journalIds) {
+      const journal = posted.filter(entry => entry.journal_id === journal_id);
+
+      await this.postJournal(
+        LedgerEntryType.REFUND_REVERSAL,
+        journal.map(entry => ({
+          account: entry.account as LedgerAccount,
+          debit: Number(entry.credit),
+          credit: Number(entry.debit),
+        })),
+        {
+          instructor_id: journal[0].instructor_id!,
+          payment_id: refund.payment_id,
+          refund_id: refund.id,
+          description: 'Refund reversed by provider',
+        },
+        transaction
+      );
+    }
+  }
+
+  /**
+   * Move a payout's amount out of the instructor's payable balance while it is being sent
+   */
+  async recordPayout(payout: Payout, transaction: Transaction): Promise<void> {
+    await this.postJournal(
+      LedgerEntryType.PAYOUT,
+      [
+        { account: LedgerAccount.INSTRUCTOR_PAYABLE, debit: Number(payout.amount) },
+        { account: LedgerAccount.PAYOUTS_IN_TRANSIT, credit: Number(payout.amount) },
+      ],
+      { instructor_id: payout.instructor_id, payout_id: payout.id, description: 'Payout' },
+      transaction
+    );
+  }
+
+  /**
+   * Settle a payout that reached the instructor
+   */
+  async recordPayoutPaid(payout: Payout, transaction: Transaction): Promise<void> {
+    await this.postJournal(
+      LedgerEntryType.PAYOUT_PAID,
+      [
+        { account: LedgerAccount.PAYOUTS_IN_TRANSIT, debit: Number(payout.amount) },
+        { account: LedgerAccount.CASH, credit: Number(payout.amount) },
+      ],
+      {
+        instructor_id: payout.instructor_id,
+        payout_id: payout.id,
+        description: 'Payout sent',
+        metadata: payout.reference ? { reference: payout.reference } : undefined,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Give a failed or cancelled payout back to the instructor's payable balance
+   */
+  async recordPayoutReturned(payout: Payout, transaction: Transaction): Promise<void> {
+    await this.postJournal(
+      LedgerEntryType.PAYOUT_RETURNED,
+      [
+        { account: LedgerAccount.PAYOUTS_IN_TRANSIT, debit: Number(payout.amount) },
+        { account: LedgerAccount.INSTRUCTOR_PAYABLE, credit: Number(payout.amount) },
+      ],
+      {
+        instructor_id: payout.instructor_id,
+        payout_id: payout.id,
+        description: `Payout ${payout.status}`,
+        metadata: payout.failure_reason ? { reason: payout.failure_reason } : undefined,
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Credit an approved referral commission to the affiliate's payable balance. The platform
+   * pays it out of its revenue.
+   */
+  async recordCommission(commission: ReferralCommission, transaction: Transaction): Promise<void> {
+    await this.postJournal(
+      LedgerEntryType.COMMISSION,
+      [
+        { account: LedgerAccount.PLATFORM_REVENUE, debit: Number(commission.amount) },
+        { account: LedgerAccount.INSTRUCTOR_PAYABLE, credit: Number(commission.amount) },
+      ],
+      {
+        instructor_id: commission.affiliate_id,
+        payment_id: commission.payment_id,
+        description: 'Referral commission',
+        metadata: { commission_id: commission.id, rate: Number(commission.rate) },
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Take back an approved commission whose payment was refunded
+   */
+  async reverseCommission(commission: ReferralCommission, transaction: Transaction): Promise<void> {
+    await this.postJournal(
+      LedgerEntryType.COMMISSION_REVERSAL,
+      [
+        { account: LedgerAccount.INSTRUCTOR_PAYABLE, debit: Number(commission.amount) },
+        { account: LedgerAccount.PLATFORM_REVENUE, credit: Number(commission.amount) },
+      ],
+      {
+        instructor_id: commission.affiliate_id,
+        payment_id: commission.payment_id,
+        description: 'Referral commission reversed',
+        metadata: { commission_id: commission.id },
+      },
+      transaction
+    );
+  }
+
+  /**
+   * Instructor share (percent) in effect on a day: the instructor's own rule, else the platform
+   * default rule, else INSTRUCTOR_REVENUE_SHARE_PERCENT
+   */
+  async getInstructorSharePercent(
+    instructor_id: string,
+    date: Date | string = new Date()
+  ): Promise<number> {
+    const day = toDateKey(date);
+    const rule =
+      (await revenueShareRuleRepository.findEffectiveRule(instructor_id, day)) ||
+      (await revenueShareRuleRepository.findEffectiveRule(null, day));
+
+    return rule ? Number(rule.instructor_share_percent) : DEFAULT_INSTRUCTOR_SHARE_PERCENT;
+  }
+
+  /**
+   * Set the revenue share for an instructor, or the platform default when no instructor is
+   * given. Applies to payments from `effective_from` (default today); a rule already starting
+   * that day is replaced.
+   */
+  async setRevenueShareRule(
+    data: RevenueShareRuleInput,
+    user_id: string
+  ): Promise<RevenueShareRule> {
+    const instructor_id = data.instructor_id || null;
+
+    if (instructor_id && !(await userRepository.findById(instructor_id))) {
+      throw new ApiError(404, 'Instructor not found');
+    }
+
+    const effective_from = toDateKey(data.effective_from || new Date());
+    const existing = await revenueShareRuleRepository.findByInstructorAndDate(
+      instructor_id,
+      effective_from
+    );
+
+    if (existing) {
+      await existing.update({
+        instructor_share_percent: data.instructor_share_percent,
+        note: data.note || null,
+        created_by: user_id,
+      });
+      return existing;
+    }
+
+    return await revenueShareRuleRepository.create({
+      instructor_id,
+      instructor_share_percent: data.instructor_share_percent,
+      effective_from,
+      note: data.note || null,
+      created_by: user_id,
+    });
+  }
+
+  /**
+   * List revenue-share rules
+   */
+  async getRevenueShareRules(options: {
+    page?: number;
+    limit?: number;
+    instructor_id?: string;
+  }): Promise<{ rules: RevenueShareRule[]; total: number; page: number; limit: number }> {
+    return await revenueShareRuleRepository.findWithFilter(options);
+  }
+
+  /**
+   * What an instructor has earned, been paid and is still owed, in the base currency
+   */
+  async getEarningsSummary(instructor_id: string): Promise<EarningsSummary> {
+    const [totals, balance, pendingPayout, sharePercent] = await Promise.all([
+      ledgerEntryRepository.getTotalsByType(instructor_id),
+      ledgerEntryRepository.getAccountBalance(LedgerAccount.INSTRUCTOR_PAYABLE, instructor_id),
+      ledgerEntryRepository.getAccountBalance(LedgerAccount.PAYOUTS_IN_TRANSIT, instructor_id),
+      this.getInstructorSharePercent(instructor_id),
+    ]);
+
+    const total = (account: LedgerAccount, types: LedgerEntryType[], side: 'debit' | 'credit') =>
+      totals
+        .filter(
+          row => row.account === account.toString() && types.map(String).includes(row.entry_type)
+        )
+        .reduce((sum, row) => sum + toCents(row[side]), 0);
+
+    const refundTypes = [LedgerEntryType.REFUND, LedgerEntryType.REFUND_REVERSAL];
+    const earningTypes = [LedgerEntryType.SALE, ...refundTypes, LedgerEntryType.CHARGEBACK];
+    const commissionTypes = [LedgerEntryType.COMMISSION, LedgerEntryType.COMMISSION_REVERSAL];
+
+    return {
+      instructor_id,
+      currency: BASE_CURRENCY,
+      instructor_share_percent: sharePercent,
+      gross_sales: total(LedgerAccount.CASH, [LedgerEntryType.SALE], 'debit') / 100,
+      refunds:
+        (total(LedgerAccount.CASH, refundTypes, 'credit') -
+          total(LedgerAccount.CASH, refundTypes, 'debit')) /
+        100,
+      chargebacks: total(LedgerAccount.CASH, [LedgerEntryType.CHARGEBACK], 'credit') / 100,
+      taxes:
+        (total(LedgerAccount.TAX_PAYABLE, earningTypes, 'credit') -
+          total(LedgerAccount.TAX_PAYABLE, earningTypes, 'debit')) /
+        100,
+      platform_fees:
+        (total(LedgerAccount.PLATFORM_REVENUE, earningTypes, 'credit') -
+          total(LedgerAccount.PLATFORM_REVENUE, earningTypes, 'debit')) /
+        100,
+      net_earnings:
+        (total(LedgerAccount.INSTRUCTOR_PAYABLE, earningTypes, 'credit') -
+          total(LedgerAccount.INSTRUCTOR_PAYABLE, earningTypes, 'debit')) /
+        100,
+      commissions:
+        (total(LedgerAccount.INSTRUCTOR_PAYABLE, commissionTypes, 'credit') -
+          total(LedgerAccount.INSTRUCTOR_PAYABLE, commissionTypes, 'debit')) /
+        100,
+      paid_out: total(LedgerAccount.CASH, [LedgerEntryType.PAYOUT_PAID], 'credit') / 100,
+      pending_payout: pendingPayout,
+      balance,
+    };
+  }
+
+  /**
+   * Movements on an instructor's payable balance between two dates, with opening and closing
+   * balances. Each entry's `amount` is positive when it adds to what the instructor is owed.
+   */
+  async getStatement(
+    instructor_id: string,
+    options: StatementOptions = {}
+  ): Promise<{
+    currency: string;
+    opening_balance: number;
+    closing_balance: number;
+    entries: any[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { start_date, end_date } = options;
+
+    const [opening_balance, closing_balance, statement] = await Promise.all([
+      start_date
+        ? ledgerEntryRepository.getAccountBalance(
+            LedgerAccount.INSTRUCTOR_PAYABLE,
+            instructor_id,
+            new Date(start_date.getTime() - 1)
+          )
+        : Promise.resolve(0),
+      ledgerEntryRepository.getAccountBalance(
+        LedgerAccount.INSTRUCTOR_PAYABLE,
+        instructor_id,
+        end_date
+      ),
+      ledgerEntryRepository.findStatement(instructor_id, options),
+    ]);
+
+    return {
+      currency: BASE_CURRENCY,
+      opening_balance,
+      closing_balance,
+      entries: statement.entries.map(entry => ({
+        ...entry.get({ plain: true }),
+        amount: (toCents(entry.credit) - toCents(entry.debit)) / 100,
+      })),
+      total: statement.total,
+      page: statement.page,
+      limit: statement.limit,
+    };
+  }
+
+  /**
+   * Instructors credited with a payment, what each sold and their part of the amount (in the
+   * payment's currency, with the tax in it): the course's or bundle's instructor, or for a cart
+   * each instructor with the items of their courses. A subscription is sold by the platform
+   * alone, so its seller has no instructor.
+   */
+  private async getSellers(
+    payment: Payment,
+    transaction: Transaction
+  ): Promise<
+    { instructor_id: string | null; title: string; amount: number; tax_amount: number }[]
+  > {
+    if (payment.subscription_id) {
+      return [
+        {
+          instructor_id: null,
+          title: 'subscription',
+          amount: Number(payment.amount),
+          tax_amount: Number(payment.tax_amount || 0),
+        },
+      ];
+    }
+
+    if (payment.bundle_id) {
+      const bundle = await bundleRepository.findById(payment.bundle_id, { transaction });
+      if (!bundle) {
+        throw new ApiError(404, 'Bundle not found');
+      }
+      return [
+        {
+          instructor_id: bundle.instructor_id,
+          title: `bundle ${bundle.title}`,
+          amount: Number(payment.amount),
+          tax_amount: Number(payment.tax_amount || 0),
+        },
+      ];
+    }
+
+    if (payment.course_id) {
+      const course = await courseRepository.findById(payment.course_id, { transaction });
+      if (!course) {
+        throw new ApiError(404, 'Course not found');
+      }
+      return [
+        {
+          instructor_id: course.instructor_id,
+          title: course.title,
+          amount: Number(payment.amount),
+          tax_amount: Number(payment.tax_amount || 0),
+        },
+      ];
+    }
+
+    const items = await paymentItemRepository.findByPaymentId(payment.id, transaction);
+    const courses = await courseRepository.findAll({
+      where: { id: items.map(item => item.course_id) },
+      transaction,
+    });
+    const coursesById = new Map(courses.map(course => [course.id, course]));
+
+    const sellers = new Map<string, { titles: string[]; cents: number; taxCents: number }>();
+    for (const item of items) {
+      const course = coursesById.get(item.course_id);
+      if (!course) {
+        throw new ApiError(404, 'Course not found');
+      }
+
+      const seller = sellers.get(course.instructor_id) || { titles: [], cents: 0, taxCents: 0 };
+      seller.titles.push(course.title);
+      seller.cents += toCents(item.amount);
+      seller.taxCents += toCents(item.tax_amount);
+      sellers.set(course.instructor_id, seller);
+    }
+
+    return Array.from(sellers.entries()).map(([instructor_id, seller]) => ({
+      instructor_id,
+      title: seller.titles.join(', '),
+      amount: seller.cents / 100,
+      tax_amount: seller.taxCents / 100,
+    }));
+  }
+
+  /**
+   * Take back part of a sale (a refund or a chargeback) from each instructor, the platform
+   * and the tax in the same proportion as the sale. Whatever remains is taken back once the
+   * amounts returned cover the whole payment.
+   */
+  private async postReturn(
+    entry_type: LedgerEntryType,
+    payment_id: string,
+    amount: number,
+    references: Omit<JournalReferences, 'instructor_id' | 'payment_id'>,
+    transaction: Transaction
+  ): Promise<void> {
+    const [payment, entries] = await Promise.all([
+      paymentRepository.findById(payment_id, { transaction }),
+      ledgerEntryRepository.findByPayment(
+        payment_id,
+        [
+          LedgerEntryType.SALE,
+          LedgerEntryType.REFUND,
+          LedgerEntryType.REFUND_REVERSAL,
+          LedgerEntryType.CHARGEBACK,
+        ],
+        { transaction }
+      ),
+    ]);
+
+    const sale = entries.filter(entry => entry.entry_type === LedgerEntryType.SALE.toString());
+
+    // Nothing to take back for payments that were never posted (e.g. free)
+    if (!payment || sale.length === 0) {
+      return;
+    }
+
+    const ratio = amount / Number(payment.amount);
+    const instructorIds = Array.from(new Set(sale.map(entry => entry.instructor_id)));
+
+    for (const instructor_id of instructorIds) {
+      const instructorSale = sale.filter(entry => entry.instructor_id === instructor_id);
+      const saleCash = this.sumLines(instructorSale, LedgerAccount.CASH, 'debit');
+      const saleInstructor = this.sumLines(
+        instructorSale,
+        LedgerAccount.INSTRUCTOR_PAYABLE,
+        'credit'
+      );
+      const saleTax = this.sumLines(instructorSale, LedgerAccount.TAX_PAYABLE, 'credit');
+
+      // Already returned, net of reversed refunds
+      const returned = entries.filter(
+        entry =>
+          entry.entry_type !== LedgerEntryType.SALE.toString() &&
+          entry.instructor_id === instructor_id
+      );
+      const returnedCash =
+        this.sumLines(returned, LedgerAccount.CASH, 'credit') -
+        this.sumLines(returned, LedgerAccount.CASH, 'debit');
+      const returnedInstructor =
+        this.sumLines(returned, LedgerAccount.INSTRUCTOR_PAYABLE, 'debit') -
+        this.sumLines(returned, LedgerAccount.INSTRUCTOR_PAYABLE, 'credit');
+      const returnedTax =
+        this.sumLines(returned, LedgerAccount.TAX_PAYABLE, 'debit') -
+        this.sumLines(returned, LedgerAccount.TAX_PAYABLE, 'credit');
+
+      const finalReturn = toCents(returnedCash + saleCash * ratio) >= toCents(saleCash);
+
+      const cashCents = finalReturn
+        ? toCents(saleCash) - toCents(returnedCash)
+        : Math.round(toCents(saleCash) * ratio);
+      const instructorCents = finalReturn
+        ? toCents(saleInstructor) - toCents(returnedInstructor)
+        : Math.round(toCents(saleInstructor) * ratio);
+      const taxCents = finalReturn
+        ? toCents(saleTax) - toCents(returnedTax)
+        : Math.round(toCents(saleTax) * ratio);
+
+      if (cashCents <= 0) {
+        continue;
+      }
+
+      await this.postJournal(
+        entry_type,
+        [
+          { account: LedgerAccount.INSTRUCTOR_PAYABLE, debit: instructorCents / 100 },
+          { account: LedgerAccount.TAX_PAYABLE, debit: taxCents / 100 },
+          {
+            account: LedgerAccount.PLATFORM_REVENUE,
+            debit: (cashCents - instructorCents - taxCents) / 100,
+          },
+          { account: LedgerAccount.CASH, credit: cashCents / 100 },
+        ],
+        {
+          ...references,
+          instructor_id,
+          payment_id: payment.id,
+          metadata: { ...references.metadata, amount, currency: payment.currency },
+        },
+        transaction
+      );
+    }
+  }
+
+  /**
+   * Write a balanced journal. Every line carries the same references so an instructor's
+   * activity can be reported from any account.
+   */
+  private async postJournal(
+    entry_type: LedgerEntryType,
+    lines: JournalLine[],
+    references: JournalReferences,
+    transaction: Transaction
+  ): Promise<void> {
+    const debits = lines.reduce((sum, line) => sum + toCents(line.debit || 0), 0);
+    const credits = lines.reduce((sum, line) => sum + toCents(line.credit || 0), 0);
+
+    if (debits !== credits) {
+      throw new ApiError(500, `Unbalanced ${entry_type} journal`);
+    }
+
+    const journal_id = generateUniqueId();
+
+    for (const line of lines) {
+      if (!toCents(line.debit || 0) && !toCents(line.credit || 0)) {
+        continue;
+      }
+
+      await ledgerEntryRepository.create(
+        {
+          journal_id,
+          entry_type,
+          account: line.account,
+          debit: line.debit || 0,
+          credit: line.credit || 0,
+          currency: BASE_CURRENCY,
+          instructor_id: references.instructor_id,
+          payment_id: references.payment_id || null,
+          refund_id: references.refund_id || null,
+          payout_id: references.payout_id || null,
+          description: references.description || null,
+          metadata: references.metadata,
+        },
+        { transaction }
+      );
+    }
+  }
+
+  private sumLines(
+    entries: LedgerEntry[],
+    account: LedgerAccount,
+    side: 'debit' | 'credit'
+  ): number {
+    const cents = entries
+      .filter(entry => entry.account === account.toString())
+      .reduce((sum, entry) => sum + toCents(entry[side]), 0);
+    return cents / 100;
+  }
+}
+
+export default new LedgerService();
@@ -1,13 +1,9 @@
 import { Transaction } from 'sequelize';
-import {
-  lessonRepository,
-  sectionRepository,
-  courseRepository,
-  lessonCompletionRepository,
-} from '../repositories';
+import { lessonRepository, sectionRepository, lessonCompletionRepository } from '../repositories';
 import Lesson, { LessonType } from '../models/lesson.model';
 import { ApiError } from '../utils/api-error';
 import sequelize from '../config/database';
+import entitlementService from './entitlement.service';
 
 /**
  * Interface for metadata structure
@@ -171,15 +167,16 @@ class LessonService {
    * @returns True if has access, throws error if not
    */
   async checkLessonAccess(lesson_id: string, user_id: string): Promise<boolean> {
-    // For now, return true - implement access logic as needed
-    // TODO: Implement access logic as needed
     const lesson = await lessonRepository.findWithDetails(lesson_id);
     if (!lesson) {
       throw new ApiError(404, 'Lesson not found');
     }
     const section = lesson.get('section') as any;
     const course = section.get('course') as any;
-    if (course.instructor_id !== user_id) {
+
+    // The instructor, enrolled students and subscribers; access ends when the enrollment is
+    // revoked or the subscription lapses
+    if (!(await entitlementService.canAccessCourse(course.id, user_id))) {
       throw new ApiError(403, 'You are not authorized to access this lesson');
     }
     return true;
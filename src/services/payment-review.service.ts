@@ -0,0 +1,134 @@
+import { Transaction } from 'sequelize';
+import { paymentScreeningRepository } from '../repositories';
+import PaymentScreening, { PaymentScreeningStatus } from '../models/payment-screening.model';
+import { PaymentStatus } from '../models/payment.model';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+import paymentService from './payment.service';
+import checkoutService from './checkout.service';
+
+interface ReviewFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+class PaymentReviewService {
+  /**
+   * List payments held by fraud screening, oldest first
+   */
+  async getReviews(options: ReviewFilterOptions = {}): Promise<{
+    screenings: PaymentScreening[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await paymentScreeningRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a held payment with the rules it tripped
+   */
+  async getReview(id: string): Promise<PaymentScreening> {
+    const screening = await paymentScreeningRepository.findWithDetails(id);
+
+    if (!screening) {
+      throw new ApiError(404, 'Payment review not found');
+    }
+
+    return screening;
+  }
+
+  /**
+   * Approve a held payment: it goes back to pending and can be completed as usual. A held
+   * checkout gets a fresh session lifetime to be paid in.
+   */
+  async approve(id: string, reviewed_by: string, note?: string): Promise<PaymentScreening> {
+    return await this.review(id, reviewed_by, note, PaymentScreeningStatus.APPROVED);
+  }
+
+  /**
+   * Reject a held payment: it fails, which also gives back any coupon it used. A held
+   * checkout is closed.
+   */
+  async reject(id: string, reviewed_by: string, note?: string): Promise<PaymentScreening> {
+    return await this.review(id, reviewed_by, note, PaymentScreeningStatus.REJECTED);
+  }
+
+  private async review(
+    id: string,
+    reviewed_by: string,
+    note: string | undefined,
+    outcome: PaymentScreeningStatus.APPROVED | PaymentScreeningStatus.REJECTED
+  ): Promise<PaymentScreening> {
+    let transaction: Transaction | null = null;
+    let payment_id: string;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const screening = await paymentScreeningRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!screening) {
+        throw new ApiError(404, 'Payment review not found');
+      }
+
+      if (screening.status !== PaymentScreeningStatus.HELD.toString()) {
+        throw new ApiError(400, `Payment has already been ${screening.status}`);
+      }
+
+      payment_id = screening.payment_id;
+
+      await paymentScreeningRepository.review(
+        screening.id,
+        outcome,
+        { reviewed_by, review_note: note || null },
+        transaction
+      );
+
+      await paymentService.transitionStatus(
+        screening.payment_id,
+        outcome === PaymentScreeningStatus.APPROVED ? PaymentStatus.PENDING : PaymentStatus.FAILED,
+        {
+          changed_by: reviewed_by,
+          source: PaymentStatusChangeSource.ADMIN,
+          reason:
+            outcome === PaymentScreeningStatus.APPROVED
+              ? 'Approved after fraud review'
+              : 'Rejected after fraud review',
+          metadata: { payment_screening_id: screening.id },
+        },
+        transaction
+      );
+
+      if (outcome === PaymentScreeningStatus.APPROVED) {
+        await checkoutService.reopenAfterReview(screening.payment_id, transaction);
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    // Talk to the provider only after the review is committed
+    if (outcome === PaymentScreeningStatus.REJECTED) {
+      await checkoutService.closeAfterReview(payment_id);
+    }
+
+    return await this.getReview(id);
+  }
+}
+
+export default new PaymentReviewService();
@@ -4,12 +4,39 @@ import {
   userRepository,
   courseRepository,
   enrollmentRepository,
+  refundRepository,
+  paymentStatusHistoryRepository,
+  paymentItemRepository,
+  cartItemRepository,
+  enrollmentCodeRepository,
+  disputeRepository,
+  paymentScreeningRepository,
 } from '../repositories';
-import Payment, { PaymentStatus } from '../models/payment.model';
+import Payment, { PaymentStatus, canTransitionPaymentStatus } from '../models/payment.model';
 import Refund, { RefundStatus } from '../models/refund.model';
+import PaymentStatusHistory, {
+  PaymentStatusChangeSource,
+} from '../models/payment-status-history.model';
+import User from '../models/user.model';
+import EnrollmentCode, { EnrollmentCodeStatus } from '../models/enrollment-code.model';
+import { EnrollmentSource } from '../models/enrollment.model';
+import { TriggeredRule } from '../models/payment-screening.model';
+import { RevenueBreakdownOptions, RevenueBreakdownRow } from '../utils/paymentStatsHelper';
 import { ApiError } from '../utils/api-error';
+import { toDateKey } from '../utils/rate-table';
+import { generateRedeemCode } from '../utils/redeem-code';
 import sequelize from '../config/database';
 import { parsePeriodToDate } from '../utils/date';
+import paymentGateways from '../gateways';
+import couponService, { AppliedCoupon } from './coupon.service';
+import pricingService from './pricing.service';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+import ledgerService from './ledger.service';
+import invoiceService from './invoice.service';
+import refundPolicyService, { RefundEligibility } from './refund-policy.service';
+import taxService, { TaxBreakdown, TaxLocation } from './tax.service';
+import referralService from './referral.service';
+import fraudScreeningService, { ClientContext } from './fraud-screening.service';
 
 interface PaginationOptions {
   page?: number;
@@ -20,9 +47,88 @@ interface PaginationOptions {
   end_date?: Date;
 }
 
+// Who made a status change and why, recorded in the payment's status history
+export interface PaymentStatusChangeContext {
+  changed_by?: string | null;
+  source: PaymentStatusChangeSource;
+  reason?: string;
+  metadata?: any;
+}
+
+export interface PendingPaymentData {
+  user_id: string;
+  // Set for a single course; a bundle's courses are passed as items instead
+  course_id?: string | null;
+  bundle_id?: string | null;
+  items?: PendingPaymentItem[];
+  // Set for a subscription charge, which buys no course
+  subscription_id?: string | null;
+  // Set when the course is bought for someone else
+  gift?: GiftDetails;
+  // Tax charged on the payment; amount is the tax-inclusive total
+  tax?: TaxBreakdown;
+  // Country whose regional price was charged
+  price_country?: string | null;
+  // Price in effect before coupons and tax, and what a running sale left of it
+  list_price?: number | null;
+  sale_price?: number | null;
+  sale_id?: string | null;
+  amount: number;
+  currency: string;
+  payment_method: string;
+  transaction_id?: string;
+  metadata?: any;
+}
+
+interface PendingPaymentItem {
+  course_id: string;
+  bundle_id?: string | null;
+  list_price: number;
+  amount: number;
+  tax_amount?: number;
+}
+
+// Money taken and money given back, in one currency. `net` is what is left of `gross` after
+// refunds and lost disputes.
+export interface RevenueFigures {
+  gross: number;
+  refunded: number;
+  charged_back: number;
+  net: number;
+}
+
+interface RevenueBreakdowns {
+  sales: RevenueBreakdownRow[];
+  refunds: RevenueBreakdownRow[];
+  chargebacks: RevenueBreakdownRow[];
+}
+
+interface RevenueTotals extends RevenueFigures {
+  sales_count: number;
+  refund_count: number;
+  chargeback_count: number;
+}
+
+export interface GiftDetails {
+  recipient_email?: string | null;
+  message?: string | null;
+}
+
+// How long a gift code can be redeemed once its payment completes
+const GIFT_CODE_VALID_DAYS = parseInt(process.env.GIFT_CODE_VALID_DAYS || '365', 10);
+
+const CHARGEBACK_SUSPENSION_REASON = 'Payment charged back after a lost dispute';
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
 class PaymentService {
   /**
-   * Create a new payment
+   * Create a new payment.
+   * The charge comes from the pricing service; the client's amount must match that quote,
+   * including the tax charged where the buyer is billed and the regional price for the
+   * country the request comes from (or the user's profile country).
+   * The payment is screened for fraud first: it is refused, or created but held for review,
+   * when it trips a screening rule.
    */
   async createPayment(
     user_id: string,
@@ -30,8 +136,11 @@ class PaymentService {
     amount: number,
     currency: string,
     payment_method: string,
+    coupon_code?: string,
+    billing: TaxLocation = {},
     transaction_id?: string,
-    metadata?: any
+    metadata?: any,
+    client: ClientContext = {}
   ): Promise<Payment> {
     let transaction: Transaction | null = null;
 
@@ -62,29 +171,52 @@ class PaymentService {
         throw new ApiError(400, 'User is already enrolled in this course');
       }
 
-      // Create payment record using repository
-      const payment = await paymentRepository.create(
+      const country = await pricingService.resolveCountry(client.country, user_id);
+      const { quote, coupon } = await pricingService.priceCourse(
+        course,
+        user_id,
+        { currency, coupon_code, country },
+        transaction
+      );
+      const taxedQuote = await pricingService.applyTax(quote, billing);
+      pricingService.assertAmountMatches(taxedQuote, amount);
+
+      const screening = await fraudScreeningService.screen({
+        user,
+        amount: taxedQuote.amount,
+        currency: quote.currency,
+        billing_country: billing.country,
+        client,
+      });
+
+      if (screening.action === 'block') {
+        throw new ApiError(429, 'Too many payment attempts, please try again later');
+      }
+
+      // Enrollment is only granted once the payment completes
+      let payment = await this.createPendingPayment(
         {
           user_id,
           course_id,
-          amount,
-          currency,
+          amount: taxedQuote.amount,
+          currency: quote.currency,
+          tax: taxedQuote.tax,
+          price_country: quote.price_country,
+          list_price: quote.list_price,
+          sale_price: quote.sale_price,
+          sale_id: quote.sale?.id || null,
           payment_method,
-          status: PaymentStatus.PENDING.toString(),
           transaction_id,
           metadata,
         },
-        { transaction }
+        { changed_by: user_id, source: PaymentStatusChangeSource.USER },
+        transaction,
+        coupon
       );
 
-      // Create enrollment record using repository
-      await enrollmentRepository.create(
-        {
-          user_id,
-          course_id,
-        },
-        { transaction }
-      );
+      if (screening.action === 'hold') {
+        payment = await this.holdForReview(payment, screening.rules, client, transaction);
+      }
 
       // Commit transaction
       await transaction.commit();
@@ -104,6 +236,37 @@ class PaymentService {
     }
   }
 
+  /**
+   * Stop a new payment until an admin reviews it, recording the rules it tripped
+   */
+  async holdForReview(
+    payment: Payment,
+    rules: TriggeredRule[],
+    client: ClientContext,
+    transaction: Transaction
+  ): Promise<Payment> {
+    await paymentScreeningRepository.create(
+      {
+        payment_id: payment.id,
+        user_id: payment.user_id,
+        ip_address: client.ip || null,
+        rules,
+      },
+      { transaction }
+    );
+
+    return await this.transitionStatus(
+      payment.id,
+      PaymentStatus.HELD,
+      {
+        source: PaymentStatusChangeSource.SYSTEM,
+        reason: 'Held for fraud review',
+        metadata: { rules: rules.map(({ rule }) => rule) },
+      },
+      transaction
+    );
+  }
+
   /**
    * Get payment by ID
    */
@@ -155,87 +318,723 @@ class PaymentService {
   /**
    * Update payment status
    */
-  async updatePaymentStatus(id: string, status: string): Promise<Payment> {
-    const updatedPayment = await paymentRepository.updateStatus(id, status);
+  async updatePaymentStatus(
+    id: string,
+    status: string,
+    changed_by: string,
+    reason?: string
+  ): Promise<Payment> {
+    // A chargeback also has to be posted to the ledger, which resolving the dispute does
+    if (status === PaymentStatus.CHARGEBACK.toString()) {
+      throw new ApiError(400, 'Chargebacks are recorded by resolving the dispute as lost');
+    }
 
-    if (!updatedPayment) {
-      throw new ApiError(404, 'Payment not found');
+    // Holds are placed by fraud screening and lifted by reviewing them
+    if (status === PaymentStatus.HELD.toString()) {
+      throw new ApiError(400, 'Payments are only held by fraud screening');
+    }
+
+    const payment = await paymentRepository.findById(id);
+    if (payment && payment.status === PaymentStatus.HELD.toString()) {
+      throw new ApiError(400, 'Held payments are released by approving or rejecting their review');
+    }
+
+    return await this.transitionStatus(id, status as PaymentStatus, {
+      changed_by,
+      source: PaymentStatusChangeSource.ADMIN,
+      reason,
+    });
+  }
+
+  /**
+   * Create a pending payment and record its initial status, redeeming the coupon if one applies.
+   * Items record which courses a multi-course payment buys and how its amount is split.
+   * A gift also gets its code, which becomes redeemable once the payment completes.
+   * The buyer's latest referral click, if any, is recorded as the payment's referral link.
+   */
+  async createPendingPayment(
+    data: PendingPaymentData,
+    context: PaymentStatusChangeContext,
+    transaction: Transaction,
+    coupon?: AppliedCoupon
+  ): Promise<Payment> {
+    const { items = [], gift, tax, ...paymentData } = data;
+
+    // Referral links earn commission on course sales, not on subscription charges
+    const referral_link_id = data.subscription_id
+      ? null
+      : await referralService.findAttribution(
+          data.user_id,
+          data.course_id ? [data.course_id] : items.map(item => item.course_id),
+          transaction
+        );
+
+    const payment = await paymentRepository.create(
+      {
+        ...paymentData,
+        is_gift: !!gift,
+        referral_link_id,
+        net_amount: tax ? tax.net_amount : data.amount,
+        tax_amount: tax ? tax.tax_amount : 0,
+        tax_rate: tax ? tax.rate : 0,
+        tax_inclusive: tax ? tax.inclusive : false,
+        tax_country: tax?.country || null,
+        tax_region: tax?.region || null,
+        coupon_id: coupon?.coupon.id || null,
+        discount_amount: coupon?.discount_amount || 0,
+        status: PaymentStatus.PENDING.toString(),
+      },
+      { transaction }
+    );
+
+    for (const item of items) {
+      await paymentItemRepository.create(
+        {
+          payment_id: payment.id,
+          course_id: item.course_id,
+          bundle_id: item.bundle_id || null,
+          list_price: item.list_price,
+          amount: item.amount,
+          tax_amount: item.tax_amount || 0,
+        },
+        { transaction }
+      );
+    }
+
+    if (gift) {
+      if (!data.course_id) {
+        throw new ApiError(400, 'Only a single course can be bought as a gift');
+      }
+
+      await enrollmentCodeRepository.create(
+        {
+          code: generateRedeemCode(),
+          course_id: data.course_id,
+          payment_id: payment.id,
+          purchased_by: data.user_id,
+          recipient_email: gift.recipient_email || null,
+          message: gift.message || null,
+          status: EnrollmentCodeStatus.PENDING,
+        },
+        { transaction }
+      );
+    }
+
+    if (coupon) {
+      await couponService.redeemCoupon(coupon, data.user_id, payment.id, transaction);
+    }
+
+    await paymentStatusHistoryRepository.create(
+      {
+        payment_id: payment.id,
+        from_status: null,
+        to_status: PaymentStatus.PENDING,
+        changed_by: context.changed_by || null,
+        source: context.source,
+        reason: context.reason || null,
+        metadata: context.metadata,
+      },
+      { transaction }
+    );
+
+    return payment;
+  }
+
+  /**
+   * Move a payment to a new status.
+   * Rejects transitions not allowed by PAYMENT_STATUS_TRANSITIONS, records the change in the
+   * status history and keeps the enrollment in step: granted on completed, revoked on
+   * refunded or failed, suspended on chargeback. Completed payments are posted to the earnings ledger and invoiced.
+   * Referral commissions are created on completion and reversed on refund or chargeback.
+   * Moving to the current status is a no-op.
+   * Runs inside the given transaction, or its own when none is passed.
+   */
+  async transitionStatus(
+    payment_id: string,
+    to: PaymentStatus,
+    context: PaymentStatusChangeContext,
+    outerTransaction?: Transaction,
+    data: { transaction_id?: string } = {}
+  ): Promise<Payment> {
+    return await this.changeStatus(payment_id, to, context, outerTransaction, data, null);
+  }
+
+  /**
+   * Record that the provider captured a payment. It completes even when we had already failed
+   * it, e.g. because its checkout timed out before the capture came through; the coupon it
+   * gave back is taken again. This is the only way out of failed.
+   */
+  async completeCaptured(
+    payment_id: string,
+    context: PaymentStatusChangeContext,
+    outerTransaction?: Transaction,
+    data: { transaction_id?: string } = {}
+  ): Promise<Payment> {
+    return await this.changeStatus(
+      payment_id,
+      PaymentStatus.COMPLETED,
+      context,
+      outerTransaction,
+      data,
+      PaymentStatus.FAILED
+    );
+  }
+
+  /**
+   * Record that the provider reversed a refund: the refund fails, its ledger posting is
+   * reversed, and a payment that is no longer fully refunded goes back to completed (which
+   * restores access). This is the only way out of refunded.
+   */
+  async reverseRefund(
+    refund: Refund,
+    context: PaymentStatusChangeContext,
+    transaction: Transaction
+  ): Promise<void> {
+    await refundRepository.updateStatus(refund.id, RefundStatus.FAILED.toString(), transaction);
+    await ledgerService.reverseRefund(refund, transaction);
+
+    const payment = await paymentRepository.findById(refund.payment_id, { transaction });
+    const refundedTotal = await refundRepository.getRefundedTotal(refund.payment_id, transaction);
+
+    if (
+      payment &&
+      payment.status === PaymentStatus.REFUNDED.toString() &&
+      toCents(refundedTotal) < toCents(payment.amount)
+    ) {
+      await this.changeStatus(
+        payment.id,
+        PaymentStatus.COMPLETED,
+        context,
+        transaction,
+        {},
+        PaymentStatus.REFUNDED
+      );
+    }
+  }
+
+  /**
+   * transitionStatus, also letting a payment in `reopenFrom` go back to completed when the
+   * provider says so (see completeCaptured and reverseRefund)
+   */
+  private async changeStatus(
+    payment_id: string,
+    to: PaymentStatus,
+    context: PaymentStatusChangeContext,
+    outerTransaction: Transaction | undefined,
+    data: { transaction_id?: string },
+    reopenFrom: PaymentStatus | null
+  ): Promise<Payment> {
+    let transaction: Transaction | null = outerTransaction || null;
+    const ownsTransaction = !outerTransaction;
+
+    try {
+      if (!transaction) {
+        transaction = await sequelize.transaction();
+      }
+
+      const payment = await paymentRepository.findById(payment_id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!payment) {
+        throw new ApiError(404, 'Payment not found');
+      }
+
+      const from = payment.status;
+
+      if (from !== to.toString()) {
+        const reopens =
+          reopenFrom !== null && from === reopenFrom.toString() && to === PaymentStatus.COMPLETED;
+
+        if (!canTransitionPaymentStatus(from, to) && !reopens) {
+          throw new ApiError(409, `Payment status cannot change from ${from} to ${to}`);
+        }
+
+        const updated = await paymentRepository.updateStatus(
+          payment.id,
+          from,
+          to.toString(),
+          data,
+          transaction
+        );
+
+        if (!updated) {
+          throw new ApiError(409, 'Payment status was changed by another request');
+        }
+
+        await paymentStatusHistoryRepository.create(
+          {
+            payment_id: payment.id,
+            from_status: from,
+            to_status: to,
+            changed_by: context.changed_by || null,
+            source: context.source,
+            reason: context.reason || null,
+            metadata: context.metadata,
+          },
+          { transaction }
+        );
+
+        await this.syncEnrollment(payment, to, transaction);
+
+        if (to === PaymentStatus.COMPLETED) {
+          await ledgerService.recordSale(payment, transaction);
+          await invoiceService.issueInvoice(payment.id, transaction);
+          await referralService.recordConversion(payment, transaction);
+        }
+
+        if (to === PaymentStatus.REFUNDED || to === PaymentStatus.CHARGEBACK) {
+          await referralService.reverseConversion(payment, transaction);
+        }
+
+        // A failed payment does not use up its coupon
+        if (to === PaymentStatus.FAILED && payment.coupon_id) {
+          await couponService.releaseRedemption(payment.id, transaction);
+        }
+
+        if (from === PaymentStatus.FAILED.toString() && payment.coupon_id) {
+          await couponService.restoreRedemption(payment, transaction);
+        }
+      }
+
+      const result = await paymentRepository.findById(payment.id, { transaction });
+
+      if (ownsTransaction) {
+        await transaction.commit();
+        transaction = null;
+      }
+
+      return result!;
+    } catch (error) {
+      if (ownsTransaction && transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status history of a payment
+   */
+  async getStatusHistory(payment_id: string): Promise<PaymentStatusHistory[]> {
+    return await paymentStatusHistoryRepository.findByPaymentId(payment_id);
+  }
+
+  /**
+   * Grant or revoke course access to match the payment's new status; bought courses also
+   * leave the user's cart. A gift updates its code instead of enrolling the buyer.
+   * Access is kept on refund/failure when another completed payment covers the same course.
+   * A chargeback suspends the enrollment instead, so an admin can reinstate it.
+   */
+  private async syncEnrollment(
+    payment: Payment,
+    status: PaymentStatus,
+    transaction: Transaction
+  ): Promise<void> {
+    if (payment.is_gift) {
+      const giftCode = await enrollmentCodeRepository.findByPaymentId(payment.id, transaction);
+      if (giftCode) {
+        await this.syncGiftCode(payment, giftCode, status, transaction);
+      }
+      return;
+    }
+
+    const course_ids = await this.getPaymentCourseIds(payment, transaction);
+
+    if (status === PaymentStatus.COMPLETED) {
+      for (const course_id of course_ids) {
+        const existing = await enrollmentRepository.findByUserAndCourse(
+          payment.user_id,
+          course_id,
+          { transaction }
+        );
+
+        if (!existing) {
+          await enrollmentRepository.create(
+            { user_id: payment.user_id, course_id, source: EnrollmentSource.PURCHASE },
+            { transaction }
+          );
+        } else if (existing.source === EnrollmentSource.SUBSCRIPTION.toString()) {
+          // Bought outright: access no longer depends on the subscription
+          await existing.update({ source: EnrollmentSource.PURCHASE }, { transaction });
+        }
+      }
+
+      await cartItemRepository.delete(
+        { user_id: payment.user_id, course_id: course_ids },
+        { transaction }
+      );
+      return;
+    }
+
+    if (
+      status === PaymentStatus.REFUNDED ||
+      status === PaymentStatus.FAILED ||
+      status === PaymentStatus.CHARGEBACK
+    ) {
+      for (const course_id of course_ids) {
+        const coveredElsewhere = await paymentRepository.hasOtherCompletedPayment(
+          payment.user_id,
+          course_id,
+          payment.id,
+          transaction
+        );
+
+        // Another completed payment still pays for the course
+        if (coveredElsewhere) {
+          continue;
+        }
+
+        // Free and comp enrollments do not depend on the payment
+        const where = { user_id: payment.user_id, course_id, source: EnrollmentSource.PURCHASE };
+        if (status === PaymentStatus.CHARGEBACK) {
+          await enrollmentRepository.suspend(where, CHARGEBACK_SUSPENSION_REASON, transaction);
+        } else {
+          await enrollmentRepository.delete(where, { transaction });
+        }
+      }
+    }
+  }
+
+  /**
+   * Activate a gift code when its payment completes. When the payment is refunded, fails or
+   * is charged back the code is revoked, and whoever redeemed it loses access (suspended on a
+   * chargeback) unless they paid themselves.
+   */
+  private async syncGiftCode(
+    payment: Payment,
+    giftCode: EnrollmentCode,
+    status: PaymentStatus,
+    transaction: Transaction
+  ): Promise<void> {
+    if (status === PaymentStatus.COMPLETED) {
+      // A code revoked before anyone redeemed it comes back when its failed payment turns out
+      // to have been captured
+      const reactivates =
+        giftCode.status === EnrollmentCodeStatus.REVOKED.toString() && !giftCode.redeemed_by;
+
+      if (giftCode.status === EnrollmentCodeStatus.PENDING.toString() || reactivates) {
+        await enrollmentCodeRepository.updateStatus(
+          giftCode.id,
+          giftCode.status,
+          EnrollmentCodeStatus.ACTIVE,
+          { expires_at: new Date(Date.now() + GIFT_CODE_VALID_DAYS * 24 * 60 * 60 * 1000) },
+          transaction
+        );
+      }
+      return;
+    }
+
+    if (
+      status !== PaymentStatus.REFUNDED &&
+      status !== PaymentStatus.FAILED &&
+      status !== PaymentStatus.CHARGEBACK
+    ) {
+      return;
+    }
+
+    if (giftCode.status === EnrollmentCodeStatus.REVOKED.toString()) {
+      return;
     }
 
-    return updatedPayment;
+    await enrollmentCodeRepository.updateStatus(
+      giftCode.id,
+      giftCode.status,
+      EnrollmentCodeStatus.REVOKED,
+      {},
+      transaction
+    );
+
+    if (giftCode.redeemed_by) {
+      const paidThemselves = await paymentRepository.hasOtherCompletedPayment(
+        giftCode.redeemed_by,
+        giftCode.course_id,
+        payment.id,
+        transaction
+      );
+
+      if (!paidThemselves) {
+        const where = {
+          user_id: giftCode.redeemed_by,
+          course_id: giftCode.course_id,
+          source: EnrollmentSource.CODE,
+        };
+        if (status === PaymentStatus.CHARGEBACK) {
+          await enrollmentRepository.suspend(where, CHARGEBACK_SUSPENSION_REASON, transaction);
+        } else {
+          await enrollmentRepository.delete(where, { transaction });
+        }
+      }
+    }
   }
 
   /**
-   * Process refund for a payment
+   * Courses a payment buys: its course, or the courses of its items
    */
-  async processRefund(payment_id: string, reason: string, amount?: number): Promise<Refund> {
+  private async getPaymentCourseIds(
+    payment: Payment,
+    transaction?: Transaction
+  ): Promise<string[]> {
+    if (payment.course_id) {
+      return [payment.course_id];
+    }
+
+    const items = await paymentItemRepository.findByPaymentId(payment.id, transaction);
+    return items.map(item => item.course_id);
+  }
+
+  /**
+   * Process refund for a payment. The refund policy is enforced unless `enforcePolicy` is
+   * false, e.g. for an admin override or a request already checked when it was made.
+   * The refund is reserved as pending under a lock on the payment before the gateway is
+   * called, so concurrent refunds cannot give back more than was paid.
+   */
+  async processRefund(
+    payment_id: string,
+    reason: string,
+    amount?: number,
+    refunded_by?: string,
+    enforcePolicy: boolean = true
+  ): Promise<Refund> {
+    // Get payment using repository
+    const payment = await paymentRepository.findById(payment_id);
+
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    // The bank decides a disputed payment; refunding it as well would pay the buyer twice
+    if (await disputeRepository.findOpenByPaymentId(payment.id)) {
+      throw new ApiError(400, 'Payment is under dispute and cannot be refunded');
+    }
+
+    if (enforcePolicy) {
+      await refundPolicyService.assertRefundable(payment);
+    }
+
+    const refund = await this.reserveRefund(payment_id, reason, amount);
+
+    // Refund through the provider when the payment was captured by a gateway.
+    // This happens between the transactions so no database locks are held during the call.
+    let refundTransactionId: string | undefined;
+    if (payment.transaction_id && paymentGateways.has(payment.payment_method)) {
+      const gateway = paymentGateways.get(payment.payment_method);
+
+      try {
+        const gatewayRefund = await gateway.refund(
+          payment.transaction_id,
+          Number(refund.amount),
+          payment.currency
+        );
+
+        if (!gatewayRefund.succeeded) {
+          throw new ApiError(402, `Refund failed: ${gatewayRefund.failure_message}`, [
+            { code: gatewayRefund.failure_code },
+          ]);
+        }
+
+        refundTransactionId = gatewayRefund.id;
+      } catch (error) {
+        // Release the reserved amount
+        await refundRepository.updateStatus(refund.id, RefundStatus.FAILED.toString());
+        throw error;
+      }
+
+      // The money has gone out: keep the provider's ID with the refund straight away so it
+      // can still be completed if posting it below fails
+      await refund.update({ transaction_id: refundTransactionId });
+    }
+
     let transaction: Transaction | null = null;
 
     try {
       // Start a transaction
       transaction = await sequelize.transaction();
 
-      // Get payment using repository
-      const payment = await paymentRepository.findById(payment_id, { transaction });
+      await this.completeRefund(
+        refund,
+        {
+          changed_by: refunded_by,
+          source: refunded_by ? PaymentStatusChangeSource.ADMIN : PaymentStatusChangeSource.SYSTEM,
+          reason,
+          metadata: { refund_id: refund.id },
+        },
+        transaction
+      );
+
+      // Commit transaction
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      // Rollback transaction on error if it's still active
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Rollback failed:', rollbackError);
+        }
+      }
+
+      if (!refundTransactionId) {
+        await refundRepository.updateStatus(refund.id, RefundStatus.FAILED.toString());
+        throw error;
+      }
+
+      // Paid out but not posted: the refund stays pending until processPendingRefunds or the
+      // provider's webhook completes it
+      console.error(`Completing refund ${refund.id} failed:`, error);
+      await refund.reload();
+    }
+
+    return refund;
+  }
+
+  /**
+   * Complete a refund the provider has paid out: mark it completed, post it to the ledger and
+   * issue its credit note. Once fully refunded the payment moves to refunded, which also
+   * revokes access; partial refunds leave it completed. Safe to call more than once.
+   */
+  async completeRefund(
+    refund: Refund,
+    context: PaymentStatusChangeContext,
+    transaction: Transaction
+  ): Promise<void> {
+    const payment = await paymentRepository.findById(refund.payment_id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    if (refund.status !== RefundStatus.COMPLETED.toString()) {
+      await refund.update({ status: RefundStatus.COMPLETED.toString() }, { transaction });
+    }
+
+    await ledgerService.recordRefund(refund, transaction);
+    await invoiceService.issueCreditNote(refund, transaction);
+
+    const refunded = await refundRepository.getRefundedTotal(payment.id, transaction);
+    if (
+      payment.status === PaymentStatus.COMPLETED.toString() &&
+      toCents(refunded) >= toCents(payment.amount)
+    ) {
+      await this.transitionStatus(payment.id, PaymentStatus.REFUNDED, context, transaction);
+    }
+  }
+
+  /**
+   * Complete the refunds the provider paid out that could not be posted at the time (see
+   * processRefund). Runs in the background every REFUND_SWEEP_INTERVAL_MINUTES.
+   */
+  async processPendingRefunds(limit: number = 100): Promise<{ completed: number }> {
+    const summary = { completed: 0 };
+
+    for (const refund of await refundRepository.findPaidOutPending(limit)) {
+      let transaction: Transaction | null = null;
+
+      try {
+        transaction = await sequelize.transaction();
+
+        await this.completeRefund(
+          refund,
+          {
+            source: PaymentStatusChangeSource.SYSTEM,
+            reason: 'Refund paid out',
+            metadata: { refund_id: refund.id },
+          },
+          transaction
+        );
+
+        await transaction.commit();
+        transaction = null;
+        summary.completed++;
+      } catch (error) {
+        if (transaction) {
+          try {
+            await transaction.rollback();
+          } catch (rollbackError) {
+            console.error('Rollback failed:', rollbackError);
+          }
+        }
+        console.error(`Completing refund ${refund.id} failed:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Check what is left to refund with the payment locked and reserve the refund as pending.
+   * Without an amount, everything left is refunded.
+   */
+  private async reserveRefund(
+    payment_id: string,
+    reason: string,
+    amount?: number
+  ): Promise<Refund> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const payment = await paymentRepository.findById(payment_id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
 
       if (!payment) {
         throw new ApiError(404, 'Payment not found');
       }
 
+      // Check if payment is already refunded
+      if (payment.status === PaymentStatus.REFUNDED.toString()) {
+        throw new ApiError(400, 'Payment is already refunded');
+      }
+
       // Check if payment is completed
       if (payment.status !== PaymentStatus.COMPLETED.toString()) {
         throw new ApiError(400, 'Only completed payments can be refunded');
       }
 
-      // Check if payment is already refunded
-      if (payment.status === PaymentStatus.REFUNDED.toString()) {
-        throw new ApiError(400, 'Payment is already refunded');
-      }
+      // Earlier refunds, including ones still in flight, reduce what is left to refund
+      const reserved = await refundRepository.getReservedTotals(payment_id, transaction);
+      const refundable = (toCents(payment.amount) - toCents(reserved.amount)) / 100;
 
-      // Set refund amount to full payment amount if not specified
-      const refundAmount = amount || Number(payment.amount);
+      // Set refund amount to the remaining amount if not specified
+      const refundAmount = amount || refundable;
 
       // Check if refund amount is valid
-      if (refundAmount <= 0 || refundAmount > Number(payment.amount)) {
-        throw new ApiError(400, 'Refund amount must be positive and not exceed the payment amount');
+      if (refundAmount <= 0 || toCents(refundAmount) > toCents(refundable)) {
+        throw new ApiError(
+          400,
+          'Refund amount must be positive and not exceed the remaining refundable amount'
+        );
       }
 
-      // Create refund record
+      // The tax given back is in proportion to the payment's
       const refund = await Refund.create(
         {
           payment_id,
           amount: refundAmount,
+          ...taxService.splitRefund(payment, refundAmount, reserved.amount, reserved.tax_amount),
           reason,
-          status: RefundStatus.COMPLETED.toString(),
+          status: RefundStatus.PENDING.toString(),
         },
         { transaction }
       );
 
-      // Update payment status using repository
-      await paymentRepository.updateStatus(
-        payment_id,
-        PaymentStatus.REFUNDED.toString(),
-        transaction
-      );
-
-      // If full refund, remove enrollment using repository
-      if (refundAmount === Number(payment.amount)) {
-        await enrollmentRepository.delete(
-          {
-            user_id: payment.user_id,
-            course_id: payment.course_id,
-          },
-          { transaction }
-        );
-      }
-
-      // Commit transaction
       await transaction.commit();
       transaction = null;
 
       return refund;
     } catch (error) {
-      // Rollback transaction on error if it's still active
       if (transaction) {
         try {
           await transaction.rollback();
@@ -248,11 +1047,15 @@ class PaymentService {
   }
 
   /**
-   * Calculate total revenue from all payments
+   * Calculate gross, refunded and net revenue from all payments, converted to `currency`.
+   * With `netOfTax` the tax collected (and given back) is left out.
    */
-  async getTotalRevenue(): Promise<number> {
-    const stats = await paymentRepository.getPaymentStats();
-    return stats.totalRevenue;
+  async getTotalRevenue(
+    currency: string = BASE_CURRENCY,
+    netOfTax: boolean = false
+  ): Promise<RevenueFigures> {
+    const breakdowns = await this.getRevenueBreakdowns();
+    return this.toFigures(await this.sumBreakdowns(breakdowns, currency, netOfTax));
   }
 
   isPeriodInRange(period: string, startDate: Date, endDate: Date): boolean {
@@ -271,105 +1074,116 @@ class PaymentService {
   }
 
   /**
-   * Calculate revenue by time period
+   * Calculate gross, refunded and net revenue by time period, converted to `currency` at
+   * each day's rate. Sales count in the period they were paid, refunds and lost disputes in
+   * the period the money was given back.
    */
   async getRevenueByTime(
     startDate: Date,
     endDate: Date,
-    period: 'day' | 'week' | 'month' | 'year' = 'day'
-  ): Promise<{ period: string; amount: number }[]> {
-    const results = await paymentRepository.getRevenueByPeriod(period, undefined, 100);
+    period: 'day' | 'week' | 'month' | 'year' = 'day',
+    currency: string = BASE_CURRENCY,
+    netOfTax: boolean = false
+  ): Promise<({ period: string } & RevenueFigures)[]> {
+    const breakdowns = await this.getRevenueBreakdowns({
+      start_date: startDate,
+      end_date: endDate,
+      period,
+    });
+    const totals = await this.totalBreakdowns(breakdowns, row => row.period!, currency, netOfTax);
 
-    // Filter results by date range
-    return results
-      .filter(result => this.isPeriodInRange(result.period, startDate, endDate))
-      .map(result => ({
-        period: result.period,
-        amount: Number(result.revenue),
-      }));
+    return Array.from(totals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, total]) => ({ period, ...this.toFigures(total) }));
   }
 
   /**
-   * Get revenue statistics
+   * Get revenue statistics, converted to `currency`. The average is the net revenue per
+   * sale.
    */
   async getRevenueStatistics(
     startDate?: Date,
     endDate?: Date,
-    instructor_id?: string
-  ): Promise<{
-    total: number;
-    average: number;
-    growth: number;
-    transactions: number;
-  }> {
-    // Get payment statistics using repository
-    const stats = await paymentRepository.getPaymentStats(instructor_id);
-    console.log('Stats', stats);
-
-    // For growth calculation, we would need to implement date range filtering in repository
-    // For now, return basic stats
-    const average = stats.totalPayments > 0 ? stats.totalRevenue / stats.totalPayments : 0;
+    instructor_id?: string,
+    currency: string = BASE_CURRENCY,
+    netOfTax: boolean = false
+  ): Promise<
+    RevenueFigures & {
+      average: number;
+      growth: number;
+      transactions: number;
+      refund_count: number;
+      lost_dispute_count: number;
+    }
+  > {
+    const breakdowns = await this.getRevenueBreakdowns({
+      instructor_id,
+      start_date: startDate,
+      end_date: endDate,
+    });
+    const totals = await this.sumBreakdowns(breakdowns, currency, netOfTax);
+    const transactions = totals.sales_count;
+    const average = transactions > 0 ? Math.round((totals.net / transactions) * 100) / 100 : 0;
 
     return {
-      total: stats.totalRevenue,
-      average: Number(average),
+      ...this.toFigures(totals),
+      average,
       growth: 0, // Would need historical data comparison
-      transactions: stats.totalPayments,
+      transactions,
+      refund_count: totals.refund_count,
+      lost_dispute_count: totals.chargeback_count,
     };
   }
 
   /**
-   * Get instructor revenue
+   * Get instructor gross, refunded and net revenue, converted to `currency`
    */
   async getInstructorRevenue(
     instructor_id: string,
     startDate?: Date,
-    endDate?: Date
-  ): Promise<number> {
-    const stats = await paymentRepository.getPaymentStats(instructor_id);
-    return stats.totalRevenue;
+    endDate?: Date,
+    currency: string = BASE_CURRENCY,
+    netOfTax: boolean = false
+  ): Promise<RevenueFigures> {
+    const breakdowns = await this.getRevenueBreakdowns({
+      instructor_id,
+      start_date: startDate,
+      end_date: endDate,
+    });
+    return this.toFigures(await this.sumBreakdowns(breakdowns, currency, netOfTax));
   }
 
   /**
-   * Get highest revenue courses
+   * Get a course's gross, refunded and net revenue, converted to `currency`. Its share of
+   * bundle and cart payments is included.
+   */
+  async getCourseRevenue(
+    course_id: string,
+    currency: string = BASE_CURRENCY
+  ): Promise<RevenueFigures> {
+    const breakdowns = await this.getRevenueBreakdowns({ course_id });
+    return this.toFigures(await this.sumBreakdowns(breakdowns, currency));
+  }
+
+  /**
+   * Get highest revenue courses, ranked by net revenue converted to `currency`
    */
   async getHighestRevenueCourses(
-    options: PaginationOptions = {}
+    options: PaginationOptions = {},
+    currency: string = BASE_CURRENCY
   ): Promise<{ courses: any[]; total: number; page: number; limit: number }> {
-    const { page = 1, limit = 10, start_date, end_date } = options;
-
-    const results = await paymentRepository.getTopEarningCourses(
-      undefined,
-      limit,
-      start_date,
-      end_date
-    );
-
-    return {
-      courses: results,
-      total: results.length,
-      page,
-      limit,
-    };
+    return await this.rankCoursesByRevenue(undefined, options, currency);
   }
 
   /**
-   * Get instructor's highest revenue courses
+   * Get instructor's highest revenue courses, ranked by net revenue converted to `currency`
    */
   async getInstructorHighestRevenueCourses(
     instructor_id: string,
-    options: PaginationOptions = {}
+    options: PaginationOptions = {},
+    currency: string = BASE_CURRENCY
   ): Promise<{ courses: any[]; total: number; page: number; limit: number }> {
-    const { page = 1, limit = 10 } = options;
-
-    const results = await paymentRepository.getTopEarningCourses(instructor_id, limit);
-
-    return {
-      courses: results,
-      total: results.length,
-      page,
-      limit,
-    };
+    return await this.rankCoursesByRevenue(instructor_id, options, currency);
   }
 
   /**
@@ -379,6 +1193,27 @@ class PaymentService {
     return await paymentRepository.hasUserPaidForCourse(user_id, course_id);
   }
 
+  /**
+   * Check a payment against the refund policy. Visible to the payer, the course instructor
+   * and admins.
+   */
+  async getRefundEligibility(
+    payment_id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<RefundEligibility> {
+    const payment = await this.getPaymentById(payment_id);
+
+    const instructor_id =
+      (payment as any).course?.instructor_id || (payment as any).bundle?.instructor_id;
+
+    if (!isAdmin && payment.user_id !== user_id && instructor_id !== user_id) {
+      throw new ApiError(403, "You don't have permission to view this payment");
+    }
+
+    return await refundPolicyService.evaluate(payment);
+  }
+
   /**
    * Get refundable payments
    */
@@ -396,15 +1231,185 @@ class PaymentService {
   /**
    * Get payment statistics for admin/instructor dashboard
    */
-  async getPaymentStats(instructor_id?: string): Promise<{
+  async getPaymentStats(
+    instructor_id?: string,
+    currency: string = BASE_CURRENCY
+  ): Promise<{
     totalPayments: number;
-    totalRevenue: number;
     successfulPayments: number;
     pendingPayments: number;
     failedPayments: number;
+    refundedPayments: number;
+    chargedBackPayments: number;
     recentPayments: number;
+    totalRevenue: RevenueFigures;
+    recentRevenue: RevenueFigures;
   }> {
-    return await paymentRepository.getPaymentStats(instructor_id);
+    const since = toDateKey(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+
+    const [stats, breakdowns] = await Promise.all([
+      paymentRepository.getPaymentStats(instructor_id),
+      this.getRevenueBreakdowns({ instructor_id }),
+    ]);
+    const recent = (rows: RevenueBreakdownRow[]) => rows.filter(row => row.day >= since);
+
+    return {
+      ...stats,
+      totalRevenue: this.toFigures(await this.sumBreakdowns(breakdowns, currency)),
+      recentRevenue: this.toFigures(
+        await this.sumBreakdowns(
+          {
+            sales: recent(breakdowns.sales),
+            refunds: recent(breakdowns.refunds),
+            chargebacks: recent(breakdowns.chargebacks),
+          },
+          currency
+        )
+      ),
+    };
+  }
+
+  /**
+   * Sales, completed refunds and lost disputes matching the same filters
+   */
+  private async getRevenueBreakdowns(
+    options: RevenueBreakdownOptions = {}
+  ): Promise<RevenueBreakdowns> {
+    const [sales, refunds, chargebacks] = await Promise.all([
+      paymentRepository.getRevenueBreakdown(options),
+      paymentRepository.getRefundBreakdown(options),
+      disputeRepository.getLostBreakdown(options),
+    ]);
+    return { sales, refunds, chargebacks };
+  }
+
+  /**
+   * Gross, refunded and charged back totals per key (period, course...), each row converted
+   * at its day's rate. Amounts are added up in cents so the net comes out exact.
+   */
+  private async totalBreakdowns(
+    breakdowns: RevenueBreakdowns,
+    keyOf: (row: RevenueBreakdownRow) => string,
+    currency: string,
+    netOfTax: boolean = false
+  ): Promise<Map<string, RevenueTotals>> {
+    const rateTable = await currencyService.getRateTable();
+    const totals = new Map<string, RevenueTotals>();
+
+    const add = (
+      rows: RevenueBreakdownRow[],
+      amountField: 'gross' | 'refunded' | 'charged_back',
+      countField: 'sales_count' | 'refund_count' | 'chargeback_count'
+    ) => {
+      for (const row of rows) {
+        const key = keyOf(row);
+        const total = totals.get(key) || this.emptyTotals();
+        const amount = rateTable.convert(
+          this.getRowRevenue(row, netOfTax),
+          row.currency,
+          currency,
+          row.day
+        );
+        total[amountField] += toCents(amount);
+        total[countField] += row.payment_count;
+        totals.set(key, total);
+      }
+    };
+
+    add(breakdowns.sales, 'gross', 'sales_count');
+    add(breakdowns.refunds, 'refunded', 'refund_count');
+    add(breakdowns.chargebacks, 'charged_back', 'chargeback_count');
+
+    for (const total of totals.values()) {
+      total.net = total.gross - total.refunded - total.charged_back;
+      total.gross /= 100;
+      total.refunded /= 100;
+      total.charged_back /= 100;
+      total.net /= 100;
+    }
+
+    return totals;
+  }
+
+  private async sumBreakdowns(
+    breakdowns: RevenueBreakdowns,
+    currency: string,
+    netOfTax: boolean = false
+  ): Promise<RevenueTotals> {
+    const totals = await this.totalBreakdowns(breakdowns, () => 'all', currency, netOfTax);
+    return totals.get('all') || this.emptyTotals();
+  }
+
+  private emptyTotals(): RevenueTotals {
+    return {
+      gross: 0,
+      refunded: 0,
+      charged_back: 0,
+      net: 0,
+      sales_count: 0,
+      refund_count: 0,
+      chargeback_count: 0,
+    };
+  }
+
+  private toFigures(totals: RevenueTotals): RevenueFigures {
+    const { gross, refunded, charged_back, net } = totals;
+    return { gross, refunded, charged_back, net };
+  }
+
+  private getRowRevenue(row: RevenueBreakdownRow, netOfTax: boolean): number {
+    return netOfTax ? (toCents(row.revenue) - toCents(row.tax)) / 100 : row.revenue;
+  }
+
+  /**
+   * Rank courses by converted net revenue. Ranking happens here rather than in SQL because
+   * payments in different currencies cannot be summed before conversion. Refunds and lost
+   * disputes on a payment for several courses are split between them like the sale was.
+   */
+  private async rankCoursesByRevenue(
+    instructor_id: string | undefined,
+    options: PaginationOptions,
+    currency: string
+  ): Promise<{ courses: any[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 10, start_date, end_date } = options;
+
+    const breakdowns = await this.getRevenueBreakdowns({
+      instructor_id,
+      start_date,
+      end_date,
+      by_course: true,
+    });
+    const totals = await this.totalBreakdowns(breakdowns, row => row.course_id!, currency);
+
+    const ranked = Array.from(totals.entries())
+      .sort(([, a], [, b]) => b.net - a.net)
+      .slice((page - 1) * limit, page * limit);
+
+    const courses = await courseRepository.findAll({
+      where: { id: ranked.map(([course_id]) => course_id) },
+      attributes: ['id', 'title', 'thumbnail', 'price'],
+      include: [
+        {
+          model: User,
+          as: 'instructor',
+          attributes: ['id', 'name'],
+          required: false,
+        },
+      ],
+    });
+    const coursesById = new Map(courses.map(course => [course.id, course.get({ plain: true })]));
+
+    return {
+      courses: ranked.map(([course_id, total]) => ({
+        course_id,
+        ...this.toFigures(total),
+        sales_count: total.sales_count,
+        course: coursesById.get(course_id) || null,
+      })),
+      total: totals.size,
+      page,
+      limit,
+    };
   }
 }
 
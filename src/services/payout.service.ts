@@ -0,0 +1,272 @@
+import { Transaction } from 'sequelize';
+import { payoutBatchRepository, payoutRepository, ledgerEntryRepository } from '../repositories';
+import PayoutBatch, { PayoutBatchStatus } from '../models/payout-batch.model';
+import Payout, { PayoutStatus, canTransitionPayoutStatus } from '../models/payout.model';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+import ledgerService from './ledger.service';
+import { BASE_CURRENCY } from './currency.service';
+
+// Balances below this are carried over to the next batch
+const PAYOUT_MINIMUM_AMOUNT = parseFloat(process.env.PAYOUT_MINIMUM_AMOUNT || '10');
+
+interface PayoutStatusUpdate {
+  reference?: string;
+  failure_reason?: string;
+}
+
+class PayoutService {
+  /**
+   * Create the payout batch for a finished month ('YYYY-MM').
+   * Each instructor owed at least PAYOUT_MINIMUM_AMOUNT for sales up to the end of the month
+   * gets a pending payout, and that amount leaves their payable balance until it is settled.
+   */
+  async createBatch(period: string, user_id: string): Promise<PayoutBatch> {
+    const [year, month] = period.split('-').map(part => parseInt(part, 10));
+    const period_start = new Date(Date.UTC(year, month - 1, 1));
+    const period_end = new Date(Date.UTC(year, month, 1) - 1);
+
+    if (period_end >= new Date()) {
+      throw new ApiError(400, 'Payout period has not ended yet');
+    }
+
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const existing = await payoutBatchRepository.findActiveByPeriod(period, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (existing) {
+        throw new ApiError(409, `A payout batch for ${period} already exists`);
+      }
+
+      const balances = (
+        await ledgerEntryRepository.getPayableBalances(period_end, transaction)
+      ).filter(({ balance }) => balance >= PAYOUT_MINIMUM_AMOUNT);
+
+      if (balances.length === 0) {
+        throw new ApiError(
+          400,
+          `No instructor is owed at least ${PAYOUT_MINIMUM_AMOUNT} for ${period}`
+        );
+      }
+
+      const batch = await payoutBatchRepository.create(
+        {
+          period,
+          period_start,
+          period_end,
+          currency: BASE_CURRENCY,
+          created_by: user_id,
+        },
+        { transaction }
+      );
+
+      let totalCents = 0;
+      for (const { instructor_id, balance } of balances) {
+        const payout = await payoutRepository.create(
+          {
+            batch_id: batch.id,
+            instructor_id,
+            amount: balance,
+            currency: BASE_CURRENCY,
+          },
+          { transaction }
+        );
+        await ledgerService.recordPayout(payout, transaction);
+        totalCents += Math.round(balance * 100);
+      }
+
+      await batch.update(
+        { total_amount: totalCents / 100, payout_count: balances.length },
+        { transaction }
+      );
+
+      await transaction.commit();
+      transaction = null;
+
+      return (await payoutBatchRepository.findWithPayouts(batch.id))!;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List payout batches
+   */
+  async getBatches(options: {
+    page?: number;
+    limit?: number;
+    status?: string;
+  }): Promise<{ batches: PayoutBatch[]; total: number; page: number; limit: number }> {
+    return await payoutBatchRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a batch with its payouts
+   */
+  async getBatchById(id: string): Promise<PayoutBatch> {
+    const batch = await payoutBatchRepository.findWithPayouts(id);
+
+    if (!batch) {
+      throw new ApiError(404, 'Payout batch not found');
+    }
+
+    return batch;
+  }
+
+  /**
+   * Record the outcome of a payout. Paid payouts settle; failed ones go back to the
+   * instructor's balance for the next batch. The batch completes once nothing is pending.
+   */
+  async updatePayoutStatus(
+    id: string,
+    status: PayoutStatus,
+    data: PayoutStatusUpdate = {}
+  ): Promise<Payout> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const payout = await payoutRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!payout) {
+        throw new ApiError(404, 'Payout not found');
+      }
+
+      await this.closePayout(payout, status, data, transaction);
+
+      const batch = await payoutBatchRepository.findById(payout.batch_id, { transaction });
+      if (
+        batch &&
+        batch.status === PayoutBatchStatus.PROCESSING.toString() &&
+        (await payoutRepository.countPending(batch.id, transaction)) === 0
+      ) {
+        await batch.update(
+          { status: PayoutBatchStatus.COMPLETED, completed_at: new Date() },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+
+      return payout;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a batch before any of it has been paid, returning every payout to the balances
+   */
+  async cancelBatch(id: string): Promise<PayoutBatch> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const batch = await payoutBatchRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!batch) {
+        throw new ApiError(404, 'Payout batch not found');
+      }
+
+      if (batch.status !== PayoutBatchStatus.PROCESSING.toString()) {
+        throw new ApiError(400, `Cannot cancel a ${batch.status} payout batch`);
+      }
+
+      const payouts = await payoutRepository.findByBatchId(batch.id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (payouts.some(payout => payout.status !== PayoutStatus.PENDING.toString())) {
+        throw new ApiError(400, 'Cannot cancel a payout batch once payouts have been processed');
+      }
+
+      for (const payout of payouts) {
+        await this.closePayout(payout, PayoutStatus.CANCELLED, {}, transaction);
+      }
+
+      await batch.update({ status: PayoutBatchStatus.CANCELLED }, { transaction });
+
+      await transaction.commit();
+      transaction = null;
+
+      return (await payoutBatchRepository.findWithPayouts(batch.id))!;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Payouts made to an instructor
+   */
+  async getInstructorPayouts(
+    instructor_id: string,
+    options: { page?: number; limit?: number; status?: string } = {}
+  ): Promise<{ payouts: Payout[]; total: number; page: number; limit: number }> {
+    return await payoutRepository.findByInstructor(instructor_id, options);
+  }
+
+  private async closePayout(
+    payout: Payout,
+    status: PayoutStatus,
+    data: PayoutStatusUpdate,
+    transaction: Transaction
+  ): Promise<void> {
+    if (!canTransitionPayoutStatus(payout.status, status)) {
+      throw new ApiError(409, `Payout status cannot change from ${payout.status} to ${status}`);
+    }
+
+    await payout.update(
+      {
+        status,
+        reference: data.reference || payout.reference,
+        failure_reason: data.failure_reason || null,
+        paid_at: status === PayoutStatus.PAID ? new Date() : null,
+      },
+      { transaction }
+    );
+
+    if (status === PayoutStatus.PAID) {
+      await ledgerService.recordPayoutPaid(payout, transaction);
+    } else {
+      await ledgerService.recordPayoutReturned(payout, transaction);
+    }
+  }
+}
+
+export default new PayoutService();
@@ -0,0 +1,566 @@
+import { Transaction } from 'sequelize';
+import {
+  courseRepository,
+  coursePriceRepository,
+  regionalPriceRepository,
+  userRepository,
+} from '../repositories';
+import Course from '../models/course.model';
+import Bundle from '../models/bundle.model';
+import CoursePrice from '../models/course-price.model';
+import RegionalPrice from '../models/regional-price.model';
+import sequelize from '../config/database';
+import { ApiError } from '../utils/api-error';
+import couponService, { AppliedCoupon } from './coupon.service';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+import taxService, { TaxBreakdown, TaxLocation } from './tax.service';
+import saleService, { AppliedSale } from './sale.service';
+
+// A change applied on top of the list price; negative amounts are discounts
+export interface PriceAdjustment {
+  type: 'sale' | 'coupon';
+  code?: string;
+  sale_id?: string;
+  amount: number;
+  description?: string;
+}
+
+export interface PriceQuote {
+  course_id: string;
+  currency: string;
+  list_price: number;
+  // Country whose regional price is the list price; null when the base price applies
+  price_country: string | null;
+  // Sale running on the course and what it leaves of the list price, before coupons
+  sale: AppliedSale | null;
+  sale_price: number | null;
+  adjustments: PriceAdjustment[];
+  discount_amount: number;
+  amount: number;
+  // Set once tax has been applied; amount is then what the buyer pays, tax included
+  tax?: TaxBreakdown;
+}
+
+export interface PricedCourse {
+  quote: PriceQuote;
+  coupon?: AppliedCoupon;
+}
+
+// A course's part of a bundle price
+export interface BundleItemQuote {
+  course_id: string;
+  list_price: number;
+  amount: number;
+}
+
+export interface BundleQuote {
+  bundle_id: string;
+  currency: string;
+  // What the courses cost when bought one by one
+  list_price: number;
+  discount_amount: number;
+  amount: number;
+  items: BundleItemQuote[];
+}
+
+// What a buyer sees a course listed at, before coupons and tax
+export interface LocalizedPrice {
+  // The buyer's country, when known
+  country: string | null;
+  currency: string;
+  // Price without any sale
+  original_amount: number;
+  // What the course sells for now: the sale price while a sale runs, else original_amount
+  amount: number;
+  // Whether the course has a regional price for the buyer's country
+  is_regional: boolean;
+  // The running sale; amount goes back to original_amount at its ends_at
+  sale: AppliedSale | null;
+}
+
+interface LocalizeOptions {
+  // Defaults to the regional price's currency, else the base currency
+  currency?: string;
+  // The buyer's country, from resolveCountry
+  country?: string | null;
+}
+
+interface RegionalPriceInput {
+  countries: string[];
+  currency?: string;
+  amount: number;
+}
+
+interface QuoteOptions extends LocalizeOptions {
+  coupon_code?: string;
+  // Where the buyer is billed, for tax
+  billing?: TaxLocation;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+class PricingService {
+  /**
+   * Quote the price of a course for a user before checkout, tax included
+   */
+  async getQuote(
+    course_id: string,
+    user_id: string,
+    options: QuoteOptions = {}
+  ): Promise<PriceQuote> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    if (!course.is_published || !course.is_approved) {
+      throw new ApiError(400, 'Course is not available for purchase');
+    }
+
+    const { quote } = await this.priceCourse(course, user_id, options);
+    return await this.applyTax(quote, options.billing);
+  }
+
+  /**
+   * Add the tax charged in the buyer's location to a quote
+   */
+  async applyTax(quote: PriceQuote, billing: TaxLocation = {}): Promise<PriceQuote> {
+    const tax = await taxService.calculate(quote.amount, billing);
+    return { ...quote, amount: tax.gross_amount, tax };
+  }
+
+  /**
+   * Work out what a user pays for a course.
+   * Pass the payment's transaction so a coupon stays locked until its redemption is recorded.
+   */
+  async priceCourse(
+    course: Course,
+    user_id: string,
+    options: QuoteOptions = {},
+    transaction?: Transaction
+  ): Promise<PricedCourse> {
+    const localized = await this.getLocalizedPrice(course, options);
+    const { currency, original_amount: list_price, sale } = localized;
+    const adjustments: PriceAdjustment[] = [];
+    let coupon: AppliedCoupon | undefined;
+
+    if (sale) {
+      adjustments.push({
+        type: 'sale',
+        sale_id: sale.id,
+        amount: (toCents(localized.amount) - toCents(list_price)) / 100,
+        description: sale.name,
+      });
+    }
+
+    // Coupons take their discount off the sale price
+    if (options.coupon_code) {
+      coupon = await couponService.applyCoupon(
+        options.coupon_code,
+        user_id,
+        course,
+        localized.amount,
+        currency,
+        transaction
+      );
+      adjustments.push({
+        type: 'coupon',
+        code: coupon.coupon.code,
+        amount: -coupon.discount_amount,
+        description: coupon.coupon.description || undefined,
+      });
+    }
+
+    const totalCents = adjustments.reduce(
+      (sum, adjustment) => sum + toCents(adjustment.amount),
+      toCents(list_price)
+    );
+    const amount = Math.max(totalCents, 0) / 100;
+
+    return {
+      quote: {
+        course_id: course.id,
+        currency,
+        list_price,
+        price_country: localized.is_regional ? localized.country : null,
+        sale,
+        sale_price: sale ? localized.amount : null,
+        adjustments,
+        discount_amount: (toCents(list_price) - toCents(amount)) / 100,
+        amount,
+      },
+      coupon,
+    };
+  }
+
+  /**
+   * Work out what a bundle costs in a currency and how that amount is split over its courses.
+   * The bundle price is converted from the base currency at today's rate; each course gets a
+   * share in proportion to its own list price (equal shares when all of them are free).
+   */
+  async priceBundle(bundle: Bundle, courses: Course[], currency?: string): Promise<BundleQuote> {
+    const code = (currency || BASE_CURRENCY).toUpperCase();
+
+    if (code !== BASE_CURRENCY && !(await currencyService.isSupported(code))) {
+      throw new ApiError(400, `Currency ${code} is not supported`);
+    }
+
+    const amount =
+      code === BASE_CURRENCY
+        ? Number(bundle.price)
+        : await currencyService.convert(Number(bundle.price), BASE_CURRENCY, code);
+
+    const listPrices = await Promise.all(courses.map(course => this.getListPrice(course, code)));
+    const listCents = listPrices.map(toCents);
+    const totalListCents = listCents.reduce((sum, cents) => sum + cents, 0);
+    const weights = totalListCents > 0 ? listCents : courses.map(() => 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // Round each share down and give the leftover cents to the last course
+    let allocatedCents = 0;
+    const items = courses.map((course, index) => {
+      const cents =
+        index === courses.length - 1
+          ? toCents(amount) - allocatedCents
+          : Math.floor((toCents(amount) * weights[index]) / totalWeight);
+      allocatedCents += cents;
+      return { course_id: course.id, list_price: listPrices[index], amount: cents / 100 };
+    });
+
+    return {
+      bundle_id: bundle.id,
+      currency: code,
+      list_price: totalListCents / 100,
+      discount_amount: Math.max(totalListCents - toCents(amount), 0) / 100,
+      amount,
+      items,
+    };
+  }
+
+  /**
+   * Get the explicit per-currency prices of a course
+   */
+  async getCoursePrices(
+    course_id: string
+  ): Promise<{ base_currency: string; base_price: number; prices: CoursePrice[] }> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    const prices = await coursePriceRepository.findByCourseId(course_id);
+
+    return { base_currency: BASE_CURRENCY, base_price: Number(course.price), prices };
+  }
+
+  /**
+   * Set the price of a course in a currency other than the base currency
+   */
+  async setCoursePrice(
+    course_id: string,
+    currency: string,
+    amount: number,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<CoursePrice> {
+    const code = currency.toUpperCase();
+    await this.getManagedCourse(course_id, user_id, isAdmin);
+
+    if (code === BASE_CURRENCY) {
+      throw new ApiError(400, `Update the course price to change the ${BASE_CURRENCY} price`);
+    }
+
+    if (!(await currencyService.isSupported(code))) {
+      throw new ApiError(400, `Currency ${code} is not supported`);
+    }
+
+    const existing = await coursePriceRepository.findByCourseAndCurrency(course_id, code);
+    if (existing) {
+      await existing.update({ amount });
+      return existing;
+    }
+
+    return await coursePriceRepository.create({ course_id, currency: code, amount });
+  }
+
+  /**
+   * Remove a per-currency price; the course falls back to the converted base price
+   */
+  async deleteCoursePrice(
+    course_id: string,
+    currency: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<void> {
+    await this.getManagedCourse(course_id, user_id, isAdmin);
+
+    const deleted = await coursePriceRepository.delete({
+      course_id,
+      currency: currency.toUpperCase(),
+    });
+
+    if (!deleted) {
+      throw new ApiError(404, 'Course price not found');
+    }
+  }
+
+  /**
+   * Get the regional prices of a course
+   */
+  async getRegionalPrices(
+    course_id: string
+  ): Promise<{ base_currency: string; base_price: number; prices: RegionalPrice[] }> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    const prices = await regionalPriceRepository.findByCourseId(course_id);
+
+    return { base_currency: BASE_CURRENCY, base_price: Number(course.price), prices };
+  }
+
+  /**
+   * Set the price of a course for buyers in one or more countries (a price tier). Existing
+   * prices for those countries are replaced.
+   */
+  async setRegionalPrices(
+    course_id: string,
+    data: RegionalPriceInput,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<RegionalPrice[]> {
+    await this.getManagedCourse(course_id, user_id, isAdmin);
+
+    const currency = (data.currency || BASE_CURRENCY).toUpperCase();
+    if (!(await currencyService.isSupported(currency))) {
+      throw new ApiError(400, `Currency ${currency} is not supported`);
+    }
+
+    const countries = [...new Set(data.countries.map(country => country.toUpperCase()))];
+    const prices: RegionalPrice[] = [];
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      for (const country_code of countries) {
+        const existing = await regionalPriceRepository.findByCourseAndCountry(
+          course_id,
+          country_code,
+          { transaction }
+        );
+
+        if (existing) {
+          prices.push(
+            await existing.update(
+              { currency, amount: data.amount, created_by: user_id },
+              { transaction }
+            )
+          );
+        } else {
+          prices.push(
+            await regionalPriceRepository.create(
+              { course_id, country_code, currency, amount: data.amount, created_by: user_id },
+              { transaction }
+            )
+          );
+        }
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return prices;
+  }
+
+  /**
+   * Remove the regional price for a country; buyers there fall back to the base price
+   */
+  async deleteRegionalPrice(
+    course_id: string,
+    country: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<void> {
+    await this.getManagedCourse(course_id, user_id, isAdmin);
+
+    const deleted = await regionalPriceRepository.delete({
+      course_id,
+      country_code: country.toUpperCase(),
+    });
+
+    if (!deleted) {
+      throw new ApiError(404, 'Regional price not found');
+    }
+  }
+
+  /**
+   * Country a buyer is priced for: the country the request comes from (`request_country`,
+   * set by the proxy in front of the API), else the country in the user's profile. Null when
+   * neither is known, in which case the base price applies.
+   */
+  async resolveCountry(request_country?: string | null, user_id?: string): Promise<string | null> {
+    const fromRequest = (request_country || '').trim().toUpperCase();
+    if (COUNTRY_PATTERN.test(fromRequest)) {
+      return fromRequest;
+    }
+
+    if (!user_id) {
+      return null;
+    }
+
+    const user = await userRepository.findById(user_id);
+    return user && user.country ? user.country.toUpperCase() : null;
+  }
+
+  /**
+   * What a course is listed at for a buyer: its regional price for the buyer's country
+   * (converted when another currency is asked for), otherwise its list price in the currency,
+   * less the discount of the sale running on it
+   */
+  async getLocalizedPrice(course: Course, options: LocalizeOptions = {}): Promise<LocalizedPrice> {
+    const [regional, sales] = await Promise.all([
+      options.country
+        ? regionalPriceRepository.findByCourseAndCountry(course.id, options.country)
+        : Promise.resolve(null),
+      saleService.findCurrentSales([course]),
+    ]);
+
+    return await this.localize(course, regional, sales.get(course.id) || null, options);
+  }
+
+  /**
+   * Localized prices of several courses by course ID, with one lookup of regional prices and
+   * sales
+   */
+  async getLocalizedPrices(
+    courses: Course[],
+    options: LocalizeOptions = {}
+  ): Promise<Map<string, LocalizedPrice>> {
+    const [regional, sales] = await Promise.all([
+      options.country
+        ? regionalPriceRepository.findByCoursesAndCountry(
+            courses.map(course => course.id),
+            options.country
+          )
+        : Promise.resolve([]),
+      saleService.findCurrentSales(courses),
+    ]);
+
+    const prices = new Map<string, LocalizedPrice>();
+    for (const course of courses) {
+      const price = regional.find(candidate => candidate.course_id === course.id) || null;
+      prices.set(
+        course.id,
+        await this.localize(course, price, sales.get(course.id) || null, options)
+      );
+    }
+
+    return prices;
+  }
+
+  /**
+   * List price of a course in a currency: the explicit course price for that currency if one is
+   * set, otherwise Course.price converted at today's rate
+   */
+  async getListPrice(course: Course, currency: string): Promise<number> {
+    const code = currency.toUpperCase();
+
+    if (code === BASE_CURRENCY) {
+      return Number(course.price);
+    }
+
+    const explicit = await coursePriceRepository.findByCourseAndCurrency(course.id, code);
+    if (explicit) {
+      return Number(explicit.amount);
+    }
+
+    if (!(await currencyService.isSupported(code))) {
+      throw new ApiError(400, `Currency ${code} is not supported`);
+    }
+
+    return await currencyService.convert(Number(course.price), BASE_CURRENCY, code);
+  }
+
+  private async localize(
+    course: Course,
+    regional: RegionalPrice | null,
+    sale: AppliedSale | null,
+    options: LocalizeOptions
+  ): Promise<LocalizedPrice> {
+    const country = options.country ? options.country.toUpperCase() : null;
+    const currency = (options.currency || regional?.currency || BASE_CURRENCY).toUpperCase();
+    let original_amount: number;
+
+    if (!regional) {
+      original_amount = await this.getListPrice(course, currency);
+    } else if (currency === regional.currency) {
+      original_amount = Number(regional.amount);
+    } else {
+      if (!(await currencyService.isSupported(currency))) {
+        throw new ApiError(400, `Currency ${currency} is not supported`);
+      }
+      original_amount = await currencyService.convert(
+        Number(regional.amount),
+        regional.currency,
+        currency
+      );
+    }
+
+    const amount = sale
+      ? Math.round((toCents(original_amount) * (100 - sale.discount_percent)) / 100) / 100
+      : original_amount;
+
+    return {
+      country,
+      currency,
+      original_amount,
+      amount,
+      is_regional: !!regional,
+      sale,
+    };
+  }
+
+  /**
+   * Reject a client-supplied amount that differs from the quote
+   */
+  assertAmountMatches(quote: PriceQuote, amount: number): void {
+    if (toCents(amount) !== toCents(quote.amount)) {
+      throw new ApiError(400, 'Amount does not match the quoted price', [
+        { expected_amount: quote.amount, currency: quote.currency },
+      ]);
+    }
+  }
+
+  private async getManagedCourse(
+    course_id: string,
+    user_id: string,
+    isAdmin: boolean
+  ): Promise<Course> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    if (!isAdmin && course.instructor_id !== user_id) {
+      throw new ApiError(403, 'You can only set prices for your own courses');
+    }
+
+    return course;
+  }
+}
+
+export default new PricingService();
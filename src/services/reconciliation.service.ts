@@ -0,0 +1,365 @@
+import { CreationAttributes, Transaction } from 'sequelize';
+import {
+  reconciliationRunRepository,
+  reconciliationItemRepository,
+  paymentRepository,
+  refundRepository,
+} from '../repositories';
+import ReconciliationRun from '../models/reconciliation-run.model';
+import ReconciliationItem, { ReconciliationIssue } from '../models/reconciliation-item.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import Refund, { RefundStatus } from '../models/refund.model';
+import { ApiError } from '../utils/api-error';
+import { parseCsv } from '../utils/csv';
+import { REVENUE_STATUSES } from '../utils/paymentStatsHelper';
+import sequelize from '../config/database';
+
+interface SettlementFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+interface ImportOptions {
+  period_start: Date;
+  period_end: Date;
+  payment_method?: string;
+}
+
+interface RunFilterOptions {
+  page?: number;
+  limit?: number;
+  payment_method?: string;
+}
+
+interface ItemFilterOptions {
+  page?: number;
+  limit?: number;
+  issue?: string;
+}
+
+// A transaction as the provider settled it. Refunds may come with a negative amount.
+interface SettlementRow {
+  line: number;
+  transaction_id: string;
+  amount: number;
+  currency: string | null;
+}
+
+// One of our payments or refunds, as the settlement file should show it
+interface ExpectedTransaction {
+  transaction_id: string;
+  payment_id: string | null;
+  refund_id: string | null;
+  amount: number;
+  currency: string;
+  // Whether the provider should have settled it, going by our status
+  settleable: boolean;
+}
+
+type ItemData = Omit<CreationAttributes<ReconciliationItem>, 'run_id'>;
+
+const REQUIRED_COLUMNS = ['transaction_id', 'amount'];
+const AMOUNT_PATTERN = /^-?\d+(\.\d{1,2})?$/;
+// Invalid lines listed in the error of a rejected file
+const MAX_REPORTED_ERRORS = 10;
+// Transaction IDs looked up per query
+const LOOKUP_BATCH_SIZE = 500;
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class ReconciliationService {
+  /**
+   * Reconcile a provider settlement file against our payments and refunds. Rows are matched
+   * on `transaction_id`; a row for a payment or refund we never settled (e.g. a failed
+   * payment) is a status mismatch. Each payment or refund of the period (of `payment_method`
+   * only, when given) that is not in the file is missing, each row that is none of ours is an
+   * orphan. The run and everything that did not match are stored.
+   */
+  async importSettlement(
+    file: SettlementFile,
+    created_by: string,
+    options: ImportOptions
+  ): Promise<ReconciliationRun> {
+    if (options.period_end <= options.period_start) {
+      throw new ApiError(400, 'Period end must be after period start');
+    }
+
+    const rows = this.parseSettlement(file.buffer.toString('utf8'));
+    const expected = await this.findExpected(rows.map(row => row.transaction_id));
+
+    const items: ItemData[] = [];
+    let matched_count = 0;
+
+    for (const row of rows) {
+      const transaction = expected.get(row.transaction_id);
+
+      if (!transaction) {
+        items.push({
+          issue: ReconciliationIssue.ORPHAN,
+          transaction_id: row.transaction_id,
+          settled_amount: Math.abs(row.amount),
+          settled_currency: row.currency,
+          line: row.line,
+        });
+        continue;
+      }
+
+      const sameAmount = toCents(Math.abs(row.amount)) === toCents(transaction.amount);
+      const sameCurrency = !row.currency || row.currency === transaction.currency;
+
+      if (transaction.settleable && sameAmount && sameCurrency) {
+        matched_count++;
+        continue;
+      }
+
+      items.push({
+        issue: transaction.settleable
+          ? ReconciliationIssue.AMOUNT_MISMATCH
+          : ReconciliationIssue.STATUS_MISMATCH,
+        transaction_id: row.transaction_id,
+        payment_id: transaction.payment_id,
+        refund_id: transaction.refund_id,
+        expected_amount: transaction.amount,
+        expected_currency: transaction.currency,
+        settled_amount: Math.abs(row.amount),
+        settled_currency: row.currency,
+        line: row.line,
+      });
+    }
+
+    const settled = new Set(rows.map(row => row.transaction_id));
+    const settleable = await this.findSettleable(options);
+
+    for (const transaction of settleable) {
+      if (settled.has(transaction.transaction_id)) {
+        continue;
+      }
+
+      items.push({
+        issue: ReconciliationIssue.MISSING,
+        transaction_id: transaction.transaction_id,
+        payment_id: transaction.payment_id,
+        refund_id: transaction.refund_id,
+        expected_amount: transaction.amount,
+        expected_currency: transaction.currency,
+      });
+    }
+
+    const countIssue = (issue: ReconciliationIssue) =>
+      items.filter(item => item.issue === issue).length;
+
+    let run: ReconciliationRun;
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      run = await reconciliationRunRepository.create(
+        {
+          file_name: file.originalname,
+          payment_method: options.payment_method || null,
+          period_start: options.period_start,
+          period_end: options.period_end,
+          row_count: rows.length,
+          matched_count,
+          missing_count: countIssue(ReconciliationIssue.MISSING),
+          mismatched_count:
+            countIssue(ReconciliationIssue.AMOUNT_MISMATCH) +
+            countIssue(ReconciliationIssue.STATUS_MISMATCH),
+          orphan_count: countIssue(ReconciliationIssue.ORPHAN),
+          created_by,
+        },
+        { transaction }
+      );
+
+      for (const item of items) {
+        await reconciliationItemRepository.create({ ...item, run_id: run.id }, { transaction });
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return (await reconciliationRunRepository.findWithCreator(run.id))!;
+  }
+
+  /**
+   * List reconciliation runs
+   */
+  async getRuns(options: RunFilterOptions = {}): Promise<{
+    runs: ReconciliationRun[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await reconciliationRunRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a run with a page of the transactions that did not match
+   */
+  async getRun(
+    id: string,
+    options: ItemFilterOptions = {}
+  ): Promise<{
+    run: ReconciliationRun;
+    items: ReconciliationItem[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const run = await reconciliationRunRepository.findWithCreator(id);
+
+    if (!run) {
+      throw new ApiError(404, 'Reconciliation run not found');
+    }
+
+    return {
+      run,
+      ...(await reconciliationItemRepository.findByRunId(id, options)),
+    };
+  }
+
+  /**
+   * Read the rows of a settlement file. It needs a header row with at least
+   * `transaction_id` and `amount` columns (`currency` is compared when present, other
+   * columns are ignored). The whole file is rejected when a row is invalid.
+   */
+  private parseSettlement(text: string): SettlementRow[] {
+    const [header, ...records] = parseCsv(text);
+
+    if (!header) {
+      throw new ApiError(400, 'Settlement file is empty');
+    }
+
+    const columns = header.fields.map(name => name.trim().toLowerCase());
+    const missingColumns = REQUIRED_COLUMNS.filter(name => !columns.includes(name));
+
+    if (missingColumns.length > 0) {
+      throw new ApiError(
+        400,
+        `Settlement file is missing the column(s): ${missingColumns.join(', ')}`
+      );
+    }
+
+    const column = (record: string[], name: string): string => {
+      const index = columns.indexOf(name);
+      return index >= 0 && record[index] !== undefined ? record[index].trim() : '';
+    };
+
+    const rows: SettlementRow[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const { line, fields } of records) {
+      const transaction_id = column(fields, 'transaction_id');
+      const amount = column(fields, 'amount');
+      const currency = column(fields, 'currency').toUpperCase();
+
+      if (!transaction_id) {
+        errors.push(`line ${line}: transaction_id is empty`);
+      } else if (seen.has(transaction_id)) {
+        errors.push(`line ${line}: transaction ${transaction_id} appears more than once`);
+      } else if (!AMOUNT_PATTERN.test(amount)) {
+        errors.push(`line ${line}: "${amount}" is not a valid amount`);
+      } else if (currency && !/^[A-Z]{3}$/.test(currency)) {
+        errors.push(`line ${line}: "${currency}" is not a valid currency`);
+      } else {
+        rows.push({ line, transaction_id, amount: parseFloat(amount), currency: currency || null });
+      }
+
+      seen.add(transaction_id);
+    }
+
+    if (errors.length > 0) {
+      const more =
+        errors.length > MAX_REPORTED_ERRORS
+          ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)`
+          : '';
+      throw new ApiError(
+        400,
+        `Invalid settlement file: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${more}`
+      );
+    }
+
+    if (rows.length === 0) {
+      throw new ApiError(400, 'Settlement file has no transactions');
+    }
+
+    return rows;
+  }
+
+  /**
+   * Our payments and refunds with any of the given transaction IDs, by transaction ID
+   */
+  private async findExpected(transaction_ids: string[]): Promise<Map<string, ExpectedTransaction>> {
+    const expected = new Map<string, ExpectedTransaction>();
+
+    for (let i = 0; i < transaction_ids.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = transaction_ids.slice(i, i + LOOKUP_BATCH_SIZE);
+      const [payments, refunds] = await Promise.all([
+        paymentRepository.findByTransactionIds(batch),
+        refundRepository.findByTransactionIds(batch),
+      ]);
+
+      for (const transaction of [
+        ...payments.map(payment => this.fromPayment(payment)),
+        ...refunds.map(refund => this.fromRefund(refund)),
+      ]) {
+        expected.set(transaction.transaction_id, transaction);
+      }
+    }
+
+    return expected;
+  }
+
+  /**
+   * Payments whose money was taken and completed refunds of the run's period
+   */
+  private async findSettleable(options: ImportOptions): Promise<ExpectedTransaction[]> {
+    const { period_start, period_end, payment_method } = options;
+    const [payments, refunds] = await Promise.all([
+      paymentRepository.findSettleable(period_start, period_end, payment_method),
+      refundRepository.findSettleable(period_start, period_end, payment_method),
+    ]);
+
+    return [
+      ...payments.map(payment => this.fromPayment(payment)),
+      ...refunds.map(refund => this.fromRefund(refund)),
+    ];
+  }
+
+  private fromPayment(payment: Payment): ExpectedTransaction {
+    return {
+      transaction_id: payment.transaction_id!,
+      payment_id: payment.id,
+      refund_id: null,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      settleable: REVENUE_STATUSES.includes(payment.status as PaymentStatus),
+    };
+  }
+
+  private fromRefund(refund: Refund): ExpectedTransaction {
+    const payment = refund.get('payment') as Payment;
+    return {
+      transaction_id: refund.transaction_id!,
+      payment_id: refund.payment_id,
+      refund_id: refund.id,
+      amount: Number(refund.amount),
+      currency: payment.currency,
+      settleable: refund.status === RefundStatus.COMPLETED.toString(),
+    };
+  }
+}
+
+export default new ReconciliationService();
@@ -0,0 +1,429 @@
+import { Transaction } from 'sequelize';
+import {
+  referralLinkRepository,
+  referralClickRepository,
+  referralCommissionRepository,
+  courseRepository,
+  paymentItemRepository,
+} from '../repositories';
+import ReferralLink from '../models/referral-link.model';
+import ReferralClick from '../models/referral-click.model';
+import ReferralCommission, { CommissionStatus } from '../models/referral-commission.model';
+import Payment from '../models/payment.model';
+import { ApiError } from '../utils/api-error';
+import { generateReferralCode, normalizeRedeemCode } from '../utils/redeem-code';
+import sequelize from '../config/database';
+import currencyService, { BASE_CURRENCY } from './currency.service';
+import ledgerService from './ledger.service';
+
+// How long after a click a purchase is still credited to the link
+const ATTRIBUTION_DAYS = parseInt(process.env.REFERRAL_ATTRIBUTION_DAYS || '30', 10);
+
+// Commission (percent of the referred sale, tax excluded) when the link sets none. Instructors
+// sharing a link to their own course get the instructor rate.
+const DEFAULT_COMMISSION_PERCENT = parseFloat(process.env.REFERRAL_COMMISSION_PERCENT || '10');
+const INSTRUCTOR_COMMISSION_PERCENT = parseFloat(
+  process.env.INSTRUCTOR_REFERRAL_COMMISSION_PERCENT || '5'
+);
+
+interface CommissionFilterOptions {
+  page?: number;
+  limit?: number;
+  affiliate_id?: string;
+  status?: string;
+  include_buyer?: boolean;
+}
+
+interface CommissionTotals {
+  count: number;
+  amount: number;
+}
+
+export interface ReferralStats {
+  clicks: number;
+  conversions: number;
+  currency: string;
+  commissions: Record<CommissionStatus, CommissionTotals>;
+}
+
+export interface ReferralLinkSummary extends ReferralStats {
+  link: ReferralLink;
+  commission_rate: number;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class ReferralService {
+  /**
+   * Get the user's referral link, for a course when one is given. A user has one link per
+   * course and one general link; asking again returns the existing one.
+   */
+  async createLink(user_id: string, course_id?: string | null): Promise<ReferralLink> {
+    if (course_id) {
+      const course = await courseRepository.findById(course_id);
+      if (!course) {
+        throw new ApiError(404, 'Course not found');
+      }
+      if (!course.is_published || !course.is_approved) {
+        throw new ApiError(400, 'Course is not available for sale');
+      }
+    }
+
+    const existing = await referralLinkRepository.findByUserAndCourse(user_id, course_id || null);
+    if (existing) {
+      return existing;
+    }
+
+    return await referralLinkRepository.create({
+      code: generateReferralCode(),
+      user_id,
+      course_id: course_id || null,
+    });
+  }
+
+  /**
+   * A user's links with their clicks, conversions and commissions
+   */
+  async getLinks(user_id: string): Promise<ReferralLinkSummary[]> {
+    const links = await referralLinkRepository.findByUserId(user_id);
+    const [clicks, totals] = await Promise.all([
+      referralClickRepository.countByLinks(links.map(link => link.id)),
+      referralCommissionRepository.getTotalsByLink(user_id),
+    ]);
+
+    const summaries: ReferralLinkSummary[] = [];
+    for (const link of links) {
+      const rows = totals.filter(row => row.link_id === link.id);
+      summaries.push({
+        link,
+        commission_rate: await this.getCommissionRate(link),
+        ...this.summarize(clicks.get(link.id) || 0, rows),
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Clicks, conversions and commissions over all of a user's links
+   */
+  async getStats(user_id: string): Promise<ReferralStats> {
+    const links = await referralLinkRepository.findByUserId(user_id);
+    const [clicks, totals] = await Promise.all([
+      referralClickRepository.countByLinks(links.map(link => link.id)),
+      referralCommissionRepository.getTotalsByLink(user_id),
+    ]);
+
+    const clickCount = Array.from(clicks.values()).reduce((sum, count) => sum + count, 0);
+    return this.summarize(clickCount, totals);
+  }
+
+  /**
+   * Change a link's commission rate or switch it off (admin). A null rate goes back to the
+   * default. Commissions already earned keep the rate they were calculated with.
+   */
+  async updateLink(
+    id: string,
+    data: { commission_rate?: number | null; is_active?: boolean }
+  ): Promise<ReferralLink> {
+    const link = await referralLinkRepository.findById(id);
+    if (!link) {
+      throw new ApiError(404, 'Referral link not found');
+    }
+
+    await link.update(data);
+    return link;
+  }
+
+  /**
+   * Record a visit through a link. Signed-in visitors are remembered so their purchases
+   * within the attribution window are credited to the link.
+   */
+  async recordClick(
+    code: string,
+    user_id?: string | null
+  ): Promise<{ link: ReferralLink; click: ReferralClick }> {
+    const link = await referralLinkRepository.findByCode(normalizeRedeemCode(code));
+    if (!link || !link.is_active) {
+      throw new ApiError(404, 'Referral link not found');
+    }
+
+    // Following your own link is not a referral
+    const visitor = user_id && user_id !== link.user_id ? user_id : null;
+    const click = await referralClickRepository.create({ link_id: link.id, user_id: visitor });
+
+    return { link, click };
+  }
+
+  /**
+   * The link a purchase of these courses is credited to: the one behind the buyer's latest
+   * click within the attribution window. Links for a single course only count when it is
+   * bought; a user's own links never count.
+   */
+  async findAttribution(
+    user_id: string,
+    course_ids: string[],
+    transaction?: Transaction
+  ): Promise<string | null> {
+    const since = new Date(Date.now() - ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000);
+    const clicks = await referralClickRepository.findRecentByUser(user_id, since, transaction);
+
+    for (const click of clicks) {
+      const link = click.get('link') as ReferralLink;
+      if (link.user_id === user_id) {
+        continue;
+      }
+      if (!link.course_id || course_ids.includes(link.course_id)) {
+        return link.id;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create the pending commission of a completed payment that came through a referral link.
+   * A commission reversed by a refund that was itself undone is reopened for review.
+   */
+  async recordConversion(payment: Payment, transaction: Transaction): Promise<void> {
+    if (!payment.referral_link_id) {
+      return;
+    }
+
+    const existing = await referralCommissionRepository.findByPaymentId(payment.id, transaction);
+    if (existing) {
+      if (existing.status === CommissionStatus.REVERSED.toString()) {
+        await referralCommissionRepository.updateStatus(
+          existing.id,
+          CommissionStatus.REVERSED,
+          CommissionStatus.PENDING,
+          { reviewed_by: null, reviewed_at: null },
+          transaction
+        );
+      }
+      return;
+    }
+
+    const link = await referralLinkRepository.findById(payment.referral_link_id, { transaction });
+    if (!link) {
+      return;
+    }
+
+    const referred = await this.getReferredAmount(payment, link, transaction);
+    const sale_amount = await currencyService.convert(
+      referred,
+      payment.currency,
+      BASE_CURRENCY,
+      payment.created_at
+    );
+    const rate = await this.getCommissionRate(link, transaction);
+    const amountCents = Math.round((toCents(sale_amount) * rate) / 100);
+
+    if (amountCents <= 0) {
+      return;
+    }
+
+    await referralCommissionRepository.create(
+      {
+        link_id: link.id,
+        affiliate_id: link.user_id,
+        payment_id: payment.id,
+        referred_user_id: payment.user_id,
+        sale_amount,
+        rate,
+        amount: amountCents / 100,
+        currency: BASE_CURRENCY,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * Reverse the commission of a refunded payment. One already approved is taken back from
+   * the affiliate's balance.
+   */
+  async reverseConversion(payment: Payment, transaction: Transaction): Promise<void> {
+    const commission = await referralCommissionRepository.findByPaymentId(payment.id, transaction);
+    if (!commission) {
+      return;
+    }
+
+    const from = commission.status;
+    if (
+      from !== CommissionStatus.PENDING.toString() &&
+      from !== CommissionStatus.APPROVED.toString()
+    ) {
+      return;
+    }
+
+    const reversed = await referralCommissionRepository.updateStatus(
+      commission.id,
+      from,
+      CommissionStatus.REVERSED,
+      {},
+      transaction
+    );
+
+    if (reversed && from === CommissionStatus.APPROVED.toString()) {
+      await ledgerService.reverseCommission(commission, transaction);
+    }
+  }
+
+  /**
+   * List commissions
+   */
+  async getCommissions(options: CommissionFilterOptions): Promise<{
+    commissions: ReferralCommission[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return await referralCommissionRepository.findWithFilter(options);
+  }
+
+  /**
+   * Approve a pending commission (admin): it is credited to the affiliate's balance and paid
+   * with their next payout
+   */
+  async approveCommission(
+    id: string,
+    admin_id: string,
+    note?: string
+  ): Promise<ReferralCommission> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const commission = await this.getPendingCommission(id, transaction);
+      await this.review(commission, CommissionStatus.APPROVED, admin_id, note, transaction);
+      await ledgerService.recordCommission(commission, transaction);
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return (await referralCommissionRepository.findById(id))!;
+  }
+
+  /**
+   * Reject a pending commission (admin)
+   */
+  async rejectCommission(id: string, admin_id: string, note?: string): Promise<ReferralCommission> {
+    const commission = await this.getPendingCommission(id);
+    await this.review(commission, CommissionStatus.REJECTED, admin_id, note);
+
+    return (await referralCommissionRepository.findById(id))!;
+  }
+
+  private async getPendingCommission(
+    id: string,
+    transaction?: Transaction
+  ): Promise<ReferralCommission> {
+    const commission = await referralCommissionRepository.findById(id, { transaction });
+    if (!commission) {
+      throw new ApiError(404, 'Commission not found');
+    }
+
+    if (commission.status !== CommissionStatus.PENDING.toString()) {
+      throw new ApiError(400, `Commission is already ${commission.status}`);
+    }
+
+    return commission;
+  }
+
+  private async review(
+    commission: ReferralCommission,
+    to: CommissionStatus,
+    admin_id: string,
+    note?: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const updated = await referralCommissionRepository.updateStatus(
+      commission.id,
+      CommissionStatus.PENDING,
+      to,
+      { reviewed_by: admin_id, reviewed_at: new Date(), note: note || null },
+      transaction
+    );
+
+    if (!updated) {
+      throw new ApiError(409, 'Commission was changed by another request');
+    }
+  }
+
+  /**
+   * Commission rate (percent) of a link: its own rate, else the instructor rate for a link to
+   * the owner's own course, else the default rate
+   */
+  private async getCommissionRate(link: ReferralLink, transaction?: Transaction): Promise<number> {
+    if (link.commission_rate !== null && link.commission_rate !== undefined) {
+      return Number(link.commission_rate);
+    }
+
+    if (link.course_id) {
+      const course = await courseRepository.findById(link.course_id, { transaction });
+      if (course && course.instructor_id === link.user_id) {
+        return INSTRUCTOR_COMMISSION_PERCENT;
+      }
+    }
+
+    return DEFAULT_COMMISSION_PERCENT;
+  }
+
+  /**
+   * The part of a payment credited to a link, without tax and in the payment's currency:
+   * the whole payment for a general link, else what was paid for the link's course
+   */
+  private async getReferredAmount(
+    payment: Payment,
+    link: ReferralLink,
+    transaction: Transaction
+  ): Promise<number> {
+    const netAmount = Number(payment.net_amount ?? payment.amount);
+
+    if (!link.course_id || payment.course_id === link.course_id) {
+      return netAmount;
+    }
+
+    const items = await paymentItemRepository.findByPaymentId(payment.id, transaction);
+    const cents = items
+      .filter(item => item.course_id === link.course_id)
+      .reduce((sum, item) => sum + toCents(item.amount) - toCents(item.tax_amount || 0), 0);
+
+    return cents / 100;
+  }
+
+  private summarize(
+    clicks: number,
+    rows: { status: string; count: number; amount: number }[]
+  ): ReferralStats {
+    const commissions = {} as Record<CommissionStatus, CommissionTotals>;
+
+    for (const status of Object.values(CommissionStatus)) {
+      const matching = rows.filter(row => row.status === status.toString());
+      commissions[status] = {
+        count: matching.reduce((sum, row) => sum + row.count, 0),
+        amount: matching.reduce((sum, row) => sum + toCents(row.amount), 0) / 100,
+      };
+    }
+
+    return {
+      clicks,
+      conversions: rows.reduce((sum, row) => sum + row.count, 0),
+      currency: BASE_CURRENCY,
+      commissions,
+    };
+  }
+}
+
+export default new ReferralService();
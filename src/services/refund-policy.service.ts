@@ -0,0 +1,309 @@
+import {
+  refundPolicyRepository,
+  refundRepository,
+  courseRepository,
+  paymentStatusHistoryRepository,
+  paymentItemRepository,
+  enrollmentCodeRepository,
+} from '../repositories';
+import RefundPolicy from '../models/refund-policy.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import { ApiError } from '../utils/api-error';
+import lessonService from './lesson.service';
+
+// Refund window used when neither the course nor the platform has a refund policy
+const REFUND_WINDOW_DAYS = parseInt(process.env.REFUND_WINDOW_DAYS || '30', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RefundPolicyInput {
+  course_id?: string | null;
+  name: string;
+  max_days_since_purchase?: number | null;
+  max_progress_percent?: number | null;
+  is_active?: boolean;
+}
+
+interface RefundPolicyFilterOptions {
+  page?: number;
+  limit?: number;
+  course_id?: string | null;
+  is_active?: boolean;
+}
+
+// The limits of a stored policy, or of the built-in window (which has no id)
+type PolicyRule = Pick<
+  RefundPolicy,
+  'name' | 'max_days_since_purchase' | 'max_progress_percent'
+> & {
+  id: string | null;
+};
+
+// Outcome of one policy rule for a payment
+export interface RefundRuleResult {
+  policy_id: string | null;
+  name: string;
+  max_days_since_purchase: number | null;
+  max_progress_percent: number | null;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface RefundEligibility {
+  payment_id: string;
+  // Null for a payment that bought several courses (e.g. a bundle)
+  course_id: string | null;
+  eligible: boolean;
+  // Which policies were applied: the course's own, the platform's, or the built-in window
+  policy_scope: 'course' | 'global' | 'default';
+  purchased_at: Date;
+  days_since_purchase: number;
+  progress_percent: number;
+  refundable_amount: number;
+  currency: string;
+  rules: RefundRuleResult[];
+  reasons: string[];
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class RefundPolicyService {
+  /**
+   * Create a refund policy for a course, or a global one when no course is given
+   */
+  async createPolicy(data: RefundPolicyInput, user_id: string): Promise<RefundPolicy> {
+    const course_id = await this.resolveCourse(data.course_id);
+
+    return await refundPolicyRepository.create({
+      ...data,
+      course_id,
+      created_by: user_id,
+    });
+  }
+
+  /**
+   * List refund policies
+   */
+  async getPolicies(
+    options: RefundPolicyFilterOptions
+  ): Promise<{ policies: RefundPolicy[]; total: number; page: number; limit: number }> {
+    return await refundPolicyRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a refund policy
+   */
+  async getPolicyById(id: string): Promise<RefundPolicy> {
+    const policy = await refundPolicyRepository.findById(id);
+
+    if (!policy) {
+      throw new ApiError(404, 'Refund policy not found');
+    }
+
+    return policy;
+  }
+
+  /**
+   * Update a refund policy
+   */
+  async updatePolicy(id: string, data: Partial<RefundPolicyInput>): Promise<RefundPolicy> {
+    const policy = await this.getPolicyById(id);
+    const updates: Partial<RefundPolicyInput> = { ...data };
+
+    if (data.course_id !== undefined) {
+      updates.course_id = await this.resolveCourse(data.course_id);
+    }
+
+    await policy.update(updates);
+    return policy;
+  }
+
+  /**
+   * Delete a refund policy
+   */
+  async deletePolicy(id: string): Promise<void> {
+    await this.getPolicyById(id);
+    await refundPolicyRepository.deleteById(id);
+  }
+
+  /**
+   * Decide whether a payment can be refunded and explain why.
+   * The course's active policies apply if it has any, otherwise the global ones, otherwise a
+   * plain REFUND_WINDOW_DAYS window. The payment is refundable when it meets any one policy.
+   * A payment for several courses skips course policies and is judged by its most
+   * completed course.
+   */
+  async evaluate(payment: Payment): Promise<RefundEligibility> {
+    const [purchased_at, progress_percent, refunded, { scope, policies }] = await Promise.all([
+      this.getPurchaseDate(payment),
+      this.getProgressPercent(payment),
+      refundRepository.getRefundedTotal(payment.id),
+      this.getApplicablePolicies(payment.course_id),
+    ]);
+
+    const days_since_purchase = Math.floor((Date.now() - purchased_at.getTime()) / DAY_MS);
+    const refundable_amount = Math.max(toCents(payment.amount) - toCents(refunded), 0) / 100;
+
+    const rules = policies.map(policy =>
+      this.evaluateRule(policy, days_since_purchase, progress_percent)
+    );
+
+    const reasons: string[] = [];
+
+    if (payment.status !== PaymentStatus.COMPLETED.toString()) {
+      reasons.push(`Payment is ${payment.status}; only completed payments can be refunded`);
+    } else if (refundable_amount <= 0) {
+      reasons.push('Payment has already been fully refunded');
+    }
+
+    const matched = rules.find(rule => rule.eligible);
+    if (!matched) {
+      rules.forEach(rule => reasons.push(...rule.reasons));
+    }
+
+    const eligible = reasons.length === 0;
+    if (eligible && matched) {
+      reasons.push(`Meets refund policy "${matched.name}"`);
+    }
+
+    return {
+      payment_id: payment.id,
+      course_id: payment.course_id,
+      eligible,
+      policy_scope: scope,
+      purchased_at,
+      days_since_purchase,
+      progress_percent,
+      refundable_amount,
+      currency: payment.currency,
+      rules,
+      reasons,
+    };
+  }
+
+  /**
+   * Throw a 400 explaining the policy when a payment is not refundable
+   */
+  async assertRefundable(payment: Payment): Promise<RefundEligibility> {
+    const eligibility = await this.evaluate(payment);
+
+    if (!eligibility.eligible) {
+      throw new ApiError(
+        400,
+        `Payment is not eligible for a refund: ${eligibility.reasons.join('; ')}`,
+        [eligibility]
+      );
+    }
+
+    return eligibility;
+  }
+
+  private async getProgressPercent(payment: Payment): Promise<number> {
+    // A gift is measured by the progress of whoever redeemed it
+    if (payment.is_gift && payment.course_id) {
+      const giftCode = await enrollmentCodeRepository.findByPaymentId(payment.id);
+      return giftCode?.redeemed_by
+        ? await lessonService.getCourseCompletionPercentage(payment.course_id, giftCode.redeemed_by)
+        : 0;
+    }
+
+    if (payment.course_id) {
+      return await lessonService.getCourseCompletionPercentage(payment.course_id, payment.user_id);
+    }
+
+    const items = await paymentItemRepository.findByPaymentId(payment.id);
+    const percents = await Promise.all(
+      items.map(item =>
+        lessonService.getCourseCompletionPercentage(item.course_id, payment.user_id)
+      )
+    );
+    return Math.max(0, ...percents);
+  }
+
+  private async getApplicablePolicies(course_id: string | null): Promise<{
+    scope: RefundEligibility['policy_scope'];
+    policies: PolicyRule[];
+  }> {
+    const coursePolicies = course_id
+      ? await refundPolicyRepository.findActiveByCourse(course_id)
+      : [];
+    if (coursePolicies.length > 0) {
+      return { scope: 'course', policies: coursePolicies };
+    }
+
+    const globalPolicies = await refundPolicyRepository.findActiveByCourse(null);
+    if (globalPolicies.length > 0) {
+      return { scope: 'global', policies: globalPolicies };
+    }
+
+    return {
+      scope: 'default',
+      policies: [
+        {
+          id: null,
+          name: `Within ${REFUND_WINDOW_DAYS} days of purchase`,
+          max_days_since_purchase: REFUND_WINDOW_DAYS,
+          max_progress_percent: null,
+        },
+      ],
+    };
+  }
+
+  private evaluateRule(
+    policy: PolicyRule,
+    days_since_purchase: number,
+    progress_percent: number
+  ): RefundRuleResult {
+    const max_days = policy.max_days_since_purchase;
+    const max_progress =
+      policy.max_progress_percent === null ? null : Number(policy.max_progress_percent);
+    const reasons: string[] = [];
+
+    if (max_days !== null && days_since_purchase > max_days) {
+      reasons.push(
+        `Purchased ${days_since_purchase} days ago; "${policy.name}" allows refunds within ${max_days} days`
+      );
+    }
+
+    if (max_progress !== null && progress_percent > max_progress) {
+      reasons.push(
+        `${progress_percent}% of the course completed; "${policy.name}" allows refunds up to ${max_progress}%`
+      );
+    }
+
+    return {
+      policy_id: policy.id,
+      name: policy.name,
+      max_days_since_purchase: max_days,
+      max_progress_percent: max_progress,
+      eligible: reasons.length === 0,
+      reasons,
+    };
+  }
+
+  /**
+   * When the payment completed, falling back to when it was created
+   */
+  private async getPurchaseDate(payment: Payment): Promise<Date> {
+    const completed = await paymentStatusHistoryRepository.findLatestTransition(
+      payment.id,
+      PaymentStatus.COMPLETED
+    );
+
+    return new Date(completed ? completed.created_at : payment.created_at);
+  }
+
+  private async resolveCourse(course_id?: string | null): Promise<string | null> {
+    if (!course_id) {
+      return null;
+    }
+
+    if (!(await courseRepository.findById(course_id))) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    return course_id;
+  }
+}
+
+export default new RefundPolicyService();
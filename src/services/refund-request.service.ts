@@ -0,0 +1,259 @@
+import { paymentRepository, refundRepository, refundRequestRepository } from '../repositories';
+import RefundRequest, {
+  RefundRequestStatus,
+  canTransitionRefundRequestStatus,
+} from '../models/refund-request.model';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import { ApiError } from '../utils/api-error';
+import { isPaymentInstructor } from '../utils/payment-instructor';
+import paymentService from './payment.service';
+import refundPolicyService from './refund-policy.service';
+
+interface RefundRequestInput {
+  payment_id: string;
+  amount?: number;
+  reason: string;
+}
+
+interface RefundRequestFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  payment_id?: string;
+}
+
+interface ReviewInput {
+  status: RefundRequestStatus.APPROVED | RefundRequestStatus.REJECTED;
+  reviewer_note?: string;
+  // Approve a smaller amount than was requested
+  amount?: number;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class RefundRequestService {
+  /**
+   * Ask for a refund of a completed payment. Without an amount the whole remaining
+   * (not yet refunded) amount is requested. A payment can only have one open request.
+   */
+  async createRequest(data: RefundRequestInput, user_id: string): Promise<RefundRequest> {
+    const payment = await paymentRepository.findById(data.payment_id);
+
+    if (!payment) {
+      throw new ApiError(404, 'Payment not found');
+    }
+
+    if (payment.user_id !== user_id) {
+      throw new ApiError(403, 'You can only request refunds for your own payments');
+    }
+
+    if (payment.status !== PaymentStatus.COMPLETED.toString()) {
+      throw new ApiError(400, 'Only completed payments can be refunded');
+    }
+
+    if (await refundRequestRepository.findOpenByPaymentId(payment.id)) {
+      throw new ApiError(409, 'A refund request for this payment is already open');
+    }
+
+    // Eligibility is judged when the student asks, not when the request is reviewed
+    await refundPolicyService.assertRefundable(payment);
+
+    const refundable = await this.getRefundableAmount(payment.id, Number(payment.amount));
+    const amount = data.amount !== undefined ? data.amount : refundable;
+
+    if (toCents(amount) <= 0 || toCents(amount) > toCents(refundable)) {
+      throw new ApiError(
+        400,
+        'Refund amount must be positive and not exceed the refundable amount',
+        [{ refundable_amount: refundable, currency: payment.currency }]
+      );
+    }
+
+    return await refundRequestRepository.create({
+      payment_id: payment.id,
+      user_id,
+      amount,
+      reason: data.reason,
+    });
+  }
+
+  /**
+   * List refund requests. Admins see all of them, instructors see requests on their courses
+   * as well as their own, students only their own.
+   */
+  async getRequests(
+    options: RefundRequestFilterOptions,
+    user_id: string,
+    isAdmin: boolean = false,
+    isInstructor: boolean = false
+  ): Promise<{ requests: RefundRequest[]; total: number; page: number; limit: number }> {
+    return await refundRequestRepository.findWithFilter({
+      ...options,
+      user_id: isAdmin ? undefined : user_id,
+      instructor_id: !isAdmin && isInstructor ? user_id : undefined,
+    });
+  }
+
+  /**
+   * Get a request visible to the user: the requester, the instructor of what was bought or an
+   * admin
+   */
+  async getRequestById(
+    id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<RefundRequest> {
+    const request = await refundRequestRepository.findWithDetails(id);
+
+    if (!request) {
+      throw new ApiError(404, 'Refund request not found');
+    }
+
+    if (!isAdmin && request.user_id !== user_id && !this.isCourseInstructor(request, user_id)) {
+      throw new ApiError(403, "You don't have permission to view this refund request");
+    }
+
+    return request;
+  }
+
+  /**
+   * Withdraw a request that has not been reviewed yet
+   */
+  async cancelRequest(id: string, user_id: string): Promise<RefundRequest> {
+    const request = await refundRequestRepository.findById(id);
+
+    if (!request) {
+      throw new ApiError(404, 'Refund request not found');
+    }
+
+    if (request.user_id !== user_id) {
+      throw new ApiError(403, 'You can only cancel your own refund requests');
+    }
+
+    await this.changeStatus(request, RefundRequestStatus.CANCELLED);
+
+    return (await refundRequestRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * Approve or reject a request. Only the course instructor or an admin can review.
+   * An approved request is refunded straight away; if the refund fails the request stays
+   * approved and can be processed again.
+   */
+  async reviewRequest(
+    id: string,
+    data: ReviewInput,
+    reviewer_id: string,
+    isAdmin: boolean = false
+  ): Promise<RefundRequest> {
+    const request = await refundRequestRepository.findWithDetails(id);
+
+    if (!request) {
+      throw new ApiError(404, 'Refund request not found');
+    }
+
+    if (!isAdmin && !this.isCourseInstructor(request, reviewer_id)) {
+      throw new ApiError(403, 'Only the course instructor or an admin can review this request');
+    }
+
+    const amount = data.amount !== undefined ? data.amount : Number(request.amount);
+    if (
+      data.status === RefundRequestStatus.APPROVED &&
+      (toCents(amount) <= 0 || toCents(amount) > toCents(request.amount))
+    ) {
+      throw new ApiError(
+        400,
+        'Approved amount must be positive and not exceed the requested amount'
+      );
+    }
+
+    await this.changeStatus(request, data.status, {
+      reviewer_id,
+      reviewer_note: data.reviewer_note || null,
+      reviewed_at: new Date(),
+      amount,
+    });
+
+    if (data.status === RefundRequestStatus.APPROVED) {
+      return await this.processRequest(id, reviewer_id);
+    }
+
+    return (await refundRequestRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * Refund an approved request. The request is claimed before the refund is made so two
+   * calls cannot refund it twice.
+   */
+  async processRequest(id: string, processed_by: string): Promise<RefundRequest> {
+    const request = await refundRequestRepository.findById(id);
+
+    if (!request) {
+      throw new ApiError(404, 'Refund request not found');
+    }
+
+    await this.changeStatus(request, RefundRequestStatus.PROCESSED, { processed_at: new Date() });
+
+    try {
+      const refund = await paymentService.processRefund(
+        request.payment_id,
+        request.reason,
+        Number(request.amount),
+        processed_by,
+        false
+      );
+
+      await refundRequestRepository.update({ refund_id: refund.id }, { id: request.id });
+    } catch (error) {
+      // Nothing was paid out (a refund paid out but not yet posted is returned as pending),
+      // so give the request back so it can be retried
+      await refundRequestRepository.updateStatus(
+        request.id,
+        RefundRequestStatus.PROCESSED,
+        RefundRequestStatus.APPROVED,
+        { processed_at: null }
+      );
+      throw error;
+    }
+
+    return (await refundRequestRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * What is left to refund on a payment after completed refunds
+   */
+  async getRefundableAmount(payment_id: string, paymentAmount: number): Promise<number> {
+    const refunded = await refundRepository.getRefundedTotal(payment_id);
+    return Math.max(toCents(paymentAmount) - toCents(refunded), 0) / 100;
+  }
+
+  private async changeStatus(
+    request: RefundRequest,
+    to: RefundRequestStatus,
+    data: Parameters<typeof refundRequestRepository.updateStatus>[3] = {}
+  ): Promise<void> {
+    if (!canTransitionRefundRequestStatus(request.status, to)) {
+      throw new ApiError(409, `Refund request cannot change from ${request.status} to ${to}`);
+    }
+
+    const updated = await refundRequestRepository.updateStatus(
+      request.id,
+      request.status,
+      to,
+      data
+    );
+
+    if (!updated) {
+      throw new ApiError(409, 'Refund request was changed by another request');
+    }
+  }
+
+  /**
+   * Whether the user teaches what the request's payment bought
+   */
+  private isCourseInstructor(request: RefundRequest, user_id: string): boolean {
+    return isPaymentInstructor(request.get('payment') as Payment | null, user_id);
+  }
+}
+
+export default new RefundRequestService();
@@ -0,0 +1,434 @@
+import { Op, Transaction } from 'sequelize';
+import {
+  saleRepository,
+  priceHistoryRepository,
+  courseRepository,
+  categoryRepository,
+  courseCategoryRepository,
+  userRepository,
+} from '../repositories';
+import Sale, { SaleScope, SaleStatus } from '../models/sale.model';
+import Course from '../models/course.model';
+import PriceHistory, { PriceChangeReason } from '../models/price-history.model';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+
+interface SaleInput {
+  name: string;
+  scope: string;
+  scope_id?: string | null;
+  discount_percent: number;
+  starts_at: Date;
+  ends_at: Date;
+}
+
+interface SaleFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  scope?: string;
+  scope_id?: string;
+}
+
+interface HistoryFilterOptions {
+  page?: number;
+  limit?: number;
+}
+
+// A sale as it applies to a course's price
+export interface AppliedSale {
+  id: string;
+  name: string;
+  discount_percent: number;
+  ends_at: Date;
+}
+
+export interface SaleSweepSummary {
+  activated: number;
+  ended: number;
+}
+
+class SaleService {
+  /**
+   * Schedule a sale. Instructors can only put their own courses on sale; category sales are
+   * for admins. A sale whose window has already started is activated straight away.
+   */
+  async createSale(data: SaleInput, user_id: string, isAdmin: boolean = false): Promise<Sale> {
+    const scope_id = await this.resolveScope(data.scope, data.scope_id, user_id, isAdmin);
+    this.validateWindow(data.starts_at, data.ends_at);
+
+    const sale = await saleRepository.create({
+      name: data.name,
+      scope: data.scope,
+      scope_id,
+      discount_percent: data.discount_percent,
+      starts_at: data.starts_at,
+      ends_at: data.ends_at,
+      created_by: user_id,
+    });
+
+    if (new Date(sale.starts_at) <= new Date()) {
+      await this.startSale(sale);
+      await sale.reload();
+    }
+
+    return sale;
+  }
+
+  /**
+   * List sales. Instructors only see the sales they created.
+   */
+  async getSales(
+    options: SaleFilterOptions,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<{ sales: Sale[]; total: number; page: number; limit: number }> {
+    return await saleRepository.findWithFilter({
+      ...options,
+      created_by: isAdmin ? undefined : user_id,
+    });
+  }
+
+  /**
+   * Get a sale the user is allowed to manage
+   */
+  async getSaleById(id: string, user_id: string, isAdmin: boolean = false): Promise<Sale> {
+    const sale = await saleRepository.findById(id);
+
+    if (!sale) {
+      throw new ApiError(404, 'Sale not found');
+    }
+
+    if (!isAdmin && sale.created_by !== user_id) {
+      throw new ApiError(403, "You don't have permission to manage this sale");
+    }
+
+    return sale;
+  }
+
+  /**
+   * Change a sale that has not started yet
+   */
+  async updateSale(
+    id: string,
+    data: Partial<SaleInput>,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Sale> {
+    const sale = await this.getSaleById(id, user_id, isAdmin);
+
+    if (sale.status !== SaleStatus.SCHEDULED.toString()) {
+      throw new ApiError(400, 'Only scheduled sales can be changed; cancel it instead');
+    }
+
+    const updates: Partial<SaleInput> = { ...data };
+
+    if (data.scope !== undefined || data.scope_id !== undefined) {
+      const scope = data.scope || sale.scope;
+      updates.scope = scope;
+      updates.scope_id = await this.resolveScope(
+        scope,
+        data.scope_id !== undefined ? data.scope_id : sale.scope_id,
+        user_id,
+        isAdmin
+      );
+    }
+
+    this.validateWindow(data.starts_at || sale.starts_at, data.ends_at || sale.ends_at);
+
+    await sale.update(updates as Partial<Sale>);
+
+    if (new Date(sale.starts_at) <= new Date()) {
+      await this.startSale(sale);
+      await sale.reload();
+    }
+
+    return sale;
+  }
+
+  /**
+   * Cancel a scheduled or running sale; a running sale's courses go back to their price
+   */
+  async cancelSale(id: string, user_id: string, isAdmin: boolean = false): Promise<Sale> {
+    const sale = await this.getSaleById(id, user_id, isAdmin);
+
+    if (!(await this.closeSale(sale, SaleStatus.CANCELED, user_id))) {
+      throw new ApiError(400, `Sale is ${sale.status}`);
+    }
+
+    await sale.reload();
+    return sale;
+  }
+
+  /**
+   * Activate scheduled sales whose window has started and end those whose window is over,
+   * recording the price changes. Run in the background, and by admins on demand.
+   */
+  async processSales(now: Date = new Date(), limit: number = 100): Promise<SaleSweepSummary> {
+    const summary: SaleSweepSummary = { activated: 0, ended: 0 };
+
+    for (const sale of await saleRepository.findDueToEnd(now, limit)) {
+      try {
+        if (await this.closeSale(sale, SaleStatus.ENDED)) {
+          summary.ended++;
+        }
+      } catch (error) {
+        console.error(`Ending sale ${sale.id} failed:`, error);
+      }
+    }
+
+    for (const sale of await saleRepository.findDueToStart(now, limit)) {
+      try {
+        if (await this.startSale(sale)) {
+          summary.activated++;
+        }
+      } catch (error) {
+        console.error(`Starting sale ${sale.id} failed:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * The sale running now for each of the courses that has one, by course ID. When several
+   * sales cover a course, the one with the biggest discount applies.
+   */
+  async findCurrentSales(
+    courses: Course[],
+    now: Date = new Date()
+  ): Promise<Map<string, AppliedSale>> {
+    const applied = new Map<string, AppliedSale>();
+    if (courses.length === 0) {
+      return applied;
+    }
+
+    const course_ids = courses.map(course => course.id);
+    const categories = await courseCategoryRepository.findAll({
+      where: { course_id: { [Op.in]: course_ids } },
+      attributes: ['course_id', 'category_id'],
+    });
+
+    const sales = await saleRepository.findCurrent(
+      {
+        course_ids,
+        instructor_ids: [...new Set(courses.map(course => course.instructor_id))],
+        category_ids: [...new Set(categories.map(category => category.category_id))],
+      },
+      now
+    );
+
+    for (const course of courses) {
+      const categoryIds = categories
+        .filter(category => category.course_id === course.id)
+        .map(category => category.category_id);
+
+      const best = sales
+        .filter(sale => this.covers(sale, course, categoryIds))
+        .sort((a, b) => Number(b.discount_percent) - Number(a.discount_percent))[0];
+
+      if (best) {
+        applied.set(course.id, {
+          id: best.id,
+          name: best.name,
+          discount_percent: Number(best.discount_percent),
+          ends_at: best.ends_at,
+        });
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Price changes of a course, latest first
+   */
+  async getPriceHistory(
+    course_id: string,
+    options: HistoryFilterOptions = {}
+  ): Promise<{ history: PriceHistory[]; total: number; page: number; limit: number }> {
+    const course = await courseRepository.findById(course_id);
+    if (!course) {
+      throw new ApiError(404, 'Course not found');
+    }
+
+    return await priceHistoryRepository.findByCourseId(course_id, options);
+  }
+
+  /**
+   * Move a scheduled sale to active and record the sale price of its courses
+   */
+  private async startSale(sale: Sale): Promise<boolean> {
+    return await this.inTransaction(async transaction => {
+      if (
+        !(await saleRepository.transition(
+          sale.id,
+          [SaleStatus.SCHEDULED],
+          SaleStatus.ACTIVE,
+          transaction
+        ))
+      ) {
+        return false;
+      }
+
+      await this.recordSale(sale, PriceChangeReason.SALE_STARTED, null, transaction);
+      return true;
+    });
+  }
+
+  /**
+   * Move a scheduled or active sale to ended or canceled. Only a sale that was running
+   * changed any price, so only then is its end recorded.
+   */
+  private async closeSale(
+    sale: Sale,
+    status: SaleStatus.ENDED | SaleStatus.CANCELED,
+    changed_by: string | null = null
+  ): Promise<boolean> {
+    return await this.inTransaction(async transaction => {
+      if (await saleRepository.transition(sale.id, [SaleStatus.ACTIVE], status, transaction)) {
+        await this.recordSale(sale, PriceChangeReason.SALE_ENDED, changed_by, transaction);
+        return true;
+      }
+
+      return await saleRepository.transition(sale.id, [SaleStatus.SCHEDULED], status, transaction);
+    });
+  }
+
+  private async recordSale(
+    sale: Sale,
+    reason: PriceChangeReason,
+    changed_by: string | null,
+    transaction: Transaction
+  ): Promise<void> {
+    for (const course of await this.getCoursesInScope(sale, transaction)) {
+      await priceHistoryRepository.create(
+        {
+          course_id: course.id,
+          reason,
+          price: course.price,
+          sale_id: sale.id,
+          discount_percent:
+            reason === PriceChangeReason.SALE_STARTED ? sale.discount_percent : null,
+          changed_by,
+        },
+        { transaction }
+      );
+    }
+  }
+
+  private async getCoursesInScope(sale: Sale, transaction: Transaction): Promise<Course[]> {
+    switch (sale.scope) {
+      case SaleScope.COURSE:
+        return await courseRepository.findAll({ where: { id: sale.scope_id }, transaction });
+      case SaleScope.INSTRUCTOR:
+        return await courseRepository.findAll({
+          where: { instructor_id: sale.scope_id },
+          transaction,
+        });
+      case SaleScope.CATEGORY: {
+        const course_ids = await courseCategoryRepository.getCourseIdsForCategory(sale.scope_id);
+        return course_ids.length > 0
+          ? await courseRepository.findAll({ where: { id: { [Op.in]: course_ids } }, transaction })
+          : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private covers(sale: Sale, course: Course, categoryIds: string[]): boolean {
+    switch (sale.scope) {
+      case SaleScope.COURSE:
+        return sale.scope_id === course.id;
+      case SaleScope.INSTRUCTOR:
+        return sale.scope_id === course.instructor_id;
+      case SaleScope.CATEGORY:
+        return categoryIds.includes(sale.scope_id);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Check the scope target exists and the user may put it on sale
+   */
+  private async resolveScope(
+    scope: string,
+    scope_id: string | null | undefined,
+    user_id: string,
+    isAdmin: boolean
+  ): Promise<string> {
+    switch (scope) {
+      case SaleScope.CATEGORY: {
+        if (!isAdmin) {
+          throw new ApiError(403, 'Only admin can create category sales');
+        }
+        const category = scope_id ? await categoryRepository.findById(scope_id) : null;
+        if (!category) {
+          throw new ApiError(404, 'Category not found');
+        }
+        return category.id;
+      }
+
+      case SaleScope.COURSE: {
+        const course = scope_id ? await courseRepository.findById(scope_id) : null;
+        if (!course) {
+          throw new ApiError(404, 'Course not found');
+        }
+        if (!isAdmin && course.instructor_id !== user_id) {
+          throw new ApiError(403, 'You can only put your own courses on sale');
+        }
+        return course.id;
+      }
+
+      case SaleScope.INSTRUCTOR: {
+        const instructor_id = scope_id || user_id;
+        if (!isAdmin && instructor_id !== user_id) {
+          throw new ApiError(403, 'You can only put your own courses on sale');
+        }
+        const instructor = await userRepository.findById(instructor_id);
+        if (!instructor) {
+          throw new ApiError(404, 'Instructor not found');
+        }
+        return instructor_id;
+      }
+
+      default:
+        throw new ApiError(400, 'Invalid sale scope');
+    }
+  }
+
+  private validateWindow(starts_at: Date, ends_at: Date): void {
+    if (new Date(starts_at) >= new Date(ends_at)) {
+      throw new ApiError(400, 'Sale end must be after its start');
+    }
+
+    if (new Date(ends_at) <= new Date()) {
+      throw new ApiError(400, 'Sale end must be in the future');
+    }
+  }
+
+  private async inTransaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+      const result = await work(transaction);
+      await transaction.commit();
+      transaction = null;
+      return result;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export default new SaleService();
@@ -3,6 +3,7 @@ import { sectionRepository, courseRepository, userRepository } from '../reposito
 import Section from '../models/section.model';
 import { ApiError } from '../utils/api-error';
 import sequelize from '../config/database';
+import entitlementService from './entitlement.service';
 
 interface SectionCreateData {
   course_id: string;
@@ -144,7 +145,13 @@ class SectionService {
     user_id: string,
     isAdmin: boolean = false
   ): Promise<boolean> {
-    return await sectionRepository.canUserAccessSection(section_id, user_id);
+    if (await sectionRepository.canUserAccessSection(section_id, user_id)) {
+      return true;
+    }
+
+    // Subscribers can open every published course
+    const section = await sectionRepository.findById(section_id);
+    return !!section && (await entitlementService.canAccessCourse(section.course_id, user_id));
   }
 
   /**
@@ -0,0 +1,603 @@
+import { Transaction } from 'sequelize';
+import {
+  subscriptionPlanRepository,
+  subscriptionRepository,
+  subscriptionChargeRepository,
+  userRepository,
+} from '../repositories';
+import SubscriptionPlan, { SubscriptionInterval } from '../models/subscription-plan.model';
+import Subscription, {
+  SubscriptionStatus,
+  CURRENT_SUBSCRIPTION_STATUSES,
+  canTransitionSubscriptionStatus,
+} from '../models/subscription.model';
+import SubscriptionCharge, { SubscriptionChargeStatus } from '../models/subscription-charge.model';
+import { PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import { PaymentIntent, PaymentIntentStatus } from '../types/payment-gateway.types';
+import paymentGateways from '../gateways';
+import { ApiError } from '../utils/api-error';
+import { generateUniqueId } from '../utils/uuid';
+import { addMonthsUTC } from '../utils/date';
+import sequelize from '../config/database';
+import paymentService from './payment.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PlanInput {
+  name: string;
+  description?: string | null;
+  interval: string;
+  price: number;
+  currency?: string;
+  grace_period_days?: number;
+  is_active?: boolean;
+}
+
+interface SubscribeInput {
+  plan_id: string;
+  payment_method: string;
+  payment_token?: string;
+}
+
+interface PaymentMethodInput {
+  payment_method?: string;
+  payment_token?: string;
+}
+
+interface SubscriptionFilterOptions {
+  page?: number;
+  limit?: number;
+  status?: string;
+  plan_id?: string;
+  user_id?: string;
+}
+
+// Outcome of a renewal attempt
+export interface RenewalResult {
+  subscription: Subscription;
+  charge: SubscriptionCharge | null;
+}
+
+export interface RenewalSummary {
+  processed: number;
+  renewed: number;
+  past_due: number;
+  canceled: number;
+  expired: number;
+}
+
+class SubscriptionService {
+  /**
+   * Create a subscription plan
+   */
+  async createPlan(data: PlanInput): Promise<SubscriptionPlan> {
+    return await subscriptionPlanRepository.create({
+      ...data,
+      currency: data.currency?.toUpperCase(),
+    });
+  }
+
+  /**
+   * List plans; inactive plans only when asked for
+   */
+  async getPlans(includeInactive: boolean = false): Promise<SubscriptionPlan[]> {
+    return await subscriptionPlanRepository.findPlans(includeInactive);
+  }
+
+  /**
+   * Get a plan
+   */
+  async getPlanById(id: string): Promise<SubscriptionPlan> {
+    const plan = await subscriptionPlanRepository.findById(id);
+
+    if (!plan) {
+      throw new ApiError(404, 'Subscription plan not found');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Update a plan. Existing subscribers keep the price and interval they signed up with.
+   */
+  async updatePlan(id: string, data: Partial<PlanInput>): Promise<SubscriptionPlan> {
+    const plan = await this.getPlanById(id);
+
+    await plan.update({
+      ...data,
+      currency: data.currency ? data.currency.toUpperCase() : plan.currency,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Subscribe a user to a plan, charging the first period straight away.
+   * A user can only have one subscription that is still renewing.
+   */
+  async subscribe(user_id: string, data: SubscribeInput): Promise<Subscription> {
+    // Resolve the adapter first so unsupported methods fail before anything is charged
+    paymentGateways.get(data.payment_method);
+
+    const plan = await this.getPlanById(data.plan_id);
+    if (!plan.is_active) {
+      throw new ApiError(400, 'Subscription plan is not available');
+    }
+
+    if (!(await userRepository.findById(user_id))) {
+      throw new ApiError(404, 'User not found');
+    }
+
+    if (await subscriptionRepository.findCurrentByUser(user_id)) {
+      throw new ApiError(409, 'You already have an active subscription');
+    }
+
+    const subscription_id = generateUniqueId();
+    const charge_id = generateUniqueId();
+    const period_start = new Date();
+    const period_end = this.addInterval(period_start, plan.interval);
+
+    const intent = await this.collect(
+      charge_id,
+      data.payment_method,
+      data.payment_token,
+      Number(plan.price),
+      plan.currency,
+      user_id,
+      { subscription_id, plan_id: plan.id }
+    );
+
+    if (intent.status !== PaymentIntentStatus.SUCCEEDED) {
+      throw new ApiError(402, `Payment failed: ${intent.failure_message || 'unknown error'}`, [
+        { code: intent.failure_code },
+      ]);
+    }
+
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      const subscription = await subscriptionRepository.create(
+        {
+          id: subscription_id,
+          user_id,
+          plan_id: plan.id,
+          payment_method: data.payment_method,
+          payment_token: data.payment_token || null,
+          price: plan.price,
+          currency: plan.currency,
+          current_period_start: period_start,
+          current_period_end: period_end,
+          grace_until: this.addGrace(period_end, plan),
+        },
+        { transaction }
+      );
+
+      const charge = await subscriptionChargeRepository.create(
+        {
+          id: charge_id,
+          subscription_id,
+          amount: plan.price,
+          currency: plan.currency,
+          status: SubscriptionChargeStatus.SUCCEEDED,
+          period_start,
+          period_end,
+          gateway_intent_id: intent.id,
+          transaction_id: intent.transaction_id || null,
+        },
+        { transaction }
+      );
+
+      await this.recordPayment(subscription, charge, transaction);
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return (await subscriptionRepository.findWithDetails(subscription_id))!;
+  }
+
+  /**
+   * List subscriptions
+   */
+  async getSubscriptions(
+    options: SubscriptionFilterOptions
+  ): Promise<{ subscriptions: Subscription[]; total: number; page: number; limit: number }> {
+    return await subscriptionRepository.findWithFilter(options);
+  }
+
+  /**
+   * Get a subscription with its charges, restricted to its owner unless isAdmin is set
+   */
+  async getSubscriptionById(
+    id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<{ subscription: Subscription; charges: SubscriptionCharge[] }> {
+    const subscription = await this.getOwnedSubscription(id, user_id, isAdmin);
+    const charges = await subscriptionChargeRepository.findBySubscriptionId(id);
+
+    return { subscription, charges };
+  }
+
+  /**
+   * Cancel a subscription. Access continues until the end of the paid period; a subscription
+   * whose period has already ended (e.g. past due) ends straight away.
+   */
+  async cancelSubscription(
+    id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Subscription> {
+    const subscription = await this.getOwnedSubscription(id, user_id, isAdmin);
+
+    if (!canTransitionSubscriptionStatus(subscription.status, SubscriptionStatus.CANCELED)) {
+      throw new ApiError(400, `Cannot cancel a ${subscription.status} subscription`);
+    }
+
+    const now = new Date();
+
+    if (new Date(subscription.current_period_end) <= now) {
+      await subscription.update({
+        status: SubscriptionStatus.CANCELED,
+        cancel_at_period_end: true,
+        canceled_at: now,
+        ended_at: now,
+      });
+    } else if (!subscription.cancel_at_period_end) {
+      await subscription.update({ cancel_at_period_end: true, canceled_at: now });
+    }
+
+    return (await subscriptionRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * Undo a cancellation before the period ends
+   */
+  async resumeSubscription(id: string, user_id: string): Promise<Subscription> {
+    const subscription = await this.getOwnedSubscription(id, user_id);
+
+    if (
+      subscription.status !== SubscriptionStatus.ACTIVE.toString() ||
+      !subscription.cancel_at_period_end
+    ) {
+      throw new ApiError(400, 'Only an active subscription set to cancel can be resumed');
+    }
+
+    await subscription.update({ cancel_at_period_end: false, canceled_at: null });
+
+    return (await subscriptionRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * Change how a subscription is paid. A past-due subscription is charged again straight away.
+   */
+  async updatePaymentMethod(
+    id: string,
+    user_id: string,
+    data: PaymentMethodInput
+  ): Promise<Subscription> {
+    const subscription = await this.getOwnedSubscription(id, user_id);
+
+    if (!this.isCurrent(subscription)) {
+      throw new ApiError(400, `Cannot update a ${subscription.status} subscription`);
+    }
+
+    if (data.payment_method) {
+      paymentGateways.get(data.payment_method);
+    }
+
+    await subscription.update({
+      payment_method: data.payment_method || subscription.payment_method,
+      payment_token:
+        data.payment_token !== undefined ? data.payment_token : subscription.payment_token,
+    });
+
+    if (subscription.status === SubscriptionStatus.PAST_DUE.toString()) {
+      const { charge } = await this.renewSubscription(id);
+
+      if (charge && charge.status === SubscriptionChargeStatus.FAILED.toString()) {
+        throw new ApiError(402, `Payment failed: ${charge.failure_message || 'unknown error'}`, [
+          { code: charge.failure_code, subscription_id: id },
+        ]);
+      }
+    }
+
+    return (await subscriptionRepository.findWithDetails(id))!;
+  }
+
+  /**
+   * Renew every subscription whose period has ended. Runs in the background every
+   * SUBSCRIPTION_SWEEP_INTERVAL_MINUTES.
+   */
+  async processDueSubscriptions(limit: number = 100): Promise<RenewalSummary> {
+    const due = await subscriptionRepository.findDueForRenewal(new Date(), limit);
+    const summary: RenewalSummary = {
+      processed: 0,
+      renewed: 0,
+      past_due: 0,
+      canceled: 0,
+      expired: 0,
+    };
+
+    for (const { id } of due) {
+      try {
+        const { subscription, charge } = await this.renewSubscription(id);
+        summary.processed++;
+
+        if (charge && charge.status === SubscriptionChargeStatus.SUCCEEDED.toString()) {
+          summary.renewed++;
+        } else if (subscription.status === SubscriptionStatus.PAST_DUE.toString()) {
+          summary.past_due++;
+        } else if (subscription.status === SubscriptionStatus.CANCELED.toString()) {
+          summary.canceled++;
+        } else if (subscription.status === SubscriptionStatus.EXPIRED.toString()) {
+          summary.expired++;
+        }
+      } catch (error) {
+        console.error(`Renewal of subscription ${id} failed:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Move a subscription whose period has ended on: cancel it if it was set to cancel, expire
+   * it once the grace period is over, otherwise charge the next period. A successful charge
+   * extends the subscription from the end of the old period; a failed one leaves it past due.
+   * Nothing happens while the period is still running or another charge is in flight.
+   */
+  async renewSubscription(id: string): Promise<RenewalResult> {
+    const now = new Date();
+    let charge: SubscriptionCharge | null = null;
+    let subscription: Subscription | null = null;
+    let transaction: Transaction | null = null;
+
+    // Claim the renewal by recording a pending charge
+    try {
+      transaction = await sequelize.transaction();
+
+      subscription = await subscriptionRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!subscription) {
+        throw new ApiError(404, 'Subscription not found');
+      }
+
+      const due = this.isCurrent(subscription) && new Date(subscription.current_period_end) <= now;
+
+      if (due && subscription.cancel_at_period_end) {
+        await subscription.update(
+          { status: SubscriptionStatus.CANCELED, ended_at: subscription.current_period_end },
+          { transaction }
+        );
+      } else if (due && new Date(subscription.grace_until) <= now) {
+        await subscription.update(
+          { status: SubscriptionStatus.EXPIRED, ended_at: subscription.grace_until },
+          { transaction }
+        );
+      } else if (due && !(await subscriptionChargeRepository.findPending(id, { transaction }))) {
+        const plan = await this.getPlanById(subscription.plan_id);
+        const period_start = new Date(subscription.current_period_end);
+
+        charge = await subscriptionChargeRepository.create(
+          {
+            subscription_id: id,
+            amount: subscription.price,
+            currency: subscription.currency,
+            period_start,
+            period_end: this.addInterval(period_start, plan.interval),
+          },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    if (!charge) {
+      return { subscription: subscription!, charge };
+    }
+
+    // Talk to the provider outside the transaction
+    let intent: PaymentIntent | null = null;
+    let failure_code: string | null = null;
+    let failure_message: string | null = null;
+
+    try {
+      intent = await this.collect(
+        charge.id,
+        subscription!.payment_method,
+        subscription!.payment_token,
+        Number(charge.amount),
+        charge.currency,
+        subscription!.user_id,
+        { subscription_id: id }
+      );
+
+      if (intent.status !== PaymentIntentStatus.SUCCEEDED) {
+        failure_code = intent.failure_code || 'payment_failed';
+        failure_message = intent.failure_message || null;
+      }
+    } catch (error: any) {
+      failure_code = 'gateway_error';
+      failure_message = error?.message || null;
+    }
+
+    try {
+      transaction = await sequelize.transaction();
+
+      subscription = (await subscriptionRepository.findById(id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      }))!;
+
+      if (!failure_code) {
+        const plan = await this.getPlanById(subscription.plan_id);
+
+        await charge.update(
+          {
+            status: SubscriptionChargeStatus.SUCCEEDED,
+            gateway_intent_id: intent!.id,
+            transaction_id: intent!.transaction_id || null,
+          },
+          { transaction }
+        );
+        await subscription.update(
+          {
+            status: SubscriptionStatus.ACTIVE,
+            current_period_start: charge.period_start,
+            current_period_end: charge.period_end,
+            grace_until: this.addGrace(charge.period_end, plan),
+          },
+          { transaction }
+        );
+
+        await this.recordPayment(subscription, charge, transaction);
+      } else {
+        await charge.update(
+          {
+            status: SubscriptionChargeStatus.FAILED,
+            gateway_intent_id: intent ? intent.id : null,
+            failure_code,
+            failure_message: failure_message ? failure_message.slice(0, 255) : null,
+          },
+          { transaction }
+        );
+
+        if (subscription.status === SubscriptionStatus.ACTIVE.toString()) {
+          await subscription.update({ status: SubscriptionStatus.PAST_DUE }, { transaction });
+        }
+      }
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    return { subscription, charge };
+  }
+
+  /**
+   * Charge a payment method in one go: create the intent and capture it
+   */
+  private async collect(
+    reference: string,
+    payment_method: string,
+    payment_token: string | null | undefined,
+    amount: number,
+    currency: string,
+    user_id: string,
+    metadata: Record<string, any>
+  ): Promise<PaymentIntent> {
+    const gateway = paymentGateways.get(payment_method);
+
+    const intent = await gateway.createIntent(payment_method as PaymentMethod, {
+      reference,
+      amount,
+      currency,
+      customer_id: user_id,
+      metadata,
+    });
+
+    return await gateway.captureIntent(intent.id, { payment_token: payment_token || undefined });
+  }
+
+  /**
+   * Record a successful charge as a completed payment, so it is posted to the ledger,
+   * invoiced and reconciled like any other sale
+   */
+  private async recordPayment(
+    subscription: Subscription,
+    charge: SubscriptionCharge,
+    transaction: Transaction
+  ): Promise<void> {
+    const context = { source: PaymentStatusChangeSource.SYSTEM, reason: 'Subscription charged' };
+
+    const payment = await paymentService.createPendingPayment(
+      {
+        user_id: subscription.user_id,
+        subscription_id: subscription.id,
+        amount: Number(charge.amount),
+        currency: charge.currency,
+        payment_method: subscription.payment_method,
+        transaction_id: charge.transaction_id || undefined,
+        metadata: { subscription_charge_id: charge.id },
+      },
+      context,
+      transaction
+    );
+
+    await paymentService.transitionStatus(
+      payment.id,
+      PaymentStatus.COMPLETED,
+      context,
+      transaction
+    );
+    await charge.update({ payment_id: payment.id }, { transaction });
+  }
+
+  private async getOwnedSubscription(
+    id: string,
+    user_id: string,
+    isAdmin: boolean = false
+  ): Promise<Subscription> {
+    const subscription = await subscriptionRepository.findWithDetails(id);
+
+    if (!subscription) {
+      throw new ApiError(404, 'Subscription not found');
+    }
+
+    if (!isAdmin && subscription.user_id !== user_id) {
+      throw new ApiError(403, "You don't have permission to access this subscription");
+    }
+
+    return subscription;
+  }
+
+  private isCurrent(subscription: Subscription): boolean {
+    return CURRENT_SUBSCRIPTION_STATUSES.map(String).includes(subscription.status);
+  }
+
+  private addInterval(date: Date, interval: string): Date {
+    return addMonthsUTC(new Date(date), interval === SubscriptionInterval.YEAR ? 12 : 1);
+  }
+
+  private addGrace(period_end: Date, plan: SubscriptionPlan): Date {
+    return new Date(new Date(period_end).getTime() + plan.grace_period_days * DAY_MS);
+  }
+}
+
+export default new SubscriptionService();
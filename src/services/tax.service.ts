@@ -0,0 +1,210 @@
+import { taxRateRepository } from '../repositories';
+import TaxRate from '../models/tax-rate.model';
+import Payment from '../models/payment.model';
+import { ApiError } from '../utils/api-error';
+
+interface TaxRateInput {
+  country_code: string;
+  region?: string | null;
+  name: string;
+  rate: number;
+  is_inclusive?: boolean;
+  is_active?: boolean;
+}
+
+interface TaxRateFilterOptions {
+  page?: number;
+  limit?: number;
+  country_code?: string;
+  is_active?: boolean;
+}
+
+// Where the buyer is billed; no country means no tax
+export interface TaxLocation {
+  country?: string | null;
+  region?: string | null;
+}
+
+// How an amount splits into net and tax. gross_amount is what the buyer pays.
+export interface TaxBreakdown {
+  country: string | null;
+  region: string | null;
+  name: string | null;
+  rate: number;
+  inclusive: boolean;
+  net_amount: number;
+  tax_amount: number;
+  gross_amount: number;
+}
+
+const toCents = (amount: number): number => Math.round(Number(amount) * 100);
+
+class TaxService {
+  /**
+   * Create a tax rate for a country, or for a region of it
+   */
+  async createRate(data: TaxRateInput, user_id: string): Promise<TaxRate> {
+    const country_code = data.country_code.toUpperCase();
+    const region = data.region || null;
+
+    if (await taxRateRepository.findByLocation(country_code, region)) {
+      throw new ApiError(409, 'A tax rate already exists for this location');
+    }
+
+    return await taxRateRepository.create({
+      ...data,
+      country_code,
+      region,
+      created_by: user_id,
+    });
+  }
+
+  /**
+   * List tax rates
+   */
+  async getRates(
+    options: TaxRateFilterOptions
+  ): Promise<{ rates: TaxRate[]; total: number; page: number; limit: number }> {
+    return await taxRateRepository.findWithFilter({
+      ...options,
+      country_code: options.country_code?.toUpperCase(),
+    });
+  }
+
+  /**
+   * Get a tax rate
+   */
+  async getRateById(id: string): Promise<TaxRate> {
+    const rate = await taxRateRepository.findById(id);
+
+    if (!rate) {
+      throw new ApiError(404, 'Tax rate not found');
+    }
+
+    return rate;
+  }
+
+  /**
+   * Update a tax rate. Payments already taken keep the rate they were charged.
+   */
+  async updateRate(id: string, data: Partial<TaxRateInput>): Promise<TaxRate> {
+    const rate = await this.getRateById(id);
+    const updates: Partial<TaxRateInput> = { ...data };
+
+    if (data.country_code !== undefined || data.region !== undefined) {
+      updates.country_code = (data.country_code || rate.country_code).toUpperCase();
+      updates.region = data.region !== undefined ? data.region || null : rate.region;
+
+      const existing = await taxRateRepository.findByLocation(updates.country_code, updates.region);
+      if (existing && existing.id !== rate.id) {
+        throw new ApiError(409, 'A tax rate already exists for this location');
+      }
+    }
+
+    await rate.update(updates);
+    return rate;
+  }
+
+  /**
+   * Delete a tax rate
+   */
+  async deleteRate(id: string): Promise<void> {
+    await this.getRateById(id);
+    await taxRateRepository.deleteById(id);
+  }
+
+  /**
+   * Work out the tax on a price charged in a location. With an inclusive rate the price
+   * already contains the tax; otherwise the tax is added on top of it.
+   */
+  async calculate(amount: number, location: TaxLocation = {}): Promise<TaxBreakdown> {
+    const country = location.country ? location.country.toUpperCase() : null;
+    const region = location.region || null;
+    const taxRate = country ? await taxRateRepository.findApplicable(country, region) : null;
+
+    const cents = toCents(amount);
+
+    if (!taxRate) {
+      return {
+        country,
+        region,
+        name: null,
+        rate: 0,
+        inclusive: false,
+        net_amount: cents / 100,
+        tax_amount: 0,
+        gross_amount: cents / 100,
+      };
+    }
+
+    const rate = Number(taxRate.rate);
+    const netCents = taxRate.is_inclusive ? Math.round((cents * 100) / (100 + rate)) : cents;
+    const taxCents = taxRate.is_inclusive ? cents - netCents : Math.round((cents * rate) / 100);
+
+    return {
+      country,
+      region: taxRate.region,
+      name: taxRate.name,
+      rate,
+      inclusive: taxRate.is_inclusive,
+      net_amount: netCents / 100,
+      tax_amount: taxCents / 100,
+      gross_amount: (netCents + taxCents) / 100,
+    };
+  }
+
+  /**
+   * Spread a taxed total over the shares it was made of (e.g. the courses of a cart), in
+   * proportion to each share. The last share takes the rounding remainder.
+   */
+  allocate(shares: number[], breakdown: TaxBreakdown): { amount: number; tax_amount: number }[] {
+    const shareCents = shares.map(toCents);
+    const totalCents = shareCents.reduce((sum, cents) => sum + cents, 0);
+    const grossCents = toCents(breakdown.gross_amount);
+    const taxCents = toCents(breakdown.tax_amount);
+
+    let grossLeft = grossCents;
+    let taxLeft = taxCents;
+
+    return shareCents.map((cents, index) => {
+      const last = index === shareCents.length - 1;
+      const ratio = totalCents > 0 ? cents / totalCents : 1 / shareCents.length;
+      const gross = last ? grossLeft : Math.round(grossCents * ratio);
+      const tax = last ? taxLeft : Math.round(taxCents * ratio);
+
+      grossLeft -= gross;
+      taxLeft -= tax;
+
+      return { amount: gross / 100, tax_amount: tax / 100 };
+    });
+  }
+
+  /**
+   * Split a refund of a payment into net and tax in the same proportion as the payment.
+   * The refund that completes the payment's refunds takes whatever tax is left.
+   */
+  splitRefund(
+    payment: Payment,
+    amount: number,
+    refundedAmount: number,
+    refundedTax: number
+  ): { net_amount: number; tax_amount: number } {
+    const paymentCents = toCents(payment.amount);
+    const paymentTaxCents = toCents(payment.tax_amount || 0);
+    const cents = toCents(amount);
+
+    const isFinal = toCents(refundedAmount) + cents >= paymentCents;
+    const taxCents = isFinal
+      ? paymentTaxCents - toCents(refundedTax)
+      : paymentCents > 0
+        ? Math.round((cents * paymentTaxCents) / paymentCents)
+        : 0;
+
+    return {
+      net_amount: (cents - taxCents) / 100,
+      tax_amount: taxCents / 100,
+    };
+  }
+}
+
+export default new TaxService();
@@ -22,6 +22,7 @@ interface UserUpdateData {
   name?: string;
   bio?: string;
   profile_thumbnail?: string;
+  country?: string | null;
   is_active?: boolean;
 }
 
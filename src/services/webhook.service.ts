@@ -0,0 +1,321 @@
+import { Transaction, UniqueConstraintError } from 'sequelize';
+import {
+  checkoutSessionRepository,
+  disputeRepository,
+  paymentRepository,
+  refundRepository,
+  webhookEventRepository,
+} from '../repositories';
+import WebhookEvent, { WebhookEventStatus } from '../models/webhook-event.model';
+import { CheckoutSessionStatus } from '../models/checkout-session.model';
+import { PaymentStatus } from '../models/payment.model';
+import { PaymentStatusChangeSource } from '../models/payment-status-history.model';
+import { RefundStatus } from '../models/refund.model';
+import { DisputeStatus } from '../models/dispute.model';
+import { GatewayWebhookEvent, GatewayWebhookEventType } from '../types/payment-gateway.types';
+import paymentGateways from '../gateways';
+import checkoutService from './checkout.service';
+import paymentService from './payment.service';
+import disputeService from './dispute.service';
+import { ApiError } from '../utils/api-error';
+import sequelize from '../config/database';
+
+class WebhookService {
+  /**
+   * Store and process a verified provider event.
+   * Events already processed (or ignored) are acknowledged without being applied again;
+   * failed events are retried when the provider redelivers them.
+   */
+  async handleEvent(
+    provider: string,
+    rawBody: string
+  ): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const gateway = paymentGateways.getByProvider(provider);
+    if (!gateway) {
+      throw new ApiError(404, `Unknown payment provider: ${provider}`);
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch (error) {
+      throw new ApiError(400, 'Webhook payload must be valid JSON');
+    }
+
+    const gatewayEvent = gateway.parseWebhookEvent(payload);
+
+    let record = await webhookEventRepository.findByProviderEventId(provider, gatewayEvent.id);
+
+    if (record && record.status !== WebhookEventStatus.FAILED.toString()) {
+      return { event: record, duplicate: true };
+    }
+
+    if (!record) {
+      try {
+        record = await webhookEventRepository.create({
+          provider,
+          event_id: gatewayEvent.id,
+          event_type: gatewayEvent.type,
+          payload,
+        });
+      } catch (error) {
+        // A concurrent delivery of the same event got there first
+        if (error instanceof UniqueConstraintError) {
+          const existing = await webhookEventRepository.findByProviderEventId(
+            provider,
+            gatewayEvent.id
+          );
+          if (existing) {
+            return { event: existing, duplicate: true };
+          }
+        }
+        throw error;
+      }
+    }
+
+    await record.increment('attempts');
+
+    try {
+      const handled = await this.applyEvent(gatewayEvent);
+      await webhookEventRepository.markOutcome(
+        record.id,
+        handled ? WebhookEventStatus.PROCESSED : WebhookEventStatus.IGNORED
+      );
+    } catch (error: any) {
+      await webhookEventRepository.markOutcome(
+        record.id,
+        WebhookEventStatus.FAILED,
+        error?.message || 'Unknown error'
+      );
+      throw error;
+    }
+
+    const updated = await webhookEventRepository.findById(record.id);
+    return { event: updated || record, duplicate: false };
+  }
+
+  /**
+   * Apply an event to payments, refunds and disputes
+   * @returns false when the event does not concern anything we know about
+   */
+  private async applyEvent(event: GatewayWebhookEvent): Promise<boolean> {
+    switch (event.type) {
+      case GatewayWebhookEventType.PAYMENT_SUCCEEDED:
+        return await this.handlePaymentSucceeded(event);
+      case GatewayWebhookEventType.PAYMENT_FAILED:
+      case GatewayWebhookEventType.PAYMENT_CANCELED:
+        return await this.handlePaymentFailed(event);
+      case GatewayWebhookEventType.REFUND_SUCCEEDED:
+        return await this.handleRefundSucceeded(event);
+      case GatewayWebhookEventType.REFUND_FAILED:
+        return await this.handleRefundFailed(event);
+      case GatewayWebhookEventType.DISPUTE_OPENED:
+        return await this.handleDisputeOpened(event);
+      case GatewayWebhookEventType.DISPUTE_WON:
+        return await this.handleDisputeClosed(event, DisputeStatus.WON);
+      case GatewayWebhookEventType.DISPUTE_LOST:
+        return await this.handleDisputeClosed(event, DisputeStatus.LOST);
+      default:
+        return false;
+    }
+  }
+
+  private async handlePaymentSucceeded(event: GatewayWebhookEvent): Promise<boolean> {
+    const session = event.intent_id
+      ? await checkoutSessionRepository.findByIntentId(event.intent_id)
+      : null;
+
+    if (session) {
+      // The provider took the money, so complete even if our session timed out meanwhile
+      if (session.status !== CheckoutSessionStatus.COMPLETED.toString()) {
+        await checkoutService.completeSession(session, event.transaction_id);
+      }
+      return true;
+    }
+
+    if (!event.transaction_id) {
+      return false;
+    }
+
+    const payment = await paymentRepository.findByTransactionId(event.transaction_id);
+    if (!payment) {
+      return false;
+    }
+
+    // Captured after we gave up on it (e.g. timed out) still completes
+    if (
+      payment.status === PaymentStatus.PENDING.toString() ||
+      payment.status === PaymentStatus.FAILED.toString()
+    ) {
+      await paymentService.completeCaptured(payment.id, {
+        source: PaymentStatusChangeSource.WEBHOOK,
+        reason: event.type,
+        metadata: { event_id: event.id },
+      });
+    }
+
+    return true;
+  }
+
+  private async handlePaymentFailed(event: GatewayWebhookEvent): Promise<boolean> {
+    const session = event.intent_id
+      ? await checkoutSessionRepository.findByIntentId(event.intent_id)
+      : null;
+
+    if (session) {
+      if (session.status === CheckoutSessionStatus.OPEN.toString()) {
+        await checkoutService.markFailed(
+          session,
+          event.failure_code || event.type,
+          event.failure_message
+        );
+      }
+      return true;
+    }
+
+    if (!event.transaction_id) {
+      return false;
+    }
+
+    const payment = await paymentRepository.findByTransactionId(event.transaction_id);
+    if (!payment) {
+      return false;
+    }
+
+    if (payment.status === PaymentStatus.PENDING.toString()) {
+      await paymentService.transitionStatus(payment.id, PaymentStatus.FAILED, {
+        source: PaymentStatusChangeSource.WEBHOOK,
+        reason: event.failure_message || event.type,
+        metadata: { event_id: event.id, failure_code: event.failure_code },
+      });
+    }
+
+    return true;
+  }
+
+  private async handleRefundSucceeded(event: GatewayWebhookEvent): Promise<boolean> {
+    const refund = event.refund_id
+      ? await refundRepository.findByTransactionId(event.refund_id)
+      : null;
+
+    if (!refund) {
+      return false;
+    }
+
+    await this.runInTransaction(async transaction => {
+      await paymentService.completeRefund(
+        refund,
+        {
+          source: PaymentStatusChangeSource.WEBHOOK,
+          reason: event.type,
+          metadata: { event_id: event.id, refund_id: refund.id },
+        },
+        transaction
+      );
+    });
+
+    return true;
+  }
+
+  private async handleRefundFailed(event: GatewayWebhookEvent): Promise<boolean> {
+    const refund = event.refund_id
+      ? await refundRepository.findByTransactionId(event.refund_id)
+      : null;
+
+    if (!refund) {
+      return false;
+    }
+
+    if (refund.status === RefundStatus.FAILED.toString()) {
+      return true;
+    }
+
+    // Restores the payment (and access) if it is no longer fully refunded
+    await this.runInTransaction(async transaction => {
+      await paymentService.reverseRefund(
+        refund,
+        {
+          source: PaymentStatusChangeSource.WEBHOOK,
+          reason: event.failure_message || event.type,
+          metadata: { event_id: event.id, refund_id: refund.id },
+        },
+        transaction
+      );
+    });
+
+    return true;
+  }
+
+  private async handleDisputeOpened(event: GatewayWebhookEvent): Promise<boolean> {
+    if (!event.dispute_id || !event.transaction_id) {
+      return false;
+    }
+
+    const payment = await paymentRepository.findByTransactionId(event.transaction_id);
+    if (!payment || payment.status !== PaymentStatus.COMPLETED.toString()) {
+      return false;
+    }
+
+    await disputeService.openDispute({
+      payment_id: payment.id,
+      provider_dispute_id: event.dispute_id,
+      reason: event.reason || 'unspecified',
+      amount: event.amount,
+      evidence_due_by: event.evidence_due_by || null,
+    });
+
+    return true;
+  }
+
+  private async handleDisputeClosed(
+    event: GatewayWebhookEvent,
+    outcome: DisputeStatus.WON | DisputeStatus.LOST
+  ): Promise<boolean> {
+    const dispute = event.dispute_id
+      ? await disputeRepository.findByProviderDisputeId(event.dispute_id)
+      : null;
+
+    if (!dispute) {
+      return false;
+    }
+
+    // Already decided, e.g. by an admin before the provider told us
+    if (
+      dispute.status === DisputeStatus.WON.toString() ||
+      dispute.status === DisputeStatus.LOST.toString()
+    ) {
+      return true;
+    }
+
+    await disputeService.resolveDispute(dispute.id, outcome, {
+      source: PaymentStatusChangeSource.WEBHOOK,
+      note: event.type,
+    });
+
+    return true;
+  }
+
+  private async runInTransaction(work: (transaction: Transaction) => Promise<void>): Promise<void> {
+    let transaction: Transaction | null = null;
+
+    try {
+      transaction = await sequelize.transaction();
+
+      await work(transaction);
+
+      await transaction.commit();
+      transaction = null;
+    } catch (error) {
+      if (transaction) {
+        try {
+          await transaction.rollback();
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+      }
+      throw error;
+    }
+  }
+}
+
+export default new WebhookService();
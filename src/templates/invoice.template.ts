@@ -0,0 +1,279 @@
+import { InvoiceType } from '../models/invoice.model';
+import { InvoiceDocument } from '../types/invoice.types';
+import { createPdf, measurePdfText, PdfPage, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from '../utils/pdf';
+
+/**
+ * Templates for invoices and credit notes. Both formats show the same content: issuer,
+ * customer, payment details, one line per course and the net/tax/total breakdown.
+ */
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const BOTTOM = PDF_PAGE_HEIGHT - 70;
+const LINE_HEIGHT = 16;
+
+// Table columns: course, instructor, tax, amount (the last two right-aligned)
+const COLUMNS = { course: MARGIN, instructor: 290, tax: 450, amount: RIGHT };
+
+const title = (document: InvoiceDocument): string =>
+  document.type === InvoiceType.CREDIT_NOTE ? 'Credit note' : 'Invoice';
+
+const formatMoney = (amount: number | null, currency: string): string => {
+  if (amount === null) {
+    return '-';
+  }
+
+  const formatted = Number(amount).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${formatted} ${currency}`;
+};
+
+const formatDate = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+const taxLabel = (document: InvoiceDocument): string => {
+  if (!document.tax_rate) {
+    return 'Tax';
+  }
+  return `Tax (${Number(document.tax_rate)}%${document.tax_inclusive ? ', included' : ''})`;
+};
+
+// Rows shown under the parties: label/value pairs that are present for this document
+const detailRows = (document: InvoiceDocument): [string, string][] => {
+  const rows: [string, string][] = [
+    ['Payment', document.payment.id],
+    ['Payment method', document.payment.method],
+    ['Payment date', formatDate(document.payment.paid_at)],
+  ];
+
+  if (document.payment.transaction_id) {
+    rows.push(['Transaction ID', document.payment.transaction_id]);
+  }
+
+  if (document.refund) {
+    rows.push(['Refund', document.refund.id]);
+    rows.push(['Reason', document.refund.reason]);
+    if (document.refund.transaction_id) {
+      rows.push(['Refund transaction ID', document.refund.transaction_id]);
+    }
+  }
+
+  return rows;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render an invoice or credit note as a standalone HTML page
+ */
+export const renderInvoiceHtml = (document: InvoiceDocument): string => {
+  const { currency } = document;
+  const reference = document.invoice_number
+    ? `<p>Credit for invoice ${escapeHtml(document.invoice_number)}</p>`
+    : '';
+
+  const details = detailRows(document)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  const lines = document.lines
+    .map(
+      line => `<tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.instructor || '')}</td>
+        <td class="amount">${formatMoney(line.tax_amount, currency)}</td>
+        <td class="amount">${formatMoney(line.amount, currency)}</td>
+      </tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title(document)} ${escapeHtml(document.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 14px; color: #222; max-width: 800px; margin: 40px auto; }
+    h1 { margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { text-align: left; padding: 6px 4px; vertical-align: top; }
+    .lines th { border-bottom: 1px solid #999; }
+    .lines td { border-bottom: 1px solid #eee; }
+    .amount { text-align: right; white-space: nowrap; }
+    .parties { display: flex; justify-content: space-between; margin-top: 24px; }
+    .totals { width: 50%; margin-left: auto; }
+    .totals .total th, .totals .total td { font-weight: bold; border-top: 1px solid #999; }
+  </style>
+</head>
+<body>
+  <h1>${title(document)} ${escapeHtml(document.number)}</h1>
+  <p>Issued on ${formatDate(document.issued_at)}</p>
+  ${reference}
+  <div class="parties">
+    <div>
+      <strong>${escapeHtml(document.issuer.name)}</strong><br>
+      ${document.issuer.address ? `${escapeHtml(document.issuer.address)}<br>` : ''}
+      ${document.issuer.tax_id ? `Tax ID: ${escapeHtml(document.issuer.tax_id)}` : ''}
+    </div>
+    <div>
+      <strong>Billed to</strong><br>
+      ${escapeHtml(document.customer.name)}<br>
+      ${escapeHtml(document.customer.email)}
+    </div>
+  </div>
+  <table class="details">
+    ${details}
+  </table>
+  <table class="lines">
+    <thead>
+      <tr><th>Course</th><th>Instructor</th><th class="amount">Tax</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${lines}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><th>Net</th><td class="amount">${formatMoney(document.net_amount, currency)}</td></tr>
+    <tr><th>${taxLabel(document)}</th><td class="amount">${formatMoney(document.tax_amount, currency)}</td></tr>
+    <tr class="total"><th>Total</th><td class="amount">${formatMoney(document.total_amount, currency)}</td></tr>
+  </table>
+</body>
+</html>
+`;
+};
+
+// Cut a text so it fits in `width` points
+const fit = (text: string, width: number, size: number): string => {
+  if (measurePdfText(text, size) <= width) {
+    return text;
+  }
+
+  let cut = text;
+  while (cut.length > 1 && measurePdfText(`${cut}...`, size) > width) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut.trimEnd()}...`;
+};
+
+/**
+ * Render an invoice or credit note as a PDF. Course lines continue on further pages when
+ * they do not fit on the first.
+ */
+export const renderInvoicePdf = (document: InvoiceDocument): Buffer => {
+  const { currency } = document;
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], rules: [] };
+  let y = 60;
+
+  const tableHeader = () => {
+    page.texts.push(
+      { text: 'Course', x: COLUMNS.course, y, bold: true },
+      { text: 'Instructor', x: COLUMNS.instructor, y, bold: true },
+      { text: 'Tax', x: COLUMNS.tax, y, bold: true, align: 'right' },
+      { text: 'Amount', x: COLUMNS.amount, y, bold: true, align: 'right' }
+    );
+    page.rules!.push({ x1: MARGIN, x2: RIGHT, y: y + 5 });
+    y += LINE_HEIGHT + 4;
+  };
+
+  const newPage = () => {
+    pages.push(page);
+    page = { texts: [], rules: [] };
+    y = 60;
+  };
+
+  // Heading
+  page.texts.push(
+    { text: `${title(document)} ${document.number}`, x: MARGIN, y, size: 20, bold: true },
+    { text: `Issued on ${formatDate(document.issued_at)}`, x: RIGHT, y, align: 'right' }
+  );
+  y += 24;
+
+  if (document.invoice_number) {
+    page.texts.push({ text: `Credit for invoice ${document.invoice_number}`, x: MARGIN, y });
+    y += LINE_HEIGHT;
+  }
+
+  // Parties
+  y += 14;
+  const partiesTop = y;
+  const issuer = [
+    document.issuer.address,
+    document.issuer.tax_id && `Tax ID: ${document.issuer.tax_id}`,
+  ];
+  page.texts.push({ text: document.issuer.name, x: MARGIN, y, bold: true });
+  issuer
+    .filter((text): text is string => !!text)
+    .forEach(text => {
+      y += LINE_HEIGHT;
+      page.texts.push({ text, x: MARGIN, y });
+    });
+
+  page.texts.push(
+    { text: 'Billed to', x: 320, y: partiesTop, bold: true },
+    { text: document.customer.name, x: 320, y: partiesTop + LINE_HEIGHT },
+    { text: document.customer.email, x: 320, y: partiesTop + LINE_HEIGHT * 2 }
+  );
+  y = Math.max(y, partiesTop + LINE_HEIGHT * 2) + 30;
+
+  // Payment details
+  for (const [label, value] of detailRows(document)) {
+    page.texts.push(
+      { text: label, x: MARGIN, y, bold: true },
+      { text: fit(value, RIGHT - 190, 10), x: 190, y }
+    );
+    y += LINE_HEIGHT;
+  }
+  y += 20;
+
+  // Course lines
+  tableHeader();
+  for (const line of document.lines) {
+    if (y > BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+
+    page.texts.push(
+      {
+        text: fit(line.description, COLUMNS.instructor - COLUMNS.course - 10, 10),
+        x: COLUMNS.course,
+        y,
+      },
+      { text: fit(line.instructor || '', 90, 10), x: COLUMNS.instructor, y },
+      { text: formatMoney(line.tax_amount, currency), x: COLUMNS.tax, y, align: 'right' },
+      { text: formatMoney(line.amount, currency), x: COLUMNS.amount, y, align: 'right' }
+    );
+    y += LINE_HEIGHT;
+  }
+
+  // Totals
+  if (y + LINE_HEIGHT * 4 > BOTTOM) {
+    newPage();
+  }
+  page.rules!.push({ x1: 320, x2: RIGHT, y });
+  y += LINE_HEIGHT;
+
+  const totals: [string, number, boolean][] = [
+    ['Net', document.net_amount, false],
+    [taxLabel(document), document.tax_amount, false],
+    ['Total', document.total_amount, true],
+  ];
+  for (const [label, amount, bold] of totals) {
+    page.texts.push(
+      { text: label, x: 320, y, bold },
+      { text: formatMoney(amount, currency), x: RIGHT, y, bold, align: 'right' }
+    );
+    y += LINE_HEIGHT;
+  }
+
+  pages.push(page);
+  return createPdf(pages);
+};
@@ -0,0 +1,47 @@
+import { InvoiceType } from '../models/invoice.model';
+
+// One course on an invoice. Credit notes list the courses without amounts; the refund
+// is not split between them.
+export interface InvoiceLine {
+  description: string;
+  instructor: string | null;
+  amount: number | null; // Tax included
+  tax_amount: number | null;
+}
+
+// Everything an invoice or credit note shows, ready to be rendered
+export interface InvoiceDocument {
+  type: InvoiceType;
+  number: string;
+  issued_at: Date;
+  invoice_number: string | null; // The invoice a credit note corrects
+  issuer: {
+    name: string;
+    address: string | null;
+    tax_id: string | null;
+  };
+  customer: {
+    name: string;
+    email: string;
+  };
+  payment: {
+    id: string;
+    method: string;
+    transaction_id: string | null;
+    paid_at: Date;
+  };
+  refund: {
+    id: string;
+    reason: string;
+    transaction_id: string | null;
+  } | null;
+  lines: InvoiceLine[];
+  currency: string;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  net_amount: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+export type InvoiceFormat = 'pdf' | 'html';
@@ -0,0 +1,84 @@
+import { PaymentMethod } from '../models/payment.model';
+
+// Lifecycle of an intent on the provider side
+export enum PaymentIntentStatus {
+  REQUIRES_CAPTURE = 'requires_capture',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELED = 'canceled',
+}
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  payment_method: PaymentMethod;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  transaction_id?: string; // Set once the intent has been captured
+  failure_code?: string;
+  failure_message?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface CreateIntentParams {
+  reference: string; // Our own identifier (checkout session ID)
+  amount: number;
+  currency: string;
+  customer_id: string;
+  metadata?: Record<string, any>;
+}
+
+export interface CaptureIntentParams {
+  payment_token?: string; // Card token / wallet approval handed back by the client
+}
+
+export interface GatewayRefund {
+  id: string;
+  transaction_id: string;
+  amount: number;
+  currency: string;
+  succeeded: boolean;
+  failure_code?: string;
+  failure_message?: string;
+}
+
+// Provider events we act on, normalized across adapters
+export enum GatewayWebhookEventType {
+  PAYMENT_SUCCEEDED = 'payment_intent.succeeded',
+  PAYMENT_FAILED = 'payment_intent.failed',
+  PAYMENT_CANCELED = 'payment_intent.canceled',
+  REFUND_SUCCEEDED = 'refund.succeeded',
+  REFUND_FAILED = 'refund.failed',
+  DISPUTE_OPENED = 'dispute.created',
+  DISPUTE_WON = 'dispute.won',
+  DISPUTE_LOST = 'dispute.lost',
+}
+
+export interface GatewayWebhookEvent {
+  id: string; // Provider's event ID, used for deduplication
+  type: string;
+  intent_id?: string;
+  transaction_id?: string;
+  refund_id?: string;
+  dispute_id?: string;
+  amount?: number;
+  reason?: string; // Why the buyer disputed the payment
+  evidence_due_by?: Date;
+  failure_code?: string;
+  failure_message?: string;
+  created_at?: Date;
+}
+
+/**
+ * Contract every payment provider adapter must implement.
+ * Adapters must not touch the database; callers persist the results.
+ */
+export interface PaymentGateway {
+  readonly provider: string;
+  createIntent(method: PaymentMethod, params: CreateIntentParams): Promise<PaymentIntent>;
+  captureIntent(intentId: string, params?: CaptureIntentParams): Promise<PaymentIntent>;
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+  refund(transactionId: string, amount: number, currency: string): Promise<GatewayRefund>;
+  parseWebhookEvent(payload: any): GatewayWebhookEvent;
+}
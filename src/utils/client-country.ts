@@ -0,0 +1,14 @@
+import { Request } from 'express';
+
+/**
+ * Request header holding the two-letter country of the client's IP, set by the proxy or CDN
+ * in front of the API. Used to pick regional prices and to screen payments.
+ */
+export const IP_COUNTRY_HEADER = process.env.PAYMENT_IP_COUNTRY_HEADER || 'cf-ipcountry';
+
+/**
+ * Country the request comes from, when the proxy told us
+ */
+export const getClientCountry = (req: Request): string | undefined => {
+  return req.get(IP_COUNTRY_HEADER) || undefined;
+};
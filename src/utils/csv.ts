@@ -0,0 +1,93 @@
+/**
+ * Minimal CSV reading and writing (RFC 4180): comma separated, fields quoted with `"` when
+ * they contain a comma, quote or line break, quotes doubled inside quoted fields.
+ */
+
+/**
+ * Parse CSV text into rows of fields. A leading byte order mark and blank lines are
+ * ignored; both \n and \r\n line endings are accepted. Each row keeps the line it
+ * started on, counting from 1.
+ */
+export const parseCsv = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Format one CSV line, ending with \r\n. Dates are written in ISO format and null or
+ * undefined as empty fields. Text that a spreadsheet would run as a formula is prefixed
+ * with `'`; plain numbers, negative ones included, are left alone.
+ */
+export const toCsvLine = (values: unknown[]): string => {
+  const fields = values.map(value => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (FORMULA_PREFIX.test(text) && !NUMBER.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  });
+
+  return `${fields.join(',')}\r\n`;
+};
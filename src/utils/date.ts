@@ -45,3 +45,22 @@ export function parsePeriodToDate(period: string): Date | null {
 
   return null;
 }
+
+/**
+ * Add calendar months in UTC, clamping to the last day of a shorter month
+ * (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonthsUTC(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+
+  return result;
+}
@@ -0,0 +1,23 @@
+import Payment from '../models/payment.model';
+
+/**
+ * Whether the user teaches what a payment bought: its course or bundle, or one of the courses
+ * of a cart payment. Expects the payment loaded with its course, bundle and items' courses.
+ */
+export const isPaymentInstructor = (
+  payment: Payment | null | undefined,
+  user_id: string | undefined
+): boolean => {
+  const details = payment as any;
+
+  if (!user_id) {
+    return false;
+  }
+
+  if (!details?.course_id && !details?.bundle_id) {
+    return (details?.items || []).some((item: any) => item.course?.instructor_id === user_id);
+  }
+
+  const instructor_id = details?.course?.instructor_id || details?.bundle?.instructor_id;
+  return !!instructor_id && instructor_id === user_id;
+};
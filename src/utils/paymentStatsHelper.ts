@@ -1,17 +1,173 @@
-import Course from '../models/course.model';
-import Payment from '../models/payment.model';
+import { Op, QueryTypes } from 'sequelize';
+import Payment, { PaymentStatus } from '../models/payment.model';
+import { RefundStatus } from '../models/refund.model';
+import { DisputeStatus } from '../models/dispute.model';
+
+export type RevenuePeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface RevenueBreakdownOptions {
+  instructor_id?: string;
+  course_id?: string;
+  start_date?: Date;
+  end_date?: Date;
+  period?: RevenuePeriod;
+  by_course?: boolean;
+}
+
+export interface RevenueBreakdownRow {
+  day: string;
+  currency: string;
+  // Tax included; `tax` is the part of it that was tax
+  revenue: number;
+  tax: number;
+  // Payments for sales; refunds or disputes for money given back
+  payment_count: number;
+  period?: string;
+  course_id?: string;
+}
+
+// Payments whose money was taken, even if some or all of it was given back later
+export const REVENUE_STATUSES = [
+  PaymentStatus.COMPLETED,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.CHARGEBACK,
+];
+
+export const getPeriodFormat = (period: RevenuePeriod): string => {
+  switch (period) {
+    case 'week':
+      return '%Y-%u';
+    case 'month':
+      return '%Y-%m';
+    case 'year':
+      return '%Y';
+    case 'day':
+    default:
+      return '%Y-%m-%d';
+  }
+};
+
+/**
+ * SQL subquery of the IDs of payments for an instructor's courses, bought alone or as one of
+ * several
+ */
+export const instructorPaymentIds = (instructor_id: string): string => {
+  const instructor = Payment.sequelize!.escape(instructor_id);
+  return (
+    `(SELECT p.id FROM payments p JOIN courses c ON c.id = p.course_id WHERE c.instructor_id = ${instructor}` +
+    ` UNION SELECT pi.payment_id FROM payment_items pi JOIN courses c ON c.id = pi.course_id WHERE c.instructor_id = ${instructor})`
+  );
+};
 
 export const getPaymentCount = async (where: any = {}, instructor_id?: string): Promise<number> => {
-  const includeOptions = instructor_id
-    ? [
-        {
-          model: Course,
-          as: 'course',
-          where: { instructor_id },
-          attributes: [],
-        },
-      ]
-    : [];
-
-  return Payment.count({ where, include: includeOptions });
+  if (!instructor_id) {
+    return Payment.count({ where });
+  }
+
+  return Payment.count({
+    where: {
+      ...where,
+      id: { [Op.in]: Payment.sequelize!.literal(instructorPaymentIds(instructor_id)) },
+    },
+  });
+};
+
+// Money given back on a payment: completed refunds dated when they were issued, and lost
+// disputes dated when they were lost. The disputed amount carries the payment's tax share.
+const RETURN_SOURCES = {
+  refunds: {
+    table: 'refunds',
+    date: 'r.created_at',
+    tax: 'r.tax_amount',
+    status: RefundStatus.COMPLETED,
+  },
+  disputes: {
+    table: 'disputes',
+    date: 'r.resolved_at',
+    tax: 'r.amount * p.tax_amount / p.amount',
+    status: DisputeStatus.LOST,
+  },
+};
+
+/**
+ * Money given back (refunds or lost disputes) per currency and day, shaped like revenue rows
+ * so both can be converted and netted the same way. A return on a payment for several
+ * courses is split between them in proportion to what each course cost, so it can be
+ * attributed to courses and instructors like the sale was.
+ */
+export const getReturnedBreakdown = async (
+  source: keyof typeof RETURN_SOURCES,
+  options: RevenueBreakdownOptions = {}
+): Promise<RevenueBreakdownRow[]> => {
+  const { instructor_id, course_id, start_date, end_date, period, by_course } = options;
+  const { table, date, tax, status } = RETURN_SOURCES[source];
+  const sequelize = Payment.sequelize!;
+
+  // Single-course payments have no items; the others are split over theirs
+  const share = 'CASE WHEN pi.id IS NULL THEN 1 ELSE pi.amount / p.amount END';
+  const courseColumn = 'COALESCE(pi.course_id, p.course_id)';
+
+  const columns = [
+    `DATE(${date}) AS day`,
+    'p.currency AS currency',
+    `SUM(r.amount * ${share}) AS revenue`,
+    `SUM(${tax} * ${share}) AS tax`,
+    'COUNT(DISTINCT r.id) AS payment_count',
+  ];
+  const group = ['day', 'currency'];
+  const conditions = ['r.status = :status'];
+  const replacements: Record<string, any> = { status };
+
+  if (period) {
+    columns.push(`DATE_FORMAT(${date}, :period_format) AS period`);
+    group.push('period');
+    replacements.period_format = getPeriodFormat(period);
+  }
+
+  // Subscription charges buy no course, like in getRevenueBreakdown
+  if (by_course) {
+    columns.push(`${courseColumn} AS course_id`);
+    group.push('course_id');
+    conditions.push('p.subscription_id IS NULL');
+  }
+
+  if (start_date) {
+    conditions.push(`${date} >= :start_date`);
+    replacements.start_date = start_date;
+  }
+
+  if (end_date) {
+    conditions.push(`${date} <= :end_date`);
+    replacements.end_date = end_date;
+  }
+
+  if (course_id) {
+    conditions.push(`${courseColumn} = :course_id`);
+    replacements.course_id = course_id;
+  }
+
+  if (instructor_id) {
+    conditions.push(
+      `${courseColumn} IN (SELECT c.id FROM courses c WHERE c.instructor_id = :instructor_id)`
+    );
+    replacements.instructor_id = instructor_id;
+  }
+
+  const rows: any[] = await sequelize.query(
+    `SELECT ${columns.join(', ')}
+     FROM ${table} r
+     JOIN payments p ON p.id = r.payment_id
+     LEFT JOIN payment_items pi ON pi.payment_id = p.id AND p.course_id IS NULL
+     WHERE ${conditions.join(' AND ')}
+     GROUP BY ${group.join(', ')}`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  return rows.map(row => ({
+    ...row,
+    day: typeof row.day === 'string' ? row.day : new Date(row.day).toISOString().slice(0, 10),
+    revenue: Math.round(parseFloat(row.revenue || '0') * 100) / 100,
+    tax: Math.round(parseFloat(row.tax || '0') * 100) / 100,
+    payment_count: parseInt(row.payment_count, 10),
+  }));
 };
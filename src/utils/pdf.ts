@@ -0,0 +1,122 @@
+/**
+ * Minimal PDF writer for text documents such as invoices. Pages are A4 and text is set in
+ * the standard Helvetica fonts, so no font files need to be embedded. Characters outside
+ * Latin-1 are written without their accents, or as `?` when they have no plain form.
+ */
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number; // From the top of the page
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right'; // Right-aligned text ends at x
+}
+
+export interface PdfRule {
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// Helvetica advance widths (per 1000 units of font size) for the characters that differ
+// most from the average; good enough to right-align amounts.
+const NARROW = " .,:;!|'ijlI/()[]-";
+const WIDE = 'mwMW@%';
+
+const charWidth = (char: string, bold: boolean): number => {
+  if (/[0-9]/.test(char)) return 556;
+  if (NARROW.includes(char)) return char === '-' || char === '(' || char === ')' ? 333 : 278;
+  if (WIDE.includes(char)) return 889;
+  if (/[A-Z]/.test(char)) return bold ? 722 : 667;
+  return bold ? 611 : 556;
+};
+
+/**
+ * Approximate width of a text in points
+ */
+export const measurePdfText = (text: string, size: number, bold: boolean = false): number => {
+  const units = Array.from(toLatin1(text)).reduce((sum, char) => sum + charWidth(char, bold), 0);
+  return (units * size) / 1000;
+};
+
+const toLatin1 = (text: string): string => {
+  return text
+    .replace(/[đĐ]/g, char => (char === 'đ' ? 'd' : 'D'))
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+};
+
+const escapeText = (text: string): string => {
+  return toLatin1(text).replace(/[\\()]/g, char => `\\${char}`);
+};
+
+const renderPageContent = (page: PdfPage): string => {
+  const ops: string[] = [];
+
+  for (const rule of page.rules || []) {
+    const y = PDF_PAGE_HEIGHT - rule.y;
+    ops.push(`0.5 w ${rule.x1} ${y} m ${rule.x2} ${y} l S`);
+  }
+
+  for (const item of page.texts) {
+    const size = item.size || 10;
+    const bold = !!item.bold;
+    const x = item.align === 'right' ? item.x - measurePdfText(item.text, size, bold) : item.x;
+    const y = PDF_PAGE_HEIGHT - item.y;
+    ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(item.text)}) Tj ET`
+    );
+  }
+
+  return ops.join('\n');
+};
+
+/**
+ * Build a PDF file from pages of positioned text
+ */
+export const createPdf = (pages: PdfPage[]): Buffer => {
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content object
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, index) => {
+    const content = renderPageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,98 @@
+import { ApiError } from './api-error';
+
+export interface RateEntry {
+  currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+/**
+ * Calendar day (UTC) in YYYY-MM-DD form, matching DATE() on the database side
+ */
+export const toDateKey = (date: Date | string): string => {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
+  }
+  return new Date(date).toISOString().slice(0, 10);
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * In-memory exchange-rate history, for converting many amounts without a query each.
+ * Rates are units of a currency per one unit of the base currency.
+ */
+export class RateTable {
+  private rates = new Map<string, RateEntry[]>();
+
+  constructor(
+    private baseCurrency: string,
+    entries: RateEntry[]
+  ) {
+    for (const entry of entries) {
+      const currency = entry.currency.toUpperCase();
+      const list = this.rates.get(currency) || [];
+      list.push({ ...entry, currency, rate: Number(entry.rate) });
+      this.rates.set(currency, list);
+    }
+
+    for (const list of this.rates.values()) {
+      list.sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+    }
+  }
+
+  /**
+   * Rate in effect for a currency on a day, or null when none had been set yet
+   */
+  getRate(currency: string, date: Date | string): number | null {
+    const code = currency.toUpperCase();
+    if (code === this.baseCurrency) {
+      return 1;
+    }
+
+    const list = this.rates.get(code);
+    if (!list) {
+      return null;
+    }
+
+    const day = toDateKey(date);
+    let found: number | null = null;
+    for (const entry of list) {
+      if (entry.effective_date > day) {
+        break;
+      }
+      found = entry.rate;
+    }
+    return found;
+  }
+
+  /**
+   * Convert an amount using the rates in effect on the given day
+   */
+  convert(amount: number, from: string, to: string, date: Date | string = new Date()): number {
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return roundAmount(Number(amount));
+    }
+
+    const fromRate = this.getRate(from, date);
+    const toRate = this.getRate(to, date);
+
+    if (fromRate === null || toRate === null) {
+      const missing = fromRate === null ? from : to;
+      throw new ApiError(
+        422,
+        `No exchange rate for ${missing.toUpperCase()} on ${toDateKey(date)}`
+      );
+    }
+
+    return roundAmount((Number(amount) / fromRate) * toRate);
+  }
+
+  /**
+   * Whether amounts in this currency can be converted at all
+   */
+  supports(currency: string): boolean {
+    const code = currency.toUpperCase();
+    return code === this.baseCurrency || this.rates.has(code);
+  }
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+/**
+ * Redeem codes look like `ABCD-EFGH-JKLM`. Characters that are easy to confuse when typed
+ * from print (0/O, 1/I/L) are left out.
+ */
+
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const GROUPS = 3;
+const GROUP_LENGTH = 4;
+
+/**
+ * Generate a random redeem code
+ */
+export const generateRedeemCode = (): string => {
+  const groups: string[] = [];
+
+  for (let g = 0; g < GROUPS; g++) {
+    let group = '';
+    for (let i = 0; i < GROUP_LENGTH; i++) {
+      group += ALPHABET[crypto.randomInt(ALPHABET.length)];
+    }
+    groups.push(group);
+  }
+
+  return groups.join('-');
+};
+
+/**
+ * Generate a random referral code: the same characters, in a single group of `length`
+ */
+export const generateReferralCode = (length: number = 8): string => {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += ALPHABET[crypto.randomInt(ALPHABET.length)];
+  }
+  return code;
+};
+
+/**
+ * Normalize a code as typed by a user: case and surrounding whitespace are ignored
+ */
+export const normalizeRedeemCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
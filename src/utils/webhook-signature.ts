@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook signatures use the header format `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ * where the HMAC is computed over `${t}.${rawBody}`. Including the timestamp lets us
+ * reject old requests replayed outside the tolerance window.
+ */
+
+const computeSignature = (payload: string, secret: string, timestamp: number): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+};
+
+/**
+ * Build a signature header for a payload (used by the mock provider and for local testing)
+ */
+export const signWebhookPayload = (
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+};
+
+/**
+ * Verify a signature header against the raw payload
+ * @returns true if one of the v1 signatures matches and the timestamp is within tolerance
+ */
+export const verifyWebhookSignature = (
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = 300
+): boolean => {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+
+  return signatures.some(signature => {
+    const received = Buffer.from(signature || '', 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+};
@@ -0,0 +1,75 @@
+import Joi from 'joi';
+
+const bundleIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Bundle ID is required',
+    'any.required': 'Bundle ID is required',
+  }),
+});
+
+const bundleFields = {
+  title: Joi.string().trim().max(255).messages({
+    'string.empty': 'Title is required',
+    'string.max': 'Title cannot exceed 255 characters',
+  }),
+  description: Joi.string().allow('', null),
+  price: Joi.number().min(0).precision(2).messages({
+    'number.base': 'Price must be a number',
+    'number.min': 'Price cannot be negative',
+  }),
+  course_ids: Joi.array().items(Joi.string()).min(2).max(50).messages({
+    'array.base': 'Course IDs must be an array',
+    'array.min': 'A bundle must contain at least two courses',
+    'array.max': 'A bundle cannot contain more than 50 courses',
+  }),
+  is_active: Joi.boolean(),
+};
+
+// Create bundle schema
+export const createBundleSchema = Joi.object({
+  body: Joi.object({
+    ...bundleFields,
+    title: bundleFields.title.required().messages({
+      'any.required': 'Title is required',
+    }),
+    price: bundleFields.price.required().messages({
+      'any.required': 'Price is required',
+    }),
+    course_ids: bundleFields.course_ids.required().messages({
+      'any.required': 'Course IDs are required',
+    }),
+  }),
+});
+
+// Update bundle schema
+export const updateBundleSchema = Joi.object({
+  params: bundleIdParams,
+  body: Joi.object(bundleFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get or delete bundle schema
+export const getBundleSchema = Joi.object({
+  params: bundleIdParams,
+});
+
+// List bundles schema
+export const getBundlesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    instructor_id: Joi.string().optional(),
+    include_inactive: Joi.boolean().optional(),
+  }),
+});
+
+// Bundle quote schema
+export const getBundleQuoteSchema = Joi.object({
+  params: bundleIdParams,
+  query: Joi.object({
+    currency: Joi.string().length(3).optional().messages({
+      'string.length': 'Currency must be a 3-letter code',
+    }),
+  }),
+});
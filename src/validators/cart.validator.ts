@@ -0,0 +1,58 @@
+import Joi from 'joi';
+import { PaymentMethod } from '../models/payment.model';
+
+const currencyQuery = Joi.object({
+  currency: Joi.string().length(3).optional().messages({
+    'string.length': 'Currency must be a 3-letter code',
+  }),
+});
+
+// Get cart schema
+export const getCartSchema = Joi.object({
+  query: currencyQuery,
+});
+
+// Add cart item schema
+export const addCartItemSchema = Joi.object({
+  query: currencyQuery,
+  body: Joi.object({
+    course_id: Joi.string().required().messages({
+      'string.empty': 'Course ID is required',
+      'any.required': 'Course ID is required',
+    }),
+  }),
+});
+
+// Remove cart item schema
+export const removeCartItemSchema = Joi.object({
+  query: currencyQuery,
+  params: Joi.object({
+    course_id: Joi.string().required().messages({
+      'string.empty': 'Course ID is required',
+      'any.required': 'Course ID is required',
+    }),
+  }),
+});
+
+// Cart checkout schema
+export const cartCheckoutSchema = Joi.object({
+  body: Joi.object({
+    payment_method: Joi.string()
+      .valid(...Object.values(PaymentMethod))
+      .required()
+      .messages({
+        'string.empty': 'Payment method is required',
+        'any.required': 'Payment method is required',
+        'any.only': `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+      }),
+    currency: Joi.string().length(3).optional().messages({
+      'string.length': 'Currency must be a 3-letter code',
+    }),
+    billing_country: Joi.string().length(2).uppercase().optional().messages({
+      'string.length': 'Billing country must be a 2-letter country code',
+    }),
+    billing_region: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Billing region cannot exceed 50 characters',
+    }),
+  }),
+});
@@ -0,0 +1,112 @@
+import Joi from 'joi';
+import { PaymentMethod } from '../models/payment.model';
+
+// Create checkout session schema
+export const createCheckoutSessionSchema = Joi.object({
+  body: Joi.object({
+    course_id: Joi.string().messages({
+      'string.empty': 'Course ID cannot be empty',
+    }),
+    bundle_id: Joi.string().messages({
+      'string.empty': 'Bundle ID cannot be empty',
+    }),
+    currency: Joi.string().length(3).default('USD').messages({
+      'string.base': 'Currency must be a string',
+      'string.length': 'Currency must be 3 characters long',
+    }),
+    payment_method: Joi.string()
+      .valid(...Object.values(PaymentMethod))
+      .required()
+      .messages({
+        'string.empty': 'Payment method is required',
+        'any.required': 'Payment method is required',
+        'any.only': `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+      }),
+    coupon_code: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Coupon code cannot exceed 50 characters',
+    }),
+    billing_country: Joi.string().length(2).uppercase().optional().messages({
+      'string.length': 'Billing country must be a 2-letter country code',
+    }),
+    billing_region: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Billing region cannot exceed 50 characters',
+    }),
+  })
+    .xor('course_id', 'bundle_id')
+    .messages({
+      'object.missing': 'Either a course ID or a bundle ID is required',
+      'object.xor': 'Provide either a course ID or a bundle ID, not both',
+    }),
+});
+
+// Get checkout session schema
+export const getCheckoutSessionSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Checkout session ID is required',
+      'any.required': 'Checkout session ID is required',
+    }),
+  }),
+});
+
+// Capture checkout session schema
+export const captureCheckoutSessionSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Checkout session ID is required',
+      'any.required': 'Checkout session ID is required',
+    }),
+  }),
+  body: Joi.object({
+    payment_token: Joi.string().max(255).optional(),
+  }),
+});
+
+// Cancel checkout session schema
+export const cancelCheckoutSessionSchema = getCheckoutSessionSchema;
+
+// Retry checkout session schema
+export const retryCheckoutSessionSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Checkout session ID is required',
+      'any.required': 'Checkout session ID is required',
+    }),
+  }),
+  body: Joi.object({
+    payment_method: Joi.string()
+      .valid(...Object.values(PaymentMethod))
+      .optional()
+      .messages({
+        'any.only': `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+      }),
+  }),
+});
+
+// Expire stale checkouts schema
+export const processStaleCheckoutsSchema = Joi.object({
+  body: Joi.object({
+    limit: Joi.number().integer().min(1).max(1000).optional(),
+  }),
+});
+
+// List abandoned checkouts schema
+export const getAbandonedCheckoutsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    user_id: Joi.string().optional(),
+    recovered: Joi.boolean().optional(),
+    reminder_due: Joi.boolean().optional(),
+  }),
+});
+
+// Mark abandoned checkout reminded schema
+export const markCheckoutRemindedSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Abandoned checkout ID is required',
+      'any.required': 'Abandoned checkout ID is required',
+    }),
+  }),
+});
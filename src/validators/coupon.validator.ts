@@ -0,0 +1,103 @@
+import Joi from 'joi';
+import { CouponDiscountType, CouponScope } from '../models/coupon.model';
+
+const couponIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Coupon ID is required',
+    'any.required': 'Coupon ID is required',
+  }),
+});
+
+const couponFields = {
+  code: Joi.string()
+    .trim()
+    .pattern(/^[A-Za-z0-9_-]+$/)
+    .min(3)
+    .max(50)
+    .messages({
+      'string.pattern.base':
+        'Coupon code can only contain letters, numbers, dashes and underscores',
+      'string.min': 'Coupon code must be at least 3 characters',
+      'string.max': 'Coupon code cannot exceed 50 characters',
+    }),
+  description: Joi.string().max(255).allow('', null),
+  discount_type: Joi.string()
+    .valid(...Object.values(CouponDiscountType))
+    .messages({
+      'any.only': `Discount type must be one of: ${Object.values(CouponDiscountType).join(', ')}`,
+    }),
+  discount_value: Joi.number().positive().precision(2).messages({
+    'number.base': 'Discount value must be a number',
+    'number.positive': 'Discount value must be positive',
+  }),
+  scope: Joi.string()
+    .valid(...Object.values(CouponScope))
+    .messages({
+      'any.only': `Scope must be one of: ${Object.values(CouponScope).join(', ')}`,
+    }),
+  scope_id: Joi.string().max(20).allow(null),
+  max_redemptions: Joi.number().integer().min(1).allow(null),
+  max_redemptions_per_user: Joi.number().integer().min(1).allow(null),
+  starts_at: Joi.date().iso().allow(null),
+  expires_at: Joi.date().iso().allow(null),
+  is_active: Joi.boolean(),
+};
+
+// Create coupon schema
+export const createCouponSchema = Joi.object({
+  body: Joi.object({
+    ...couponFields,
+    code: couponFields.code.required().messages({
+      'any.required': 'Coupon code is required',
+    }),
+    discount_type: couponFields.discount_type.required().messages({
+      'any.required': 'Discount type is required',
+    }),
+    discount_value: couponFields.discount_value.required().messages({
+      'any.required': 'Discount value is required',
+    }),
+  }),
+});
+
+// Update coupon schema
+export const updateCouponSchema = Joi.object({
+  params: couponIdParams,
+  body: Joi.object(couponFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get coupon by ID schema
+export const getCouponSchema = Joi.object({
+  params: couponIdParams,
+});
+
+// Delete coupon schema
+export const deleteCouponSchema = getCouponSchema;
+
+// List coupons schema
+export const getCouponsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    search: Joi.string().optional(),
+    scope: Joi.string()
+      .valid(...Object.values(CouponScope))
+      .optional(),
+    is_active: Joi.boolean().optional(),
+  }),
+});
+
+// Validate coupon schema
+export const validateCouponSchema = Joi.object({
+  body: Joi.object({
+    code: Joi.string().trim().max(50).required().messages({
+      'string.empty': 'Coupon code is required',
+      'any.required': 'Coupon code is required',
+    }),
+    course_id: Joi.string().required().messages({
+      'string.empty': 'Course ID is required',
+      'any.required': 'Course ID is required',
+    }),
+  }),
+});
@@ -96,3 +96,63 @@ export const getRecommendedCoursesSchema = Joi.object({
     limit: Joi.number().integer().min(1).max(100),
   }),
 });
+
+// Set course price validation schema
+export const setCoursePriceSchema = Joi.object({
+  body: Joi.object({
+    amount: Joi.number().min(0).precision(2).required(),
+  }).required(),
+  params: Joi.object({
+    id: Joi.string().required(),
+    currency: Joi.string()
+      .pattern(/^[A-Za-z]{3}$/)
+      .required(),
+  }).required(),
+});
+
+// Delete course price validation schema
+export const deleteCoursePriceSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required(),
+    currency: Joi.string()
+      .pattern(/^[A-Za-z]{3}$/)
+      .required(),
+  }).required(),
+});
+
+// Set regional prices validation schema
+export const setRegionalPricesSchema = Joi.object({
+  body: Joi.object({
+    countries: Joi.array()
+      .items(Joi.string().pattern(/^[A-Za-z]{2}$/))
+      .min(1)
+      .max(250)
+      .required(),
+    currency: Joi.string().pattern(/^[A-Za-z]{3}$/),
+    amount: Joi.number().min(0).precision(2).required(),
+  }).required(),
+  params: Joi.object({
+    id: Joi.string().required(),
+  }).required(),
+});
+
+// Delete regional price validation schema
+export const deleteRegionalPriceSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required(),
+    country: Joi.string()
+      .pattern(/^[A-Za-z]{2}$/)
+      .required(),
+  }).required(),
+});
+
+// Get price history validation schema
+export const getPriceHistorySchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required(),
+  }).required(),
+  query: Joi.object({
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(100),
+  }),
+});
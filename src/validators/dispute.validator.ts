@@ -0,0 +1,114 @@
+import Joi from 'joi';
+import { DisputeStatus } from '../models/dispute.model';
+import { DisputeEvidenceType } from '../models/dispute-evidence.model';
+
+const idParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Dispute ID is required',
+    'any.required': 'Dispute ID is required',
+  }),
+});
+
+// Open dispute schema
+export const openDisputeSchema = Joi.object({
+  body: Joi.object({
+    payment_id: Joi.string().required().messages({
+      'string.empty': 'Payment ID is required',
+      'any.required': 'Payment ID is required',
+    }),
+    reason: Joi.string().trim().max(100).required().messages({
+      'string.empty': 'Reason is required',
+      'string.max': 'Reason cannot exceed 100 characters',
+      'any.required': 'Reason is required',
+    }),
+    amount: Joi.number().positive().precision(2).optional().messages({
+      'number.base': 'Amount must be a number',
+      'number.positive': 'Amount must be positive',
+    }),
+    evidence_due_by: Joi.date().iso().allow(null).optional().messages({
+      'date.base': 'Evidence due date must be a valid date',
+      'date.format': 'Evidence due date must be in ISO format',
+    }),
+    provider_dispute_id: Joi.string().max(100).allow(null).optional().messages({
+      'string.max': 'Provider dispute ID cannot exceed 100 characters',
+    }),
+  }),
+});
+
+// List disputes schema
+export const getDisputesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(DisputeStatus))
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${Object.values(DisputeStatus).join(', ')}`,
+      }),
+    payment_id: Joi.string().optional(),
+  }),
+});
+
+// Get dispute schema
+export const getDisputeSchema = Joi.object({
+  params: idParams,
+});
+
+// Add evidence schema
+export const addEvidenceSchema = Joi.object({
+  params: idParams,
+  body: Joi.object({
+    type: Joi.string()
+      .valid(...Object.values(DisputeEvidenceType))
+      .required()
+      .messages({
+        'any.only': `Type must be one of: ${Object.values(DisputeEvidenceType).join(', ')}`,
+        'any.required': 'Evidence type is required',
+      }),
+    description: Joi.string()
+      .trim()
+      .max(2000)
+      .when('type', {
+        is: DisputeEvidenceType.NOTE,
+        then: Joi.required(),
+        otherwise: Joi.optional().allow(''),
+      })
+      .messages({
+        'string.empty': 'Description is required for a note',
+        'string.max': 'Description cannot exceed 2000 characters',
+        'any.required': 'Description is required for a note',
+      }),
+    url: Joi.string()
+      .uri()
+      .max(500)
+      .when('type', {
+        is: DisputeEvidenceType.DOCUMENT,
+        then: Joi.required(),
+        otherwise: Joi.forbidden(),
+      })
+      .messages({
+        'string.uri': 'URL must be a valid URL',
+        'string.max': 'URL cannot exceed 500 characters',
+        'any.required': 'URL is required for a document',
+        'any.unknown': 'URL is only allowed for a document',
+      }),
+  }),
+});
+
+// Resolve dispute schema
+export const resolveDisputeSchema = Joi.object({
+  params: idParams,
+  body: Joi.object({
+    outcome: Joi.string()
+      .valid(DisputeStatus.WON, DisputeStatus.LOST)
+      .required()
+      .messages({
+        'any.only': `Outcome must be one of: ${DisputeStatus.WON}, ${DisputeStatus.LOST}`,
+        'any.required': 'Outcome is required',
+      }),
+    note: Joi.string().trim().max(500).allow('').optional().messages({
+      'string.max': 'Note cannot exceed 500 characters',
+    }),
+  }),
+});
@@ -0,0 +1,53 @@
+import Joi from 'joi';
+
+// Earnings summary schema
+export const getEarningsSummarySchema = Joi.object({
+  query: Joi.object({
+    instructor_id: Joi.string().optional(),
+  }),
+});
+
+// Earnings statement schema
+export const getEarningsStatementSchema = Joi.object({
+  query: Joi.object({
+    instructor_id: Joi.string().optional(),
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    start_date: Joi.date().iso().optional(),
+    end_date: Joi.date().iso().optional(),
+  }),
+});
+
+// Instructor payouts schema
+export const getInstructorPayoutsSchema = Joi.object({
+  query: Joi.object({
+    instructor_id: Joi.string().optional(),
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string().valid('pending', 'paid', 'failed', 'cancelled').optional(),
+  }),
+});
+
+// List revenue-share rules schema
+export const getRevenueShareRulesSchema = Joi.object({
+  query: Joi.object({
+    instructor_id: Joi.string().optional(),
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+  }),
+});
+
+// Set revenue-share rule schema
+export const setRevenueShareRuleSchema = Joi.object({
+  body: Joi.object({
+    instructor_id: Joi.string().max(20).allow(null).optional(),
+    instructor_share_percent: Joi.number().min(0).max(100).precision(2).required().messages({
+      'number.base': 'Instructor share must be a number',
+      'number.min': 'Instructor share cannot be negative',
+      'number.max': 'Instructor share cannot exceed 100',
+      'any.required': 'Instructor share is required',
+    }),
+    effective_from: Joi.date().iso().optional(),
+    note: Joi.string().max(255).allow('', null),
+  }),
+});
@@ -0,0 +1,83 @@
+import Joi from 'joi';
+import { PaymentMethod } from '../models/payment.model';
+
+const batchIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Batch ID is required',
+    'any.required': 'Batch ID is required',
+  }),
+});
+
+// Purchase gift schema
+export const purchaseGiftSchema = Joi.object({
+  body: Joi.object({
+    course_id: Joi.string().required().messages({
+      'string.empty': 'Course ID is required',
+      'any.required': 'Course ID is required',
+    }),
+    payment_method: Joi.string()
+      .valid(...Object.values(PaymentMethod))
+      .required()
+      .messages({
+        'string.empty': 'Payment method is required',
+        'any.required': 'Payment method is required',
+        'any.only': `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+      }),
+    currency: Joi.string().length(3).optional().messages({
+      'string.length': 'Currency must be a 3-letter code',
+    }),
+    coupon_code: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Coupon code cannot exceed 50 characters',
+    }),
+    billing_country: Joi.string().length(2).uppercase().optional().messages({
+      'string.length': 'Billing country must be a 2-letter country code',
+    }),
+    billing_region: Joi.string().trim().max(50).optional().messages({
+      'string.max': 'Billing region cannot exceed 50 characters',
+    }),
+    recipient_email: Joi.string().email().optional().messages({
+      'string.email': 'Recipient email must be a valid email',
+    }),
+    message: Joi.string().max(1000).allow('').optional().messages({
+      'string.max': 'Message cannot exceed 1000 characters',
+    }),
+  }),
+});
+
+// Create code batch schema
+export const createCodeBatchSchema = Joi.object({
+  body: Joi.object({
+    course_id: Joi.string().required().messages({
+      'string.empty': 'Course ID is required',
+      'any.required': 'Course ID is required',
+    }),
+    name: Joi.string().trim().max(100).required().messages({
+      'string.empty': 'Name is required',
+      'string.max': 'Name cannot exceed 100 characters',
+      'any.required': 'Name is required',
+    }),
+    quantity: Joi.number().integer().min(1).max(1000).required().messages({
+      'number.base': 'Quantity must be a number',
+      'number.min': 'Quantity must be at least 1',
+      'number.max': 'Quantity cannot exceed 1000',
+      'any.required': 'Quantity is required',
+    }),
+    expires_at: Joi.date().iso().allow(null).optional().messages({
+      'date.format': 'Expiry date must be an ISO date',
+    }),
+  }),
+});
+
+// List code batches schema
+export const getCodeBatchesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    course_id: Joi.string().optional(),
+  }),
+});
+
+// Get or revoke code batch schema
+export const getCodeBatchSchema = Joi.object({
+  params: batchIdParams,
+});
@@ -10,6 +10,36 @@ export const createEnrollmentSchema = Joi.object({
   }),
 });
 
+// Redeem enrollment code schema
+export const redeemEnrollmentCodeSchema = Joi.object({
+  body: Joi.object({
+    code: Joi.string().trim().max(32).required().messages({
+      "string.empty": "Code is required",
+      "string.max": "Code must not exceed 32 characters",
+      "any.required": "Code is required",
+    }),
+  }),
+});
+
+// Comp enrollment schema
+export const compEnrollmentSchema = Joi.object({
+  body: Joi.object({
+    user_id: Joi.string().required().messages({
+      "string.empty": "User ID is required",
+      "any.required": "User ID is required",
+    }),
+    course_id: Joi.string().required().messages({
+      "string.empty": "Course ID is required",
+      "any.required": "Course ID is required",
+    }),
+    reason: Joi.string().trim().max(500).required().messages({
+      "string.empty": "Reason is required",
+      "string.max": "Reason must not exceed 500 characters",
+      "any.required": "Reason is required",
+    }),
+  }),
+});
+
 // Get enrollment by ID schema
 export const getEnrollmentSchema = Joi.object({
   params: Joi.object({
@@ -0,0 +1,46 @@
+import Joi from 'joi';
+
+const currencyCode = Joi.string()
+  .pattern(/^[A-Za-z]{3}$/)
+  .messages({
+    'string.pattern.base': 'Currency must be a 3-letter code',
+  });
+
+// Set exchange rate schema
+export const setExchangeRateSchema = Joi.object({
+  body: Joi.object({
+    currency: currencyCode.required().messages({
+      'any.required': 'Currency is required',
+    }),
+    rate: Joi.number().positive().required().messages({
+      'number.base': 'Rate must be a number',
+      'number.positive': 'Rate must be positive',
+      'any.required': 'Rate is required',
+    }),
+    effective_date: Joi.date().iso().optional().messages({
+      'date.format': 'Effective date must be in ISO format',
+    }),
+    source: Joi.string().max(100).allow('', null),
+  }),
+});
+
+// List exchange rates schema
+export const getExchangeRatesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    currency: currencyCode.optional(),
+    start_date: Joi.date().iso().optional(),
+    end_date: Joi.date().iso().optional(),
+  }),
+});
+
+// Delete exchange rate schema
+export const deleteExchangeRateSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Exchange rate ID is required',
+      'any.required': 'Exchange rate ID is required',
+    }),
+  }),
+});
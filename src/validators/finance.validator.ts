@@ -0,0 +1,83 @@
+import Joi from 'joi';
+import { PaymentStatus } from '../models/payment.model';
+import { RefundStatus } from '../models/refund.model';
+import { ReconciliationIssue } from '../models/reconciliation-item.model';
+
+const exportQuery = (statuses: string[]) =>
+  Joi.object({
+    start_date: Joi.date().iso().optional().messages({
+      'date.base': 'Start date must be a valid date',
+      'date.format': 'Start date must be in ISO format',
+    }),
+    end_date: Joi.date().iso().min(Joi.ref('start_date')).optional().messages({
+      'date.base': 'End date must be a valid date',
+      'date.format': 'End date must be in ISO format',
+      'date.min': 'End date must not be before start date',
+    }),
+    status: Joi.string()
+      .valid(...statuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${statuses.join(', ')}`,
+      }),
+    instructor_id: Joi.string().optional(),
+  });
+
+// Import settlement file schema (multipart fields; the file itself is checked by the controller)
+export const importSettlementSchema = Joi.object({
+  body: Joi.object({
+    period_start: Joi.date().iso().required().messages({
+      'date.base': 'Period start must be a valid date',
+      'date.format': 'Period start must be in ISO format',
+      'any.required': 'Period start is required',
+    }),
+    period_end: Joi.date().iso().min(Joi.ref('period_start')).required().messages({
+      'date.base': 'Period end must be a valid date',
+      'date.format': 'Period end must be in ISO format',
+      'date.min': 'Period end must not be before period start',
+      'any.required': 'Period end is required',
+    }),
+    payment_method: Joi.string().max(50).optional().messages({
+      'string.max': 'Payment method cannot exceed 50 characters',
+    }),
+  }),
+});
+
+// List reconciliation runs schema
+export const getReconciliationsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    payment_method: Joi.string().optional(),
+  }),
+});
+
+// Get reconciliation run schema
+export const getReconciliationSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      'string.empty': 'Reconciliation run ID is required',
+      'any.required': 'Reconciliation run ID is required',
+    }),
+  }),
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(200).optional(),
+    issue: Joi.string()
+      .valid(...Object.values(ReconciliationIssue))
+      .optional()
+      .messages({
+        'any.only': `Issue must be one of: ${Object.values(ReconciliationIssue).join(', ')}`,
+      }),
+  }),
+});
+
+// Export payments schema
+export const exportPaymentsSchema = Joi.object({
+  query: exportQuery(Object.values(PaymentStatus)),
+});
+
+// Export refunds schema
+export const exportRefundsSchema = Joi.object({
+  query: exportQuery(Object.values(RefundStatus)),
+});
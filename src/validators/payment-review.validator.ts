@@ -0,0 +1,38 @@
+import Joi from 'joi';
+import { PaymentScreeningStatus } from '../models/payment-screening.model';
+
+const idParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Payment review ID is required',
+    'any.required': 'Payment review ID is required',
+  }),
+});
+
+// List payment reviews schema
+export const getPaymentReviewsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(PaymentScreeningStatus))
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${Object.values(PaymentScreeningStatus).join(', ')}`,
+      }),
+  }),
+});
+
+// Get payment review schema
+export const getPaymentReviewSchema = Joi.object({
+  params: idParams,
+});
+
+// Approve or reject payment review schema
+export const reviewPaymentSchema = Joi.object({
+  params: idParams,
+  body: Joi.object({
+    note: Joi.string().trim().max(500).allow('').optional().messages({
+      'string.max': 'Note cannot exceed 500 characters',
+    }),
+  }),
+});
@@ -9,15 +9,24 @@ export const createPaymentSchema = Joi.object({
       "string.empty": "Course ID is required",
       "any.required": "Course ID is required",
     }),
-    amount: Joi.number().positive().required().messages({
+    amount: Joi.number().min(0).required().messages({
       "number.base": "Amount must be a number",
-      "number.positive": "Amount must be positive",
+      "number.min": "Amount cannot be negative",
       "any.required": "Amount is required",
     }),
     currency: Joi.string().length(3).default("USD").messages({
       "string.base": "Currency must be a string",
       "string.length": "Currency must be 3 characters long",
     }),
+    coupon_code: Joi.string().trim().max(50).optional().messages({
+      "string.max": "Coupon code cannot exceed 50 characters",
+    }),
+    billing_country: Joi.string().length(2).uppercase().optional().messages({
+      "string.length": "Billing country must be a 2-letter country code",
+    }),
+    billing_region: Joi.string().trim().max(50).optional().messages({
+      "string.max": "Billing region cannot exceed 50 characters",
+    }),
     payment_method: Joi.string()
       .valid(...Object.values(PaymentMethod))
       .required()
@@ -31,6 +40,28 @@ export const createPaymentSchema = Joi.object({
   }),
 });
 
+// Get price quote schema
+export const getPriceQuoteSchema = Joi.object({
+  query: Joi.object({
+    course_id: Joi.string().required().messages({
+      "string.empty": "Course ID is required",
+      "any.required": "Course ID is required",
+    }),
+    currency: Joi.string().length(3).optional().messages({
+      "string.length": "Currency must be 3 characters long",
+    }),
+    coupon_code: Joi.string().trim().max(50).optional().messages({
+      "string.max": "Coupon code cannot exceed 50 characters",
+    }),
+    billing_country: Joi.string().length(2).uppercase().optional().messages({
+      "string.length": "Billing country must be a 2-letter country code",
+    }),
+    billing_region: Joi.string().trim().max(50).optional().messages({
+      "string.max": "Billing region cannot exceed 50 characters",
+    }),
+  }),
+});
+
 // Get payment by ID schema
 export const getPaymentSchema = Joi.object({
   params: Joi.object({
@@ -41,6 +72,22 @@ export const getPaymentSchema = Joi.object({
   }),
 });
 
+// Get invoice schema
+export const getInvoiceSchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      "string.empty": "Payment ID is required",
+      "any.required": "Payment ID is required",
+    }),
+  }),
+  query: Joi.object({
+    format: Joi.string().valid("pdf", "html").optional().messages({
+      "any.only": "Format must be one of: pdf, html",
+    }),
+    refund_id: Joi.string().optional(),
+  }),
+});
+
 // Get user payments schema
 export const getUserPaymentsSchema = Joi.object({
   params: Joi.object({
@@ -100,6 +147,9 @@ export const updatePaymentStatusSchema = Joi.object({
           ", "
         )}`,
       }),
+    reason: Joi.string().max(500).optional().messages({
+      "string.max": "Reason cannot exceed 500 characters",
+    }),
   }),
 });
 
@@ -116,9 +166,21 @@ export const processRefundSchema = Joi.object({
       "string.empty": "Reason is required",
       "any.required": "Reason is required",
     }),
-    amount: Joi.number().positive().optional().messages({
+    amount: Joi.number().min(0).required().messages({
       "number.base": "Amount must be a number",
-      "number.positive": "Amount must be positive",
+      "number.min": "Amount cannot be negative",
+      "any.required": "Amount is required",
+    }),
+    override_policy: Joi.boolean().optional(),
+  }),
+});
+
+// Get refund eligibility schema
+export const getRefundEligibilitySchema = Joi.object({
+  params: Joi.object({
+    id: Joi.string().required().messages({
+      "string.empty": "Payment ID is required",
+      "any.required": "Payment ID is required",
     }),
   }),
 });
@@ -139,6 +201,12 @@ export const getRevenueByTimeSchema = Joi.object({
     period: Joi.string().valid("day", "month", "year").default("day").messages({
       "any.only": "Period must be one of: day, month, year",
     }),
+    currency: Joi.string().length(3).uppercase().optional().messages({
+      "string.length": "Currency must be a 3-letter code",
+    }),
+    net_of_tax: Joi.boolean().optional().messages({
+      "boolean.base": "net_of_tax must be true or false",
+    }),
   }),
 });
 
@@ -150,6 +218,12 @@ export const getRevenueStatisticsSchema = Joi.object({
     instructor_id: Joi.string().optional().messages({
       'string.base': 'Instructor ID must be a string',
     }),
+    currency: Joi.string().length(3).uppercase().optional().messages({
+      "string.length": "Currency must be a 3-letter code",
+    }),
+    net_of_tax: Joi.boolean().optional().messages({
+      "boolean.base": "net_of_tax must be true or false",
+    }),
   }),
 });
 
@@ -164,6 +238,12 @@ export const getInstructorRevenueSchema = Joi.object({
   query: Joi.object({
     start_date: Joi.date().iso().optional(),
     end_date: Joi.date().iso().optional(),
+    currency: Joi.string().length(3).uppercase().optional().messages({
+      "string.length": "Currency must be a 3-letter code",
+    }),
+    net_of_tax: Joi.boolean().optional().messages({
+      "boolean.base": "net_of_tax must be true or false",
+    }),
   }),
 });
 
@@ -174,5 +254,37 @@ export const getHighestRevenueCoursesSchema = Joi.object({
     limit: Joi.number().integer().min(1).max(100).optional(),
     start_date: Joi.date().iso().optional(),
     end_date: Joi.date().iso().optional(),
+    currency: Joi.string().length(3).uppercase().optional().messages({
+      "string.length": "Currency must be a 3-letter code",
+    }),
+  }),
+});
+
+// Get total revenue schema
+export const getTotalRevenueSchema = Joi.object({
+  query: Joi.object({
+    currency: Joi.string().length(3).uppercase().optional().messages({
+      "string.length": "Currency must be a 3-letter code",
+    }),
+    net_of_tax: Joi.boolean().optional().messages({
+      "boolean.base": "net_of_tax must be true or false",
+    }),
   }),
-}); 
\ No newline at end of file
+});
+
+// Payment webhook schema
+export const paymentWebhookSchema = Joi.object({
+  params: Joi.object({
+    provider: Joi.string().required().messages({
+      "string.empty": "Provider is required",
+      "any.required": "Provider is required",
+    }),
+  }),
+});
+
+// Complete paid-out pending refunds schema
+export const processPendingRefundsSchema = Joi.object({
+  body: Joi.object({
+    limit: Joi.number().integer().min(1).max(1000).optional(),
+  }),
+});
@@ -0,0 +1,52 @@
+import Joi from 'joi';
+import { PayoutBatchStatus } from '../models/payout-batch.model';
+import { PayoutStatus } from '../models/payout.model';
+
+const idParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'ID is required',
+    'any.required': 'ID is required',
+  }),
+});
+
+// Create payout batch schema
+export const createPayoutBatchSchema = Joi.object({
+  body: Joi.object({
+    period: Joi.string()
+      .pattern(/^\d{4}-(0[1-9]|1[0-2])$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Period must be a month in YYYY-MM format',
+        'any.required': 'Period is required',
+      }),
+  }),
+});
+
+// List payout batches schema
+export const getPayoutBatchesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(PayoutBatchStatus))
+      .optional(),
+  }),
+});
+
+// Get or cancel payout batch schema
+export const payoutBatchIdSchema = Joi.object({
+  params: idParams,
+});
+
+// Update payout status schema
+export const updatePayoutStatusSchema = Joi.object({
+  params: idParams,
+  body: Joi.object({
+    status: Joi.string().valid(PayoutStatus.PAID, PayoutStatus.FAILED).required().messages({
+      'any.only': 'Status must be one of: paid, failed',
+      'any.required': 'Status is required',
+    }),
+    reference: Joi.string().max(255).optional(),
+    failure_reason: Joi.string().max(1000).optional(),
+  }),
+});
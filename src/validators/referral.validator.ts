@@ -0,0 +1,74 @@
+import Joi from 'joi';
+import { CommissionStatus } from '../models/referral-commission.model';
+
+const idParams = (label: string) =>
+  Joi.object({
+    id: Joi.string()
+      .required()
+      .messages({
+        'string.empty': `${label} ID is required`,
+        'any.required': `${label} ID is required`,
+      }),
+  });
+
+const reviewBody = Joi.object({
+  note: Joi.string().trim().max(500).allow('').optional().messages({
+    'string.max': 'Note cannot exceed 500 characters',
+  }),
+});
+
+// Create referral link schema
+export const createReferralLinkSchema = Joi.object({
+  body: Joi.object({
+    course_id: Joi.string().allow(null).optional(),
+  }),
+});
+
+// Update referral link schema (admin)
+export const updateReferralLinkSchema = Joi.object({
+  params: idParams('Referral link'),
+  body: Joi.object({
+    commission_rate: Joi.number().min(0).max(100).precision(2).allow(null).optional().messages({
+      'number.base': 'Commission rate must be a number',
+      'number.min': 'Commission rate cannot be negative',
+      'number.max': 'Commission rate cannot exceed 100',
+    }),
+    is_active: Joi.boolean().optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field must be provided for update',
+    }),
+});
+
+// Record click schema
+export const recordClickSchema = Joi.object({
+  body: Joi.object({
+    code: Joi.string().trim().max(16).required().messages({
+      'string.empty': 'Referral code is required',
+      'string.max': 'Referral code cannot exceed 16 characters',
+      'any.required': 'Referral code is required',
+    }),
+  }),
+});
+
+// List commissions schema
+export const getCommissionsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(CommissionStatus))
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${Object.values(CommissionStatus).join(', ')}`,
+      }),
+    affiliate_id: Joi.string().optional(),
+  }),
+});
+
+// Approve or reject commission schema
+export const reviewCommissionSchema = Joi.object({
+  params: idParams('Commission'),
+  body: reviewBody,
+});
@@ -0,0 +1,68 @@
+import Joi from 'joi';
+
+const refundPolicyIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Refund policy ID is required',
+    'any.required': 'Refund policy ID is required',
+  }),
+});
+
+const refundPolicyFields = {
+  course_id: Joi.string().max(20).allow(null),
+  name: Joi.string().trim().max(100).messages({
+    'string.empty': 'Name is required',
+    'string.max': 'Name cannot exceed 100 characters',
+  }),
+  max_days_since_purchase: Joi.number().integer().min(0).allow(null).messages({
+    'number.base': 'Max days since purchase must be a number',
+    'number.min': 'Max days since purchase cannot be negative',
+  }),
+  max_progress_percent: Joi.number().min(0).max(100).precision(2).allow(null).messages({
+    'number.base': 'Max progress percent must be a number',
+    'number.min': 'Max progress percent cannot be negative',
+    'number.max': 'Max progress percent cannot exceed 100',
+  }),
+  is_active: Joi.boolean(),
+};
+
+// Create refund policy schema
+export const createRefundPolicySchema = Joi.object({
+  body: Joi.object({
+    ...refundPolicyFields,
+    name: refundPolicyFields.name.required().messages({
+      'any.required': 'Name is required',
+    }),
+  })
+    .or('max_days_since_purchase', 'max_progress_percent')
+    .messages({
+      'object.missing':
+        'At least one of max_days_since_purchase or max_progress_percent is required',
+    }),
+});
+
+// Update refund policy schema
+export const updateRefundPolicySchema = Joi.object({
+  params: refundPolicyIdParams,
+  body: Joi.object(refundPolicyFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get refund policy by ID schema
+export const getRefundPolicySchema = Joi.object({
+  params: refundPolicyIdParams,
+});
+
+// Delete refund policy schema
+export const deleteRefundPolicySchema = getRefundPolicySchema;
+
+// List refund policies schema
+export const getRefundPoliciesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    course_id: Joi.string().optional(),
+    global: Joi.boolean().optional(),
+    is_active: Joi.boolean().optional(),
+  }).oxor('course_id', 'global'),
+});
@@ -0,0 +1,64 @@
+import Joi from 'joi';
+import { RefundRequestStatus } from '../models/refund-request.model';
+
+const refundRequestIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Refund request ID is required',
+    'any.required': 'Refund request ID is required',
+  }),
+});
+
+// Create refund request schema
+export const createRefundRequestSchema = Joi.object({
+  body: Joi.object({
+    payment_id: Joi.string().required().messages({
+      'string.empty': 'Payment ID is required',
+      'any.required': 'Payment ID is required',
+    }),
+    amount: Joi.number().positive().precision(2).optional().messages({
+      'number.base': 'Amount must be a number',
+      'number.positive': 'Amount must be positive',
+    }),
+    reason: Joi.string().trim().min(10).max(2000).required().messages({
+      'string.empty': 'Reason is required',
+      'string.min': 'Reason must be at least 10 characters',
+      'any.required': 'Reason is required',
+    }),
+  }),
+});
+
+// List refund requests schema
+export const getRefundRequestsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(RefundRequestStatus))
+      .optional(),
+    payment_id: Joi.string().optional(),
+  }),
+});
+
+// Get, cancel or process refund request schema
+export const refundRequestIdSchema = Joi.object({
+  params: refundRequestIdParams,
+});
+
+// Review refund request schema
+export const reviewRefundRequestSchema = Joi.object({
+  params: refundRequestIdParams,
+  body: Joi.object({
+    status: Joi.string()
+      .valid(RefundRequestStatus.APPROVED, RefundRequestStatus.REJECTED)
+      .required()
+      .messages({
+        'any.only': 'Status must be one of: approved, rejected',
+        'any.required': 'Status is required',
+      }),
+    reviewer_note: Joi.string().max(2000).allow('').optional(),
+    amount: Joi.number().positive().precision(2).optional().messages({
+      'number.base': 'Amount must be a number',
+      'number.positive': 'Amount must be positive',
+    }),
+  }),
+});
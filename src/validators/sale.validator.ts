@@ -0,0 +1,89 @@
+import Joi from 'joi';
+import { SaleScope, SaleStatus } from '../models/sale.model';
+
+const saleIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Sale ID is required',
+    'any.required': 'Sale ID is required',
+  }),
+});
+
+const saleFields = {
+  name: Joi.string().trim().min(3).max(100).messages({
+    'string.min': 'Sale name must be at least 3 characters',
+    'string.max': 'Sale name cannot exceed 100 characters',
+  }),
+  scope: Joi.string()
+    .valid(...Object.values(SaleScope))
+    .messages({
+      'any.only': `Scope must be one of: ${Object.values(SaleScope).join(', ')}`,
+    }),
+  scope_id: Joi.string().max(20).allow(null),
+  discount_percent: Joi.number().positive().max(100).precision(2).messages({
+    'number.base': 'Discount percent must be a number',
+    'number.positive': 'Discount percent must be positive',
+    'number.max': 'Discount percent cannot exceed 100',
+  }),
+  starts_at: Joi.date().iso(),
+  ends_at: Joi.date().iso(),
+};
+
+// Create sale schema
+export const createSaleSchema = Joi.object({
+  body: Joi.object({
+    ...saleFields,
+    name: saleFields.name.required().messages({
+      'any.required': 'Sale name is required',
+    }),
+    scope: saleFields.scope.required().messages({
+      'any.required': 'Scope is required',
+    }),
+    discount_percent: saleFields.discount_percent.required().messages({
+      'any.required': 'Discount percent is required',
+    }),
+    starts_at: saleFields.starts_at.required().messages({
+      'any.required': 'Sale start is required',
+    }),
+    ends_at: saleFields.ends_at.required().messages({
+      'any.required': 'Sale end is required',
+    }),
+  }),
+});
+
+// Update sale schema
+export const updateSaleSchema = Joi.object({
+  params: saleIdParams,
+  body: Joi.object(saleFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get sale by ID schema
+export const getSaleSchema = Joi.object({
+  params: saleIdParams,
+});
+
+// Cancel sale schema
+export const cancelSaleSchema = getSaleSchema;
+
+// List sales schema
+export const getSalesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(SaleStatus))
+      .optional(),
+    scope: Joi.string()
+      .valid(...Object.values(SaleScope))
+      .optional(),
+    scope_id: Joi.string().optional(),
+  }),
+});
+
+// Process sales schema
+export const processSalesSchema = Joi.object({
+  body: Joi.object({
+    limit: Joi.number().integer().min(1).max(1000).optional(),
+  }),
+});
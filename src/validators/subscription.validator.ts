@@ -0,0 +1,137 @@
+import Joi from 'joi';
+import { SubscriptionInterval } from '../models/subscription-plan.model';
+import { SubscriptionStatus } from '../models/subscription.model';
+import { PaymentMethod } from '../models/payment.model';
+
+const planIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Subscription plan ID is required',
+    'any.required': 'Subscription plan ID is required',
+  }),
+});
+
+const subscriptionIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Subscription ID is required',
+    'any.required': 'Subscription ID is required',
+  }),
+});
+
+const planFields = {
+  name: Joi.string().trim().max(100).messages({
+    'string.empty': 'Name is required',
+    'string.max': 'Name cannot exceed 100 characters',
+  }),
+  description: Joi.string().allow('', null),
+  interval: Joi.string()
+    .valid(...Object.values(SubscriptionInterval))
+    .messages({
+      'any.only': `Interval must be one of: ${Object.values(SubscriptionInterval).join(', ')}`,
+    }),
+  price: Joi.number().positive().precision(2).messages({
+    'number.base': 'Price must be a number',
+    'number.positive': 'Price must be positive',
+  }),
+  currency: Joi.string().length(3).messages({
+    'string.length': 'Currency must be a 3-letter code',
+  }),
+  grace_period_days: Joi.number().integer().min(0).max(60).messages({
+    'number.min': 'Grace period cannot be negative',
+    'number.max': 'Grace period cannot exceed 60 days',
+  }),
+  is_active: Joi.boolean(),
+};
+
+const paymentMethod = Joi.string()
+  .valid(...Object.values(PaymentMethod))
+  .messages({
+    'any.only': `Payment method must be one of: ${Object.values(PaymentMethod).join(', ')}`,
+  });
+
+// Create subscription plan schema
+export const createPlanSchema = Joi.object({
+  body: Joi.object({
+    ...planFields,
+    name: planFields.name.required().messages({
+      'any.required': 'Name is required',
+    }),
+    interval: planFields.interval.required().messages({
+      'any.required': 'Interval is required',
+    }),
+    price: planFields.price.required().messages({
+      'any.required': 'Price is required',
+    }),
+  }),
+});
+
+// Update subscription plan schema
+export const updatePlanSchema = Joi.object({
+  params: planIdParams,
+  body: Joi.object(planFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get subscription plan schema
+export const getPlanSchema = Joi.object({
+  params: planIdParams,
+});
+
+// List subscription plans schema
+export const getPlansSchema = Joi.object({
+  query: Joi.object({
+    include_inactive: Joi.boolean().optional(),
+  }),
+});
+
+// Subscribe schema
+export const subscribeSchema = Joi.object({
+  body: Joi.object({
+    plan_id: Joi.string().required().messages({
+      'string.empty': 'Plan ID is required',
+      'any.required': 'Plan ID is required',
+    }),
+    payment_method: paymentMethod.required().messages({
+      'any.required': 'Payment method is required',
+    }),
+    payment_token: Joi.string().max(100).optional(),
+  }),
+});
+
+// List subscriptions schema
+export const getSubscriptionsSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    status: Joi.string()
+      .valid(...Object.values(SubscriptionStatus))
+      .optional(),
+    plan_id: Joi.string().optional(),
+    user_id: Joi.string().optional(),
+  }),
+});
+
+// Get, cancel or resume subscription schema
+export const subscriptionIdSchema = Joi.object({
+  params: subscriptionIdParams,
+});
+
+// Update payment method schema
+export const updatePaymentMethodSchema = Joi.object({
+  params: subscriptionIdParams,
+  body: Joi.object({
+    payment_method: paymentMethod.optional(),
+    payment_token: Joi.string().max(100).allow(null).optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field must be provided',
+    }),
+});
+
+// Run renewals schema
+export const processRenewalsSchema = Joi.object({
+  body: Joi.object({
+    limit: Joi.number().integer().min(1).max(1000).optional(),
+  }),
+});
@@ -0,0 +1,71 @@
+import Joi from 'joi';
+
+const taxRateIdParams = Joi.object({
+  id: Joi.string().required().messages({
+    'string.empty': 'Tax rate ID is required',
+    'any.required': 'Tax rate ID is required',
+  }),
+});
+
+const taxRateFields = {
+  country_code: Joi.string().length(2).uppercase().messages({
+    'string.empty': 'Country code is required',
+    'string.length': 'Country code must be a 2-letter code',
+  }),
+  region: Joi.string().trim().max(50).allow(null).messages({
+    'string.max': 'Region cannot exceed 50 characters',
+  }),
+  name: Joi.string().trim().max(50).messages({
+    'string.empty': 'Name is required',
+    'string.max': 'Name cannot exceed 50 characters',
+  }),
+  rate: Joi.number().min(0).max(100).precision(2).messages({
+    'number.base': 'Rate must be a number',
+    'number.min': 'Rate cannot be negative',
+    'number.max': 'Rate cannot exceed 100',
+  }),
+  is_inclusive: Joi.boolean(),
+  is_active: Joi.boolean(),
+};
+
+// Create tax rate schema
+export const createTaxRateSchema = Joi.object({
+  body: Joi.object({
+    ...taxRateFields,
+    country_code: taxRateFields.country_code.required().messages({
+      'any.required': 'Country code is required',
+    }),
+    name: taxRateFields.name.required().messages({
+      'any.required': 'Name is required',
+    }),
+    rate: taxRateFields.rate.required().messages({
+      'any.required': 'Rate is required',
+    }),
+  }),
+});
+
+// Update tax rate schema
+export const updateTaxRateSchema = Joi.object({
+  params: taxRateIdParams,
+  body: Joi.object(taxRateFields).min(1).messages({
+    'object.min': 'At least one field must be provided',
+  }),
+});
+
+// Get tax rate by ID schema
+export const getTaxRateSchema = Joi.object({
+  params: taxRateIdParams,
+});
+
+// Delete tax rate schema
+export const deleteTaxRateSchema = getTaxRateSchema;
+
+// List tax rates schema
+export const getTaxRatesSchema = Joi.object({
+  query: Joi.object({
+    page: Joi.number().integer().min(1).optional(),
+    limit: Joi.number().integer().min(1).max(100).optional(),
+    country_code: Joi.string().length(2).optional(),
+    is_active: Joi.boolean().optional(),
+  }),
+});
@@ -23,6 +23,9 @@ export const updateUserSchema = Joi.object({
   body: Joi.object({
     name: Joi.string().min(2).max(100),
     bio: Joi.string().allow("", null),
+    country: Joi.string()
+      .pattern(/^[A-Za-z]{2}$/)
+      .allow("", null),
   }).required(),
   params: Joi.object({
     id: Joi.number().required(),